@@ -0,0 +1,73 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test"
+import { NextRequest } from "next/server"
+import { BROWSER_SESSION_COOKIE, createBrowserSession } from "@/lib/browser-session"
+import { copilotConversationKey, emptyCopilotConversation, recordCopilotTurn } from "@/lib/copilot-memory"
+import { getCopilotConversations } from "@/lib/services/sharedCopilotConversations"
+import { DELETE, GET } from "./route"
+
+const SECRET = "test-secret"
+const savedSecret = process.env.SESSION_SECRET
+
+function conversationRequest(userId: string, cookie?: string, method = "GET") {
+  const headers = cookie ? { cookie: `${BROWSER_SESSION_COOKIE}=${cookie}` } : undefined
+  return new NextRequest(`http://localhost/api/copilot/conversation?userId=${encodeURIComponent(userId)}`, { method, headers })
+}
+
+describe("/api/copilot/conversation", () => {
+  let mine: string
+  let theirs: string
+
+  beforeAll(async () => {
+    process.env.SESSION_SECRET = SECRET
+    ;[mine, theirs] = await Promise.all([createBrowserSession(SECRET), createBrowserSession(SECRET)])
+    const stored = recordCopilotTurn(emptyCopilotConversation("user-1"), "3 bed house in Bondi", "Here are a few.", 1)
+    await getCopilotConversations().save(copilotConversationKey(mine.split(".")[0], "user-1"), stored)
+  })
+
+  afterAll(() => {
+    if (savedSecret === undefined) delete process.env.SESSION_SECRET
+    else process.env.SESSION_SECRET = savedSecret
+  })
+
+  test("returns the conversation kept for this browser session", async () => {
+    const response = await GET(conversationRequest("user-1", mine))
+    expect(response.status).toBe(200)
+    const conversation = await response.json()
+    expect(conversation.userId).toBe("user-1")
+    expect(conversation.messages).toHaveLength(2)
+    expect(conversation.preferences.suburbs).toEqual(["Bondi, NSW"])
+  })
+
+  test("gives another session naming the same user an empty conversation", async () => {
+    const conversation = await (await GET(conversationRequest("user-1", theirs))).json()
+    expect(conversation.messages).toEqual([])
+    expect(conversation.summary).toBeUndefined()
+  })
+
+  test("refuses requests without a valid session cookie", async () => {
+    expect((await GET(conversationRequest("user-1"))).status).toBe(401)
+    expect((await GET(conversationRequest("user-1", `${mine.split(".")[0]}.1.forged`))).status).toBe(401)
+    expect((await DELETE(conversationRequest("user-1", undefined, "DELETE"))).status).toBe(401)
+  })
+
+  test("rejects a malformed user id", async () => {
+    expect((await GET(conversationRequest("../etc/passwd", mine))).status).toBe(400)
+  })
+
+  test("only forgets the conversation of the session asking", async () => {
+    expect((await DELETE(conversationRequest("user-1", theirs, "DELETE"))).status).toBe(204)
+    expect((await (await GET(conversationRequest("user-1", mine))).json()).messages).toHaveLength(2)
+
+    expect((await DELETE(conversationRequest("user-1", mine, "DELETE"))).status).toBe(204)
+    expect((await (await GET(conversationRequest("user-1", mine))).json()).messages).toEqual([])
+  })
+
+  test("is unavailable without SESSION_SECRET", async () => {
+    delete process.env.SESSION_SECRET
+    try {
+      expect((await GET(conversationRequest("user-1", mine))).status).toBe(503)
+    } finally {
+      process.env.SESSION_SECRET = SECRET
+    }
+  })
+})
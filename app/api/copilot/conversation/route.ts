@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server"
+import { BROWSER_SESSION_COOKIE } from "@/lib/browser-session"
+import { emptyCopilotConversation, isCopilotUserId } from "@/lib/copilot-memory"
+import { getCopilotConversations, verifiedCopilotConversationKey } from "@/lib/services/sharedCopilotConversations"
+
+// The JSON-file store needs Node APIs
+export const runtime = "nodejs"
+
+type ConversationTarget = { userId: string; key: string } | { error: NextResponse }
+
+// The user id names whose conversation; the session cookie proves which browser is asking for it
+async function conversationTarget(req: NextRequest): Promise<ConversationTarget> {
+  const userId = req.nextUrl.searchParams.get("userId")
+  if (!isCopilotUserId(userId)) {
+    return { error: NextResponse.json({ error: "Missing or invalid userId" }, { status: 400 }) }
+  }
+  if (!process.env.SESSION_SECRET) {
+    return { error: NextResponse.json({ error: "Saved conversations are not configured" }, { status: 503 }) }
+  }
+
+  const key = await verifiedCopilotConversationKey(req.cookies.get(BROWSER_SESSION_COOKIE)?.value, userId)
+  if (!key) {
+    return { error: NextResponse.json({ error: "Your session has expired. Reload the page." }, { status: 401 }) }
+  }
+  return { userId, key }
+}
+
+export async function GET(req: NextRequest) {
+  const target = await conversationTarget(req)
+  if ("error" in target) return target.error
+
+  try {
+    const conversation = (await getCopilotConversations().get(target.key)) ?? emptyCopilotConversation(target.userId)
+    return NextResponse.json(conversation, { headers: { "Cache-Control": "no-store" } })
+  } catch (error) {
+    console.error("Error loading copilot conversation:", error)
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+  }
+}
+
+// Forgets the conversation and everything learned from it
+export async function DELETE(req: NextRequest) {
+  const target = await conversationTarget(req)
+  if ("error" in target) return target.error
+
+  try {
+    await getCopilotConversations().delete(target.key)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error("Error deleting copilot conversation:", error)
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+  }
+}
@@ -1,21 +1,174 @@
-import { streamText } from "ai"
+import {
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+  jsonSchema,
+  streamText,
+  tool,
+  type ModelMessage,
+  type ToolSet,
+} from "ai"
 import { groq } from "@ai-sdk/groq"
+import type { NextRequest } from "next/server"
+import { BROWSER_SESSION_COOKIE } from "@/lib/browser-session"
+import { COPILOT_ACTION_DEFINITIONS, describeCopilotAction, parseCopilotAction } from "@/lib/copilot-actions"
+import { COPILOT_LISTINGS_PART, toCopilotListingCard } from "@/lib/copilot-context"
+import {
+  MAX_COPILOT_MESSAGES,
+  emptyCopilotConversation,
+  formatCopilotMemory,
+  isCopilotMessage,
+  isCopilotUserId,
+  recordCopilotTurn,
+  type CopilotConversation,
+} from "@/lib/copilot-memory"
+import { getPropertyService } from "@/lib/services/sharedPropertyService"
+import { getCopilotConversations, verifiedCopilotConversationKey } from "@/lib/services/sharedCopilotConversations"
+import {
+  copilotContextListings,
+  formatCopilotContext,
+  retrieveCopilotContext,
+  type CopilotContext,
+} from "@/lib/services/copilotRetrieval"
 
-export async function POST(req: Request) {
+// The conversation store and JSON-file repositories need Node APIs
+export const runtime = "nodejs"
+
+const DEFAULT_COPILOT_MODEL = "llama-3.3-70b-versatile"
+
+// Action tools have no execute: the calls stream to the browser, which carries them out
+const actionTools: ToolSet = Object.fromEntries(
+  COPILOT_ACTION_DEFINITIONS.map((definition) => [
+    definition.type,
+    tool({
+      description: definition.description,
+      inputSchema: jsonSchema<Record<string, unknown>>(
+        definition.parameters as Parameters<typeof jsonSchema>[0],
+        {
+          validate: (value) => {
+            try {
+              parseCopilotAction(definition.type, value)
+              return { success: true, value: value as Record<string, unknown> }
+            } catch (error) {
+              return { success: false, error: error instanceof Error ? error : new Error(String(error)) }
+            }
+          },
+        },
+      ),
+    }),
+  ]),
+)
+
+export async function POST(req: NextRequest) {
+  let body: { messages?: unknown; path?: unknown; userId?: unknown }
   try {
-    const { messages } = await req.json()
+    body = await req.json()
+  } catch {
+    return Response.json({ error: "Request body must be JSON" }, { status: 400 })
+  }
+
+  const { messages, path, userId } = body
+  if (!Array.isArray(messages) || messages.length === 0 || !messages.every(isCopilotMessage)) {
+    return Response.json(
+      { error: "messages must be a non-empty list of { role: 'user' | 'assistant', content } items" },
+      { status: 400 },
+    )
+  }
+  if (messages[messages.length - 1].role !== "user") {
+    return Response.json({ error: "The last message must be from the user" }, { status: 400 })
+  }
+
+  if (userId !== undefined && !isCopilotUserId(userId)) {
+    return Response.json({ error: "Invalid userId" }, { status: 400 })
+  }
+
+  // Signed-in users' history comes from the store, so only their new message is read from the request.
+  // Without a valid session cookie nothing is stored and the request's messages are the whole history.
+  const question = messages[messages.length - 1].content
+  const conversationKey = userId
+    ? await verifiedCopilotConversationKey(req.cookies.get(BROWSER_SESSION_COOKIE)?.value, userId)
+    : undefined
+  let conversation: CopilotConversation | undefined
+  if (userId && conversationKey) {
+    try {
+      conversation = (await getCopilotConversations().get(conversationKey)) ?? emptyCopilotConversation(userId)
+    } catch (error) {
+      console.error("Error loading copilot conversation:", error)
+    }
+  }
+  const recent = conversation
+    ? [...conversation.messages, { role: "user" as const, content: question }].slice(-MAX_COPILOT_MESSAGES)
+    : messages.slice(-MAX_COPILOT_MESSAGES)
+  const memory = conversation && formatCopilotMemory(conversation)
 
-    const result = await streamText({
-      model: groq("llama3-8b-8192"),
-      messages,
-      system: `You are a helpful AI assistant for a real estate platform called OpenHaus.AI. 
+  const currentPath = typeof path === "string" ? path.slice(0, 200) : undefined
+
+  let context: CopilotContext = { pinned: [], matches: [], matchCount: 0 }
+  try {
+    context = await retrieveCopilotContext(getPropertyService(), {
+      query: question,
+      history: recent.slice(0, -1),
+      path: currentPath,
+    })
+  } catch (error) {
+    // Answer without listings rather than not at all; the prompt then says none matched
+    console.error("Error retrieving copilot context:", error)
+  }
+
+  try {
+    const stream = createUIMessageStream({
+      execute: ({ writer }) => {
+        // The cards go first, so citations can render as soon as they stream in
+        writer.write({ type: COPILOT_LISTINGS_PART, data: copilotContextListings(context).map(toCopilotListingCard) })
+
+        const result = streamText({
+          model: groq(process.env.GROQ_COPILOT_MODEL || DEFAULT_COPILOT_MODEL),
+          messages: recent as ModelMessage[],
+          tools: actionTools,
+          system: `You are a helpful AI assistant for a real estate platform called OpenHaus.AI.
       You help users find properties, answer questions about real estate, and provide market insights.
-      Keep responses concise and helpful. Focus on Australian real estate market when relevant.`,
+      Keep responses concise and helpful. Focus on Australian real estate market when relevant.
+      Answer questions about properties and suburbs only from the context below. Never describe a property that is not listed there; if nothing fits, say so and suggest changing the search.
+      Cite every listing you mention by writing its marker, exactly as given, straight after its name, e.g. "A Bondi terrace [listing:prop-12]".
+      When the user asks to go somewhere, search, compare listings or see a tour, call the matching tool and say in one short sentence what you are doing.
+      Only use listing ids from the context below.${currentPath ? `\n      The user is on ${currentPath}.` : ""}${
+        memory ? `\n      Take what you remember into account, but let anything the user says now override it.\n\n${memory}` : ""
+      }
+
+      Context:
+${formatCopilotContext(context)}`,
+          onFinish: async ({ text, toolCalls }) => {
+            if (!conversation || !conversationKey) return
+            // Stored the way the provider shows it: an action on its own is described
+            const actions = toolCalls.flatMap((call) => {
+              try {
+                return [parseCopilotAction(call.toolName, call.input)]
+              } catch {
+                return []
+              }
+            })
+            const answer = text.trim() || actions.map(describeCopilotAction).join(" ")
+            try {
+              const conversations = getCopilotConversations()
+              // Re-read in case another tab finished a turn meanwhile
+              const latest = (await conversations.get(conversationKey)) ?? conversation
+              await conversations.save(conversationKey, recordCopilotTurn(latest, question, answer))
+            } catch (error) {
+              console.error("Error saving copilot conversation:", error)
+            }
+          },
+        })
+
+        writer.merge(result.toUIMessageStream())
+      },
+      onError: (error) => {
+        console.error("Error in copilot stream:", error)
+        return "The copilot couldn't answer that. Please try again."
+      },
     })
 
-    return result.toDataStreamResponse()
+    return createUIMessageStreamResponse({ stream })
   } catch (error) {
     console.error("Error in copilot route:", error)
-    return new Response("Internal Server Error", { status: 500 })
+    return Response.json({ error: "Internal Server Error" }, { status: 500 })
   }
 }
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getPropertyService } from "@/lib/services/sharedPropertyService"
+import type { InspectionRequest } from "@/lib/services/inspectionClient"
+
+// SQLite and JSON-file repositories need Node APIs
+export const runtime = "nodejs"
+
+const MAX_NOTES_LENGTH = 500
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null)
+
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 })
+    }
+
+    const listingId = optionalText(body.listingId)
+    if (!listingId) {
+      return NextResponse.json({ error: "Missing listingId" }, { status: 400 })
+    }
+
+    const notes = optionalText(body.notes)
+    if (notes && notes.length > MAX_NOTES_LENGTH) {
+      return NextResponse.json({ error: `Notes must be at most ${MAX_NOTES_LENGTH} characters` }, { status: 400 })
+    }
+
+    const email = optionalText(body.email)
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return NextResponse.json({ error: "Invalid email" }, { status: 400 })
+    }
+
+    const listing = await getPropertyService().getListing(listingId)
+    if (!listing) {
+      return NextResponse.json({ error: "Listing not found" }, { status: 404 })
+    }
+
+    const agent = listing.agent
+    // Nothing stores or forwards requests yet, so none is reported as made
+    const request: InspectionRequest = {
+      id: crypto.randomUUID(),
+      status: "not_sent",
+      message: agent
+        ? `Inspection requests can't be sent to agents yet. Contact ${agent.name}${agent.agency ? ` at ${agent.agency}` : ""} directly to arrange a viewing.`
+        : "Inspection requests can't be sent to agents yet. Contact the listing's agent directly to arrange a viewing.",
+      listingId,
+      listingTitle: listing.title,
+      agentName: agent?.name,
+      agency: agent?.agency,
+      agentPhone: agent?.phone,
+      agentEmail: agent?.email,
+      preferredTime: optionalText(body.preferredTime),
+      name: optionalText(body.name),
+      email,
+      phone: optionalText(body.phone),
+      notes,
+      createdAt: new Date().toISOString(),
+    }
+
+    return NextResponse.json(request)
+
+  } catch (error) {
+    console.error("Inspection request error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
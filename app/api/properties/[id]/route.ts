@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getPropertyService } from "@/lib/services/sharedPropertyService"
+
+// SQLite and JSON-file repositories need Node APIs
+export const runtime = "nodejs"
+
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const listing = await getPropertyService().getListing(id)
+
+    if (!listing) {
+      return NextResponse.json({ error: "Listing not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(listing)
+
+  } catch (error) {
+    console.error("Listing lookup error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server"
+import { toAustralianSearchParams } from "@/lib/services/AustralianPropertyService"
+import { getPropertyService } from "@/lib/services/sharedPropertyService"
+
+// SQLite and JSON-file repositories need Node APIs
+export const runtime = "nodejs"
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null)
+
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 })
+    }
+
+    const { params = {}, cursor, limit } = body
+
+    if (typeof params !== "object" || params === null || Array.isArray(params)) {
+      return NextResponse.json({ error: "Invalid search parameters" }, { status: 400 })
+    }
+    if (cursor !== undefined && cursor !== null && typeof cursor !== "string") {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 })
+    }
+    if (limit !== undefined && (typeof limit !== "number" || !Number.isFinite(limit) || limit < 1)) {
+      return NextResponse.json({ error: "Invalid limit" }, { status: 400 })
+    }
+
+    const result = await getPropertyService().searchProperties(toAustralianSearchParams(params), {
+      cursor: cursor || undefined,
+      limit,
+    })
+
+    return NextResponse.json(result)
+
+  } catch (error) {
+    console.error("Property search error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server"
+import {
+  DEFAULT_REALTIME_MODEL,
+  buildRealtimeSession,
+  isRealtimeVoice,
+  parseTurnDetection,
+} from "@/lib/services/realtimeSessionConfig"
+import type { RealtimeSessionToken } from "@/lib/services/realtimeSessionClient"
+import { BROWSER_SESSION_COOKIE, verifyBrowserSession } from "@/lib/browser-session"
+import { RateLimiter, clientAddress, type RateLimitResult } from "@/lib/rate-limit"
+
+export const runtime = "edge"
+
+const LANGUAGE_CODE = /^[a-z]{2,3}(?:-[A-Za-z0-9]{2,8})*$/
+
+// Best-effort throttling: the counts are per edge isolate, so the real ceiling
+// is these limits times however many isolates are serving.
+// Reconnects and settings changes each take a token, so a session gets a few a minute
+const sessionLimiter = new RateLimiter({ limit: 6, windowMs: 60_000 })
+// Looser, since a household or office shares one address
+const ipLimiter = new RateLimiter({ limit: 30, windowMs: 60_000 })
+
+function tooManyRequests(limit: RateLimitResult) {
+  const seconds = Math.max(1, Math.ceil(limit.retryAfterMs / 1000))
+  return NextResponse.json(
+    { error: `Too many voice sessions started. Try again in ${seconds} seconds.` },
+    { status: 429, headers: { "Retry-After": String(seconds) } }
+  )
+}
+
+/**
+ * Mints a short-lived client secret for one realtime session. The API key,
+ * instructions and tools stay on the server; the browser only picks a voice,
+ * a language and how turns are detected. Only browsers with a session cookie
+ * (see middleware.ts) get one, and each session and IP address is throttled.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const apiKey = process.env.OPENAI_API_KEY
+    const sessionSecret = process.env.SESSION_SECRET
+    if (!apiKey || !sessionSecret) {
+      return NextResponse.json({ error: "Realtime voice is not configured" }, { status: 503 })
+    }
+
+    const sessionId = await verifyBrowserSession(req.cookies.get(BROWSER_SESSION_COOKIE)?.value, sessionSecret)
+    if (!sessionId) {
+      return NextResponse.json({ error: "Your session has expired. Reload the page to use voice." }, { status: 401 })
+    }
+
+    const limit = [sessionLimiter.take(sessionId), ipLimiter.take(clientAddress(req.headers))].find((result) => !result.allowed)
+    if (limit) {
+      return tooManyRequests(limit)
+    }
+
+    // An empty body takes the default voice and language
+    const body = await req.json().catch(() => null)
+    if (body !== null && (typeof body !== "object" || Array.isArray(body))) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 })
+    }
+    const { voice, language, turnDetection: requestedTurnDetection } = body || {}
+
+    if (voice !== undefined && !isRealtimeVoice(voice)) {
+      return NextResponse.json({ error: "Invalid voice" }, { status: 400 })
+    }
+    if (language !== undefined && (typeof language !== "string" || !LANGUAGE_CODE.test(language))) {
+      return NextResponse.json({ error: "Invalid language" }, { status: 400 })
+    }
+    const turnDetection = requestedTurnDetection === undefined ? undefined : parseTurnDetection(requestedTurnDetection)
+    if (requestedTurnDetection !== undefined && !turnDetection) {
+      return NextResponse.json({ error: "Invalid turnDetection" }, { status: 400 })
+    }
+
+    const model = process.env.OPENAI_REALTIME_MODEL || DEFAULT_REALTIME_MODEL
+    const response = await fetch("https://api.openai.com/v1/realtime/sessions", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(buildRealtimeSession({ voice, language, turnDetection }, model)),
+    })
+
+    if (!response.ok) {
+      console.error("Realtime session request failed:", response.status, await response.text().catch(() => ""))
+      return NextResponse.json({ error: "Could not start a realtime session" }, { status: 502 })
+    }
+
+    const session = await response.json()
+    const token: RealtimeSessionToken = {
+      token: session.client_secret.value,
+      // The API gives seconds since the epoch
+      expiresAt: session.client_secret.expires_at * 1000,
+      model: session.model || model,
+      sessionId: session.id,
+    }
+
+    return NextResponse.json(token, { headers: { "Cache-Control": "no-store" } })
+
+  } catch (error) {
+    console.error("Realtime session error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
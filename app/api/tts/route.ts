@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server"
+import { DEFAULT_SERVER_TTS_VOICE, MAX_TTS_TEXT_LENGTH, isServerTtsVoice } from "@/lib/tts/ServerSpeechEngine"
+import { BROWSER_SESSION_COOKIE, verifyBrowserSession } from "@/lib/browser-session"
+import { RateLimiter, clientAddress, type RateLimitResult } from "@/lib/rate-limit"
+
+export const runtime = "edge"
+
+const DEFAULT_TTS_MODEL = "gpt-4o-mini-tts"
+
+// Best-effort throttling, as for realtime sessions: the counts are per edge isolate.
+// Answers are spoken a sentence per request, so a session gets a few answers' worth a minute
+const sessionLimiter = new RateLimiter({ limit: 60, windowMs: 60_000 })
+// Looser, since a household or office shares one address
+const ipLimiter = new RateLimiter({ limit: 240, windowMs: 60_000 })
+
+function tooManyRequests(limit: RateLimitResult) {
+  const seconds = Math.max(1, Math.ceil(limit.retryAfterMs / 1000))
+  return NextResponse.json(
+    { error: `Too many speech requests. Try again in ${seconds} seconds.` },
+    { status: 429, headers: { "Retry-After": String(seconds) } }
+  )
+}
+
+/**
+ * Synthesises one chunk of a copilot answer as MP3. The browser speaks it a
+ * sentence at a time, so requests stay short. Like realtime sessions, this
+ * spends the server's API key, so only browsers with a session cookie (see
+ * middleware.ts) may use it and each session and IP address is throttled.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const apiKey = process.env.OPENAI_API_KEY
+    const sessionSecret = process.env.SESSION_SECRET
+    if (!apiKey || !sessionSecret) {
+      return NextResponse.json({ error: "Server speech is not configured" }, { status: 503 })
+    }
+
+    const sessionId = await verifyBrowserSession(req.cookies.get(BROWSER_SESSION_COOKIE)?.value, sessionSecret)
+    if (!sessionId) {
+      return NextResponse.json({ error: "Your session has expired. Reload the page to use server speech." }, { status: 401 })
+    }
+
+    const limit = [sessionLimiter.take(sessionId), ipLimiter.take(clientAddress(req.headers))].find((result) => !result.allowed)
+    if (limit) {
+      return tooManyRequests(limit)
+    }
+
+    const body = await req.json().catch(() => null)
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 })
+    }
+    const { text, voice } = body
+
+    if (typeof text !== "string" || !text.trim() || text.length > MAX_TTS_TEXT_LENGTH) {
+      return NextResponse.json({ error: `text must be 1 to ${MAX_TTS_TEXT_LENGTH} characters` }, { status: 400 })
+    }
+    if (voice !== undefined && !isServerTtsVoice(voice)) {
+      return NextResponse.json({ error: "Invalid voice" }, { status: 400 })
+    }
+
+    const response = await fetch("https://api.openai.com/v1/audio/speech", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: process.env.OPENAI_TTS_MODEL || DEFAULT_TTS_MODEL,
+        voice: voice || process.env.OPENAI_TTS_VOICE || DEFAULT_SERVER_TTS_VOICE,
+        input: text.trim(),
+        response_format: "mp3",
+      }),
+    })
+
+    if (!response.ok || !response.body) {
+      console.error("Speech request failed:", response.status, await response.text().catch(() => ""))
+      return NextResponse.json({ error: "Could not synthesise speech" }, { status: 502 })
+    }
+
+    return new NextResponse(response.body, {
+      headers: { "Content-Type": "audio/mpeg", "Cache-Control": "no-store" },
+    })
+
+  } catch (error) {
+    console.error("Speech synthesis error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test"
+import { NextRequest } from "next/server"
+import { parseVoiceQueryLocally } from "@/lib/services/voiceQueryClient"
+import { POST } from "./route"
+
+const ENV_KEYS = ["EXTRACTION_PROVIDER", "OPENAI_API_KEY", "EXTRACTION_RETRIES"] as const
+const savedEnv = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]))
+
+function voiceRequest(body: unknown) {
+  return new NextRequest("http://localhost/api/voice/process", { method: "POST", body: JSON.stringify(body) })
+}
+
+describe("POST /api/voice/process", () => {
+  let consoleError: ReturnType<typeof spyOn>
+
+  beforeEach(() => {
+    process.env.EXTRACTION_PROVIDER = "openai"
+    process.env.OPENAI_API_KEY = "test-key"
+    process.env.EXTRACTION_RETRIES = "0"
+    consoleError = spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    consoleError.mockRestore()
+    ENV_KEYS.forEach((key) => {
+      if (savedEnv[key] === undefined) delete process.env[key]
+      else process.env[key] = savedEnv[key]
+    })
+  })
+
+  test("falls back to the local parser when the provider fails", async () => {
+    const fetchSpy = spyOn(globalThis, "fetch").mockResolvedValue(new Response("unavailable", { status: 503 }))
+    try {
+      const query = "3 bed house under 1.2 mil in Sydney"
+      const currentParams = { bathroomsMin: 2 }
+      const response = await POST(voiceRequest({ query, currentParams }))
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get("X-Extraction-Provider")).toBe("local/rules")
+      expect(await response.json()).toEqual(parseVoiceQueryLocally(query, currentParams))
+      expect(fetchSpy).toHaveBeenCalledTimes(1)
+    } finally {
+      fetchSpy.mockRestore()
+    }
+  })
+
+  test("rejects a missing query before calling the provider", async () => {
+    const fetchSpy = spyOn(globalThis, "fetch")
+    try {
+      const response = await POST(voiceRequest({ currentParams: {} }))
+      expect(response.status).toBe(400)
+      expect(fetchSpy).not.toHaveBeenCalled()
+    } finally {
+      fetchSpy.mockRestore()
+    }
+  })
+})
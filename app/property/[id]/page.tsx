@@ -26,6 +26,7 @@ import { AIPropertyInsights } from "@/components/ai-property-insights"
 import { ContactAgent } from "@/components/contact-agent"
 import { PropertyCard } from "@/components/property-card"
 import { mockProperties } from "@/lib/mock-data"
+import { isListingSaved, saveListing, unsaveListing } from "@/lib/saved-listings"
 
 export default function PropertyPage() {
   const router = useRouter()
@@ -82,9 +83,19 @@ export default function PropertyPage() {
       setSimilarProperties(similar)
     }
 
+    setIsFavorite(isListingSaved(id))
     setLoading(false)
   }, [id])
 
+  const toggleFavorite = () => {
+    if (isFavorite) {
+      unsaveListing(id)
+    } else {
+      saveListing(id)
+    }
+    setIsFavorite(!isFavorite)
+  }
+
   const addToComparison = () => {
     if (!property) return
 
@@ -209,14 +220,14 @@ export default function PropertyPage() {
               <h1 className="text-3xl font-bold md:text-4xl">{property.title}</h1>
               <div className="mt-2 flex items-center text-[#A0A3A7]">
                 <MapPin className="mr-2 h-4 w-4" />
-                <span>{property.address}</span>
+                <span>{property.address.formatted}</span>
               </div>
             </div>
             <div className="mt-4 flex space-x-4 md:mt-0">
               <Button
                 variant="outline"
                 className="flex items-center space-x-2 border-[#2D2F32]"
-                onClick={() => setIsFavorite(!isFavorite)}
+                onClick={toggleFavorite}
               >
                 <Heart className={`h-4 w-4 ${isFavorite ? "fill-red-500 text-red-500" : ""}`} />
                 <span>{isFavorite ? "Saved" : "Save"}</span>
@@ -267,7 +278,7 @@ export default function PropertyPage() {
               <div className="flex items-center">
                 <Square className="mr-2 h-5 w-5 text-[#A0A3A7]" />
                 <span>
-                  <strong>{property.squareFeet.toLocaleString()}</strong> sqm
+                  <strong>{property.buildingSize?.toLocaleString() ?? "N/A"}</strong> sqm
                 </span>
               </div>
             </div>
@@ -392,7 +403,7 @@ export default function PropertyPage() {
                       <PropertyMap
                         latitude={property.latitude}
                         longitude={property.longitude}
-                        address={property.address}
+                        address={property.address.formatted}
                       />
                     </div>
 
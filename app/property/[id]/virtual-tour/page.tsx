@@ -27,7 +27,7 @@ export default function VirtualTourPage({ params }: VirtualTourPageProps) {
     ...property,
     description:
       "This stunning modern home features an open-plan design with premium finishes throughout. The gourmet kitchen boasts stone countertops and stainless steel appliances, while the master suite includes a walk-in wardrobe and ensuite. The outdoor entertaining area overlooks beautifully landscaped gardens.",
-    features: [
+    amenities: [
       "Stone countertops",
       "Stainless steel appliances",
       "Walk-in wardrobe",
@@ -51,7 +51,7 @@ export default function VirtualTourPage({ params }: VirtualTourPageProps) {
       { name: "St Vincent's Primary", rating: 8.8, distance: "0.5km" },
     ],
     marketData: {
-      pricePerSqFt: property.price / property.squareFeet,
+      pricePerSqFt: property.price / (property.buildingSize || 1),
       daysOnMarket: 14,
       priceHistory: [
         { date: "2024-01-15", price: property.price, event: "Listed", change: 0 },
@@ -164,7 +164,7 @@ export default function VirtualTourPage({ params }: VirtualTourPageProps) {
             </Link>
             <div>
               <h1 className="text-white font-bold text-lg">{property.title}</h1>
-              <p className="text-gray-300 text-sm">{property.address}</p>
+              <p className="text-gray-300 text-sm">{property.address.formatted}</p>
             </div>
           </div>
           <div className="flex items-center space-x-2">
@@ -7,6 +7,9 @@ import { VoiceCopilotProvider } from "@/components/voice-copilot/voice-copilot-p
 import { VoiceCopilotButton } from "@/components/voice-copilot/voice-copilot-button"
 import { VoiceCopilotInterface } from "@/components/voice-copilot/voice-copilot-interface"
 import { AuthProvider } from "@/hooks/use-auth"
+import { SearchSessionProvider } from "@/hooks/use-search-session"
+import { SpeechSettingsProvider } from "@/hooks/use-speech-settings"
+import { CopilotActivationProvider } from "@/hooks/use-copilot-activation"
 
 export function Providers({ children }: { children: React.ReactNode }) {
   return (
@@ -18,11 +21,17 @@ export function Providers({ children }: { children: React.ReactNode }) {
       disableTransitionOnChange
     >
       <AuthProvider>
-        <VoiceCopilotProvider>
-          {children}
-          <VoiceCopilotButton />
-          <VoiceCopilotInterface />
-        </VoiceCopilotProvider>
+        <SearchSessionProvider>
+          <SpeechSettingsProvider>
+            <CopilotActivationProvider>
+              <VoiceCopilotProvider>
+                {children}
+                <VoiceCopilotButton />
+                <VoiceCopilotInterface />
+              </VoiceCopilotProvider>
+            </CopilotActivationProvider>
+          </SpeechSettingsProvider>
+        </SearchSessionProvider>
       </AuthProvider>
     </ThemeProvider>
   )
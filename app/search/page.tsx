@@ -2,7 +2,8 @@
 
 import type React from "react"
 
-import { useState, useRef } from "react"
+import { useState, useRef, useEffect } from "react"
+import { useSearchParams } from "next/navigation"
 import { motion, AnimatePresence } from "framer-motion"
 import { Search, Sliders, ArrowLeft, ChevronDown, ChevronUp, Sparkles } from "lucide-react"
 import { Button } from "@/components/ui/button"
@@ -10,13 +11,28 @@ import { Input } from "@/components/ui/input"
 import { Slider } from "@/components/ui/slider"
 import { PropertyCard } from "@/components/property-card"
 import { AIProcessingVisual } from "@/components/ai-processing-visual"
-import { mockProperties } from "@/lib/mock-data"
+import { ParamWarningList } from "@/components/voice-search/ParamWarningList"
+import type { Listing, SearchParams } from "@/lib/types"
+import { searchProperties } from "@/lib/services/propertySearchClient"
+import { processVoiceQuery } from "@/lib/services/voiceQueryClient"
+import type { ParamWarning } from "@/lib/extraction/normalizeExtractedParams"
+import { applySearchChanges } from "@/lib/search-refinement"
+import { facetCount, type PropertySearchFacets } from "@/lib/listing-facets"
+import { parseSearchUrl } from "@/lib/search-url"
 
 export default function SearchPage() {
+  const urlParams = useSearchParams()
   const [searchQuery, setSearchQuery] = useState("")
   const [isProcessing, setIsProcessing] = useState(false)
   const [showResults, setShowResults] = useState(false)
-  const [properties, setProperties] = useState(mockProperties)
+  const [properties, setProperties] = useState<Listing[]>([])
+  const [queryParams, setQueryParams] = useState<SearchParams & { naturalLanguageQuery?: string }>({})
+  const [totalCount, setTotalCount] = useState(0)
+  const [facets, setFacets] = useState<PropertySearchFacets | null>(null)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [searchError, setSearchError] = useState<string | null>(null)
+  const [queryWarnings, setQueryWarnings] = useState<ParamWarning[]>([])
   const [filtersOpen, setFiltersOpen] = useState(false)
   const [priceRange, setPriceRange] = useState([500000, 2000000])
   const [bedrooms, setBedrooms] = useState(2)
@@ -32,17 +48,67 @@ export default function SearchPage() {
     "Renovated terrace in Surry Hills with a courtyard",
   ]
 
-  const handleSearch = (e: React.FormEvent) => {
+  const runSearch = async (params: SearchParams & { naturalLanguageQuery?: string }) => {
+    setSearchError(null)
+    try {
+      const result = await searchProperties(params)
+      setQueryParams(params)
+      setProperties(result.properties)
+      setTotalCount(result.totalCount)
+      setFacets(result.facets)
+      setNextCursor(result.pagination.nextCursor)
+      setShowResults(true)
+    } catch (error) {
+      console.error("Property search error:", error)
+      setSearchError("We couldn't run that search. Please try again.")
+    }
+  }
+
+  // Filters in the URL, e.g. from the copilot, run straight away
+  useEffect(() => {
+    const params = parseSearchUrl(urlParams)
+    if (Object.keys(params).length === 0) return
+    setSearchQuery("")
+    setQueryWarnings([])
+    runSearch(params)
+  }, [urlParams])
+
+  const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!searchQuery.trim()) return
+    const query = searchQuery.trim()
+    if (!query) return
 
     setIsProcessing(true)
 
-    // Simulate AI processing time
-    setTimeout(() => {
-      setIsProcessing(false)
-      setShowResults(true)
-    }, 3000)
+    // Structured extraction is best-effort; the query text is always sent along
+    let extracted: SearchParams = {}
+    let warnings: ParamWarning[] = []
+    try {
+      const result = await processVoiceQuery(query)
+      extracted = applySearchChanges({}, result.changes)
+      warnings = result.warnings
+    } catch (error) {
+      console.error("Query extraction error:", error)
+    }
+    setQueryWarnings(warnings)
+
+    await runSearch({ ...extracted, naturalLanguageQuery: query })
+    setIsProcessing(false)
+  }
+
+  const loadMore = async () => {
+    if (!nextCursor) return
+
+    setIsLoadingMore(true)
+    try {
+      const result = await searchProperties(queryParams, { cursor: nextCursor })
+      setProperties((prev) => [...prev, ...result.properties])
+      setNextCursor(result.pagination.nextCursor)
+    } catch (error) {
+      console.error("Property search error:", error)
+    } finally {
+      setIsLoadingMore(false)
+    }
   }
 
   const resetSearch = () => {
@@ -53,11 +119,15 @@ export default function SearchPage() {
     }
   }
 
-  const applyFilters = () => {
-    // In a real app, this would filter the properties based on the selected criteria
-    // For now, we'll just simulate it by shuffling the properties
-    setProperties([...mockProperties].sort(() => Math.random() - 0.5))
+  const applyFilters = async () => {
     setFiltersOpen(false)
+    await runSearch({
+      ...queryParams,
+      priceMin: priceRange[0],
+      priceMax: priceRange[1],
+      bedroomsMin: bedrooms,
+      bathroomsMin: bathrooms,
+    })
   }
 
   return (
@@ -116,6 +186,7 @@ export default function SearchPage() {
                 <Button type="submit" className="mt-4 w-full py-6" disabled={!searchQuery.trim() || isProcessing}>
                   {isProcessing ? "PROCESSING..." : "SEARCH WITH AI"}
                 </Button>
+                {searchError && <p className="mt-4 text-center text-sm text-red-400">{searchError}</p>}
               </motion.form>
 
               {/* Example queries */}
@@ -169,7 +240,13 @@ export default function SearchPage() {
               <div className="mb-8 flex flex-col justify-between border border-white/5 bg-black/50 p-4 md:flex-row md:items-center">
                 <div>
                   <h2 className="text-xl font-light uppercase tracking-[0.1em]">SEARCH RESULTS</h2>
-                  <p className="mt-1 text-sm text-white/60">Based on: "{searchQuery}"</p>
+                  <p className="mt-1 text-sm text-white/60">
+                    {searchQuery ? `Based on: "${searchQuery}"` : "Based on your filters"}
+                  </p>
+                  <ParamWarningList warnings={queryWarnings} className="mt-2" />
+                  <p className="mt-1 text-xs text-white/40">
+                    {totalCount} {totalCount === 1 ? "property" : "properties"} found
+                  </p>
                 </div>
                 <div className="mt-4 flex items-center md:mt-0">
                   <Button
@@ -196,6 +273,21 @@ export default function SearchPage() {
                     <div className="grid gap-8 md:grid-cols-3">
                       <div>
                         <h3 className="mb-4 font-light uppercase tracking-[0.1em]">PRICE RANGE</h3>
+                        {facets && (
+                          <div className="flex h-10 items-end space-x-1" aria-hidden="true">
+                            {facets.priceBands.map((band) => {
+                              const maxCount = Math.max(...facets.priceBands.map((b) => b.count), 1)
+                              return (
+                                <div
+                                  key={band.value}
+                                  title={`${band.label}: ${band.count}`}
+                                  className="flex-1 bg-white/20"
+                                  style={{ height: `${Math.max((band.count / maxCount) * 100, band.count > 0 ? 8 : 2)}%` }}
+                                />
+                              )
+                            })}
+                          </div>
+                        )}
                         <Slider
                           defaultValue={[priceRange[0], priceRange[1]]}
                           max={3000000}
@@ -212,36 +304,46 @@ export default function SearchPage() {
                       <div>
                         <h3 className="mb-4 font-light uppercase tracking-[0.1em]">BEDROOMS</h3>
                         <div className="flex space-x-2">
-                          {[1, 2, 3, 4, 5].map((num) => (
-                            <Button
-                              key={num}
-                              variant={bedrooms === num ? "default" : "outline"}
-                              className={`flex-1 ${
-                                bedrooms === num ? "bg-white text-black" : "border-white/30 text-white/60"
-                              }`}
-                              onClick={() => setBedrooms(num)}
-                            >
-                              {num}+
-                            </Button>
-                          ))}
+                          {[1, 2, 3, 4, 5].map((num) => {
+                            const count = facetCount(facets?.bedrooms, String(num))
+                            return (
+                              <Button
+                                key={num}
+                                variant={bedrooms === num ? "default" : "outline"}
+                                className={`flex-1 flex-col ${
+                                  bedrooms === num ? "bg-white text-black" : "border-white/30 text-white/60"
+                                }`}
+                                onClick={() => setBedrooms(num)}
+                                disabled={count === 0}
+                              >
+                                <span>{num}+</span>
+                                {count !== undefined && <span className="text-[10px] opacity-60">{count}</span>}
+                              </Button>
+                            )
+                          })}
                         </div>
                       </div>
 
                       <div>
                         <h3 className="mb-4 font-light uppercase tracking-[0.1em]">BATHROOMS</h3>
                         <div className="flex space-x-2">
-                          {[1, 2, 3, 4, 5].map((num) => (
-                            <Button
-                              key={num}
-                              variant={bathrooms === num ? "default" : "outline"}
-                              className={`flex-1 ${
-                                bathrooms === num ? "bg-white text-black" : "border-white/30 text-white/60"
-                              }`}
-                              onClick={() => setBathrooms(num)}
-                            >
-                              {num}+
-                            </Button>
-                          ))}
+                          {[1, 2, 3, 4, 5].map((num) => {
+                            const count = facetCount(facets?.bathrooms, String(num))
+                            return (
+                              <Button
+                                key={num}
+                                variant={bathrooms === num ? "default" : "outline"}
+                                className={`flex-1 flex-col ${
+                                  bathrooms === num ? "bg-white text-black" : "border-white/30 text-white/60"
+                                }`}
+                                onClick={() => setBathrooms(num)}
+                                disabled={count === 0}
+                              >
+                                <span>{num}+</span>
+                                {count !== undefined && <span className="text-[10px] opacity-60">{count}</span>}
+                              </Button>
+                            )
+                          })}
                         </div>
                       </div>
                     </div>
@@ -283,6 +385,18 @@ export default function SearchPage() {
                     <PropertyCard key={property.id} property={property} />
                   ))}
                 </div>
+                {nextCursor && (
+                  <div className="mt-10 flex justify-center">
+                    <Button
+                      variant="outline"
+                      className="uppercase tracking-[0.1em] text-white/60"
+                      onClick={loadMore}
+                      disabled={isLoadingMore}
+                    >
+                      {isLoadingMore ? "LOADING..." : "LOAD MORE"}
+                    </Button>
+                  </div>
+                )}
               </div>
             </motion.section>
           )}
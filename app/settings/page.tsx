@@ -3,12 +3,27 @@
 import { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
 import { motion } from "framer-motion"
-import { CreditCard, LogOut } from "lucide-react"
+import { CreditCard, LogOut, Volume2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
 import { Switch } from "@/components/ui/switch"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useAuth } from "@/hooks/use-auth"
+import { useSpeechSettings } from "@/hooks/use-speech-settings"
+import { useCopilotActivation } from "@/hooks/use-copilot-activation"
+import {
+  COPILOT_LISTEN_TIMEOUTS_MS,
+  hotkeyFromEvent,
+  type CopilotActivationMode,
+} from "@/lib/copilot-activation"
+import { createSpeechEngine } from "@/lib/tts/createSpeechEngine"
+import type { SpeechVoice } from "@/lib/tts/SpeechEngine"
+import { MAX_SPEECH_RATE, MIN_SPEECH_RATE, type SpeechSettingsEngine } from "@/lib/tts/speech-settings"
+
+// Radix selects can't hold an empty value, so the engine's own default gets a name
+const DEFAULT_VOICE = "default"
 
 export default function SettingsPage() {
   const { user, isAuthenticated, isLoading, logout } = useAuth()
@@ -23,6 +38,59 @@ export default function SettingsPage() {
     marketing: false,
   })
 
+  const { settings: speech, update: updateSpeech } = useSpeechSettings()
+  const [voices, setVoices] = useState<SpeechVoice[]>([])
+  const [isTestingVoice, setIsTestingVoice] = useState(false)
+  const { activation, update: updateActivation } = useCopilotActivation()
+  const [isRecordingHotkey, setIsRecordingHotkey] = useState(false)
+
+  // The next key combination pressed becomes the push-to-talk hotkey; Escape keeps the old one
+  useEffect(() => {
+    if (!isRecordingHotkey) return
+    const onKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault()
+      if (event.key === "Escape") {
+        setIsRecordingHotkey(false)
+        return
+      }
+      const hotkey = hotkeyFromEvent(event)
+      if (!hotkey) return
+      updateActivation({ hotkey })
+      setIsRecordingHotkey(false)
+    }
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [isRecordingHotkey, updateActivation])
+
+  useEffect(() => {
+    let cancelled = false
+    createSpeechEngine(speech.engine)
+      .voices()
+      .then((available) => {
+        if (!cancelled) setVoices(available)
+      })
+      .catch(() => {
+        if (!cancelled) setVoices([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [speech.engine])
+
+  const testVoice = async () => {
+    setIsTestingVoice(true)
+    try {
+      await createSpeechEngine(speech.engine).speak("Hi, I'm the HAUS copilot. This is how I'll read my answers.", {
+        voice: speech.voice,
+        rate: speech.rate,
+      })
+    } catch (error) {
+      console.error("Error testing voice:", error)
+    } finally {
+      setIsTestingVoice(false)
+    }
+  }
+
   useEffect(() => {
     // Redirect if not authenticated
     if (!isLoading && !isAuthenticated) {
@@ -52,7 +120,7 @@ export default function SettingsPage() {
         </motion.div>
 
         <Tabs defaultValue="account" className="w-full">
-          <TabsList className="grid w-full grid-cols-4 rounded-none bg-minimal-surface">
+          <TabsList className="grid w-full grid-cols-5 rounded-none bg-minimal-surface">
             <TabsTrigger
               value="account"
               className="rounded-none uppercase tracking-wider data-[state=active]:bg-minimal-card data-[state=active]:text-minimal-accent"
@@ -71,6 +139,12 @@ export default function SettingsPage() {
             >
               Notifications
             </TabsTrigger>
+            <TabsTrigger
+              value="voice"
+              className="rounded-none uppercase tracking-wider data-[state=active]:bg-minimal-card data-[state=active]:text-minimal-accent"
+            >
+              Voice
+            </TabsTrigger>
             <TabsTrigger
               value="billing"
               className="rounded-none uppercase tracking-wider data-[state=active]:bg-minimal-card data-[state=active]:text-minimal-accent"
@@ -343,6 +417,187 @@ export default function SettingsPage() {
             </div>
           </TabsContent>
 
+          <TabsContent value="voice" className="mt-6">
+            <div className="rounded-none border border-minimal-border bg-minimal-card p-6">
+              <div className="mb-6 flex items-center">
+                <div className="mr-4 h-px w-12 bg-minimal-accent"></div>
+                <h2 className="text-xl font-medium uppercase tracking-wider">Copilot Voice</h2>
+              </div>
+
+              <div className="space-y-6">
+                <div className="flex items-center justify-between border-b border-minimal-border pb-4">
+                  <div>
+                    <p className="font-medium">Read Answers Aloud</p>
+                    <p className="text-sm text-minimal-text-secondary">The copilot speaks its answers as they arrive</p>
+                  </div>
+                  <Switch
+                    checked={!speech.muted}
+                    onCheckedChange={(checked) => updateSpeech({ muted: !checked })}
+                    className="data-[state=checked]:bg-minimal-accent"
+                  />
+                </div>
+
+                <div className="grid gap-6 md:grid-cols-2">
+                  <div>
+                    <label className="mb-2 block text-sm uppercase tracking-wider">Speech Engine</label>
+                    <Select
+                      value={speech.engine}
+                      onValueChange={(engine) => updateSpeech({ engine: engine as SpeechSettingsEngine })}
+                      disabled={speech.muted}
+                    >
+                      <SelectTrigger className="rounded-none bg-minimal-surface border-minimal-border focus:border-minimal-accent">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="rounded-none bg-minimal-card border-minimal-border">
+                        <SelectItem value="browser" className="focus:bg-minimal-surface focus:text-minimal-text-primary">
+                          This device (works offline)
+                        </SelectItem>
+                        <SelectItem value="server" className="focus:bg-minimal-surface focus:text-minimal-text-primary">
+                          HAUS voices (online)
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <label className="mb-2 block text-sm uppercase tracking-wider">Voice</label>
+                    <Select
+                      value={speech.voice ?? DEFAULT_VOICE}
+                      onValueChange={(voice) => updateSpeech({ voice: voice === DEFAULT_VOICE ? undefined : voice })}
+                      disabled={speech.muted}
+                    >
+                      <SelectTrigger className="rounded-none bg-minimal-surface border-minimal-border focus:border-minimal-accent">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="rounded-none bg-minimal-card border-minimal-border">
+                        <SelectItem value={DEFAULT_VOICE} className="focus:bg-minimal-surface focus:text-minimal-text-primary">
+                          Default
+                        </SelectItem>
+                        {voices.map((voice) => (
+                          <SelectItem
+                            key={voice.id}
+                            value={voice.id}
+                            className="focus:bg-minimal-surface focus:text-minimal-text-primary"
+                          >
+                            {voice.name}
+                            {voice.lang ? ` (${voice.lang})` : ""}
+                            {voice.local ? " · offline" : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div>
+                  <div className="mb-2 flex items-center justify-between">
+                    <label className="block text-sm uppercase tracking-wider">Speed</label>
+                    <span className="text-sm text-minimal-text-secondary">{speech.rate.toFixed(1)}×</span>
+                  </div>
+                  <Slider
+                    value={[speech.rate]}
+                    min={MIN_SPEECH_RATE}
+                    max={MAX_SPEECH_RATE}
+                    step={0.1}
+                    onValueChange={([rate]) => updateSpeech({ rate })}
+                    disabled={speech.muted}
+                    className="py-4"
+                  />
+                </div>
+
+                <Button
+                  onClick={testVoice}
+                  disabled={speech.muted || isTestingVoice}
+                  className="rounded-none border-minimal-accent bg-transparent text-minimal-accent hover:bg-minimal-accent/10 uppercase tracking-wider"
+                >
+                  <Volume2 className="mr-2 h-4 w-4" />
+                  <span>{isTestingVoice ? "Speaking..." : "Test Voice"}</span>
+                </Button>
+              </div>
+            </div>
+
+            <div className="mt-8 rounded-none border border-minimal-border bg-minimal-card p-6">
+              <div className="mb-6 flex items-center">
+                <div className="mr-4 h-px w-12 bg-minimal-accent"></div>
+                <h2 className="text-xl font-medium uppercase tracking-wider">Copilot Activation</h2>
+              </div>
+
+              <div className="space-y-6">
+                <div>
+                  <label className="mb-2 block text-sm uppercase tracking-wider">Start Listening</label>
+                  <Select
+                    value={activation.mode}
+                    onValueChange={(mode) => updateActivation({ mode: mode as CopilotActivationMode })}
+                  >
+                    <SelectTrigger className="rounded-none bg-minimal-surface border-minimal-border focus:border-minimal-accent">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="rounded-none bg-minimal-card border-minimal-border">
+                      <SelectItem value="click" className="focus:bg-minimal-surface focus:text-minimal-text-primary">
+                        Click to talk
+                      </SelectItem>
+                      <SelectItem value="push-to-talk" className="focus:bg-minimal-surface focus:text-minimal-text-primary">
+                        Push to talk (hold a key)
+                      </SelectItem>
+                      <SelectItem value="wake-word" className="focus:bg-minimal-surface focus:text-minimal-text-primary">
+                        Hands-free (say &quot;Hey Haus&quot;)
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {activation.mode === "wake-word" && (
+                    <p className="mt-2 text-sm text-minimal-text-secondary">
+                      The microphone stays on while HAUS is open. &quot;Hey Haus&quot; is picked out on this device; only
+                      what you say after it is sent.
+                    </p>
+                  )}
+                </div>
+
+                {activation.mode === "push-to-talk" && (
+                  <div className="flex items-center justify-between border-b border-minimal-border pb-4">
+                    <div>
+                      <p className="font-medium">Push-to-Talk Key</p>
+                      <p className="text-sm text-minimal-text-secondary">
+                        Hold it anywhere in HAUS to talk; let go to send
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      onClick={() => setIsRecordingHotkey((recording) => !recording)}
+                      className="rounded-none border-minimal-border uppercase tracking-wider"
+                    >
+                      {isRecordingHotkey ? "Press a key..." : activation.hotkey}
+                    </Button>
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between border-b border-minimal-border pb-4">
+                  <div>
+                    <p className="font-medium">Stop Listening After</p>
+                    <p className="text-sm text-minimal-text-secondary">How long the copilot waits when it hears nothing</p>
+                  </div>
+                  <Select
+                    value={String(activation.listenTimeoutMs)}
+                    onValueChange={(timeout) => updateActivation({ listenTimeoutMs: Number(timeout) })}
+                  >
+                    <SelectTrigger className="w-32 rounded-none bg-minimal-surface border-minimal-border focus:border-minimal-accent">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="rounded-none bg-minimal-card border-minimal-border">
+                      {COPILOT_LISTEN_TIMEOUTS_MS.map((timeout) => (
+                        <SelectItem
+                          key={timeout}
+                          value={String(timeout)}
+                          className="focus:bg-minimal-surface focus:text-minimal-text-primary"
+                        >
+                          {timeout / 1000} seconds
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+          </TabsContent>
+
           <TabsContent value="billing" className="mt-6">
             <div className="rounded-none border border-minimal-border bg-minimal-card p-6">
               <div className="mb-6 flex items-center">
@@ -2,8 +2,8 @@
 
 import type React from "react"
 import { createContext, useContext, useState, useMemo, useCallback, useEffect } from "react"
-import { getProperties } from "@/lib/mock-data" // Assuming Property type is also here or imported
-import type { Property } from "@/lib/mock-data"
+import { getProperties } from "@/lib/mock-data"
+import type { Listing } from "@/lib/types"
 
 type Message = {
   id: string
@@ -37,7 +37,7 @@ export function ConversationProvider({ children }: { children: React.ReactNode }
     setMessages((prevMessages) => [...prevMessages, { id: Date.now().toString(), role, content }])
   }, [])
 
-  const getPropertyDetails = useCallback((propertyId: string): Partial<Property> | null => {
+  const getPropertyDetails = useCallback((propertyId: string): Partial<Listing> | null => {
     const allProperties = getProperties()
     const property = allProperties.find((p) => p.id === propertyId)
     if (!property) return null
@@ -48,7 +48,7 @@ export function ConversationProvider({ children }: { children: React.ReactNode }
       price: property.price,
       bedrooms: property.bedrooms,
       bathrooms: property.bathrooms,
-      squareFeet: property.squareFeet,
+      buildingSize: property.buildingSize,
       // Add other relevant fields
     }
   }, [])
@@ -80,7 +80,7 @@ export function ConversationProvider({ children }: { children: React.ReactNode }
           if (p) {
             aiResponse += `- ${p.title}: Priced at $${p.price?.toLocaleString()}, with ${p.bedrooms} beds and ${
               p.bathrooms
-            } baths, offering ${p.squareFeet} sq ft.\n`
+            } baths, offering ${p.buildingSize ?? "N/A"} sqm.\n`
           }
         })
         if (propertiesToCompare.length > 1) {
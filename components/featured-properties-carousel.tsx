@@ -150,7 +150,7 @@ export default function FeaturedPropertiesCarousel() {
 
                   <div className="flex items-center text-white/70 mb-6">
                     <MapPin className="h-4 w-4 mr-2" />
-                    <p className="text-sm">{featuredProperties[currentIndex].address}</p>
+                    <p className="text-sm">{featuredProperties[currentIndex].address.formatted}</p>
                   </div>
 
                   <div className="grid grid-cols-3 gap-4 mb-8">
@@ -164,13 +164,13 @@ export default function FeaturedPropertiesCarousel() {
                     </div>
                     <div className="flex flex-col items-center border border-white/10 p-3">
                       <Square className="h-5 w-5 mb-2 text-[#D4C1B3]" />
-                      <p className="text-sm text-white/70">{featuredProperties[currentIndex].squareFeet} Sq Ft</p>
+                      <p className="text-sm text-white/70">{featuredProperties[currentIndex].buildingSize ?? "N/A"} sqm</p>
                     </div>
                   </div>
 
                   <div className="mb-8">
                     <p className="text-white/70">
-                      {featuredProperties[currentIndex].tags?.join(" • ") || "Luxury • Modern • Smart Home"}
+                      {(featuredProperties[currentIndex].highlights.length > 0 && featuredProperties[currentIndex].highlights.join(" • ")) || "Luxury • Modern • Smart Home"}
                     </p>
                   </div>
 
@@ -4,12 +4,12 @@ import { useState } from "react"
 import { motion, AnimatePresence } from "framer-motion"
 import { VoiceSearch } from "@/components/voice-search/VoiceSearch"
 import { PropertyCard } from "@/components/voice-search/PropertyCard"
-import { type Property, type SearchParams } from "@/lib/types"
+import { type Listing, type SearchParams } from "@/lib/types"
 import { X, ChevronRight } from "lucide-react"
 
 export function HeroWithVoiceSearch() {
   const [showVoiceSearch, setShowVoiceSearch] = useState(false)
-  const [searchResults, setSearchResults] = useState<Property[]>([])
+  const [searchResults, setSearchResults] = useState<Listing[]>([])
   const [searchParams, setSearchParams] = useState<SearchParams>({})
 
   const handleStartSearch = () => {
@@ -22,7 +22,7 @@ export function HeroWithVoiceSearch() {
     setSearchParams({})
   }
 
-  const handleResults = (results: Property[], params: SearchParams) => {
+  const handleResults = (results: Listing[], params: SearchParams) => {
     setSearchResults(results)
     setShowVoiceSearch(false)
   }
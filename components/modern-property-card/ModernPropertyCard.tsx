@@ -2,12 +2,12 @@
 
 import React, { useState } from 'react'
 import Image from 'next/image'
-import { type Property } from '@/lib/types'
+import { type Listing } from '@/lib/types'
 import { BedIcon, BathIcon, CarIcon, RulerIcon, HeartIcon, MapPinIcon, CalendarIcon, BuildingIcon } from '@/components/voice-search/IconComponents'
 
 interface ModernPropertyCardProps {
-  property: Property
-  onSave?: (property: Property) => void
+  property: Listing
+  onSave?: (property: Listing) => void
   isSaved?: boolean
 }
 
@@ -34,9 +34,9 @@ export function ModernPropertyCard({ property, onSave, isSaved = false }: Modern
     <div className="group relative overflow-hidden rounded-2xl border border-white/10 bg-neutral-900/50 backdrop-blur-sm transition-all duration-300 hover:border-white/20 hover:shadow-xl hover:shadow-black/50">
       {/* Image */}
       <div className="relative aspect-[4/3] overflow-hidden bg-neutral-800">
-        {!imageError && property.imageUrl ? (
+        {!imageError && property.images[0] ? (
           <Image
-            src={property.imageUrl}
+            src={property.images[0]}
             alt={property.title}
             fill
             className="object-cover transition-transform duration-500 group-hover:scale-105"
@@ -88,7 +88,10 @@ export function ModernPropertyCard({ property, onSave, isSaved = false }: Modern
               <h3 className="text-lg font-semibold text-white truncate group-hover:text-blue-400 transition-colors">
                 {property.title}
               </h3>
-              <p className="text-sm text-neutral-400 truncate mt-1">{property.location}</p>
+              <p className="text-sm text-neutral-400 truncate mt-1">{property.address.formatted}</p>
+              {property.distanceKm !== undefined && (
+                <p className="text-xs text-blue-400 mt-0.5">{property.distanceKm} km away</p>
+              )}
             </div>
             <div className="text-right">
               <p className="text-xl font-bold text-white">{formatPrice(property.price)}</p>
@@ -99,45 +102,40 @@ export function ModernPropertyCard({ property, onSave, isSaved = false }: Modern
           </div>
         </div>
 
-        {/* Details */}
-        {property.details && (
-          <p className="text-sm text-neutral-400 mb-4 line-clamp-2">{property.details}</p>
-        )}
-
         {/* Features Grid */}
         <div className="grid grid-cols-4 gap-3 mb-4">
-          {property.bedrooms !== undefined && (
+          {property.bedrooms > 0 && (
             <div className="flex flex-col items-center p-2 bg-neutral-800/50 rounded-lg">
               <BedIcon className="w-4 h-4 text-blue-400 mb-1" />
               <span className="text-xs font-medium text-white">{property.bedrooms}</span>
               <span className="text-[10px] text-neutral-500">Beds</span>
             </div>
           )}
-          {property.bathrooms !== undefined && (
+          {property.bathrooms > 0 && (
             <div className="flex flex-col items-center p-2 bg-neutral-800/50 rounded-lg">
               <BathIcon className="w-4 h-4 text-green-400 mb-1" />
               <span className="text-xs font-medium text-white">{property.bathrooms}</span>
               <span className="text-[10px] text-neutral-500">Baths</span>
             </div>
           )}
-          {property.parking !== undefined && property.parking > 0 && (
+          {property.parking > 0 && (
             <div className="flex flex-col items-center p-2 bg-neutral-800/50 rounded-lg">
               <CarIcon className="w-4 h-4 text-purple-400 mb-1" />
               <span className="text-xs font-medium text-white">{property.parking}</span>
               <span className="text-[10px] text-neutral-500">Parking</span>
             </div>
           )}
-          {property.size && (
+          {property.buildingSize && (
             <div className="flex flex-col items-center p-2 bg-neutral-800/50 rounded-lg">
               <RulerIcon className="w-4 h-4 text-yellow-400 mb-1" />
-              <span className="text-xs font-medium text-white">{property.size}</span>
+              <span className="text-xs font-medium text-white">{property.buildingSize} sqm</span>
               <span className="text-[10px] text-neutral-500">Size</span>
             </div>
           )}
         </div>
 
         {/* Amenities Tags */}
-        {property.amenities && property.amenities.length > 0 && (
+        {property.amenities.length > 0 && (
           <div className="flex flex-wrap gap-2">
             {property.amenities.slice(0, 4).map((amenity, index) => (
               <span
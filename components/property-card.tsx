@@ -3,19 +3,10 @@ import { Heart, Share2, MapPin, Bed, Bath, Square } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardFooter } from "@/components/ui/card"
 import { cn } from "@/lib/utils"
+import type { Listing } from "@/lib/types"
 
 interface PropertyCardProps {
-  property: {
-    id: string
-    title: string
-    address: string
-    price: number
-    bedrooms: number
-    bathrooms: number
-    squareFeet: number
-    images: string[]
-    matchScore?: number
-  }
+  property: Listing
   enhanced?: boolean
   compact?: boolean
 }
@@ -37,7 +28,7 @@ export function PropertyCard({ property, enhanced = false, compact = false }: Pr
               <h3 className="text-sm uppercase tracking-[0.1em] font-light line-clamp-1">{property.title}</h3>
               <div className="mt-1 flex items-center text-xs text-white/60">
                 <MapPin className="mr-1 h-3 w-3" />
-                <span className="line-clamp-1">{property.address}</span>
+                <span className="line-clamp-1">{property.address.formatted}</span>
               </div>
             </div>
             <div className="mt-2 flex justify-between text-xs">
@@ -93,7 +84,7 @@ export function PropertyCard({ property, enhanced = false, compact = false }: Pr
 
         <div className="mt-2 flex items-center text-sm text-white/60">
           <MapPin className="mr-1 h-3 w-3" />
-          <span>{property.address}</span>
+          <span>{property.address.formatted}</span>
         </div>
 
         <div className="mt-4 flex justify-between">
@@ -107,7 +98,7 @@ export function PropertyCard({ property, enhanced = false, compact = false }: Pr
           </div>
           <div className="flex items-center text-sm text-white/70">
             <Square className="mr-1 h-4 w-4" />
-            <span>{property.squareFeet.toLocaleString()} sqm</span>
+            <span>{property.buildingSize ? `${property.buildingSize.toLocaleString()} sqm` : "N/A"}</span>
           </div>
         </div>
       </CardContent>
@@ -1,6 +1,6 @@
 "use client"
 import { useMemo } from "react"
-import type { Property } from "@/lib/mock-data"
+import type { Listing } from "@/lib/types"
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
 import { Switch } from "@/components/ui/switch"
@@ -10,7 +10,7 @@ import Link from "next/link"
 import { validateProperties, getPropertyValue, formatPropertyValue } from "@/lib/property-validation"
 
 type PropertyComparisonTableProps = {
-  properties: Property[]
+  properties: Listing[]
   onRemoveProperty: (id: string) => void
 }
 
@@ -31,7 +31,7 @@ export default function PropertyComparisonTable({ properties, onRemoveProperty }
       price: [],
       bedrooms: [],
       bathrooms: [],
-      squareFeet: [],
+      buildingSize: [],
       yearBuilt: [],
       propertyType: [],
       "features.kitchen": [],
@@ -47,7 +47,7 @@ export default function PropertyComparisonTable({ properties, onRemoveProperty }
       values.price.push(getPropertyValue(property, "price", 0))
       values.bedrooms.push(getPropertyValue(property, "bedrooms", 0))
       values.bathrooms.push(getPropertyValue(property, "bathrooms", 0))
-      values.squareFeet.push(getPropertyValue(property, "squareFeet", 0))
+      values.buildingSize.push(getPropertyValue(property, "buildingSize", 0))
       values.yearBuilt.push(getPropertyValue(property, "yearBuilt", 0))
       values.propertyType.push(getPropertyValue(property, "propertyType", ""))
       values["features.kitchen"].push(getPropertyValue(property, "features.kitchen", ""))
@@ -70,7 +70,7 @@ export default function PropertyComparisonTable({ properties, onRemoveProperty }
     // Calculate better values for each key
     Object.entries(propertyValues).forEach(([key, values]) => {
       // Skip if any value is undefined, null, or not a number for numeric comparisons
-      if (key === "price" || key === "bedrooms" || key === "bathrooms" || key === "squareFeet") {
+      if (key === "price" || key === "bedrooms" || key === "bathrooms" || key === "buildingSize") {
         if (values.some((v) => typeof v !== "number")) return
 
         if (key === "price") {
@@ -78,7 +78,7 @@ export default function PropertyComparisonTable({ properties, onRemoveProperty }
           const minValue = Math.min(...(values as number[]))
           better[key] = minValue
         } else {
-          // For bedrooms, bathrooms, squareFeet, higher is better
+          // For bedrooms, bathrooms, buildingSize, higher is better
           const maxValue = Math.max(...(values as number[]))
           better[key] = maxValue
         }
@@ -150,7 +150,7 @@ export default function PropertyComparisonTable({ properties, onRemoveProperty }
                     {property.title}
                   </Link>
                   <p className="text-xs text-muted-foreground">
-                    {getPropertyValue(property, "location.address", "Address not available")}
+                    {getPropertyValue(property, "address.formatted", "Address not available")}
                   </p>
                 </div>
               </th>
@@ -217,17 +217,17 @@ export default function PropertyComparisonTable({ properties, onRemoveProperty }
             })}
           </tr>
           <tr>
-            <td className="p-3 border-b sticky left-0 bg-background">Square Footage</td>
+            <td className="p-3 border-b sticky left-0 bg-background">Building Size</td>
             {validatedProperties.map((property) => {
-              const squareFeet = getPropertyValue(property, "squareFeet", 0)
-              const isBetter = betterValues.squareFeet === squareFeet
+              const buildingSize = getPropertyValue(property, "buildingSize", 0)
+              const isBetter = betterValues.buildingSize === buildingSize
 
               return (
                 <td
-                  key={`${property.id}-sqft`}
+                  key={`${property.id}-size`}
                   className={cn("p-3 border-b text-center", isBetter && "text-green-600 font-medium")}
                 >
-                  {formatPropertyValue(squareFeet, "area")}
+                  {formatPropertyValue(buildingSize, "area")}
                   {isBetter && <Check className="inline h-4 w-4 ml-1" />}
                 </td>
               )
@@ -20,26 +20,11 @@ import {
 } from "lucide-react"
 import Link from "next/link"
 import { VirtualTourPreview } from "@/components/virtual-tour-preview"
+import type { Listing } from "@/lib/types"
+import { formatPropertyType } from "@/lib/listing-adapters"
 
 interface PropertyDetailModalProps {
-  property: {
-    id: string
-    title: string
-    address: string
-    price: number
-    bedrooms: number
-    bathrooms: number
-    squareFeet: number
-    description?: string
-    yearBuilt?: number
-    lotSize?: string
-    parkingSpaces?: number
-    propertyType?: string
-    images: string[]
-    tags?: string[]
-    features?: string[]
-    matchScore?: number
-  }
+  property: Listing
   isOpen: boolean
   onClose: () => void
 }
@@ -130,7 +115,7 @@ export function PropertyDetailModal({ property, isOpen, onClose }: PropertyDetai
               <DialogTitle className="text-xl uppercase tracking-widest font-light">{property.title}</DialogTitle>
               <DialogDescription className="flex items-center text-white/70">
                 <MapPin className="h-3 w-3 mr-1" />
-                {property.address}
+                {property.address.formatted}
               </DialogDescription>
             </DialogHeader>
 
@@ -162,7 +147,7 @@ export function PropertyDetailModal({ property, isOpen, onClose }: PropertyDetai
                   </div>
                   <div className="flex flex-col items-center border border-white/10 p-3">
                     <Square className="h-5 w-5 mb-2 text-[#D4C1B3]" />
-                    <p className="text-sm text-white/70">{property.squareFeet} Sq Ft</p>
+                    <p className="text-sm text-white/70">{property.buildingSize ?? "N/A"} sqm</p>
                   </div>
                 </div>
 
@@ -177,7 +162,7 @@ export function PropertyDetailModal({ property, isOpen, onClose }: PropertyDetai
                 <div className="mb-6">
                   <h4 className="text-sm uppercase tracking-wider mb-2">Tags</h4>
                   <div className="flex flex-wrap gap-2">
-                    {(property.tags || ["Luxury", "Modern", "Smart Home", "Energy Efficient"]).map((tag, index) => (
+                    {(property.highlights.length > 0 ? property.highlights : ["Luxury", "Modern", "Smart Home", "Energy Efficient"]).map((tag, index) => (
                       <Badge key={index} variant="outline" className="border-white/20 text-white/70">
                         {tag}
                       </Badge>
@@ -189,7 +174,7 @@ export function PropertyDetailModal({ property, isOpen, onClose }: PropertyDetai
               <TabsContent value="features" className="mt-0">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
                   {(
-                    property.features || [
+                    property.amenities.length > 0 ? property.amenities : [
                       "Floor-to-ceiling windows",
                       "Custom Italian kitchen",
                       "Heated floors",
@@ -217,7 +202,7 @@ export function PropertyDetailModal({ property, isOpen, onClose }: PropertyDetai
                       <Home className="h-4 w-4 text-[#D4C1B3]" />
                       <div>
                         <p className="text-xs text-white/50 uppercase">Property Type</p>
-                        <p className="text-sm">{property.propertyType || "Single Family"}</p>
+                        <p className="text-sm">{formatPropertyType(property.propertyType)}</p>
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
@@ -234,14 +219,14 @@ export function PropertyDetailModal({ property, isOpen, onClose }: PropertyDetai
                       <Maximize2 className="h-4 w-4 text-[#D4C1B3]" />
                       <div>
                         <p className="text-xs text-white/50 uppercase">Lot Size</p>
-                        <p className="text-sm">{property.lotSize || "0.25 acres"}</p>
+                        <p className="text-sm">{property.landSize ? `${property.landSize} sqm` : "N/A"}</p>
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
                       <Info className="h-4 w-4 text-[#D4C1B3]" />
                       <div>
                         <p className="text-xs text-white/50 uppercase">Parking</p>
-                        <p className="text-sm">{property.parkingSpaces || "2"} spaces</p>
+                        <p className="text-sm">{property.parking} spaces</p>
                       </div>
                     </div>
                   </div>
@@ -48,87 +48,77 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Progress } from "@/components/ui/progress"
 import { Input } from "@/components/ui/input"
 import { Slider } from "@/components/ui/slider"
+import type { Listing } from "@/lib/types"
+import { formatPropertyType } from "@/lib/listing-adapters"
 
 interface PropertyDetailsOverlayProps {
   isOpen: boolean
   onClose: () => void
-  property: {
-    id: string
-    title: string
-    address: string
-    price: number
-    bedrooms: number
-    bathrooms: number
-    squareFeet: number
-    yearBuilt?: number
-    lotSize?: string
-    propertyType?: string
-    description?: string
-    features?: string[]
-    systems?: {
-      heating?: string
-      cooling?: string
-      parking?: string
-    }
-    neighborhood?: {
-      name?: string
-      walkScore?: number
-      transitScore?: number
-      bikeScore?: number
-    }
-    schools?: Array<{
-      name: string
-      rating: number
-      distance: string
+  property: Listing & PropertyInsights
+}
+
+/**
+ * Enrichment shown alongside a listing; none of it is part of the canonical model
+ */
+interface PropertyInsights {
+  neighborhood?: {
+    name?: string
+    walkScore?: number
+    transitScore?: number
+    bikeScore?: number
+  }
+  schools?: Array<{
+    name: string
+    rating: number
+    distance: string
+  }>
+  marketData?: {
+    pricePerSqFt?: number
+    daysOnMarket?: number
+    priceHistory?: Array<{
+      date: string
+      price: number
+      event: string
+      change?: number
     }>
-    marketData?: {
-      pricePerSqFt?: number
-      daysOnMarket?: number
-      priceHistory?: Array<{
-        date: string
-        price: number
-        event: string
-        change?: number
-      }>
-      comparableProperties?: Array<{
-        address: string
-        price: number
-        sqft: number
-        soldDate: string
-      }>
-      marketTrends?: {
-        averagePriceChange: number
-        medianDaysOnMarket: number
-        inventoryLevel: string
-        priceAppreciation: {
-          "1year": number
-          "3year": number
-          "5year": number
-        }
+    comparableProperties?: Array<{
+      address: string
+      price: number
+      sqft: number
+      soldDate: string
+    }>
+    marketTrends?: {
+      averagePriceChange: number
+      medianDaysOnMarket: number
+      inventoryLevel: string
+      priceAppreciation: {
+        "1year": number
+        "3year": number
+        "5year": number
       }
-      aiPredictions?: {
-        confidenceScore: number
-        methodology: string
-        lastUpdated: string
-        predictions: {
-          [key: string]: {
-            price: number
-            change: number
-            confidence: number
-            factors: string[]
-          }
+    }
+    aiPredictions?: {
+      confidenceScore: number
+      methodology: string
+      lastUpdated: string
+      predictions: {
+        [key: string]: {
+          price: number
+          change: number
+          confidence: number
+          factors: string[]
         }
-        riskFactors: Array<{
-          factor: string
-          impact: string
-          probability: string
-        }>
-        marketDrivers: Array<{
-          driver: string
-          impact: string
-          strength: string
-        }>
       }
+      riskFactors: Array<{
+        factor: string
+        impact: string
+        probability: string
+      }>
+      marketDrivers: Array<{
+        driver: string
+        impact: string
+        strength: string
+      }>
     }
   }
 }
@@ -522,7 +512,7 @@ export function PropertyDetailsOverlay({ isOpen, onClose, property }: PropertyDe
                 <h2 className="text-lg font-bold text-gray-900 truncate">{property.title}</h2>
                 <div className="flex items-center text-sm text-gray-600 mt-1">
                   <MapPin className="h-3 w-3 mr-1" />
-                  <span className="truncate">{property.address}</span>
+                  <span className="truncate">{property.address.formatted}</span>
                 </div>
               </div>
               <Button variant="ghost" size="icon" onClick={onClose} className="shrink-0">
@@ -544,12 +534,12 @@ export function PropertyDetailsOverlay({ isOpen, onClose, property }: PropertyDe
                 </div>
                 <div className="flex items-center">
                   <Square className="h-4 w-4 mr-1" />
-                  <span>{property.squareFeet} sqm</span>
+                  <span>{property.buildingSize ?? "N/A"} sqm</span>
                 </div>
               </div>
-              {property.marketData?.pricePerSqFt && (
+              {property.marketData?.pricePerSqFt && property.buildingSize && (
                 <div className="text-sm text-gray-600 mt-1">
-                  {formatPricePerSqFt(property.price, property.squareFeet)} per sqm
+                  {formatPricePerSqFt(property.price, property.buildingSize)} per sqm
                 </div>
               )}
             </div>
@@ -603,7 +593,7 @@ export function PropertyDetailsOverlay({ isOpen, onClose, property }: PropertyDe
                       <div className="grid grid-cols-2 gap-4 mb-4">
                         <div className="bg-gray-50 rounded-lg p-3">
                           <div className="text-xs text-gray-500 uppercase tracking-wide">Property Type</div>
-                          <div className="font-medium text-gray-900">{property.propertyType || "House"}</div>
+                          <div className="font-medium text-gray-900">{formatPropertyType(property.propertyType)}</div>
                         </div>
                         <div className="bg-gray-50 rounded-lg p-3">
                           <div className="text-xs text-gray-500 uppercase tracking-wide">Year Built</div>
@@ -611,7 +601,7 @@ export function PropertyDetailsOverlay({ isOpen, onClose, property }: PropertyDe
                         </div>
                         <div className="bg-gray-50 rounded-lg p-3">
                           <div className="text-xs text-gray-500 uppercase tracking-wide">Lot Size</div>
-                          <div className="font-medium text-gray-900">{property.lotSize || "500 sqm"}</div>
+                          <div className="font-medium text-gray-900">{property.landSize ? `${property.landSize} sqm` : "N/A"}</div>
                         </div>
                         <div className="bg-gray-50 rounded-lg p-3">
                           <div className="text-xs text-gray-500 uppercase tracking-wide">Days on Market</div>
@@ -1611,19 +1601,19 @@ export function PropertyDetailsOverlay({ isOpen, onClose, property }: PropertyDe
                             {
                               address: "123 Similar St",
                               price: property.price * 0.98,
-                              sqft: property.squareFeet * 0.95,
+                              sqft: (property.buildingSize ?? 0) * 0.95,
                               soldDate: "2024-01-10",
                             },
                             {
                               address: "456 Nearby Ave",
                               price: property.price * 1.05,
-                              sqft: property.squareFeet * 1.1,
+                              sqft: (property.buildingSize ?? 0) * 1.1,
                               soldDate: "2023-12-15",
                             },
                             {
                               address: "789 Close Rd",
                               price: property.price * 0.92,
-                              sqft: property.squareFeet * 0.88,
+                              sqft: (property.buildingSize ?? 0) * 0.88,
                               soldDate: "2023-11-20",
                             },
                           ]) && (
@@ -1639,19 +1629,19 @@ export function PropertyDetailsOverlay({ isOpen, onClose, property }: PropertyDe
                                     {
                                       address: "123 Similar St",
                                       price: property.price * 0.98,
-                                      sqft: property.squareFeet * 0.95,
+                                      sqft: (property.buildingSize ?? 0) * 0.95,
                                       soldDate: "2024-01-10",
                                     },
                                     {
                                       address: "456 Nearby Ave",
                                       price: property.price * 1.05,
-                                      sqft: property.squareFeet * 1.1,
+                                      sqft: (property.buildingSize ?? 0) * 1.1,
                                       soldDate: "2023-12-15",
                                     },
                                     {
                                       address: "789 Close Rd",
                                       price: property.price * 0.92,
-                                      sqft: property.squareFeet * 0.88,
+                                      sqft: (property.buildingSize ?? 0) * 0.88,
                                       soldDate: "2023-11-20",
                                     },
                                   ]
@@ -1674,7 +1664,7 @@ export function PropertyDetailsOverlay({ isOpen, onClose, property }: PropertyDe
                                 <div className="flex items-center justify-between">
                                   <span className="text-sm text-green-700">Average Price/sqm</span>
                                   <span className="font-bold text-green-800">
-                                    {formatPricePerSqFt(property.price, property.squareFeet)}
+                                    {formatPricePerSqFt(property.price, property.buildingSize || 1)}
                                   </span>
                                 </div>
                               </div>
@@ -1815,11 +1805,11 @@ export function PropertyDetailsOverlay({ isOpen, onClose, property }: PropertyDe
                         </div>
                       </div>
 
-                      {property.features && property.features.length > 0 && (
+                      {property.amenities.length > 0 && (
                         <div className="mt-4">
                           <h4 className="font-medium text-gray-900 mb-3">Additional Features</h4>
                           <div className="flex flex-wrap gap-2">
-                            {property.features.map((feature, index) => (
+                            {property.amenities.map((feature, index) => (
                               <Badge key={index} variant="secondary" className="text-xs">
                                 {feature}
                               </Badge>
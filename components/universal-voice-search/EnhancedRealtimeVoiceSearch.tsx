@@ -1,19 +1,24 @@
 "use client"
 
 import React, { useState, useEffect, useRef } from 'react'
-import { type Property } from '@/lib/types'
+import { type Listing, type SearchParams } from '@/lib/types'
 import { MicIcon, XIcon, SettingsIcon, VolumeIcon, SparklesIcon } from '@/components/voice-search/IconComponents'
 import { OpenAIRealtimeService } from '@/lib/services/OpenAIRealtimeService'
-import { AustralianPropertyService } from '@/lib/services/AustralianPropertyService'
+import type { RealtimeVoice } from '@/lib/services/realtimeSessionConfig'
+import { createRealtimeTools, type PropertySearchParams } from '@/lib/services/realtimeTools'
+import { getListing, searchProperties } from '@/lib/services/propertySearchClient'
+import { requestInspection } from '@/lib/services/inspectionClient'
+import { saveListing } from '@/lib/saved-listings'
+import { useSearchSession } from '@/hooks/use-search-session'
 
 interface EnhancedRealtimeVoiceSearchProps {
-  onResults: (results: Property[]) => void
+  onResults: (results: Listing[]) => void
   onClose: () => void
 }
 
-type ConnectionState = "connecting" | "connected" | "listening" | "speaking" | "processing" | "error"
+type ConnectionState = "connecting" | "connected" | "listening" | "speaking" | "processing" | "reconnecting" | "error"
 
-const VOICES = [
+const VOICES: { id: RealtimeVoice; name: string; description: string }[] = [
   { id: 'cedar', name: 'Cedar', description: 'Warm and friendly' },
   { id: 'marin', name: 'Marin', description: 'Professional and clear' },
   { id: 'alloy', name: 'Alloy', description: 'Neutral and balanced' },
@@ -39,25 +44,22 @@ export default function EnhancedRealtimeVoiceSearch({ onResults, onClose }: Enha
   const [transcript, setTranscript] = useState('')
   const [aiResponse, setAiResponse] = useState('')
   const [showSettings, setShowSettings] = useState(false)
-  const [selectedVoice, setSelectedVoice] = useState('cedar')
+  const [selectedVoice, setSelectedVoice] = useState<RealtimeVoice>('cedar')
   const [selectedLanguage, setSelectedLanguage] = useState('en')
   const [audioLevels, setAudioLevels] = useState<number[]>(new Array(12).fill(5))
-  const [apiKey, setApiKey] = useState('')
+  const [reconnectAttempt, setReconnectAttempt] = useState(0)
+  // Set once a session has dropped for good, as opposed to never connecting
+  const [connectionLost, setConnectionLost] = useState(false)
 
   const serviceRef = useRef<OpenAIRealtimeService | null>(null)
-  const propertyServiceRef = useRef<AustralianPropertyService | null>(null)
   const animationRef = useRef<number>()
+  const transcriptRef = useRef('')
+  const { record } = useSearchSession()
 
   useEffect(() => {
-    propertyServiceRef.current = new AustralianPropertyService()
-
-    const storedApiKey = localStorage.getItem('openai_api_key')
-    if (storedApiKey) {
-      setApiKey(storedApiKey)
-      initializeService(storedApiKey)
-    } else {
-      setState('error')
-    }
+    // Keys pasted into earlier versions are no longer used; don't leave them lying around
+    localStorage.removeItem('openai_api_key')
+    initializeService()
 
     return () => {
       if (serviceRef.current) {
@@ -69,17 +71,36 @@ export default function EnhancedRealtimeVoiceSearch({ onResults, onClose }: Enha
     }
   }, [])
 
-  const initializeService = async (key: string) => {
+  const initializeService = async () => {
     try {
       const service = new OpenAIRealtimeService({
-        apiKey: key,
-        voice: selectedVoice as any,
-        language: selectedLanguage
+        voice: selectedVoice,
+        language: selectedLanguage,
+        tools: createRealtimeTools({
+          searchProperties: handlePropertySearch,
+          getListing,
+          saveListing,
+          requestInspection
+        })
       })
 
       serviceRef.current = service
 
       // Set up event handlers
+      service.on('connection_state', (event: any) => {
+        if (event.state === 'reconnecting') {
+          // A restart for new settings has no attempt number
+          setReconnectAttempt(event.attempt ?? 0)
+          setState('reconnecting')
+        } else if (event.state === 'connected') {
+          setConnectionLost(false)
+          if (event.resumed) setState('connected')
+        } else if (event.state === 'failed') {
+          setConnectionLost(service.sessionId !== null)
+          setState('error')
+        }
+      })
+
       service.on('session_ready', () => {
         setState('connected')
         startRecording()
@@ -89,12 +110,18 @@ export default function EnhancedRealtimeVoiceSearch({ onResults, onClose }: Enha
         setState('listening')
       })
 
+      // Talking over the agent stops it; the service has already cut the audio
+      service.on('interrupted', () => {
+        setState('listening')
+      })
+
       service.on('speech_stopped', () => {
         setState('processing')
       })
 
       service.on('transcript_delta', (event: any) => {
         if (event.delta) {
+          transcriptRef.current += event.delta
           setTranscript(prev => prev + event.delta)
         }
       })
@@ -108,11 +135,6 @@ export default function EnhancedRealtimeVoiceSearch({ onResults, onClose }: Enha
         startRecording()
       })
 
-      service.on('property_search_requested', async (event: any) => {
-        const { searchParams } = event
-        await handlePropertySearch(searchParams)
-      })
-
       service.on('error', (error: any) => {
         console.error('Realtime service error:', error)
         setState('error')
@@ -142,34 +164,22 @@ export default function EnhancedRealtimeVoiceSearch({ onResults, onClose }: Enha
     }
   }
 
-  const handlePropertySearch = async (searchParams: any) => {
-    if (!propertyServiceRef.current) return
-
-    try {
-      const result = await propertyServiceRef.current.searchProperties(searchParams)
+  // The service sends a summary of the result back to the model, and reports failures to it
+  const handlePropertySearch = async (searchParams: PropertySearchParams) => {
+    // The model sends the whole search each time, so it is recorded as one revision
+    const { bedrooms, ...rest } = searchParams
+    const params: SearchParams = { ...rest, bedroomsMin: bedrooms }
+    record(params, { source: 'realtime', transcript: transcriptRef.current })
+    transcriptRef.current = ''
 
-      // Send results back to AI
-      if (serviceRef.current) {
-        serviceRef.current.sendFunctionResult(result.properties.length > 0 ? 'success' : 'no_results', {
-          count: result.properties.length,
-          properties: result.properties.slice(0, 5).map(p => ({
-            title: p.title,
-            price: p.price,
-            location: `${p.suburb}, ${p.state}`,
-            bedrooms: p.bedrooms,
-            bathrooms: p.bathrooms
-          }))
-        })
-      }
+    const result = await searchProperties(params)
 
-      // Also update UI
-      setTimeout(() => {
-        onResults(result.properties)
-      }, 1000)
+    // Give the assistant a moment to start describing them before the UI changes
+    setTimeout(() => {
+      onResults(result.properties)
+    }, 1000)
 
-    } catch (error) {
-      console.error('Property search error:', error)
-    }
+    return result
   }
 
   const startAudioVisualization = () => {
@@ -180,10 +190,10 @@ export default function EnhancedRealtimeVoiceSearch({ onResults, onClose }: Enha
     animate()
   }
 
-  const handleVoiceChange = (voiceId: string) => {
+  const handleVoiceChange = (voiceId: RealtimeVoice) => {
     setSelectedVoice(voiceId)
     if (serviceRef.current) {
-      serviceRef.current.changeVoice(voiceId as any)
+      serviceRef.current.changeVoice(voiceId)
     }
   }
 
@@ -194,11 +204,11 @@ export default function EnhancedRealtimeVoiceSearch({ onResults, onClose }: Enha
     }
   }
 
-  const handleApiKeySave = (key: string) => {
-    localStorage.setItem('openai_api_key', key)
-    setApiKey(key)
-    setShowSettings(false)
-    initializeService(key)
+  const handleRetry = async () => {
+    if (serviceRef.current && await serviceRef.current.reconnect()) {
+      setState('connected')
+      startRecording()
+    }
   }
 
   return (
@@ -227,15 +237,27 @@ export default function EnhancedRealtimeVoiceSearch({ onResults, onClose }: Enha
               {state === 'listening' && "Listening..."}
               {state === 'speaking' && "AI is speaking..."}
               {state === 'processing' && "Processing..."}
-              {state === 'error' && "Connection Error"}
+              {state === 'reconnecting' && "Reconnecting..."}
+              {state === 'error' && (connectionLost ? "Connection Lost" : "Connection Error")}
             </h2>
           </div>
           <p className="text-neutral-400">
             {state === 'connected' && "Tell me what you're looking for in a property"}
             {state === 'listening' && "I'm listening to your requirements"}
             {state === 'speaking' && "Hear the AI response"}
-            {state === 'error' && "Please check your API key in settings"}
+            {state === 'reconnecting' && (reconnectAttempt > 0
+              ? `Attempt ${reconnectAttempt}, your conversation will pick up where it left off`
+              : "Your conversation will pick up where it left off")}
+            {state === 'error' && (connectionLost ? "The assistant stopped responding" : "The voice assistant isn't available right now")}
           </p>
+          {state === 'error' && (
+            <button
+              onClick={handleRetry}
+              className="mt-4 px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors font-medium"
+            >
+              Try again
+            </button>
+          )}
         </div>
 
         {/* Audio Visualization */}
@@ -319,23 +341,6 @@ export default function EnhancedRealtimeVoiceSearch({ onResults, onClose }: Enha
               </button>
             </div>
 
-            {/* API Key */}
-            <div className="mb-8">
-              <label className="block text-sm font-medium text-neutral-400 mb-2">
-                OpenAI API Key
-              </label>
-              <input
-                type="password"
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
-                placeholder="sk-..."
-                className="w-full px-4 py-3 bg-neutral-800 border border-white/10 rounded-lg text-white placeholder-neutral-500 focus:outline-none focus:border-blue-400"
-              />
-              <p className="text-xs text-neutral-500 mt-2">
-                Your API key is stored locally in your browser
-              </p>
-            </div>
-
             {/* Voice Selection */}
             <div className="mb-8">
               <label className="block text-sm font-medium text-neutral-400 mb-3">
@@ -381,21 +386,13 @@ export default function EnhancedRealtimeVoiceSearch({ onResults, onClose }: Enha
               </div>
             </div>
 
-            {/* Save Button */}
-            <div className="flex gap-3">
-              <button
-                onClick={() => handleApiKeySave(apiKey)}
-                className="flex-1 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors font-medium"
-              >
-                Save & Connect
-              </button>
-              <button
-                onClick={() => setShowSettings(false)}
-                className="px-6 py-3 bg-neutral-700 hover:bg-neutral-600 text-white rounded-lg transition-colors"
-              >
-                Cancel
-              </button>
-            </div>
+            {/* Voice and language changes start a new session, which picks up the conversation */}
+            <button
+              onClick={() => setShowSettings(false)}
+              className="w-full px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors font-medium"
+            >
+              Done
+            </button>
           </div>
         </div>
       )}
@@ -1,11 +1,18 @@
 "use client"
 
 import React, { useState, useEffect, useRef } from 'react'
-import { type Property, type SearchParams, generateMockResults } from '@/lib/types'
+import { type Listing, type SearchParams } from '@/lib/types'
+import { searchProperties } from '@/lib/services/propertySearchClient'
+import { parseVoiceQueryLocally, processVoiceQuery, type VoiceQueryResult } from '@/lib/services/voiceQueryClient'
+import { extractLocationMentions, shortLocationLabel } from '@/lib/location-resolver'
+import type { ParamWarning } from '@/lib/extraction/normalizeExtractedParams'
+import { applySearchChanges } from '@/lib/search-refinement'
+import { useSearchSession } from '@/hooks/use-search-session'
 import { MicIcon, XIcon, SearchIcon, MapPinIcon, Building2Icon, BedIcon, DollarSignIcon, WavesIcon } from '@/components/voice-search/IconComponents'
+import { ParamWarningList } from '@/components/voice-search/ParamWarningList'
 
 interface EnhancedVoiceSearchProps {
-  onResults: (results: Property[]) => void
+  onResults: (results: Listing[]) => void
   onClose: () => void
 }
 
@@ -25,9 +32,13 @@ export default function EnhancedVoiceSearch({ onResults, onClose }: EnhancedVoic
   const [extractedKeywords, setExtractedKeywords] = useState<ExtractedKeyword[]>([])
   const [isListening, setIsListening] = useState(false)
   const [showConfirm, setShowConfirm] = useState(false)
+  const [warnings, setWarnings] = useState<ParamWarning[]>([])
 
   const recognitionRef = useRef<any>(null)
+  // A search held back so its warnings can be read first; confirming runs it as it stands
+  const reviewedParamsRef = useRef<(SearchParams & { naturalLanguageQuery?: string }) | null>(null)
   const silenceTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const { getParams, record, runCommand } = useSearchSession()
 
   const SpeechRecognition = (typeof window !== "undefined" && ((window as any).SpeechRecognition || (window as any).webkitSpeechRecognition)) || null
 
@@ -39,16 +50,14 @@ export default function EnhancedVoiceSearch({ onResults, onClose }: EnhancedVoic
     const words = text.toLowerCase()
     const now = Date.now()
 
-    const locations = ['sydney', 'melbourne', 'brisbane', 'bondi', 'south yarra', 'surfers paradise', 'paddington', 'fitzroy', 'newtown', 'st kilda', 'manly', 'perth', 'adelaide', 'canberra', 'darwin', 'hobart']
-    locations.forEach(location => {
-      if (words.includes(location)) {
-        keywords.push({
-          id: `location-${location}-${now}`,
-          text: location.charAt(0).toUpperCase() + location.slice(1),
-          type: 'location',
-          confidence: 0.9
-        })
-      }
+    // Tolerates speech-to-text misspellings such as "Surrey Hills"
+    extractLocationMentions(text).forEach(({ location }) => {
+      keywords.push({
+        id: `location-${location.name}-${now}`,
+        text: shortLocationLabel(location),
+        type: 'location',
+        confidence: location.confidence
+      })
     })
 
     const propertyTypes = ['house', 'apartment', 'unit', 'townhouse', 'penthouse', 'villa', 'terrace', 'studio']
@@ -157,8 +166,10 @@ export default function EnhancedVoiceSearch({ onResults, onClose }: EnhancedVoic
       setTranscript(currentFullTranscript)
 
       if (finalTranscriptUpdate) {
-        setFinalTranscript(prev => prev + finalTranscriptUpdate)
         resetSilenceTimer()
+        // "Undo" and "go back to before I added the pool" act on the session rather than joining the query
+        if (runCommand(finalTranscriptUpdate)) return
+        setFinalTranscript(prev => prev + finalTranscriptUpdate)
 
         // Check for confirmation phrase
         if (checkConfirmationPhrase(finalTranscriptUpdate)) {
@@ -209,30 +220,45 @@ export default function EnhancedVoiceSearch({ onResults, onClose }: EnhancedVoic
   }
 
   const processTranscript = async () => {
+    const reviewed = reviewedParamsRef.current
+    reviewedParamsRef.current = null
     setState('processing')
     const textToProcess = finalTranscript.trim()
 
-    if (textToProcess.length < 5) {
+    if (!reviewed && textToProcess.length < 5) {
       onClose()
       return
     }
 
     try {
-      const response = await fetch('/api/voice/process', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ query: textToProcess })
-      })
+      let params = reviewed
+      if (!params) {
+        // Refines the session's search, so criteria from other modes or earlier visits carry over
+        const current = getParams()
+        let result: VoiceQueryResult
+        try {
+          result = await processVoiceQuery(textToProcess, current)
+        } catch (error) {
+          console.error("Error processing transcript, using the local parser:", error)
+          result = parseVoiceQueryLocally(textToProcess, current)
+        }
 
-      const data = await response.json()
-      const params: SearchParams = data
+        const next = applySearchChanges(current, result.changes)
+        params = { ...record(next, { source: 'enhanced', transcript: textToProcess }), naturalLanguageQuery: textToProcess }
+
+        setWarnings(result.warnings)
+        if (result.warnings.length > 0) {
+          reviewedParamsRef.current = params
+          setShowConfirm(true)
+          setState('confirming')
+          return
+        }
+      }
 
       setState('complete')
 
-      setTimeout(() => {
-        const results = generateMockResults(params)
-        onResults(results)
-      }, 800)
+      const result = await searchProperties(params)
+      onResults(result.properties)
 
     } catch (error) {
       console.error("Error processing transcript:", error)
@@ -251,6 +277,8 @@ export default function EnhancedVoiceSearch({ onResults, onClose }: EnhancedVoic
     setFinalTranscript('')
     setTranscript('')
     setExtractedKeywords([])
+    setWarnings([])
+    reviewedParamsRef.current = null
     setShowConfirm(false)
     setState('listening')
     initializeVoiceRecognition()
@@ -351,6 +379,8 @@ export default function EnhancedVoiceSearch({ onResults, onClose }: EnhancedVoic
           </div>
         )}
 
+        <ParamWarningList warnings={warnings} className="w-full max-w-2xl mb-6 justify-center" />
+
         {/* Action Buttons */}
         {state === 'confirming' && (
           <div className="flex items-center gap-4">
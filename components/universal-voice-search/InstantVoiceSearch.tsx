@@ -2,11 +2,19 @@
 
 import React, { useState, useEffect, useRef } from 'react'
 import { GoogleGenerativeAI } from '@google/generative-ai'
-import { type Property, type SearchParams, generateMockResults } from '@/lib/types'
-import { MicIcon, MapPinIcon, Building2Icon, BedIcon, DollarSignIcon, TreesIcon, WavesIcon, CarIcon } from '@/components/voice-search/IconComponents'
+import { type Listing, type SearchParams } from '@/lib/types'
+import { searchProperties } from '@/lib/services/propertySearchClient'
+import { describePriceRange } from '@/lib/query-parser'
+import type { ParamWarning } from '@/lib/extraction/normalizeExtractedParams'
+import { parseVoiceQueryLocally, processVoiceQuery, type VoiceQueryResult } from '@/lib/services/voiceQueryClient'
+import { applySearchChanges } from '@/lib/search-refinement'
+import { parseSessionCommand } from '@/lib/search-session'
+import { useSearchSession } from '@/hooks/use-search-session'
+import { MicIcon, MapPinIcon, Building2Icon, BedIcon, DollarSignIcon, TreesIcon, WavesIcon, CarIcon, UndoIcon, RedoIcon } from '@/components/voice-search/IconComponents'
+import { ParamWarningList } from '@/components/voice-search/ParamWarningList'
 
 interface InstantVoiceSearchProps {
-  onResults: (results: Property[]) => void
+  onResults: (results: Listing[]) => void
   onClose: () => void
 }
 
@@ -23,75 +31,90 @@ export default function InstantVoiceSearch({ onResults, onClose }: InstantVoiceS
   const [liveTranscript, setLiveTranscript] = useState('')
   const [finalTranscript, setFinalTranscript] = useState('')
   const [liveKeywords, setLiveKeywords] = useState<LiveKeyword[]>([])
+  const [warnings, setWarnings] = useState<ParamWarning[]>([])
   const [isListening, setIsListening] = useState(false)
 
   const recognitionRef = useRef<any>(null)
   const silenceTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  // Each finished phrase refines the session's search, one at a time and in the order spoken
+  const refinementRef = useRef<Promise<void>>(Promise.resolve())
+  const refinedRef = useRef(false)
+  const { canUndo, canRedo, getParams, record, undo, redo, runCommand } = useSearchSession()
 
   const SpeechRecognition = (typeof window !== "undefined" && ((window as any).SpeechRecognition || (window as any).webkitSpeechRecognition)) || null
 
-  const extractLiveKeywords = (text: string): LiveKeyword[] => {
-    if (!text.trim()) return []
-
+  const keywordsFor = (params: SearchParams): LiveKeyword[] => {
     const keywords: LiveKeyword[] = []
-    const words = text.toLowerCase()
-    const now = Date.now()
-
-    const locations = ['sydney', 'melbourne', 'brisbane', 'bondi', 'south yarra', 'surfers paradise', 'paddington']
-    locations.forEach(location => {
-      if (words.includes(location)) {
-        keywords.push({
-          id: `location-${location}`,
-          text: location.charAt(0).toUpperCase() + location.slice(1),
-          type: 'location'
-        })
-      }
-    })
 
-    const propertyTypes = ['house', 'apartment', 'unit', 'townhouse', 'penthouse', 'villa']
-    propertyTypes.forEach(type => {
-      if (words.includes(type)) {
-        keywords.push({
-          id: `property-${type}`,
-          text: type.charAt(0).toUpperCase() + type.slice(1),
-          type: 'property_type'
-        })
-      }
-    })
+    if (params.location) {
+      keywords.push({ id: `location-${params.location}`, text: params.location, type: 'location' })
+    }
 
-    const priceRegex = /(\$?\d+k|\$?\d+m)/gi
-    let match
-    while ((match = priceRegex.exec(text)) !== null) {
-      keywords.push({
-        id: `price-${match[1]}`,
-        text: match[1],
-        type: 'price'
-      })
+    if (params.propertyType) {
+      keywords.push({ id: `property-${params.propertyType}`, text: params.propertyType, type: 'property_type' })
     }
 
-    const bedroomRegex = /(\d+)\s*(bed|bedroom)/gi
-    while ((match = bedroomRegex.exec(text)) !== null) {
-      keywords.push({
-        id: `bed-${match[1]}`,
-        text: `${match[1]} Bedroom${parseInt(match[1]) > 1 ? 's' : ''}`,
-        type: 'bedrooms'
-      })
+    const price = describePriceRange(params.priceMin, params.priceMax)
+    if (price) {
+      keywords.push({ id: `price-${price}`, text: price, type: 'price' })
     }
 
-    const amenities = ['pool', 'garage', 'garden', 'balcony', 'gym', 'parking']
-    amenities.forEach(amenity => {
-      if (words.includes(amenity)) {
-        keywords.push({
-          id: `amenity-${amenity}`,
-          text: amenity.charAt(0).toUpperCase() + amenity.slice(1),
-          type: 'amenity'
-        })
-      }
+    if (params.bedroomsMin) {
+      const bedrooms = params.bedroomsMin
+      keywords.push({ id: `bed-${bedrooms}`, text: `${bedrooms} Bedroom${bedrooms > 1 ? 's' : ''}`, type: 'bedrooms' })
+    }
+
+    params.amenities?.forEach(amenity => {
+      keywords.push({ id: `amenity-${amenity}`, text: amenity, type: 'amenity' })
     })
 
     return keywords
   }
 
+  // Runs on every interim transcript, so it previews the refinement with the offline parser rather than the API
+  const previewRefinement = (text: string) => {
+    const current = getParams()
+    if (!text.trim() || parseSessionCommand(text)) {
+      setLiveKeywords(keywordsFor(current))
+      return
+    }
+
+    const { changes, warnings } = parseVoiceQueryLocally(text, current)
+    setLiveKeywords(keywordsFor(applySearchChanges(current, changes)))
+    setWarnings(warnings)
+  }
+
+  const showSearchParams = (params: SearchParams) => {
+    setLiveKeywords(keywordsFor(params))
+  }
+
+  const refineSearch = async (text: string) => {
+    const restored = runCommand(text)
+    if (restored) {
+      showSearchParams(restored)
+      return
+    }
+
+    refinedRef.current = true
+    const current = getParams()
+    let result: VoiceQueryResult
+    try {
+      result = await processVoiceQuery(text, current)
+    } catch (error) {
+      console.error("Error processing phrase, using the local parser:", error)
+      result = parseVoiceQueryLocally(text, current)
+    }
+
+    setWarnings(result.warnings)
+    const next = applySearchChanges(current, result.changes)
+    showSearchParams(record(next, { source: 'instant', transcript: text }))
+  }
+
+  const queueRefinement = (text: string) => {
+    refinementRef.current = refinementRef.current.then(() => refineSearch(text))
+    return refinementRef.current
+  }
+
   const getKeywordIcon = (type: string) => {
     const iconClass = "w-4 h-4 mr-2"
 
@@ -147,14 +170,10 @@ export default function InstantVoiceSearch({ onResults, onClose }: InstantVoiceS
       if (finalTranscriptUpdate) {
         setFinalTranscript(prev => prev + finalTranscriptUpdate)
         resetSilenceTimer()
+        queueRefinement(finalTranscriptUpdate.trim())
       }
 
-      const newKeywords = extractLiveKeywords(currentFullTranscript)
-      setLiveKeywords(prev => {
-        const existing = prev.map(k => k.id)
-        const uniqueNew = newKeywords.filter(k => !existing.includes(k.id))
-        return [...prev, ...uniqueNew]
-      })
+      previewRefinement(interimTranscript)
     }
 
     recognition.onend = () => {
@@ -199,21 +218,15 @@ export default function InstantVoiceSearch({ onResults, onClose }: InstantVoiceS
     }
 
     try {
-      const response = await fetch('/api/voice/process', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ query: textToProcess })
-      })
-
-      const data = await response.json()
-      const params: SearchParams = data
+      await refinementRef.current
+      // Recognition can end before any phrase was marked final
+      if (!refinedRef.current) await queueRefinement(textToProcess)
+      const params = { ...getParams(), naturalLanguageQuery: textToProcess }
 
       setState('complete')
 
-      setTimeout(() => {
-        const results = generateMockResults(params)
-        onResults(results)
-      }, 800)
+      const result = await searchProperties(params)
+      onResults(result.properties)
 
     } catch (error) {
       console.error("Error processing transcript:", error)
@@ -222,6 +235,9 @@ export default function InstantVoiceSearch({ onResults, onClose }: InstantVoiceS
   }
 
   useEffect(() => {
+    // Carry on from the search built in this session, whichever mode built it
+    showSearchParams(getParams())
+
     const timer = setTimeout(() => {
       initializeVoiceRecognition()
     }, 500)
@@ -311,12 +327,31 @@ export default function InstantVoiceSearch({ onResults, onClose }: InstantVoiceS
             </p>
           </div>
         )}
+
+        <ParamWarningList warnings={warnings} className="mt-4 max-w-2xl justify-center" />
+
+        {(canUndo || canRedo) && state === 'listening' && (
+          <div className="mt-4 flex items-center gap-4">
+            {canUndo && (
+              <button onClick={() => showSearchParams(undo())} className="text-sm text-neutral-400 hover:text-white flex items-center gap-1.5 transition-colors">
+                <UndoIcon className="w-4 h-4" />
+                Undo
+              </button>
+            )}
+            {canRedo && (
+              <button onClick={() => showSearchParams(redo())} className="text-sm text-neutral-400 hover:text-white flex items-center gap-1.5 transition-colors">
+                <RedoIcon className="w-4 h-4" />
+                Redo
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
       {state === 'listening' && (
         <div className="absolute bottom-8 left-0 right-0 text-center">
           <p className="text-sm text-neutral-400">
-            Speak naturally. I'll detect keywords as you talk.
+            Speak naturally. I'll detect keywords as you talk. Say "undo" to take back a change.
           </p>
         </div>
       )}
@@ -1,14 +1,14 @@
 "use client"
 
 import React, { useState, useEffect } from 'react'
-import { type Property } from '@/lib/types'
+import { type Listing } from '@/lib/types'
 import { MicIcon, XIcon, SparklesIcon, WavesIcon } from '@/components/voice-search/IconComponents'
 import InstantVoiceSearch from './InstantVoiceSearch'
 import EnhancedVoiceSearch from './EnhancedVoiceSearch'
 import EnhancedRealtimeVoiceSearch from './EnhancedRealtimeVoiceSearch'
 
 interface UniversalVoiceSearchProps {
-  onResults: (results: Property[], params: any) => void
+  onResults: (results: Listing[], params: any) => void
   onClose: () => void
 }
 
@@ -31,7 +31,7 @@ const VOICE_SEARCH_OPTIONS: VoiceSearchOption[] = [
     description: 'Natural voice-to-voice conversations',
     icon: SparklesIcon,
     badge: 'PREMIUM',
-    requirements: 'OpenAI API Key required',
+    requirements: 'Server needs OPENAI_API_KEY and SESSION_SECRET',
     features: [
       'Natural conversation with AI',
       'Real-time voice interaction',
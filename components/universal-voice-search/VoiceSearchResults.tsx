@@ -1,23 +1,65 @@
 "use client"
 
-import React, { useState } from 'react'
-import { type Property, type SearchParams } from '@/lib/types'
+import React, { useMemo, useState } from 'react'
+import { type Listing, type ListingSortOrder, type MatchComponent, type MatchComponentKey, type SearchParams } from '@/lib/types'
+import { LISTING_SORT_ORDERS, MATCH_COMPONENT_LABELS, sortListings } from '@/lib/listing-scoring'
+import { buildFacetsFromListings, type PropertySearchFacets } from '@/lib/listing-facets'
 import { ModernPropertyCard } from '@/components/modern-property-card/ModernPropertyCard'
 import { XIcon, SparklesIcon, TrendingUpIcon, MapPinIcon, LightbulbIcon, FilterIcon } from '@/components/voice-search/IconComponents'
 
 interface VoiceSearchResultsProps {
-  results: Property[]
+  results: Listing[]
   params: SearchParams
+  // Facets from the search response; counted over the returned listings when absent
+  facets?: PropertySearchFacets
+  totalCount?: number
   onClose: () => void
 }
 
 type TabType = 'properties' | 'insights' | 'suggestions'
 
-export default function VoiceSearchResults({ results, params, onClose }: VoiceSearchResultsProps) {
+function MatchBreakdownPanel({ property }: { property: Listing }) {
+  if (property.matchScore === undefined || !property.matchBreakdown) return null
+
+  const components = (Object.entries(property.matchBreakdown) as [MatchComponentKey, MatchComponent | undefined][])
+    .filter((entry): entry is [MatchComponentKey, MatchComponent] => entry[1] !== undefined)
+
+  return (
+    <div className="mt-3 p-4 bg-neutral-800/50 border border-white/10 rounded-xl">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs font-medium text-neutral-300 uppercase tracking-wider">Why it matches</span>
+        <span className="text-sm font-semibold text-blue-400">{property.matchScore}% match</span>
+      </div>
+      <div className="space-y-2">
+        {components.map(([key, component]) => (
+          <div key={key}>
+            <div className="flex items-center justify-between text-xs mb-1">
+              <span className="text-neutral-300">{MATCH_COMPONENT_LABELS[key]}</span>
+              <span className="text-neutral-500">{component.detail}</span>
+            </div>
+            <div className="h-1.5 bg-neutral-700 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-blue-500 to-purple-500"
+                style={{ width: `${Math.round(component.score * 100)}%` }}
+              ></div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default function VoiceSearchResults({ results, params, facets, totalCount, onClose }: VoiceSearchResultsProps) {
   const [activeTab, setActiveTab] = useState<TabType>('properties')
   const [savedProperties, setSavedProperties] = useState<Set<string>>(new Set())
+  const [sortOrder, setSortOrder] = useState<ListingSortOrder>('relevance')
 
-  const handleSaveProperty = (property: Property) => {
+  const sortedResults = useMemo(() => sortListings(results, sortOrder), [results, sortOrder])
+  const resultFacets = useMemo(() => facets ?? buildFacetsFromListings(results), [facets, results])
+  const listingCount = totalCount ?? results.length
+
+  const handleSaveProperty = (property: Listing) => {
     setSavedProperties(prev => {
       const newSet = new Set(prev)
       if (newSet.has(property.id)) {
@@ -50,21 +92,19 @@ export default function VoiceSearchResults({ results, params, onClose }: VoiceSe
       ? results.reduce((sum, p) => sum + p.price, 0) / results.length
       : 0
 
-    const locationCounts = results.reduce((acc, p) => {
-      const loc = p.location
-      acc[loc] = (acc[loc] || 0) + 1
-      return acc
-    }, {} as Record<string, number>)
-
-    const topLocations = Object.entries(locationCounts)
-      .sort((a, b) => b[1] - a[1])
+    const topLocations = resultFacets.suburb
       .slice(0, 3)
-      .map(([loc, count]) => ({ location: loc, count }))
+      .map(bucket => ({ location: bucket.label, count: bucket.count }))
+
+    const topAmenities = resultFacets.amenities
+      .filter(bucket => bucket.count > 0)
+      .slice(0, 8)
 
     return {
       avgPrice,
-      totalListings: results.length,
+      totalListings: listingCount,
       topLocations,
+      topAmenities,
       priceRange: results.length > 0 ? {
         min: Math.min(...results.map(p => p.price)),
         max: Math.max(...results.map(p => p.price))
@@ -75,11 +115,11 @@ export default function VoiceSearchResults({ results, params, onClose }: VoiceSe
   const getSuggestions = () => {
     const suggestions: string[] = []
 
-    if (results.length === 0) {
+    if (listingCount === 0) {
       suggestions.push('Try expanding your search area')
       suggestions.push('Consider increasing your price range')
       suggestions.push('Reduce the number of required amenities')
-    } else if (results.length < 5) {
+    } else if (listingCount < 5) {
       suggestions.push('Try nearby suburbs for more options')
       suggestions.push('Consider removing some filters')
     } else {
@@ -104,7 +144,7 @@ export default function VoiceSearchResults({ results, params, onClose }: VoiceSe
               <div>
                 <h2 className="text-xl font-semibold text-white">Search Results</h2>
                 <p className="text-sm text-neutral-400">
-                  {results.length} properties found {getSearchSummary() && `· ${getSearchSummary()}`}
+                  {listingCount} properties found {getSearchSummary() && `· ${getSearchSummary()}`}
                 </p>
               </div>
             </div>
@@ -126,7 +166,7 @@ export default function VoiceSearchResults({ results, params, onClose }: VoiceSe
                   : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'
               }`}
             >
-              Properties ({results.length})
+              Properties ({listingCount})
             </button>
             <button
               onClick={() => setActiveTab('insights')}
@@ -154,6 +194,21 @@ export default function VoiceSearchResults({ results, params, onClose }: VoiceSe
                 Tips
               </span>
             </button>
+
+            {activeTab === 'properties' && (
+              <label className="ml-auto flex items-center gap-2 text-sm text-neutral-400">
+                <FilterIcon className="w-4 h-4" />
+                <select
+                  value={sortOrder}
+                  onChange={(e) => setSortOrder(e.target.value as ListingSortOrder)}
+                  className="bg-neutral-800 border border-white/10 rounded-lg px-3 py-2 text-neutral-200 focus:outline-none focus:border-blue-500"
+                >
+                  {LISTING_SORT_ORDERS.map(order => (
+                    <option key={order.value} value={order.value}>{order.label}</option>
+                  ))}
+                </select>
+              </label>
+            )}
           </div>
         </div>
       </div>
@@ -163,13 +218,15 @@ export default function VoiceSearchResults({ results, params, onClose }: VoiceSe
         <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6">
           {activeTab === 'properties' && (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {results.map(property => (
-                <ModernPropertyCard
-                  key={property.id}
-                  property={property}
-                  onSave={handleSaveProperty}
-                  isSaved={savedProperties.has(property.id)}
-                />
+              {sortedResults.map(property => (
+                <div key={property.id}>
+                  <ModernPropertyCard
+                    property={property}
+                    onSave={handleSaveProperty}
+                    isSaved={savedProperties.has(property.id)}
+                  />
+                  <MatchBreakdownPanel property={property} />
+                </div>
               ))}
             </div>
           )}
@@ -230,6 +287,28 @@ export default function VoiceSearchResults({ results, params, onClose }: VoiceSe
                   ))}
                 </div>
               </div>
+
+              {/* Popular Amenities */}
+              {insights.topAmenities.length > 0 && (
+                <div className="p-6 bg-neutral-800/50 border border-white/10 rounded-xl">
+                  <div className="flex items-center gap-3 mb-4">
+                    <div className="p-2 bg-purple-500/10 rounded-lg">
+                      <SparklesIcon className="w-5 h-5 text-purple-400" />
+                    </div>
+                    <h3 className="text-lg font-semibold text-white">Popular Amenities</h3>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {insights.topAmenities.map(bucket => (
+                      <span
+                        key={bucket.value}
+                        className="px-3 py-1.5 bg-neutral-700/50 border border-white/10 rounded-full text-sm text-neutral-200"
+                      >
+                        {bucket.label} <span className="text-neutral-400">({bucket.count})</span>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
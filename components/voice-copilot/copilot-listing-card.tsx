@@ -0,0 +1,51 @@
+import Link from "next/link"
+import { MapPin } from "lucide-react"
+import type { CopilotListingCard as CopilotListing } from "@/lib/copilot-context"
+
+interface CopilotListingCardProps {
+  listing: CopilotListing
+  // The citation number used in the answer
+  number: number
+  onOpen?: () => void
+}
+
+export function CopilotListingCard({ listing, number, onOpen }: CopilotListingCardProps) {
+  return (
+    <Link href={`/property/${encodeURIComponent(listing.id)}`} onClick={onOpen}>
+      <div className="flex overflow-hidden border border-white/5 bg-[rgba(0,0,0,0.2)] transition-all duration-300 hover:border-white/15 hover:translate-y-[-2px]">
+        <div className="relative h-20 w-20 flex-shrink-0">
+          <img
+            src={listing.image || "/placeholder.svg?height=80&width=80&query=australian+house+thumbnail"}
+            alt={listing.title}
+            className="h-full w-full object-cover"
+          />
+          <span className="absolute left-1 top-1 flex h-5 w-5 items-center justify-center bg-black/80 text-[10px] text-[#D4C1B3]">
+            {number}
+          </span>
+        </div>
+        <div className="flex flex-1 flex-col justify-between p-3">
+          <div>
+            <h3 className="text-sm uppercase tracking-[0.1em] font-light line-clamp-1">{listing.title}</h3>
+            <div className="mt-1 flex items-center text-xs text-white/60">
+              <MapPin className="mr-1 h-3 w-3" />
+              <span className="line-clamp-1">
+                {listing.suburb}
+                {listing.state ? `, ${listing.state}` : ""}
+              </span>
+            </div>
+          </div>
+          <div className="mt-2 flex justify-between text-xs">
+            <span className="font-light">${listing.price.toLocaleString()}</span>
+            <div className="flex items-center space-x-2 text-white/60">
+              <span>{listing.bedrooms} bd</span>
+              <span>•</span>
+              <span>{listing.bathrooms} ba</span>
+              <span>•</span>
+              <span>{listing.parking} car</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Link>
+  )
+}
@@ -0,0 +1,26 @@
+"use client"
+
+import { motion } from "framer-motion"
+
+interface ListeningTimeoutBarProps {
+  // When listening times out
+  until: number
+  className?: string
+}
+
+// Drains as the listening timeout runs down; restarts whenever the deadline moves
+export function ListeningTimeoutBar({ until, className = "" }: ListeningTimeoutBarProps) {
+  const remaining = Math.max(0, until - Date.now())
+
+  return (
+    <div className={`h-px w-full overflow-hidden bg-white/10 ${className}`}>
+      <motion.div
+        key={until}
+        className="h-full bg-[#D4C1B3]"
+        initial={{ width: "100%" }}
+        animate={{ width: "0%" }}
+        transition={{ duration: remaining / 1000, ease: "linear" }}
+      />
+    </div>
+  )
+}
@@ -1,12 +1,23 @@
 "use client"
 
 import { useVoiceCopilot } from "./voice-copilot-provider"
+import { ListeningTimeoutBar } from "./listening-timeout-bar"
 import { Mic } from "lucide-react"
 import { Button } from "@/components/ui/button"
-import { motion } from "framer-motion"
+import { motion, AnimatePresence } from "framer-motion"
+import { useCopilotActivation } from "@/hooks/use-copilot-activation"
+import { describeActivationMode } from "@/lib/copilot-activation"
 
 export function VoiceCopilotButton() {
-  const { toggleCopilot, voiceState, isStreaming } = useVoiceCopilot()
+  const { toggleCopilot, voiceState, isStreaming, listeningUntil, isWakeWordArmed, isOpen } = useVoiceCopilot()
+  const { activation } = useCopilotActivation()
+  // Hotkey and wake-word users may never look at the button, so it says when it is listening
+  const status =
+    voiceState === "listening"
+      ? "Listening"
+      : isWakeWordArmed || (activation.mode === "push-to-talk" && voiceState === "idle")
+        ? describeActivationMode(activation.mode, activation.hotkey)
+        : undefined
 
   return (
     <motion.div
@@ -15,6 +26,24 @@ export function VoiceCopilotButton() {
       animate={{ scale: 1, opacity: 1 }}
       transition={{ delay: 1, type: "spring" }}
     >
+      <AnimatePresence>
+        {status && !isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: 4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 4 }}
+            className="absolute bottom-16 right-0 whitespace-nowrap border border-white/10 bg-black/90 px-3 py-2 text-[10px] uppercase tracking-[0.15em] text-white/80"
+          >
+            <div className="flex items-center">
+              <span
+                className={`mr-2 h-1.5 w-1.5 rounded-full ${voiceState === "listening" ? "animate-pulse bg-[#D4C1B3]" : "bg-white/40"}`}
+              />
+              {status}
+            </div>
+            {voiceState === "listening" && listeningUntil && <ListeningTimeoutBar until={listeningUntil} className="mt-2" />}
+          </motion.div>
+        )}
+      </AnimatePresence>
       <Button
         onClick={toggleCopilot}
         disabled={voiceState === "processing" || isStreaming}
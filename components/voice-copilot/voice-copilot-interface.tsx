@@ -2,12 +2,19 @@
 
 import type React from "react"
 
-import { useEffect, useRef } from "react"
+import { useEffect, useMemo, useRef } from "react"
 import { motion, AnimatePresence } from "framer-motion"
-import { Mic, MicOff, Send, X, Loader2 } from "lucide-react"
+import { Mic, MicOff, Send, X, Loader2, Trash2, Volume2, VolumeX } from "lucide-react"
 import { useVoiceCopilot } from "./voice-copilot-provider"
+import { CopilotListingCard } from "./copilot-listing-card"
+import { ListeningTimeoutBar } from "./listening-timeout-bar"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import { useSpeechSettings } from "@/hooks/use-speech-settings"
+import { useCopilotActivation } from "@/hooks/use-copilot-activation"
+import { describeActivationMode } from "@/lib/copilot-activation"
+import { citedListings, splitCopilotAnswer } from "@/lib/copilot-context"
+import { describeCopilotPreferences } from "@/lib/copilot-memory"
 
 export function VoiceCopilotInterface() {
   const {
@@ -16,6 +23,10 @@ export function VoiceCopilotInterface() {
     transcript,
     interimTranscript,
     response,
+    listings,
+    history,
+    conversation,
+    clearConversation,
     startListening,
     stopListening,
     toggleCopilot,
@@ -23,7 +34,11 @@ export function VoiceCopilotInterface() {
     manualInput,
     setManualInput,
     isStreaming,
+    listeningUntil,
+    isWakeWordArmed,
   } = useVoiceCopilot()
+  const { activation } = useCopilotActivation()
+  const { settings: speechSettings, setMuted } = useSpeechSettings()
 
   const inputRef = useRef<HTMLInputElement>(null)
   const responseEndRef = useRef<HTMLDivElement>(null)
@@ -60,6 +75,22 @@ export function VoiceCopilotInterface() {
     }
   }
 
+  // Citations become numbers in the text and cards below it
+  const answer = useMemo(() => splitCopilotAnswer(response, listings, isStreaming), [response, listings, isStreaming])
+  const cited = useMemo(() => citedListings(answer), [answer])
+  const remembered = useMemo(() => describeCopilotPreferences(conversation.preferences), [conversation.preferences])
+  // Earlier answers only keep their text; their cards belonged to that turn
+  const earlier = useMemo(
+    () =>
+      history.map((message) => ({
+        ...message,
+        content: splitCopilotAnswer(message.content, [])
+          .map((segment) => (segment.type === "text" ? segment.text : ""))
+          .join(""),
+      })),
+    [history],
+  )
+
   // Combine final and interim transcripts for display
   const displayTranscript = transcript + (interimTranscript ? interimTranscript : "")
 
@@ -83,9 +114,20 @@ export function VoiceCopilotInterface() {
             {/* Header */}
             <div className="mb-6 flex items-center justify-between">
               <h2 className="text-xl font-light uppercase tracking-[0.2em]">HAUS COPILOT</h2>
-              <Button variant="ghost" size="icon" onClick={toggleCopilot}>
-                <X className="h-5 w-5" />
-              </Button>
+              <div className="flex items-center">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setMuted(!speechSettings.muted)}
+                  aria-label={speechSettings.muted ? "Read answers aloud" : "Mute answers"}
+                  aria-pressed={speechSettings.muted}
+                >
+                  {speechSettings.muted ? <VolumeX className="h-5 w-5" /> : <Volume2 className="h-5 w-5" />}
+                </Button>
+                <Button variant="ghost" size="icon" onClick={toggleCopilot}>
+                  <X className="h-5 w-5" />
+                </Button>
+              </div>
             </div>
 
             {/* Voice visualization */}
@@ -129,9 +171,53 @@ export function VoiceCopilotInterface() {
               ) : (
                 <div className="text-center text-white/60">
                   {voiceState === "error" ? "Voice recognition error" : "Ask me anything about HAUS"}
+                  <div className="mt-1 flex items-center justify-center text-[10px] uppercase tracking-[0.15em] text-white/40">
+                    {isWakeWordArmed && <span className="mr-2 h-1.5 w-1.5 animate-pulse rounded-full bg-[#D4C1B3]" />}
+                    {describeActivationMode(activation.mode, activation.hotkey)}
+                  </div>
                 </div>
               )}
             </div>
+            {voiceState === "listening" && listeningUntil && <ListeningTimeoutBar until={listeningUntil} className="-mt-4 mb-6" />}
+
+            {/* What the copilot remembers about the user */}
+            {(remembered.length > 0 || earlier.length > 0) && (
+              <div className="mb-4 flex items-start justify-between gap-4">
+                <div className="flex flex-wrap gap-2">
+                  {remembered.map((phrase) => (
+                    <span key={phrase} className="border border-[#D4C1B3]/20 px-2 py-0.5 text-[10px] uppercase tracking-[0.1em] text-[#D4C1B3]/80">
+                      {phrase}
+                    </span>
+                  ))}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="shrink-0 text-xs text-white/50"
+                  onClick={clearConversation}
+                  disabled={voiceState === "processing" || isStreaming}
+                >
+                  <Trash2 className="mr-1 h-3 w-3" /> FORGET
+                </Button>
+              </div>
+            )}
+
+            {/* Earlier turns */}
+            {earlier.length > 0 && (
+              <div className="mb-4 max-h-40 space-y-2 overflow-y-auto border-b border-white/10 pb-4">
+                {earlier.map((message, index) => (
+                  <p
+                    key={index}
+                    className={`text-xs font-light ${message.role === "user" ? "text-white/50" : "text-white/70"}`}
+                  >
+                    <span className="mr-2 uppercase tracking-[0.1em] text-white/30">
+                      {message.role === "user" ? "You" : "Haus"}
+                    </span>
+                    {message.content}
+                  </p>
+                ))}
+              </div>
+            )}
 
             {/* Transcript with real-time streaming */}
             {displayTranscript && (
@@ -155,7 +241,15 @@ export function VoiceCopilotInterface() {
             {response && (
               <div className="mb-6 max-h-60 overflow-y-auto rounded border border-[#D4C1B3]/20 bg-[#D4C1B3]/5 p-4">
                 <p className="text-sm font-light text-white">
-                  {response}
+                  {answer.map((segment, index) =>
+                    segment.type === "text" ? (
+                      <span key={index}>{segment.text}</span>
+                    ) : (
+                      <sup key={index} className="ml-0.5 text-[10px] text-[#D4C1B3]">
+                        [{segment.number}]
+                      </sup>
+                    ),
+                  )}
                   {isStreaming && (
                     <motion.span
                       animate={{ opacity: [0, 1, 0] }}
@@ -164,6 +258,13 @@ export function VoiceCopilotInterface() {
                     />
                   )}
                 </p>
+                {cited.length > 0 && (
+                  <div className="mt-4 grid gap-2 sm:grid-cols-2">
+                    {cited.map((listing, index) => (
+                      <CopilotListingCard key={listing.id} listing={listing} number={index + 1} onOpen={toggleCopilot} />
+                    ))}
+                  </div>
+                )}
                 <div ref={responseEndRef} />
               </div>
             )}
@@ -212,7 +313,7 @@ export function VoiceCopilotInterface() {
               <div className="flex flex-wrap gap-2">
                 <SuggestionButton text="Show me luxury properties" />
                 <SuggestionButton text="Navigate to my saved homes" />
-                <SuggestionButton text="What's the market trend in New York?" />
+                <SuggestionButton text="What's the market like in Bondi?" />
               </div>
             </div>
           </motion.div>
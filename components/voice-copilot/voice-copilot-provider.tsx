@@ -2,17 +2,67 @@
 
 import type React from "react"
 import { createContext, useContext, useState, useEffect, useRef } from "react"
-import { useRouter } from "next/navigation"
+import { usePathname, useRouter } from "next/navigation"
+import { parseJsonEventStream, uiMessageChunkSchema } from "ai"
 import { useToast } from "@/hooks/use-toast"
+import { useSearchSession } from "@/hooks/use-search-session"
+import { useAuth } from "@/hooks/use-auth"
+import { useSpeechSettings } from "@/hooks/use-speech-settings"
+import { useCopilotActivation } from "@/hooks/use-copilot-activation"
+import {
+  copilotActionPath,
+  describeCopilotAction,
+  parseCopilotAction,
+  type CopilotAction,
+} from "@/lib/copilot-actions"
+import {
+  END_OF_COMMAND_SILENCE_MS,
+  hotkeyNeedsFreeFocus,
+  matchesHotkey,
+  parseHotkey,
+  releasesHotkey,
+  spotWakeWord,
+  type CopilotActivationMode,
+} from "@/lib/copilot-activation"
+import { COPILOT_LISTINGS_PART, isCopilotListingCard, type CopilotListingCard } from "@/lib/copilot-context"
+import {
+  MAX_COPILOT_MESSAGES,
+  emptyCopilotConversation,
+  recordCopilotTurn,
+  type CopilotConversation,
+  type CopilotMessage,
+} from "@/lib/copilot-memory"
+import { clearCopilotConversation, getCopilotConversation } from "@/lib/services/copilotConversationClient"
+import { createSpeechEngine } from "@/lib/tts/createSpeechEngine"
+import { SpeechQueue } from "@/lib/tts/SpeechQueue"
+import { createSentenceChunker } from "@/lib/tts/sentences"
 
 type VoiceState = "idle" | "listening" | "processing" | "speaking" | "error"
 
+// Signed-out conversations are kept for the visit only, under this id
+const GUEST_ID = "guest"
+// Pause before the wake-word spotter picks up again after the recogniser ends a session
+const WAKE_WORD_RESTART_MS = 1000
+
+// Hotkeys without modifiers shouldn't start listening while the user is typing
+function isTextField(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement
+    && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+}
+
 interface VoiceCopilotContextType {
   isOpen: boolean
   voiceState: VoiceState
   transcript: string
   interimTranscript: string
   response: string
+  // Listings the response was grounded on; its citations refer to these
+  listings: CopilotListingCard[]
+  // Turns before the one on screen
+  history: CopilotMessage[]
+  // Stored on the server for signed-in users in this browser and carried into later visits
+  conversation: CopilotConversation
+  clearConversation: () => Promise<void>
   isEnabled: boolean
   toggleCopilot: () => void
   startListening: () => void
@@ -21,6 +71,12 @@ interface VoiceCopilotContextType {
   setManualInput: (text: string) => void
   manualInput: string
   isStreaming: boolean
+  // When listening times out unless something is heard; null when not listening
+  listeningUntil: number | null
+  // Listening for "Hey Haus" in the background
+  isWakeWordArmed: boolean
+  // Cuts the answer being read aloud short
+  stopSpeaking: () => void
 }
 
 const VoiceCopilotContext = createContext<VoiceCopilotContextType | undefined>(undefined)
@@ -31,13 +87,48 @@ export function VoiceCopilotProvider({ children }: { children: React.ReactNode }
   const [transcript, setTranscript] = useState("")
   const [interimTranscript, setInterimTranscript] = useState("")
   const [response, setResponse] = useState("")
+  const [listings, setListings] = useState<CopilotListingCard[]>([])
   const [isEnabled, setIsEnabled] = useState(true)
   const [manualInput, setManualInput] = useState("")
   const [isStreaming, setIsStreaming] = useState(false)
 
   const recognitionRef = useRef<any>(null)
-  const audioRef = useRef<HTMLAudioElement | null>(null)
+  // What the recogniser is listening for: a command, the wake phrase, or nothing
+  const listenModeRef = useRef<"idle" | "command" | "wake">("idle")
+  const recognitionActiveRef = useRef(false)
+  // Results in the current recognition session; a command only reads those from commandFromRef on
+  const resultCountRef = useRef(0)
+  const commandFromRef = useRef(0)
+  // The result the wake phrase was heard in; the command starts after the phrase
+  const wakeResultRef = useRef(-1)
+  const triggerRef = useRef<CopilotActivationMode>("click")
+  const commandTextRef = useRef({ final: "", interim: "" })
+  const listenTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const [listeningUntil, setListeningUntil] = useState<number | null>(null)
+  const [wakeWordBlocked, setWakeWordBlocked] = useState(false)
+  const [isPageVisible, setIsPageVisible] = useState(true)
+  // Recognition and hotkey listeners are bound once; they call the latest render's handlers through this
+  const handlersRef = useRef<{
+    onResult: (event: any) => void
+    onError: (event: any) => void
+    onEnd: () => void
+    onHotkey: (down: boolean) => void
+  } | null>(null)
+  const speechRef = useRef<SpeechQueue | null>(null)
+  // Whether an answer is still arriving, for speech callbacks that outlive a render
+  const streamingRef = useRef(false)
+  const [conversation, setConversation] = useState<CopilotConversation>(() => emptyCopilotConversation(GUEST_ID))
+  const [history, setHistory] = useState<CopilotMessage[]>([])
+  // Mirrors the state for speech callbacks created before the last render
+  const conversationRef = useRef(conversation)
   const router = useRouter()
+  const pathname = usePathname()
+  const { record } = useSearchSession()
+  const { user } = useAuth()
+  const { settings: speechSettings } = useSpeechSettings()
+  const { activation } = useCopilotActivation()
+  const mutedRef = useRef(speechSettings.muted)
+  const userId = user?.id
   const { toast } = useToast()
 
   // Initialize speech recognition
@@ -45,132 +136,407 @@ export function VoiceCopilotProvider({ children }: { children: React.ReactNode }
     if (typeof window !== "undefined" && "webkitSpeechRecognition" in window) {
       // @ts-ignore - webkitSpeechRecognition is not in the types
       const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition
-      recognitionRef.current = new SpeechRecognition()
-      recognitionRef.current.continuous = true
-      recognitionRef.current.interimResults = true
-
-      recognitionRef.current.onresult = (event: any) => {
-        let finalTranscript = ""
-        let interimTranscript = ""
-
-        // Process results, separating final from interim
-        for (let i = event.resultIndex; i < event.results.length; ++i) {
-          if (event.results[i].isFinal) {
-            finalTranscript += event.results[i][0].transcript
-          } else {
-            interimTranscript += event.results[i][0].transcript
-          }
-        }
-
-        // Update state with both types of transcripts
-        if (finalTranscript) {
-          setTranscript((prev) => prev + finalTranscript)
-        }
-        setInterimTranscript(interimTranscript)
-      }
-
-      recognitionRef.current.onerror = (event: any) => {
-        console.error("Speech recognition error", event.error)
-        setVoiceState("error")
-        toast({
-          title: "Voice Recognition Error",
-          description: `Error: ${event.error}. Please try again.`,
-          variant: "destructive",
-        })
-      }
-
-      recognitionRef.current.onend = () => {
-        if (voiceState === "listening") {
-          const finalText = transcript + interimTranscript
-          if (finalText.trim()) {
-            processCopilotCommand(finalText)
-          } else {
-            setVoiceState("idle")
-          }
-          setInterimTranscript("")
-        }
+      const recognition = new SpeechRecognition()
+      recognition.continuous = true
+      recognition.interimResults = true
+      recognition.onresult = (event: any) => handlersRef.current?.onResult(event)
+      recognition.onerror = (event: any) => handlersRef.current?.onError(event)
+      recognition.onend = () => handlersRef.current?.onEnd()
+      recognitionRef.current = recognition
+
+      return () => {
+        recognitionRef.current = null
+        recognition.abort()
       }
     } else {
       setIsEnabled(false)
       console.warn("Speech recognition not supported in this browser")
     }
+  }, [])
 
+  // Push-to-talk listens while the hotkey is held, wherever focus is
+  useEffect(() => {
+    const hotkey = activation.mode === "push-to-talk" ? parseHotkey(activation.hotkey) : undefined
+    if (!hotkey) return
+    let held = false
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat || held || !matchesHotkey(event, hotkey)) return
+      if (hotkeyNeedsFreeFocus(hotkey) && isTextField(event.target)) return
+      event.preventDefault()
+      held = true
+      handlersRef.current?.onHotkey(true)
+    }
+    const release = () => {
+      if (!held) return
+      held = false
+      handlersRef.current?.onHotkey(false)
+    }
+    const onKeyUp = (event: KeyboardEvent) => {
+      if (held && releasesHotkey(event, hotkey)) release()
+    }
+
+    window.addEventListener("keydown", onKeyDown)
+    window.addEventListener("keyup", onKeyUp)
+    // The key can be let go in another window
+    window.addEventListener("blur", release)
     return () => {
-      if (recognitionRef.current) {
-        recognitionRef.current.abort()
-      }
+      window.removeEventListener("keydown", onKeyDown)
+      window.removeEventListener("keyup", onKeyUp)
+      window.removeEventListener("blur", release)
+      release()
     }
-  }, [transcript, interimTranscript, voiceState])
+  }, [activation.mode, activation.hotkey])
 
-  // Initialize audio for speech synthesis
   useEffect(() => {
-    audioRef.current = new Audio()
+    const onVisibilityChange = () => setIsPageVisible(document.visibilityState === "visible")
+    document.addEventListener("visibilitychange", onVisibilityChange)
+    return () => document.removeEventListener("visibilitychange", onVisibilityChange)
+  }, [])
 
-    audioRef.current.onended = () => {
-      setVoiceState("idle")
-    }
+  // A blocked microphone is only retried once the user picks a mode again
+  useEffect(() => {
+    setWakeWordBlocked(false)
+  }, [activation.mode])
 
-    return () => {
-      if (audioRef.current) {
-        audioRef.current.pause()
+  // The spotter rests while a command is handled and answered, so it doesn't hear the copilot's own voice
+  const isWakeWordArmed =
+    activation.mode === "wake-word" &&
+    isEnabled &&
+    !wakeWordBlocked &&
+    isPageVisible &&
+    (voiceState === "idle" || voiceState === "error")
+
+  useEffect(() => {
+    if (isWakeWordArmed) {
+      if (listenModeRef.current === "idle") {
+        listenModeRef.current = "wake"
+        startRecognition()
       }
+    } else if (listenModeRef.current === "wake") {
+      listenModeRef.current = "idle"
+      recognitionRef.current?.abort()
     }
-  }, [])
+  }, [isWakeWordArmed])
 
-  const toggleCopilot = () => {
-    setIsOpen((prev) => !prev)
-    if (!isOpen) {
-      setVoiceState("idle")
-      setTranscript("")
-      setInterimTranscript("")
-      setResponse("")
+  // Answers are read aloud a sentence at a time as they stream in
+  useEffect(() => {
+    const queue = new SpeechQueue(createSpeechEngine(speechSettings.engine), {
+      voice: speechSettings.voice,
+      rate: speechSettings.rate,
+      // The queue can run dry between sentences while the answer is still arriving
+      onIdle: () => {
+        if (!streamingRef.current) setVoiceState((state) => (state === "speaking" ? "idle" : state))
+      },
+      onError: (error) => console.warn("Error reading the copilot answer aloud:", error),
+    })
+    speechRef.current = queue
+
+    return () => {
+      queue.stop()
+      if (speechRef.current === queue) speechRef.current = null
+      if (!streamingRef.current) setVoiceState((state) => (state === "speaking" ? "idle" : state))
     }
+  }, [speechSettings.engine, speechSettings.voice, speechSettings.rate])
+
+  const speak = (chunks: string[]) => {
+    if (mutedRef.current) return
+    chunks.forEach((chunk) => speechRef.current?.enqueue(chunk))
   }
 
-  const startListening = () => {
-    if (!isEnabled) {
+  const stopSpeaking = () => {
+    speechRef.current?.stop()
+    if (!streamingRef.current) setVoiceState((state) => (state === "speaking" ? "idle" : state))
+  }
+
+  useEffect(() => {
+    mutedRef.current = speechSettings.muted
+    if (speechSettings.muted) stopSpeaking()
+  }, [speechSettings.muted])
+
+  const updateConversation = (next: CopilotConversation) => {
+    conversationRef.current = next
+    setConversation(next)
+  }
+
+  // Each user has their own conversation; signing out starts a fresh one
+  useEffect(() => {
+    updateConversation(emptyCopilotConversation(userId ?? GUEST_ID))
+    setHistory([])
+    if (!userId) return
+
+    const controller = new AbortController()
+    getCopilotConversation(userId, controller.signal)
+      .then((stored) => {
+        updateConversation(stored)
+        setHistory(stored.messages)
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) console.error("Error loading copilot conversation:", error)
+      })
+    return () => controller.abort()
+  }, [userId])
+
+  const clearConversation = async () => {
+    const current = conversationRef.current
+    stopSpeaking()
+    updateConversation(emptyCopilotConversation(current.userId))
+    setHistory([])
+    setResponse("")
+    setListings([])
+    if (current.userId === GUEST_ID) return
+
+    try {
+      await clearCopilotConversation(current.userId)
+    } catch (error) {
+      console.error("Error clearing copilot conversation:", error)
       toast({
-        title: "Voice Recognition Not Supported",
-        description: "Your browser doesn't support voice recognition. Please use the text input instead.",
+        title: "Couldn't clear the conversation",
+        description: error instanceof Error ? error.message : "Please try again.",
         variant: "destructive",
       })
+    }
+  }
+
+  const openCopilot = () => {
+    setIsOpen(true)
+    setResponse("")
+    setListings([])
+    // The last answer moves into the history rather than disappearing
+    setHistory(conversationRef.current.messages)
+  }
+
+  const toggleCopilot = () => {
+    stopSpeaking()
+    if (isOpen) {
+      setIsOpen(false)
+      cancelListening()
       return
     }
+    openCopilot()
+    setVoiceState("idle")
+    setTranscript("")
+    setInterimTranscript("")
+  }
+
+  const runCopilotAction = (action: CopilotAction, transcript: string) => {
+    if (action.type === "apply_search_filters") {
+      record(action.filters, { source: "copilot", transcript })
+    } else if (action.type === "start_compare") {
+      // The same list the property page's compare button keeps
+      localStorage.setItem("comparisonIds", JSON.stringify(action.listingIds))
+    }
+    router.push(copilotActionPath(action))
+  }
+
+  const clearListenTimeout = () => {
+    if (listenTimeoutRef.current) clearTimeout(listenTimeoutRef.current)
+    listenTimeoutRef.current = null
+    setListeningUntil(null)
+  }
+
+  // Listening stops by itself after `ms` unless something is heard first
+  const armListenTimeout = (ms: number) => {
+    if (listenTimeoutRef.current) clearTimeout(listenTimeoutRef.current)
+    listenTimeoutRef.current = setTimeout(() => stopListening(), ms)
+    setListeningUntil(Date.now() + ms)
+  }
 
+  const startRecognition = () => {
+    const recognition = recognitionRef.current
+    if (!recognition || recognitionActiveRef.current) return
+
+    try {
+      recognition.start()
+      recognitionActiveRef.current = true
+    } catch (error) {
+      console.error("Error starting speech recognition", error)
+    }
+  }
+
+  /**
+   * Starts listening for a command. When the recogniser is already running for
+   * the wake word, the command is read from result `fromResult` on.
+   */
+  const beginCommand = (trigger: CopilotActivationMode, fromResult = resultCountRef.current, wakeResult = -1) => {
+    // The user talking over the answer means they've heard enough
+    stopSpeaking()
+    // Hotkey and wake-word commands can start with the copilot closed; opening it shows they're being heard
+    if (!isOpen) openCopilot()
+
+    triggerRef.current = trigger
+    listenModeRef.current = "command"
+    commandFromRef.current = fromResult
+    wakeResultRef.current = wakeResult
+    commandTextRef.current = { final: "", interim: "" }
     setVoiceState("listening")
     setTranscript("")
     setInterimTranscript("")
+    armListenTimeout(activation.listenTimeoutMs)
+    startRecognition()
+  }
 
-    if (recognitionRef.current) {
-      try {
-        recognitionRef.current.start()
-      } catch (error) {
-        console.error("Error starting speech recognition", error)
-      }
+  const finishCommand = () => {
+    clearListenTimeout()
+    listenModeRef.current = "idle"
+    const { final, interim } = commandTextRef.current
+    const text = (final + interim).trim()
+    commandTextRef.current = { final: "", interim: "" }
+
+    setInterimTranscript("")
+    if (text) {
+      setTranscript(text)
+      processCopilotCommand(text)
+    } else {
+      setVoiceState("idle")
+    }
+  }
+
+  // Drops the command without sending it
+  const cancelListening = () => {
+    if (listenModeRef.current !== "command") return
+    clearListenTimeout()
+    listenModeRef.current = "idle"
+    commandTextRef.current = { final: "", interim: "" }
+    recognitionRef.current?.abort()
+    setInterimTranscript("")
+    setVoiceState("idle")
+  }
+
+  const warnNotSupported = () => {
+    toast({
+      title: "Voice Recognition Not Supported",
+      description: "Your browser doesn't support voice recognition. Please use the text input instead.",
+      variant: "destructive",
+    })
+  }
+
+  const startListening = () => {
+    if (!isEnabled) {
+      warnNotSupported()
+      return
     }
+    beginCommand("click")
   }
 
+  // The command is sent once the recogniser has delivered its last results
   const stopListening = () => {
-    if (recognitionRef.current) {
-      recognitionRef.current.stop()
+    if (listenModeRef.current !== "command") return
+    if (recognitionActiveRef.current) {
+      recognitionRef.current?.stop()
+    } else {
+      finishCommand()
     }
   }
 
+  handlersRef.current = {
+    onResult: (event: any) => {
+      const results = Array.from(event.results as ArrayLike<any>)
+      resultCountRef.current = results.length
+
+      if (listenModeRef.current === "wake") {
+        for (let i = event.resultIndex; i < results.length; i++) {
+          if (spotWakeWord(results[i][0].transcript)) {
+            beginCommand("wake-word", i, i)
+            break
+          }
+        }
+      }
+      if (listenModeRef.current !== "command") return
+
+      // Rebuilt from the results each time, since interim results are revised in place
+      let final = ""
+      let interim = ""
+      for (let i = commandFromRef.current; i < results.length; i++) {
+        let text: string = results[i][0].transcript
+        if (i === wakeResultRef.current) text = spotWakeWord(text)?.command ?? text
+        if (results[i].isFinal) {
+          final += text
+        } else {
+          interim += text
+        }
+      }
+      commandTextRef.current = { final, interim }
+      setTranscript(final)
+      setInterimTranscript(interim)
+
+      // Hands-free commands end at the first pause; the others when the user says so or goes quiet
+      const heard = (final + interim).trim() !== ""
+      armListenTimeout(heard && triggerRef.current === "wake-word" ? END_OF_COMMAND_SILENCE_MS : activation.listenTimeoutMs)
+    },
+
+    onError: (event: any) => {
+      // Aborts are ours; running out of speech ends the session, which onEnd handles
+      if (event.error === "aborted" || event.error === "no-speech") return
+
+      const blocked = ["not-allowed", "service-not-allowed", "audio-capture"].includes(event.error)
+      if (listenModeRef.current === "wake" && !blocked) {
+        console.warn("Wake word listening interrupted:", event.error)
+        return
+      }
+
+      console.error("Speech recognition error", event.error)
+      clearListenTimeout()
+      listenModeRef.current = "idle"
+      if (blocked) setWakeWordBlocked(true)
+      setVoiceState("error")
+      toast({
+        title: "Voice Recognition Error",
+        description: `Error: ${event.error}. Please try again.`,
+        variant: "destructive",
+      })
+    },
+
+    onEnd: () => {
+      recognitionActiveRef.current = false
+      resultCountRef.current = 0
+      if (listenModeRef.current === "command") {
+        finishCommand()
+      } else if (listenModeRef.current === "wake") {
+        // Recognisers end sessions on their own after a while; the spotter carries on in a new one
+        setTimeout(() => {
+          if (listenModeRef.current === "wake") startRecognition()
+        }, WAKE_WORD_RESTART_MS)
+      }
+    },
+
+    onHotkey: (down: boolean) => {
+      if (!down) {
+        if (triggerRef.current === "push-to-talk") stopListening()
+        return
+      }
+      if (!isEnabled) {
+        warnNotSupported()
+      } else if (voiceState !== "processing" && !isStreaming) {
+        beginCommand("push-to-talk")
+      }
+    },
+  }
+
   const processCopilotCommand = async (text: string) => {
     if (!text.trim()) return
 
+    const current = conversationRef.current
+    speechRef.current?.stop()
+    streamingRef.current = true
     setVoiceState("processing")
     setResponse("")
+    setListings([])
+    setHistory(current.messages)
     setIsStreaming(true)
 
     try {
-      // Call the Groq API route with streaming
+      // Signed-in users' history is read from the server; the route only falls back to these messages
+      // when the browser has no valid session to find it by
+      const messages: CopilotMessage[] = [...current.messages, { role: "user" as const, content: text }].slice(
+        -MAX_COPILOT_MESSAGES,
+      )
       const response = await fetch("/api/copilot", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ query: text }),
+        body: JSON.stringify({ messages, path: pathname, userId }),
       })
 
       if (!response.ok) {
@@ -205,58 +571,67 @@ export function VoiceCopilotProvider({ children }: { children: React.ReactNode }
         throw new Error("Response body is null")
       }
 
-      // Process the streaming response
-      const reader = response.body.getReader()
-      const decoder = new TextDecoder()
-      let actionData: any = null
+      // The route streams AI SDK UI message chunks: the retrieved listings, text deltas and a tool call per action
+      const chunks = parseJsonEventStream({ stream: response.body, schema: uiMessageChunkSchema }).getReader()
+      const actions: CopilotAction[] = []
+      const sentences = createSentenceChunker()
+      let reply = ""
 
       setVoiceState("speaking")
 
       while (true) {
-        const { done, value } = await reader.read()
+        const { done, value } = await chunks.read()
 
         if (done) {
           break
         }
+        if (!value.success) {
+          console.warn("Skipping unreadable copilot chunk:", value.error)
+          continue
+        }
 
-        // Decode the chunk and append to response
-        const chunk = decoder.decode(value, { stream: true })
-
-        // Check if the chunk contains action data (JSON)
-        try {
-          const jsonMatch = chunk.match(/\{[\s\S]*"type"[\s\S]*\}/)
-          if (jsonMatch) {
-            const jsonStr = jsonMatch[0]
-            actionData = JSON.parse(jsonStr)
-
-            // Remove the JSON from the displayed response
-            const cleanChunk = chunk.replace(jsonStr, "")
-            setResponse((prev) => prev + cleanChunk)
-          } else {
-            setResponse((prev) => prev + chunk)
+        const chunk = value.value
+        if (chunk.type === COPILOT_LISTINGS_PART) {
+          setListings(Array.isArray(chunk.data) ? chunk.data.filter(isCopilotListingCard) : [])
+        } else if (chunk.type === "text-delta") {
+          reply += chunk.delta
+          setResponse((prev) => prev + chunk.delta)
+          speak(sentences.push(chunk.delta))
+        } else if (chunk.type === "tool-input-available") {
+          try {
+            actions.push(parseCopilotAction(chunk.toolName, chunk.input))
+          } catch (error) {
+            console.warn("Ignoring copilot action:", error)
           }
-        } catch (e) {
-          // If not valid JSON, just append the chunk
-          setResponse((prev) => prev + chunk)
+        } else if (chunk.type === "tool-input-error") {
+          console.warn(`Ignoring copilot action ${chunk.toolName}:`, chunk.errorText)
+        } else if (chunk.type === "error") {
+          throw new Error(chunk.errorText)
         }
       }
 
+      streamingRef.current = false
       setIsStreaming(false)
 
-      // Handle navigation if action data was found
-      if (actionData?.type === "navigate" && actionData.path) {
-        setTimeout(() => {
-          router.push(actionData.path)
-        }, 1500)
+      if (!reply.trim() && actions.length > 0) {
+        reply = actions.map(describeCopilotAction).join(" ")
+        setResponse(reply)
+        speak(sentences.push(reply))
       }
+      speak(sentences.flush())
+      // The route records the same turn for signed-in users
+      updateConversation(recordCopilotTurn(conversationRef.current, text, reply))
+
+      // Every action moves the app somewhere, so only the last one would stick
+      const action = actions[actions.length - 1]
+      if (action) runCopilotAction(action, text)
 
-      // Text-to-speech would go here in a full implementation
-      // For now, we'll just set the state back to idle after a delay
-      setTimeout(() => {
-        setVoiceState("idle")
-      }, 3000)
+      // Otherwise the queue goes idle once the rest of the answer has been read
+      if (!speechRef.current?.speaking) setVoiceState("idle")
     } catch (error) {
       console.error("Error processing command:", error) // Log the full error object
+      streamingRef.current = false
+      speechRef.current?.stop()
       setVoiceState("error")
 
       let displayErrorMessage = "I'm sorry, I couldn't process your request. Please try again."
@@ -286,6 +661,10 @@ export function VoiceCopilotProvider({ children }: { children: React.ReactNode }
         transcript,
         interimTranscript,
         response,
+        listings,
+        history,
+        conversation,
+        clearConversation,
         isEnabled,
         toggleCopilot,
         startListening,
@@ -294,6 +673,9 @@ export function VoiceCopilotProvider({ children }: { children: React.ReactNode }
         manualInput,
         setManualInput,
         isStreaming,
+        listeningUntil,
+        isWakeWordArmed,
+        stopSpeaking,
       }}
     >
       {children}
@@ -0,0 +1,51 @@
+"use client"
+
+import type { SearchParams } from "@/lib/types"
+import type { ParamWarning, ParamWarningSeverity } from "@/lib/extraction/normalizeExtractedParams"
+
+const WARNING_STYLES: Record<ParamWarningSeverity, string> = {
+  adjusted: "border-amber-400/30 bg-amber-400/10 text-amber-200",
+  rejected: "border-red-400/30 bg-red-400/10 text-red-200",
+  notice: "border-sky-400/30 bg-sky-400/10 text-sky-200",
+}
+
+const FIELD_LABELS: Partial<Record<keyof SearchParams, string>> = {
+  location: "Location",
+  locationRadiusKm: "Location",
+  propertyType: "Property type",
+  listingType: "Listing type",
+  priceMin: "Price",
+  priceMax: "Price",
+  bedroomsMin: "Bedrooms",
+  bathroomsMin: "Bathrooms",
+  sizeMetersMin: "Size",
+  sizeMetersMax: "Size",
+  style: "Style",
+  amenities: "Amenities",
+  tags: "Tags",
+}
+
+interface ParamWarningListProps {
+  warnings: ParamWarning[]
+  label?: (field: keyof SearchParams) => string
+  className?: string
+}
+
+/**
+ * How the last query was read where it wasn't taken word for word: adjusted,
+ * rejected or doubtful values, one chip each
+ */
+export function ParamWarningList({ warnings, label, className = "" }: ParamWarningListProps) {
+  if (warnings.length === 0) return null
+
+  return (
+    <ul className={`flex flex-wrap gap-2 text-xs ${className}`} aria-live="polite">
+      {warnings.map((warning, i) => (
+        <li key={`${warning.field}-${i}`} className={`px-3 py-1 rounded-full border ${WARNING_STYLES[warning.severity]}`}>
+          <span className="font-semibold">{label ? label(warning.field) : FIELD_LABELS[warning.field] || warning.field}:</span>{" "}
+          {warning.message}
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -2,12 +2,12 @@
 
 import { useState } from "react"
 import Image from "next/image"
-import { Property } from "@/lib/types"
+import type { Listing } from "@/lib/types"
 import { Eye, Route, Heart } from "lucide-react"
 
 interface PropertyCardProps {
-  property: Property
-  onSave?: (property: Property) => void
+  property: Listing
+  onSave?: (property: Listing) => void
   isSaved?: boolean
 }
 
@@ -25,7 +25,7 @@ export function PropertyCard({ property, onSave, isSaved = false }: PropertyCard
       {/* Image */}
       <div className="relative aspect-[4/3] overflow-hidden">
         <Image
-          src={property.imageUrl}
+          src={property.images[0] || '/placeholder.svg'}
           alt={property.title}
           fill
           className="object-cover transition-transform duration-500 group-hover:scale-105"
@@ -48,7 +48,7 @@ export function PropertyCard({ property, onSave, isSaved = false }: PropertyCard
         <div className="mb-2 flex items-start justify-between">
           <div className="flex-1">
             <h3 className="text-lg font-semibold text-white">{property.title}</h3>
-            <p className="text-sm text-white/60">{property.location}</p>
+            <p className="text-sm text-white/60">{property.address.formatted}</p>
           </div>
           <p className="text-xl font-bold text-[#D4C1B3]">
             {typeof property.price === 'number'
@@ -59,12 +59,14 @@ export function PropertyCard({ property, onSave, isSaved = false }: PropertyCard
           </p>
         </div>
 
-        <p className="mb-3 text-sm text-white/70">{property.details}</p>
+        <p className="mb-3 text-sm text-white/70">
+          {property.bedrooms} bd • {property.bathrooms} ba{property.buildingSize ? ` • ${property.buildingSize} sqm` : ''}
+        </p>
 
         <div className="flex items-center gap-2">
           <button className="flex flex-1 items-center justify-center gap-2 rounded-lg border border-white/10 bg-white/5 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-white/10">
-            {property.button.icon === 'eye' ? <Eye className="h-4 w-4" /> : <Route className="h-4 w-4" />}
-            {property.button.text}
+            {property.tourAvailable ? <Eye className="h-4 w-4" /> : <Route className="h-4 w-4" />}
+            {property.tourAvailable ? 'Virtual tour' : 'View route'}
           </button>
         </div>
       </div>
@@ -1,7 +1,12 @@
 "use client"
 
 import React, { useState, useEffect, useRef, useMemo } from "react"
-import { type Property, type SearchParams, generateMockResults } from "@/lib/types"
+import { type Listing, type SearchParams } from "@/lib/types"
+import { searchProperties } from "@/lib/services/propertySearchClient"
+import { processVoiceQuery } from "@/lib/services/voiceQueryClient"
+import type { ParamWarning } from "@/lib/extraction/normalizeExtractedParams"
+import { applySearchChanges, changedSearchParams } from "@/lib/search-refinement"
+import { useSearchSession } from "@/hooks/use-search-session"
 import {
   MapPinIcon,
   Building2Icon,
@@ -44,12 +49,15 @@ import {
   TagIcon,
   GavelIcon,
   BookmarkIcon,
-  UploadCloudIcon
+  UploadCloudIcon,
+  UndoIcon,
+  RedoIcon
 } from "./IconComponents"
 import { PriceRangeSlider } from "./PriceRangeSlider"
+import { ParamWarningList } from "./ParamWarningList"
 
 interface VoiceSearchProps {
-  onResults: (results: Property[], params: SearchParams) => void
+  onResults: (results: Listing[], params: SearchParams) => void
   searchParams: SearchParams
   setSearchParams: (params: SearchParams | ((prev: SearchParams) => SearchParams)) => void
   onSaveSearch?: (params: SearchParams) => void
@@ -194,6 +202,14 @@ const PERMANENT_TAG_CONFIG: { key: PermanentTag, label: string, icon: React.Reac
   { key: 'auction', label: 'Auction', icon: <GavelIcon className="w-4 h-4" />, activeColor: 'amber' },
 ]
 
+const warningLabel = (field: keyof SearchParams): string => {
+  if (field === 'priceMin' || field === 'priceMax') return 'Price'
+  if (field === 'amenities') return 'Amenities'
+  if (field === 'tags') return 'Tags'
+  if (field === 'locationRadiusKm') return 'Location'
+  return PARAMETER_CONFIG.find(param => param.key === field)?.label || field
+}
+
 const highlightTranscript = (transcript: string, highlights: string[]) => {
   if (!highlights.length || !transcript) return <>{transcript}</>
   const escapedHighlights = highlights.map(h => h.replace(/[-\/\\^$*+?.()|[\]{}]/g, '\\$&'))
@@ -236,10 +252,15 @@ export const VoiceSearch: React.FC<VoiceSearchProps> = ({ onResults, searchParam
   const [transcript, setTranscript] = useState('')
   const [glowingParams, setGlowingParams] = useState<Set<string>>(new Set())
   const [highlightedText, setHighlightedText] = useState<string[]>([])
+  const [paramWarnings, setParamWarnings] = useState<ParamWarning[]>([])
 
   const recognitionRef = useRef<any>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const lastFinalTranscript = useRef('')
+  // Recognition callbacks outlive the render that created them, so they read the search from here
+  const searchParamsRef = useRef(searchParams)
+  searchParamsRef.current = searchParams
+  const { session, canUndo, canRedo, getParams, record: recordRevision, undo: undoRevision, redo: redoRevision, runCommand } = useSearchSession()
 
   const displayedSearchParams = isDemoMode ? demoSearchParams : searchParams
   const histogramData = useMemo(() => generateHistogramData(60), [])
@@ -256,6 +277,39 @@ export const VoiceSearch: React.FC<VoiceSearchProps> = ({ onResults, searchParam
     })
   }
 
+  // Cards and newly added amenities or tags that changed between two searches
+  const changedGlowKeys = (before: SearchParams, after: SearchParams, skip: (key: keyof SearchParams) => boolean = () => false): string[] => {
+    const keys: string[] = []
+    changedSearchParams(before, after).forEach(key => {
+      if (skip(key)) return
+      if (key === 'amenities' || key === 'tags') {
+        const previous: string[] = before[key] || []
+        keys.push(...(after[key] || []).filter(item => !previous.includes(item)))
+      } else if (key === 'priceMin' || key === 'priceMax') {
+        keys.push('priceSlider')
+      } else if (after[key] !== undefined) {
+        keys.push(key)
+      }
+    })
+    return keys
+  }
+
+  const applySearchParams = (next: SearchParams, transcript?: string) => {
+    recordRevision(next, { source: 'classic', transcript })
+    searchParamsRef.current = next
+    setSearchParams(next)
+  }
+
+  // Shows a revision from the session history, which may have come from another voice mode
+  const restoreSearchParams = (params: SearchParams) => {
+    const current = searchParamsRef.current
+    const next = { ...initialSearchParams, ...params }
+    searchParamsRef.current = next
+    setSearchParams(next)
+    setParamWarnings([])
+    setGlowingParams(new Set(changedGlowKeys(current, next)))
+  }
+
   useEffect(() => {
     if (!isDemoMode) return
     if (isDeleting) {
@@ -323,6 +377,8 @@ export const VoiceSearch: React.FC<VoiceSearchProps> = ({ onResults, searchParam
       setIsDemoMode(false)
       setAnimatedText('')
       setGlowingParams(new Set())
+      // Pick up where the session left off, e.g. before a reload
+      if (changedSearchParams({}, searchParamsRef.current).length === 0) restoreSearchParams(getParams())
     }
   }
 
@@ -338,16 +394,23 @@ export const VoiceSearch: React.FC<VoiceSearchProps> = ({ onResults, searchParam
     setTranscript('')
     lastFinalTranscript.current = ''
     setHighlightedText([])
-    setSearchParams(prev => ({ ...initialSearchParams, tags: prev.tags }))
+    applySearchParams({ ...initialSearchParams, tags: searchParamsRef.current.tags })
     setGlowingParams(new Set())
+    setParamWarnings([])
+  }
+
+  const handleHistory = (params: SearchParams) => {
+    restoreSearchParams(params)
+    setStatus(recognitionRef.current ? 'listening' : 'confirming')
   }
 
   const handleStartListening = () => {
     if (isDemoMode) {
       switchToRealSearch()
     } else if (status === 'done' || status === 'idle' || status === 'confirming') {
-      setSearchParams(prev => ({ ...initialSearchParams, tags: prev.tags }))
+      // Speaking again refines the current search; cancel starts over
       setGlowingParams(new Set())
+      setParamWarnings([])
     }
     if (!SpeechRecognition) { console.error("Speech Recognition not supported."); return }
     if (recognitionRef.current) return
@@ -391,45 +454,21 @@ export const VoiceSearch: React.FC<VoiceSearchProps> = ({ onResults, searchParam
 
   const processTranscript = async (text: string) => {
     if (text.trim().toLowerCase().match(/^(search|let's go|lets go|find|ok|find my house|find my haus)$/)) { handleSearch(); return }
+    const restored = runCommand(text)
+    if (restored) { handleHistory(restored); return }
     if (text.trim().length < 3) return
     setStatus('processing')
     try {
-      const response = await fetch('/api/voice/process', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ query: text, currentParams: searchParams }),
-      })
-
-      if (!response.ok) throw new Error('Failed to process voice query')
-
-      const responseData = await response.json()
-      const updatedParamsPartial: Partial<SearchParams> = {}
-      const newGlowing: string[] = []
-      const newlyHighlighted: string[] = []
-
-      for (const key in responseData) {
-        if (Object.prototype.hasOwnProperty.call(responseData, key) && key in initialSearchParams) {
-          const param = responseData[key]
-          if (param && param.value !== undefined && param.value !== null) {
-            if (key === 'amenities') {
-              const existingAmenities = new Set(searchParams.amenities || [])
-              const newAmenities = (param.value as string[]).filter(a => AMENITY_CONFIG.some(ac => ac.key === a) && !existingAmenities.has(a))
-              if (newAmenities.length > 0) { updatedParamsPartial.amenities = [...Array.from(existingAmenities), ...newAmenities]; newGlowing.push(...newAmenities) }
-            } else if (key === 'tags') {
-              const existingTags = new Set(searchParams.tags || [])
-              const newTags = (param.value as string[]).filter(t => PERMANENT_TAG_CONFIG.some(tc => tc.key === t) && !existingTags.has(t as any))
-              if (newTags.length > 0) { updatedParamsPartial.tags = [...Array.from(existingTags), ...newTags] as any; newGlowing.push(...newTags) }
-            } else {
-              (updatedParamsPartial as any)[key] = param.value
-              newGlowing.push(key)
-            }
-            if (param.sourceText && Array.isArray(param.sourceText)) newlyHighlighted.push(...param.sourceText.filter((s: string) => s && s.trim().length > 0))
-          }
-        }
-      }
-      if (updatedParamsPartial.priceMin || updatedParamsPartial.priceMax) newGlowing.push('priceSlider')
-      if (Object.keys(updatedParamsPartial).length > 0) {
-        setSearchParams(prevParams => ({ ...prevParams, ...updatedParamsPartial }))
+      const current = searchParamsRef.current
+      const { changes, sourceText, warnings } = await processVoiceQuery(text, current)
+      const next = applySearchChanges(current, changes)
+      // Changed or doubtful values are flagged with their warning rather than glowing as if heard cleanly
+      const hasWarning = (key: keyof SearchParams) => warnings.some(warning => warning.field === key)
+      const newGlowing = changedGlowKeys(current, next, key => hasWarning(key) || ((key === 'priceMin' || key === 'priceMax') && (hasWarning('priceMin') || hasWarning('priceMax'))))
+      const newlyHighlighted = Object.values(sourceText).flatMap(spans => spans || [])
+      setParamWarnings(warnings)
+      if (changedSearchParams(current, next).length > 0) {
+        applySearchParams(next, text)
         addGlowingParams(newGlowing)
         setHighlightedText(prev => [...new Set([...prev, ...newlyHighlighted])])
         setStatus('confirming')
@@ -440,11 +479,16 @@ export const VoiceSearch: React.FC<VoiceSearchProps> = ({ onResults, searchParam
     }
   }
 
-  const handleSearch = () => {
+  const handleSearch = async () => {
     setStatus('done')
     if (recognitionRef.current) recognitionRef.current.stop()
-    const mockResults = generateMockResults(searchParams)
-    setTimeout(() => onResults(mockResults, searchParams), 800)
+    try {
+      const result = await searchProperties(searchParams)
+      onResults(result.properties, searchParams)
+    } catch (error) {
+      console.error("Property search error:", error)
+      setStatus('confirming')
+    }
   }
 
   const handleToggleTag = (tagKey: PermanentTag) => {
@@ -563,6 +607,7 @@ export const VoiceSearch: React.FC<VoiceSearchProps> = ({ onResults, searchParam
               {(isDemoMode || (status === 'listening' && transcript.length === 0)) && <span className="animate-pulse text-neutral-600">|</span>}
             </span>
           </p>
+          {!isDemoMode && <ParamWarningList warnings={paramWarnings} label={warningLabel} className="mx-auto max-w-3xl justify-center" />}
         </div>
 
         <div className="flex-grow my-4 overflow-y-auto pr-2">
@@ -570,10 +615,18 @@ export const VoiceSearch: React.FC<VoiceSearchProps> = ({ onResults, searchParam
             {PARAMETER_CONFIG.map(param => {
               const key = param.key as keyof SearchParams
 
+              const fieldWarnings = isDemoMode ? [] : paramWarnings.filter(warning =>
+                param.key === 'priceSlider' ? warning.field === 'priceMin' || warning.field === 'priceMax'
+                  : param.key === 'location' ? warning.field === 'location' || warning.field === 'locationRadiusKm'
+                  : warning.field === param.key
+              )
+              const warningClass = fieldWarnings.length > 0 ? 'ring-1 ring-amber-400/50' : ''
+              const warningTitle = fieldWarnings.length > 0 ? fieldWarnings.map(warning => warning.message).join('\n') : undefined
+
               if (param.key === 'priceSlider') {
                 const highlightClass = glowingParams.has(param.key) ? 'animate-glow' : ''
                 return (
-                  <div key={param.key} className={` ${param.colSpan || 'sm:col-span-1'} p-4 rounded-xl border transition-all duration-300 bg-white/5 border-white/10 ${highlightClass} `}>
+                  <div key={param.key} title={warningTitle} className={` ${param.colSpan || 'sm:col-span-1'} p-4 rounded-xl border transition-all duration-300 bg-white/5 border-white/10 ${highlightClass} ${warningClass} `}>
                     <div className="flex items-center gap-3 mb-2">
                       <div className="p-2 rounded-full bg-blue-500/10 text-blue-300"><DollarSignIcon className="w-5 h-5" /></div>
                       <h3 className="text-sm font-medium text-neutral-400 text-left">{param.label}</h3>
@@ -615,7 +668,7 @@ export const VoiceSearch: React.FC<VoiceSearchProps> = ({ onResults, searchParam
               const highlightClass = isGlowing ? 'animate-glow' : ''
 
               return (
-                <div key={param.key} className={` ${param.colSpan || 'sm:col-span-1'} p-4 rounded-xl border transition-all duration-300 ${hasValue ? 'bg-white/5 border-white/10' : 'bg-white/[0.03] border-transparent'} ${highlightClass} `}>
+                <div key={param.key} title={warningTitle} className={` ${param.colSpan || 'sm:col-span-1'} p-4 rounded-xl border transition-all duration-300 ${hasValue ? 'bg-white/5 border-white/10' : 'bg-white/[0.03] border-transparent'} ${highlightClass} ${warningClass} `}>
                   <div className="flex items-center gap-3">
                     <div className={`p-2 rounded-full ${hasValue ? 'bg-blue-500/10 text-blue-300' : 'bg-white/5 text-neutral-400'}`}>{param.icon}</div>
                     <div className="flex-grow self-center overflow-hidden">
@@ -671,11 +724,27 @@ export const VoiceSearch: React.FC<VoiceSearchProps> = ({ onResults, searchParam
               <button onClick={getButtonAction()} disabled={status === 'done' || status === 'processing'} className={`${getMainButtonClassName()} w-full`}>
                 {getButtonContent()}
               </button>
-              {canSaveSearch && onSaveSearch && (
-                <button onClick={() => onSaveSearch(searchParams)} className="text-xs text-neutral-400 hover:text-white flex items-center gap-1.5">
-                  <BookmarkIcon className="w-3 h-3" />
-                  Save this search
-                </button>
+              {!isDemoMode && (canUndo || canRedo || (canSaveSearch && onSaveSearch)) && (
+                <div className="flex items-center gap-4">
+                  {canUndo && (
+                    <button onClick={() => handleHistory(undoRevision())} disabled={status === 'processing'} title={session.entries[session.cursor]?.transcript && `Undo "${session.entries[session.cursor].transcript}"`} className="text-xs text-neutral-400 hover:text-white disabled:opacity-50 flex items-center gap-1.5">
+                      <UndoIcon className="w-3 h-3" />
+                      Undo
+                    </button>
+                  )}
+                  {canRedo && (
+                    <button onClick={() => handleHistory(redoRevision())} disabled={status === 'processing'} title={session.entries[session.cursor + 1]?.transcript && `Redo "${session.entries[session.cursor + 1].transcript}"`} className="text-xs text-neutral-400 hover:text-white disabled:opacity-50 flex items-center gap-1.5">
+                      <RedoIcon className="w-3 h-3" />
+                      Redo
+                    </button>
+                  )}
+                  {canSaveSearch && onSaveSearch && (
+                    <button onClick={() => onSaveSearch(searchParams)} className="text-xs text-neutral-400 hover:text-white flex items-center gap-1.5">
+                      <BookmarkIcon className="w-3 h-3" />
+                      Save this search
+                    </button>
+                  )}
+                </div>
               )}
             </div>
 
@@ -0,0 +1,53 @@
+"use client"
+
+import type React from "react"
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react"
+import {
+  COPILOT_ACTIVATION_STORAGE_KEY,
+  DEFAULT_COPILOT_ACTIVATION,
+  parseStoredActivationSettings,
+  type CopilotActivationSettings,
+} from "@/lib/copilot-activation"
+
+type CopilotActivationContextType = {
+  activation: CopilotActivationSettings
+  update: (changes: Partial<CopilotActivationSettings>) => void
+  reset: () => void
+}
+
+const CopilotActivationContext = createContext<CopilotActivationContextType | undefined>(undefined)
+
+export function CopilotActivationProvider({ children }: { children: React.ReactNode }) {
+  const [activation, setActivation] = useState<CopilotActivationSettings>(DEFAULT_COPILOT_ACTIVATION)
+  const loadedRef = useRef(false)
+
+  useEffect(() => {
+    setActivation(parseStoredActivationSettings(localStorage.getItem(COPILOT_ACTIVATION_STORAGE_KEY)))
+    loadedRef.current = true
+  }, [])
+
+  useEffect(() => {
+    // Skips the defaults rendered before the stored settings arrive, so they aren't overwritten
+    if (!loadedRef.current) return
+    localStorage.setItem(COPILOT_ACTIVATION_STORAGE_KEY, JSON.stringify(activation))
+  }, [activation])
+
+  const update = useCallback((changes: Partial<CopilotActivationSettings>) => {
+    setActivation((current) => ({ ...current, ...changes }))
+  }, [])
+
+  const reset = useCallback(() => setActivation(DEFAULT_COPILOT_ACTIVATION), [])
+
+  const value = useMemo(() => ({ activation, update, reset }), [activation, update, reset])
+
+  return <CopilotActivationContext.Provider value={value}>{children}</CopilotActivationContext.Provider>
+}
+
+export function useCopilotActivation() {
+  const context = useContext(CopilotActivationContext)
+  if (context === undefined) {
+    throw new Error("useCopilotActivation must be used within a CopilotActivationProvider")
+  }
+  return context
+}
@@ -0,0 +1,77 @@
+"use client"
+
+import { useCallback, useRef, useState } from "react"
+import type { SearchParams } from "@/lib/types"
+import {
+  EMPTY_SEARCH_SESSION,
+  applySessionCommand,
+  canRedoSession,
+  canUndoSession,
+  currentSessionParams,
+  moveSessionCursor,
+  parseSessionCommand,
+  recordSearchRevision,
+  type SearchSession,
+  type SearchSessionCommand,
+  type SearchSessionSource,
+} from "@/lib/search-session"
+
+/**
+ * Undo/redo history of search params. Record each revision of the search and
+ * undo() or redo() hand back the one they move to. Every method returns the
+ * resulting params straight away, so event handlers and speech callbacks
+ * don't wait for a render. SearchSessionProvider shares one history across
+ * the app and saves it.
+ */
+export function useSearchRevisions() {
+  const [session, setSession] = useState<SearchSession>(EMPTY_SEARCH_SESSION)
+  // Mirrors the state so undo() and friends can return synchronously
+  const sessionRef = useRef<SearchSession>(EMPTY_SEARCH_SESSION)
+
+  const update = useCallback((next: SearchSession): SearchParams => {
+    sessionRef.current = next
+    setSession(next)
+    return currentSessionParams(next)
+  }, [])
+
+  const getSession = useCallback(() => sessionRef.current, [])
+  const getParams = useCallback(() => currentSessionParams(sessionRef.current), [])
+
+  const record = useCallback((params: SearchParams, details: { source: SearchSessionSource; transcript?: string }) => {
+    return update(recordSearchRevision(sessionRef.current, params, details))
+  }, [update])
+
+  const run = useCallback((command: SearchSessionCommand) => update(applySessionCommand(sessionRef.current, command)), [update])
+  const undo = useCallback(() => run({ type: "undo" }), [run])
+  const redo = useCallback(() => run({ type: "redo" }), [run])
+
+  const goTo = useCallback((entryId: string) => {
+    const index = sessionRef.current.entries.findIndex(entry => entry.id === entryId)
+    return index === -1 ? getParams() : update(moveSessionCursor(sessionRef.current, index))
+  }, [getParams, update])
+
+  // Runs "undo", "redo" or "go back to before I added ..."; undefined when the text is not a history command
+  const runCommand = useCallback((text: string) => {
+    const command = parseSessionCommand(text)
+    return command ? run(command) : undefined
+  }, [run])
+
+  // Replaces the whole history, e.g. with one loaded from storage
+  const restore = useCallback((next: SearchSession) => update(next), [update])
+  const clear = useCallback(() => update(EMPTY_SEARCH_SESSION), [update])
+
+  return {
+    session,
+    canUndo: canUndoSession(session),
+    canRedo: canRedoSession(session),
+    getSession,
+    getParams,
+    record,
+    undo,
+    redo,
+    goTo,
+    runCommand,
+    restore,
+    clear,
+  }
+}
@@ -0,0 +1,80 @@
+"use client"
+
+import type React from "react"
+
+import { createContext, useContext, useEffect, useMemo, useRef } from "react"
+import type { SearchParams } from "@/lib/types"
+import {
+  SEARCH_SESSION_STORAGE_KEY,
+  currentSessionParams,
+  parseStoredSearchSession,
+  type SearchSession,
+  type SearchSessionSource,
+} from "@/lib/search-session"
+import { useSearchRevisions } from "@/hooks/use-search-revisions"
+
+type SearchSessionContextType = {
+  session: SearchSession
+  // The current revision's params
+  params: SearchParams
+  canUndo: boolean
+  canRedo: boolean
+  // Reads the latest params synchronously, for speech callbacks that outlive a render
+  getParams: () => SearchParams
+  record: (params: SearchParams, details: { source: SearchSessionSource; transcript?: string }) => SearchParams
+  undo: () => SearchParams
+  redo: () => SearchParams
+  goTo: (entryId: string) => SearchParams
+  // Runs "undo", "redo" or "go back to before I added ..."; undefined when the text is not a history command
+  runCommand: (text: string) => SearchParams | undefined
+  clear: () => void
+}
+
+const SearchSessionContext = createContext<SearchSessionContextType | undefined>(undefined)
+
+export function SearchSessionProvider({ children }: { children: React.ReactNode }) {
+  const { session, canUndo, canRedo, getSession, getParams, record, undo, redo, goTo, runCommand, restore, clear } = useSearchRevisions()
+  const loadedRef = useRef(false)
+
+  useEffect(() => {
+    // Anything recorded before the stored session loaded is newer, so it wins
+    if (getSession().entries.length === 0) {
+      restore(parseStoredSearchSession(localStorage.getItem(SEARCH_SESSION_STORAGE_KEY)))
+    }
+    loadedRef.current = true
+  }, [getSession, restore])
+
+  useEffect(() => {
+    // Skips the render before the stored session arrives, so it isn't overwritten
+    if (!loadedRef.current || session !== getSession()) return
+    if (session.entries.length === 0) {
+      localStorage.removeItem(SEARCH_SESSION_STORAGE_KEY)
+    } else {
+      localStorage.setItem(SEARCH_SESSION_STORAGE_KEY, JSON.stringify(session))
+    }
+  }, [session, getSession])
+
+  const value = useMemo(() => ({
+    session,
+    params: currentSessionParams(session),
+    canUndo,
+    canRedo,
+    getParams,
+    record,
+    undo,
+    redo,
+    goTo,
+    runCommand,
+    clear,
+  }), [session, canUndo, canRedo, getParams, record, undo, redo, goTo, runCommand, clear])
+
+  return <SearchSessionContext.Provider value={value}>{children}</SearchSessionContext.Provider>
+}
+
+export function useSearchSession() {
+  const context = useContext(SearchSessionContext)
+  if (context === undefined) {
+    throw new Error("useSearchSession must be used within a SearchSessionProvider")
+  }
+  return context
+}
@@ -0,0 +1,60 @@
+"use client"
+
+import type React from "react"
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react"
+import {
+  DEFAULT_SPEECH_SETTINGS,
+  SPEECH_SETTINGS_STORAGE_KEY,
+  parseStoredSpeechSettings,
+  type SpeechSettings,
+} from "@/lib/tts/speech-settings"
+
+type SpeechSettingsContextType = {
+  settings: SpeechSettings
+  // Changing the engine clears the voice, since voice ids belong to one engine
+  update: (changes: Partial<SpeechSettings>) => void
+  setMuted: (muted: boolean) => void
+  reset: () => void
+}
+
+const SpeechSettingsContext = createContext<SpeechSettingsContextType | undefined>(undefined)
+
+export function SpeechSettingsProvider({ children }: { children: React.ReactNode }) {
+  const [settings, setSettings] = useState<SpeechSettings>(DEFAULT_SPEECH_SETTINGS)
+  const loadedRef = useRef(false)
+
+  useEffect(() => {
+    setSettings(parseStoredSpeechSettings(localStorage.getItem(SPEECH_SETTINGS_STORAGE_KEY)))
+    loadedRef.current = true
+  }, [])
+
+  useEffect(() => {
+    // Skips the defaults rendered before the stored settings arrive, so they aren't overwritten
+    if (!loadedRef.current) return
+    localStorage.setItem(SPEECH_SETTINGS_STORAGE_KEY, JSON.stringify(settings))
+  }, [settings])
+
+  const update = useCallback((changes: Partial<SpeechSettings>) => {
+    setSettings(current => {
+      const next = { ...current, ...changes }
+      if (changes.engine && changes.engine !== current.engine && changes.voice === undefined) next.voice = undefined
+      return next
+    })
+  }, [])
+
+  const setMuted = useCallback((muted: boolean) => update({ muted }), [update])
+  const reset = useCallback(() => setSettings(DEFAULT_SPEECH_SETTINGS), [])
+
+  const value = useMemo(() => ({ settings, update, setMuted, reset }), [settings, update, setMuted, reset])
+
+  return <SpeechSettingsContext.Provider value={value}>{children}</SpeechSettingsContext.Provider>
+}
+
+export function useSpeechSettings() {
+  const context = useContext(SpeechSettingsContext)
+  if (context === undefined) {
+    throw new Error("useSpeechSettings must be used within a SpeechSettingsProvider")
+  }
+  return context
+}
@@ -0,0 +1,122 @@
+/**
+ * PCM16 Capture
+ * Streams microphone audio as 24 kHz mono PCM16 frames. An AudioWorklet
+ * collects samples off the main thread; they are resampled and encoded here.
+ */
+
+import { REALTIME_SAMPLE_RATE, createResampler, floatToPcm16, pcm16ToBase64 } from './pcm16';
+
+const PROCESSOR_NAME = 'pcm16-capture';
+
+// Loaded from a blob URL so the worklet ships with this module rather than as a public asset
+const PROCESSOR_SOURCE = `
+class Pcm16CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.batch = new Float32Array(options.processorOptions.batchSize);
+    this.length = 0;
+    this.port.onmessage = event => {
+      if (event.data === 'flush') this.flush();
+    };
+  }
+
+  flush() {
+    if (this.length === 0) return;
+    this.port.postMessage(this.batch.slice(0, this.length));
+    this.length = 0;
+  }
+
+  process(inputs) {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) return true;
+
+    for (let i = 0; i < channels[0].length; i++) {
+      let sample = 0;
+      for (let c = 0; c < channels.length; c++) sample += channels[c][i];
+      this.batch[this.length++] = sample / channels.length;
+      if (this.length === this.batch.length) this.flush();
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', Pcm16CaptureProcessor);
+`;
+
+export interface Pcm16CaptureOptions {
+  // Audio per frame; the API accepts any size, smaller frames lower latency
+  frameMs?: number;
+}
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+async function loadProcessor(context: BaseAudioContext): Promise<void> {
+  if (loadedContexts.has(context)) return;
+
+  const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await context.audioWorklet.addModule(url);
+    loadedContexts.add(context);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export class Pcm16Capture {
+  private source: MediaStreamAudioSourceNode | null = null;
+  private worklet: AudioWorkletNode | null = null;
+  private frameMs: number;
+
+  constructor(
+    private context: AudioContext,
+    // Base64 PCM16 at 24 kHz, ready for input_audio_buffer.append
+    private onFrame: (audio: string) => void,
+    options: Pcm16CaptureOptions = {}
+  ) {
+    this.frameMs = options.frameMs ?? 40;
+  }
+
+  /**
+   * @throws when the browser has no AudioWorklet support
+   */
+  async start(stream: MediaStream): Promise<void> {
+    if (this.worklet) return;
+
+    await loadProcessor(this.context);
+    const resample = createResampler(this.context.sampleRate, REALTIME_SAMPLE_RATE);
+
+    this.source = this.context.createMediaStreamSource(stream);
+    // No outputs, so it keeps processing without being wired to the speakers
+    this.worklet = new AudioWorkletNode(this.context, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      processorOptions: { batchSize: Math.round(this.context.sampleRate * this.frameMs / 1000) },
+    });
+    this.worklet.port.onmessage = (event: MessageEvent<Float32Array>) => {
+      const samples = resample(event.data);
+      if (samples.length > 0) {
+        this.onFrame(pcm16ToBase64(floatToPcm16(samples)));
+      }
+    };
+    this.source.connect(this.worklet);
+  }
+
+  stop(): void {
+    if (!this.worklet) return;
+
+    // Sends whatever is left of the last frame before the port closes
+    this.worklet.port.postMessage('flush');
+    this.source?.disconnect();
+    this.source = null;
+    const worklet = this.worklet;
+    this.worklet = null;
+    setTimeout(() => worklet.port.close(), this.frameMs);
+  }
+
+  get active(): boolean {
+    return this.worklet !== null;
+  }
+}
+
+export default Pcm16Capture;
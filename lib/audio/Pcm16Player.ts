@@ -0,0 +1,80 @@
+/**
+ * PCM16 Player
+ * Plays the base64 PCM16 chunks of a streamed response back to back, so
+ * deltas that arrive faster than real time queue up instead of overlapping
+ */
+
+import { REALTIME_SAMPLE_RATE, base64ToPcm16, pcm16ToFloat } from './pcm16';
+
+export class Pcm16Player {
+  private sources: Set<AudioBufferSourceNode> = new Set();
+  // Context time at which the queued audio runs out
+  private queuedUntil = 0;
+  // The item whose audio was queued last, and the context time its first chunk starts
+  private itemId: string | null = null;
+  private itemStartsAt = 0;
+
+  constructor(
+    private context: AudioContext,
+    private onIdle?: () => void,
+    private sampleRate = REALTIME_SAMPLE_RATE
+  ) {}
+
+  /**
+   * @param itemId the conversation item the audio belongs to, so an interruption
+   * can tell the server how much of it was heard
+   */
+  enqueue(audio: string, itemId?: string): void {
+    const samples = pcm16ToFloat(base64ToPcm16(audio));
+    if (samples.length === 0) return;
+
+    // The context resamples buffers whose rate differs from its own
+    const buffer = this.context.createBuffer(1, samples.length, this.sampleRate);
+    buffer.getChannelData(0).set(samples);
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.context.destination);
+    source.onended = () => {
+      this.sources.delete(source);
+      if (this.sources.size === 0) this.onIdle?.();
+    };
+
+    const startAt = Math.max(this.context.currentTime, this.queuedUntil);
+    if (itemId && itemId !== this.itemId) {
+      this.itemId = itemId;
+      this.itemStartsAt = startAt;
+    }
+    source.start(startAt);
+    this.queuedUntil = startAt + buffer.duration;
+    this.sources.add(source);
+  }
+
+  /**
+   * Drops everything queued, e.g. when the user interrupts the response
+   */
+  stop(): void {
+    this.sources.forEach(source => {
+      source.onended = null;
+      source.stop();
+    });
+    this.sources.clear();
+    this.queuedUntil = 0;
+    this.itemId = null;
+  }
+
+  /**
+   * How far into the latest item playback has got, in whole milliseconds
+   */
+  playedMs(): { itemId: string; ms: number } | undefined {
+    if (!this.itemId) return undefined;
+    const heardUntil = Math.min(this.context.currentTime, this.queuedUntil);
+    return { itemId: this.itemId, ms: Math.max(0, Math.floor((heardUntil - this.itemStartsAt) * 1000)) };
+  }
+
+  get playing(): boolean {
+    return this.sources.size > 0;
+  }
+}
+
+export default Pcm16Player;
@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test';
+import { base64ToPcm16, createResampler, floatToPcm16, pcm16ToBase64, pcm16ToFloat } from './pcm16';
+
+describe('createResampler', () => {
+  test('passes audio through at the same rate', () => {
+    const input = Float32Array.from([0.1, 0.2]);
+    expect(createResampler(24000, 24000)(input)).toBe(input);
+  });
+
+  test('halves the sample count from 48 kHz to 24 kHz', () => {
+    const output = createResampler(48000, 24000)(Float32Array.from([0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7]));
+    expect(Array.from(output).map(sample => +sample.toFixed(3))).toEqual([0, 0.2, 0.4, 0.6]);
+  });
+
+  test('interpolates between samples when upsampling', () => {
+    const output = createResampler(12000, 24000)(Float32Array.from([0, 1, 0]));
+    expect(Array.from(output)).toEqual([0, 0.5, 1, 0.5]);
+  });
+
+  test('gives the same output for a stream split into chunks', () => {
+    const samples = Float32Array.from({ length: 441 }, (_, i) => Math.sin(i / 10));
+    const whole = createResampler(44100, 24000)(samples);
+
+    const resample = createResampler(44100, 24000);
+    const chunked = [samples.subarray(0, 100), samples.subarray(100, 257), samples.subarray(257)]
+      .flatMap(chunk => Array.from(resample(chunk)));
+
+    expect(chunked).toHaveLength(whole.length);
+    chunked.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 5));
+  });
+});
+
+describe('PCM16 conversion', () => {
+  test('maps the float range onto 16-bit integers and clamps', () => {
+    expect(Array.from(floatToPcm16(Float32Array.from([-1, 0, 1, 2, -2])))).toEqual([-32768, 0, 32767, 32767, -32768]);
+  });
+
+  test('round-trips through floats to within one step', () => {
+    const pcm = Int16Array.from([-32768, -1000, 0, 1000, 32767]);
+    floatToPcm16(pcm16ToFloat(pcm)).forEach((sample, i) => expect(Math.abs(sample - pcm[i])).toBeLessThanOrEqual(1));
+  });
+
+  test('round-trips through little-endian base64', () => {
+    const pcm = Int16Array.from([-32768, -1, 0, 1, 258, 32767]);
+    const base64 = pcm16ToBase64(pcm);
+    expect(Array.from(Buffer.from(base64, 'base64').subarray(8, 10))).toEqual([2, 1]);
+    expect(Array.from(base64ToPcm16(base64))).toEqual(Array.from(pcm));
+  });
+
+  test('ignores a trailing odd byte', () => {
+    expect(Array.from(base64ToPcm16(Buffer.from([1, 0, 7]).toString('base64')))).toEqual([1]);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * PCM16 helpers
+ * Conversions between Web Audio float samples and the little-endian 16-bit PCM
+ * the OpenAI Realtime API sends and receives as base64
+ */
+
+// The rate the Realtime API uses for pcm16 in both directions
+export const REALTIME_SAMPLE_RATE = 24000;
+
+/**
+ * A resampler for one continuous stream. It keeps its position between chunks,
+ * so consecutive chunks resample without clicks at the joins. Linear
+ * interpolation is plenty for speech.
+ */
+export function createResampler(fromRate: number, toRate: number): (input: Float32Array) => Float32Array {
+  if (fromRate === toRate) return input => input;
+
+  const step = fromRate / toRate;
+  // Input index of the next output sample, relative to the start of the next chunk;
+  // -1 is the last sample of the previous chunk
+  let position = 0;
+  let previous = 0;
+
+  return input => {
+    const output: number[] = [];
+    while (Math.floor(position) + 1 < input.length) {
+      const index = Math.floor(position);
+      const from = index < 0 ? previous : input[index];
+      const to = input[index + 1];
+      output.push(from + (to - from) * (position - index));
+      position += step;
+    }
+    position -= input.length;
+    previous = input[input.length - 1] ?? previous;
+    return Float32Array.from(output);
+  };
+}
+
+export function floatToPcm16(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return pcm;
+}
+
+export function pcm16ToFloat(pcm: Int16Array): Float32Array {
+  const samples = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) {
+    samples[i] = pcm[i] / (pcm[i] < 0 ? 0x8000 : 0x7fff);
+  }
+  return samples;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return btoa(binary);
+}
+
+export function pcm16ToBase64(pcm: Int16Array): string {
+  const view = new DataView(new ArrayBuffer(pcm.length * 2));
+  pcm.forEach((sample, i) => view.setInt16(i * 2, sample, true));
+  return bytesToBase64(new Uint8Array(view.buffer));
+}
+
+export function base64ToPcm16(base64: string): Int16Array {
+  const binary = atob(base64);
+  const view = new DataView(new ArrayBuffer(binary.length - binary.length % 2));
+  for (let i = 0; i < view.byteLength; i++) {
+    view.setUint8(i, binary.charCodeAt(i));
+  }
+  const pcm = new Int16Array(view.byteLength / 2);
+  for (let i = 0; i < pcm.length; i++) {
+    pcm[i] = view.getInt16(i * 2, true);
+  }
+  return pcm;
+}
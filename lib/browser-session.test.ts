@@ -0,0 +1,38 @@
+import { describe, expect, test } from 'bun:test';
+import { BROWSER_SESSION_MAX_AGE_S, createBrowserSession, verifyBrowserSession } from './browser-session';
+
+const SECRET = 'test-secret';
+
+describe('browser sessions', () => {
+  test('verifies a session it created', async () => {
+    const value = await createBrowserSession(SECRET, 1000);
+    expect(await verifyBrowserSession(value, SECRET, 2000)).toBe(value.split('.')[0]);
+  });
+
+  test('gives each session its own id', async () => {
+    const [a, b] = await Promise.all([createBrowserSession(SECRET), createBrowserSession(SECRET)]);
+    expect(a.split('.')[0]).not.toBe(b.split('.')[0]);
+  });
+
+  test('rejects a value signed with another secret', async () => {
+    expect(await verifyBrowserSession(await createBrowserSession('other-secret'), SECRET)).toBeUndefined();
+  });
+
+  test('rejects a tampered id or issue time', async () => {
+    const value = await createBrowserSession(SECRET, 1000);
+    const [id, , signature] = value.split('.');
+    const otherId = id.replace(/^./, id[0] === 'a' ? 'b' : 'a');
+    expect(await verifyBrowserSession(`${otherId}.1000.${signature}`, SECRET, 2000)).toBeUndefined();
+    expect(await verifyBrowserSession(`${id}.1500.${signature}`, SECRET, 2000)).toBeUndefined();
+  });
+
+  test('rejects an expired session', async () => {
+    const value = await createBrowserSession(SECRET, 0);
+    expect(await verifyBrowserSession(value, SECRET, BROWSER_SESSION_MAX_AGE_S * 1000 + 1)).toBeUndefined();
+  });
+
+  test('rejects missing and malformed values', async () => {
+    expect(await verifyBrowserSession(undefined, SECRET)).toBeUndefined();
+    expect(await verifyBrowserSession('not-a-session', SECRET)).toBeUndefined();
+  });
+});
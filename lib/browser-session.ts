@@ -0,0 +1,68 @@
+/**
+ * Browser session
+ * A signed, HttpOnly cookie that middleware gives every browser visiting the
+ * site, so server routes can tell a visitor's requests from a script calling
+ * the API cold and can throttle each visitor separately. It identifies the
+ * browser, not a person; a real sign-in should replace it once one exists.
+ * Uses Web Crypto only, so it runs in middleware and edge routes.
+ */
+
+export const BROWSER_SESSION_COOKIE = 'haus_session';
+export const BROWSER_SESSION_MAX_AGE_S = 60 * 60 * 24 * 30;
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+async function sign(payload: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toBase64Url(await crypto.subtle.sign('HMAC', key, encoder.encode(payload)));
+}
+
+// Compares every character, so the time taken doesn't reveal how much of a forged signature was right
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/**
+ * A new cookie value: `<session id>.<issued at, ms>.<signature>`
+ */
+export async function createBrowserSession(secret: string, now = Date.now()): Promise<string> {
+  const payload = `${crypto.randomUUID()}.${now}`;
+  return `${payload}.${await sign(payload, secret)}`;
+}
+
+/**
+ * @returns the session id, or undefined when the value is missing, forged or expired
+ */
+export async function verifyBrowserSession(
+  value: string | undefined,
+  secret: string,
+  now = Date.now()
+): Promise<string | undefined> {
+  const match = value?.match(/^([0-9a-f-]{36})\.(\d{1,15})\.([\w-]+)$/);
+  if (!match) return undefined;
+
+  const [, sessionId, issuedAt, signature] = match;
+  const age = now - Number(issuedAt);
+  if (age < 0 || age > BROWSER_SESSION_MAX_AGE_S * 1000) return undefined;
+
+  const expected = await sign(`${sessionId}.${issuedAt}`, secret);
+  return safeEqual(signature, expected) ? sessionId : undefined;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test';
+import { COPILOT_ACTION_DEFINITIONS, copilotActionPath, describeCopilotAction, parseCopilotAction } from './copilot-actions';
+import { parseSearchUrl } from './search-url';
+
+function pathFor(type: string, input: unknown): string {
+  return copilotActionPath(parseCopilotAction(type, input));
+}
+
+describe('parseCopilotAction', () => {
+  test('offers a tool for every action it accepts', () => {
+    expect(COPILOT_ACTION_DEFINITIONS.map(definition => definition.type)).toEqual([
+      'navigate', 'open_listing', 'apply_search_filters', 'start_compare', 'open_tour',
+    ]);
+  });
+
+  test('opens the known pages only', () => {
+    expect(pathFor('navigate', { path: '/compare' })).toBe('/compare');
+    expect(() => parseCopilotAction('navigate', { path: '/admin' })).toThrow("can't open /admin");
+    expect(() => parseCopilotAction('navigate', { path: 'https://example.com' })).toThrow();
+    expect(() => parseCopilotAction('navigate', {})).toThrow();
+  });
+
+  test('opens a listing and its tour, escaping the id', () => {
+    expect(pathFor('open_listing', { listingId: ' prop-aus-1 ' })).toBe('/property/prop-aus-1');
+    expect(pathFor('open_tour', { listingId: 'prop-aus-1' })).toBe('/property/prop-aus-1/virtual-tour');
+    expect(pathFor('open_listing', { listingId: '../admin?x=1' })).toBe('/property/..%2Fadmin%3Fx%3D1');
+  });
+
+  test('rejects missing and malformed listing ids', () => {
+    [undefined, '', '   ', 42, null, ['prop-aus-1']].forEach(listingId => {
+      expect(() => parseCopilotAction('open_listing', { listingId })).toThrow('A listingId is required');
+    });
+    expect(() => parseCopilotAction('open_tour', 'prop-aus-1')).toThrow('A listingId is required');
+  });
+
+  test('compares 2 to 4 distinct listings', () => {
+    expect(pathFor('start_compare', { listingIds: ['a', 'b', 'a'] })).toBe('/compare?ids=a,b');
+    expect(() => parseCopilotAction('start_compare', { listingIds: ['a', 'a'] })).toThrow('between 2 and 4');
+    expect(() => parseCopilotAction('start_compare', { listingIds: ['a', 'b', 'c', 'd', 'e'] })).toThrow('between 2 and 4');
+    expect(() => parseCopilotAction('start_compare', { listingIds: 'a,b' })).toThrow('must be a list');
+    expect(() => parseCopilotAction('start_compare', { listingIds: ['a', 7] })).toThrow('A listingId is required');
+  });
+
+  test('turns search filters into a /search URL the search page reads back', () => {
+    const action = parseCopilotAction('apply_search_filters', {
+      location: ' Bondi, NSW ',
+      propertyType: 'house',
+      listingType: 'For Rent',
+      priceMax: 1200,
+      bedroomsMin: 2,
+      amenities: ['Pool', ' Garage ', ''],
+    });
+    const path = copilotActionPath(action);
+    expect(path.startsWith('/search?')).toBe(true);
+    expect(parseSearchUrl(new URLSearchParams(path.split('?')[1]))).toEqual({
+      location: 'Bondi, NSW',
+      propertyType: 'house',
+      listingType: 'For Rent',
+      priceMax: 1200,
+      bedroomsMin: 2,
+      amenities: ['Pool', 'Garage'],
+    });
+  });
+
+  test('drops invalid filters and rejects a search with none left', () => {
+    const action = parseCopilotAction('apply_search_filters', {
+      location: 'Manly',
+      priceMin: -5,
+      bedroomsMin: Infinity,
+      bathroomsMin: '2',
+      listingType: 'For Swap',
+      style: 'modern',
+    });
+    expect(action).toEqual({ type: 'apply_search_filters', filters: { location: 'Manly' } });
+    expect(() => parseCopilotAction('apply_search_filters', { priceMin: -1, listingType: 'For Swap' })).toThrow('at least one search filter');
+    expect(() => parseCopilotAction('apply_search_filters', null)).toThrow('at least one search filter');
+  });
+
+  test('rejects tools it does not offer', () => {
+    expect(() => parseCopilotAction('delete_listing', { listingId: 'a' })).toThrow('Unknown copilot action delete_listing');
+  });
+});
+
+describe('describeCopilotAction', () => {
+  test('names the page or the number of listings', () => {
+    expect(describeCopilotAction({ type: 'navigate', path: '/dashboard' })).toBe('Opening Dashboard with saved properties and searches.');
+    expect(describeCopilotAction({ type: 'start_compare', listingIds: ['a', 'b', 'c'] })).toBe('Comparing 3 listings.');
+  });
+});
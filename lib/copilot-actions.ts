@@ -0,0 +1,212 @@
+/**
+ * Copilot actions
+ * What the copilot can do in the app besides answering. The route offers each
+ * action to the model as a tool; the model's tool calls stream back to the
+ * provider, which checks them here and carries them out with the router.
+ */
+
+import type { ListingType, SearchParams } from './types';
+import { searchUrl } from './search-url';
+
+export type CopilotAction =
+  | { type: 'navigate'; path: CopilotPagePath }
+  | { type: 'open_listing'; listingId: string }
+  | { type: 'apply_search_filters'; filters: SearchParams }
+  | { type: 'start_compare'; listingIds: string[] }
+  | { type: 'open_tour'; listingId: string };
+
+export type CopilotActionType = CopilotAction['type'];
+
+export interface CopilotActionDefinition {
+  type: CopilotActionType;
+  description: string;
+  // JSON Schema for the tool input
+  parameters: Record<string, unknown>;
+}
+
+// Pages the copilot may open by path; listings and tours have their own actions
+export const COPILOT_PAGES = {
+  '/': 'Home',
+  '/search': 'Property search',
+  '/compare': 'Property comparison',
+  '/dashboard': 'Dashboard with saved properties and searches',
+  '/profile': 'Profile',
+  '/settings': 'Settings',
+  '/features': 'Features',
+  '/contact': 'Contact us',
+} as const;
+
+export type CopilotPagePath = keyof typeof COPILOT_PAGES;
+
+export const MAX_COPILOT_COMPARED_LISTINGS = 4;
+
+const LISTING_TYPES: ListingType[] = ['For Sale', 'For Rent', 'For Lease'];
+
+const LISTING_ID = {
+  type: 'string',
+  description: 'Listing id, e.g. the id in a /property/<id> path',
+};
+
+export const COPILOT_ACTION_DEFINITIONS: CopilotActionDefinition[] = [
+  {
+    type: 'navigate',
+    description: 'Open a page of the app.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          enum: Object.keys(COPILOT_PAGES),
+          description: Object.entries(COPILOT_PAGES).map(([path, page]) => `${path}: ${page}`).join('; '),
+        },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    type: 'open_listing',
+    description: "Open a listing's page.",
+    parameters: {
+      type: 'object',
+      properties: { listingId: LISTING_ID },
+      required: ['listingId'],
+    },
+  },
+  {
+    type: 'apply_search_filters',
+    description: 'Open the search page with these filters applied. Send the whole search, not just what changed.',
+    parameters: {
+      type: 'object',
+      properties: {
+        location: { type: 'string', description: 'Suburb, city, state or postcode' },
+        propertyType: { type: 'string', description: 'house, apartment, unit, townhouse, villa, terrace or studio' },
+        listingType: { type: 'string', enum: LISTING_TYPES },
+        priceMin: { type: 'number', description: 'Minimum price in AUD' },
+        priceMax: { type: 'number', description: 'Maximum price in AUD' },
+        bedroomsMin: { type: 'number' },
+        bathroomsMin: { type: 'number' },
+        amenities: { type: 'array', items: { type: 'string' }, description: 'e.g. pool, garage, garden' },
+      },
+    },
+  },
+  {
+    type: 'start_compare',
+    description: `Compare 2 to ${MAX_COPILOT_COMPARED_LISTINGS} listings side by side.`,
+    parameters: {
+      type: 'object',
+      properties: { listingIds: { type: 'array', items: LISTING_ID } },
+      required: ['listingIds'],
+    },
+  },
+  {
+    type: 'open_tour',
+    description: "Open a listing's virtual tour.",
+    parameters: {
+      type: 'object',
+      properties: { listingId: LISTING_ID },
+      required: ['listingId'],
+    },
+  },
+];
+
+function isCopilotActionType(value: string): value is CopilotActionType {
+  return COPILOT_ACTION_DEFINITIONS.some(definition => definition.type === value);
+}
+
+function listingId(value: unknown): string {
+  if (typeof value !== 'string' || !value.trim()) throw new Error('A listingId is required');
+  return value.trim();
+}
+
+function searchFilters(input: Record<string, unknown>): SearchParams {
+  const filters: SearchParams = {};
+  const text = (key: 'location' | 'propertyType') => {
+    const value = input[key];
+    if (typeof value === 'string' && value.trim()) filters[key] = value.trim();
+  };
+  const count = (key: 'priceMin' | 'priceMax' | 'bedroomsMin' | 'bathroomsMin') => {
+    const value = input[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) filters[key] = value;
+  };
+
+  text('location');
+  text('propertyType');
+  count('priceMin');
+  count('priceMax');
+  count('bedroomsMin');
+  count('bathroomsMin');
+  if (LISTING_TYPES.includes(input.listingType as ListingType)) filters.listingType = input.listingType as ListingType;
+  if (Array.isArray(input.amenities)) {
+    const amenities = input.amenities.filter((item): item is string => typeof item === 'string' && !!item.trim());
+    if (amenities.length > 0) filters.amenities = amenities.map(item => item.trim());
+  }
+
+  if (Object.keys(filters).length === 0) throw new Error('Give at least one search filter');
+  return filters;
+}
+
+/**
+ * Checks a tool call from the model and turns it into an action
+ * @throws when the tool is unknown or its input is invalid
+ */
+export function parseCopilotAction(type: string, input: unknown): CopilotAction {
+  if (!isCopilotActionType(type)) throw new Error(`Unknown copilot action ${type}`);
+  const args = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>;
+
+  switch (type) {
+    case 'navigate': {
+      const path = args.path;
+      if (typeof path !== 'string' || !(path in COPILOT_PAGES)) throw new Error(`The copilot can't open ${path}`);
+      return { type, path: path as CopilotPagePath };
+    }
+    case 'open_listing':
+    case 'open_tour':
+      return { type, listingId: listingId(args.listingId) };
+    case 'apply_search_filters':
+      return { type, filters: searchFilters(args) };
+    case 'start_compare': {
+      if (!Array.isArray(args.listingIds)) throw new Error('listingIds must be a list');
+      const ids = [...new Set(args.listingIds.map(listingId))];
+      if (ids.length < 2 || ids.length > MAX_COPILOT_COMPARED_LISTINGS) {
+        throw new Error(`Compare between 2 and ${MAX_COPILOT_COMPARED_LISTINGS} different listings`);
+      }
+      return { type, listingIds: ids };
+    }
+  }
+}
+
+/**
+ * Where the app goes to carry out an action
+ */
+export function copilotActionPath(action: CopilotAction): string {
+  switch (action.type) {
+    case 'navigate':
+      return action.path;
+    case 'open_listing':
+      return `/property/${encodeURIComponent(action.listingId)}`;
+    case 'open_tour':
+      return `/property/${encodeURIComponent(action.listingId)}/virtual-tour`;
+    case 'apply_search_filters':
+      return searchUrl(action.filters);
+    case 'start_compare':
+      return `/compare?ids=${action.listingIds.map(encodeURIComponent).join(',')}`;
+  }
+}
+
+/**
+ * A short line for the transcript, used when the model acts without saying anything
+ */
+export function describeCopilotAction(action: CopilotAction): string {
+  switch (action.type) {
+    case 'navigate':
+      return `Opening ${COPILOT_PAGES[action.path]}.`;
+    case 'open_listing':
+      return 'Opening the listing.';
+    case 'open_tour':
+      return 'Opening the virtual tour.';
+    case 'apply_search_filters':
+      return 'Searching with those filters.';
+    case 'start_compare':
+      return `Comparing ${action.listingIds.length} listings.`;
+  }
+}
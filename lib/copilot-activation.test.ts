@@ -0,0 +1,122 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  DEFAULT_COPILOT_ACTIVATION,
+  formatHotkey,
+  hotkeyFromEvent,
+  hotkeyNeedsFreeFocus,
+  matchesHotkey,
+  parseHotkey,
+  parseStoredActivationSettings,
+  releasesHotkey,
+  spotWakeWord,
+} from './copilot-activation';
+
+function keyEvent(code: string, key: string, modifiers: { alt?: boolean; ctrl?: boolean; shift?: boolean; meta?: boolean } = {}) {
+  return {
+    code,
+    key,
+    altKey: Boolean(modifiers.alt),
+    ctrlKey: Boolean(modifiers.ctrl),
+    shiftKey: Boolean(modifiers.shift),
+    metaKey: Boolean(modifiers.meta),
+  };
+}
+
+describe('parseHotkey', () => {
+  test('reads a key with its modifiers in any case and order', () => {
+    expect(parseHotkey('F8')).toEqual({ code: 'F8', alt: false, ctrl: false, shift: false, meta: false });
+    expect(parseHotkey('shift + alt + v')).toEqual({ code: 'KeyV', alt: true, ctrl: false, shift: true, meta: false });
+    expect(parseHotkey('Ctrl+1')?.code).toBe('Digit1');
+    expect(parseHotkey('Space')?.code).toBe('Space');
+  });
+
+  test('rejects modifiers alone, unknown modifiers and odd keys', () => {
+    ['', 'Ctrl', 'Alt+Shift', 'Hyper+V', 'Ctrl+-', 'Ctrl+'].forEach(text => {
+      expect(parseHotkey(text)).toBeUndefined();
+    });
+  });
+
+  test('round-trips through formatHotkey', () => {
+    expect(formatHotkey(parseHotkey('shift+ctrl+k')!)).toBe('Ctrl+Shift+K');
+    expect(formatHotkey(parseHotkey('Alt+7')!)).toBe('Alt+7');
+  });
+});
+
+describe('matchesHotkey', () => {
+  const hotkey = parseHotkey('Alt+Shift+V')!;
+
+  test('needs the key and exactly its modifiers', () => {
+    expect(matchesHotkey(keyEvent('KeyV', 'V', { alt: true, shift: true }), hotkey)).toBe(true);
+    expect(matchesHotkey(keyEvent('KeyV', 'V', { alt: true }), hotkey)).toBe(false);
+    expect(matchesHotkey(keyEvent('KeyV', 'V', { alt: true, shift: true, ctrl: true }), hotkey)).toBe(false);
+    expect(matchesHotkey(keyEvent('KeyB', 'B', { alt: true, shift: true }), hotkey)).toBe(false);
+  });
+
+  test('reads the combination pressed, ignoring modifiers on their own', () => {
+    expect(hotkeyFromEvent(keyEvent('KeyV', 'V', { alt: true, shift: true }))).toBe('Alt+Shift+V');
+    expect(hotkeyFromEvent(keyEvent('ShiftLeft', 'Shift', { shift: true }))).toBeUndefined();
+  });
+});
+
+describe('releasesHotkey', () => {
+  const hotkey = parseHotkey('Ctrl+Space')!;
+
+  test('lets go on the main key or a modifier the combination needs', () => {
+    expect(releasesHotkey(keyEvent('Space', ' ', { ctrl: true }), hotkey)).toBe(true);
+    expect(releasesHotkey(keyEvent('ControlLeft', 'Control'), hotkey)).toBe(true);
+  });
+
+  test('holds on through other keys and modifiers', () => {
+    expect(releasesHotkey(keyEvent('ShiftLeft', 'Shift', { ctrl: true }), hotkey)).toBe(false);
+    expect(releasesHotkey(keyEvent('KeyA', 'a', { ctrl: true }), hotkey)).toBe(false);
+  });
+});
+
+describe('hotkeyNeedsFreeFocus', () => {
+  test('only for keys that would type into a field', () => {
+    expect(hotkeyNeedsFreeFocus(parseHotkey('V')!)).toBe(true);
+    expect(hotkeyNeedsFreeFocus(parseHotkey('Shift+V')!)).toBe(true);
+    expect(hotkeyNeedsFreeFocus(parseHotkey('F8')!)).toBe(false);
+    expect(hotkeyNeedsFreeFocus(parseHotkey('Ctrl+V')!)).toBe(false);
+  });
+});
+
+describe('spotWakeWord', () => {
+  test('hears the wake phrase however the recogniser spells it', () => {
+    expect(spotWakeWord('Hey Haus')).toEqual({ command: '' });
+    expect(spotWakeWord('hey house, show me units in Bondi')).toEqual({ command: 'show me units in Bondi' });
+    expect(spotWakeWord('Hay hows. Anything in Manly?')).toEqual({ command: 'Anything in Manly?' });
+    expect(spotWakeWord('okay haus compare these')).toEqual({ command: 'compare these' });
+  });
+
+  test('keeps only what follows the wake phrase', () => {
+    expect(spotWakeWord('so um hey haus what is this worth')).toEqual({ command: 'what is this worth' });
+  });
+
+  test('is not woken by searches that happen to mention a house', () => {
+    expect(spotWakeWord('okay, house with a pool')).toBeUndefined();
+    expect(spotWakeWord('ok house under a million')).toBeUndefined();
+    expect(spotWakeWord('hi, house prices in Sydney')).toBeUndefined();
+    expect(spotWakeWord('they have a lighthouse')).toBeUndefined();
+    expect(spotWakeWord('a house in Bondi')).toBeUndefined();
+  });
+});
+
+describe('parseStoredActivationSettings', () => {
+  test('reads valid settings and tidies the hotkey', () => {
+    const stored = JSON.stringify({ mode: 'push-to-talk', hotkey: 'shift+alt+v', listenTimeoutMs: 15000 });
+    expect(parseStoredActivationSettings(stored)).toEqual({ mode: 'push-to-talk', hotkey: 'Alt+Shift+V', listenTimeoutMs: 15000 });
+  });
+
+  test('replaces each invalid field with its default', () => {
+    const stored = JSON.stringify({ mode: 'telepathy', hotkey: 'Ctrl', listenTimeoutMs: 12345 });
+    expect(parseStoredActivationSettings(stored)).toEqual(DEFAULT_COPILOT_ACTIVATION);
+    expect(parseStoredActivationSettings(JSON.stringify({ mode: 'wake-word' }))).toEqual({ ...DEFAULT_COPILOT_ACTIVATION, mode: 'wake-word' });
+  });
+
+  test('falls back to the defaults for nothing, junk or the wrong shape', () => {
+    [null, '', '{not json', 'null', '42'].forEach(stored => {
+      expect(parseStoredActivationSettings(stored)).toEqual(DEFAULT_COPILOT_ACTIVATION);
+    });
+  });
+});
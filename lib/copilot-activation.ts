@@ -0,0 +1,186 @@
+/**
+ * Copilot activation
+ * How the voice copilot starts listening: click-to-talk on the copilot's mic
+ * button, push-to-talk on a global hotkey, or hands-free after the wake
+ * phrase "Hey Haus". The wake phrase is spotted locally in the speech
+ * recogniser's transcript; nothing leaves the browser until a command follows.
+ */
+
+export type CopilotActivationMode = 'click' | 'push-to-talk' | 'wake-word';
+
+export interface CopilotActivationSettings {
+  mode: CopilotActivationMode;
+  // Push-to-talk key combination, e.g. "F8" or "Alt+Shift+V"
+  hotkey: string;
+  // Listening stops after this long without hearing anything
+  listenTimeoutMs: number;
+}
+
+export const COPILOT_ACTIVATION_STORAGE_KEY = 'copilotActivation';
+export const COPILOT_ACTIVATION_MODES: CopilotActivationMode[] = ['click', 'push-to-talk', 'wake-word'];
+export const COPILOT_LISTEN_TIMEOUTS_MS = [5000, 8000, 15000, 30000];
+// Once something has been said, this much silence ends a hands-free command
+export const END_OF_COMMAND_SILENCE_MS = 1500;
+
+export const DEFAULT_COPILOT_ACTIVATION: CopilotActivationSettings = {
+  mode: 'click',
+  hotkey: 'F8',
+  listenTimeoutMs: 8000,
+};
+
+export interface Hotkey {
+  // KeyboardEvent.code of the main key, e.g. "KeyV", "Space" or "F8"
+  code: string;
+  alt: boolean;
+  ctrl: boolean;
+  shift: boolean;
+  meta: boolean;
+}
+
+const MODIFIERS = ['Ctrl', 'Alt', 'Shift', 'Meta'] as const;
+const MODIFIER_KEYS: Record<(typeof MODIFIERS)[number], string> = {
+  Ctrl: 'Control',
+  Alt: 'Alt',
+  Shift: 'Shift',
+  Meta: 'Meta',
+};
+
+// "V" -> "KeyV", "1" -> "Digit1"; anything else is already a code name
+function keyCode(key: string): string {
+  if (/^[A-Za-z]$/.test(key)) return `Key${key.toUpperCase()}`;
+  if (/^\d$/.test(key)) return `Digit${key}`;
+  return key;
+}
+
+function keyLabel(code: string): string {
+  return code.replace(/^Key(?=[A-Z]$)/, '').replace(/^Digit(?=\d$)/, '');
+}
+
+/**
+ * @returns undefined when the text isn't a key optionally preceded by modifiers
+ */
+export function parseHotkey(text: string): Hotkey | undefined {
+  const parts = text.split('+').map(part => part.trim()).filter(Boolean);
+  const key = parts.pop();
+  if (!key || !/^[A-Za-z0-9]+$/.test(key) || MODIFIERS.some(modifier => modifier.toLowerCase() === key.toLowerCase())) {
+    return undefined;
+  }
+
+  const modifiers = parts.map(part => MODIFIERS.find(modifier => modifier.toLowerCase() === part.toLowerCase()));
+  if (modifiers.some(modifier => modifier === undefined)) return undefined;
+
+  return {
+    code: keyCode(key),
+    alt: modifiers.includes('Alt'),
+    ctrl: modifiers.includes('Ctrl'),
+    shift: modifiers.includes('Shift'),
+    meta: modifiers.includes('Meta'),
+  };
+}
+
+export function formatHotkey(hotkey: Hotkey): string {
+  return [
+    hotkey.ctrl && 'Ctrl',
+    hotkey.alt && 'Alt',
+    hotkey.shift && 'Shift',
+    hotkey.meta && 'Meta',
+    keyLabel(hotkey.code),
+  ].filter(Boolean).join('+');
+}
+
+type HotkeyEvent = Pick<KeyboardEvent, 'code' | 'key' | 'altKey' | 'ctrlKey' | 'shiftKey' | 'metaKey'>;
+
+/**
+ * The combination pressed in a keydown event; undefined while only modifiers are down
+ */
+export function hotkeyFromEvent(event: HotkeyEvent): string | undefined {
+  if (!event.code || Object.values(MODIFIER_KEYS).includes(event.key)) return undefined;
+  return formatHotkey({
+    code: event.code,
+    alt: event.altKey,
+    ctrl: event.ctrlKey,
+    shift: event.shiftKey,
+    meta: event.metaKey,
+  });
+}
+
+export function matchesHotkey(event: HotkeyEvent, hotkey: Hotkey): boolean {
+  return event.code === hotkey.code
+    && event.altKey === hotkey.alt
+    && event.ctrlKey === hotkey.ctrl
+    && event.shiftKey === hotkey.shift
+    && event.metaKey === hotkey.meta;
+}
+
+/**
+ * Whether a keyup lets go of the combination: its main key or any modifier it needs
+ */
+export function releasesHotkey(event: HotkeyEvent, hotkey: Hotkey): boolean {
+  if (event.code === hotkey.code) return true;
+  return (hotkey.ctrl && event.key === MODIFIER_KEYS.Ctrl)
+    || (hotkey.alt && event.key === MODIFIER_KEYS.Alt)
+    || (hotkey.shift && event.key === MODIFIER_KEYS.Shift)
+    || (hotkey.meta && event.key === MODIFIER_KEYS.Meta);
+}
+
+/**
+ * Hotkeys without Ctrl, Alt or Meta would fire while typing, so they are
+ * ignored when focus is in a text field
+ */
+export function hotkeyNeedsFreeFocus(hotkey: Hotkey): boolean {
+  return !hotkey.ctrl && !hotkey.alt && !hotkey.meta && !/^F\d{1,2}$/.test(hotkey.code);
+}
+
+// Recognisers hear "Haus" as "house" more often than not, so "house" counts after "hey" only:
+// "okay, house with a pool" is a search, not a greeting
+const WAKE_PHRASE = /\b(?:(?:hey|hay)[\s,.!-]+(?:haus|house|hause|hows|howse)|(?:hi|ok|okay)[\s,.!-]+(?:haus|hause))\b[\s,.!?-]*/i;
+
+export interface WakeWordMatch {
+  // What was said after the wake phrase, possibly empty
+  command: string;
+}
+
+/**
+ * Looks for "Hey Haus" in a stretch of recognised speech
+ */
+export function spotWakeWord(transcript: string): WakeWordMatch | undefined {
+  const match = WAKE_PHRASE.exec(transcript);
+  if (!match) return undefined;
+  return { command: transcript.slice(match.index + match[0].length).trim() };
+}
+
+export function describeActivationMode(mode: CopilotActivationMode, hotkey: string): string {
+  switch (mode) {
+    case 'push-to-talk':
+      return `Hold ${hotkey} to talk`;
+    case 'wake-word':
+      return 'Say "Hey Haus"';
+    default:
+      return 'Click the mic to talk';
+  }
+}
+
+/**
+ * Reads stored settings, keeping only the fields that are still valid
+ */
+export function parseStoredActivationSettings(stored: string | null): CopilotActivationSettings {
+  if (!stored) return DEFAULT_COPILOT_ACTIVATION;
+  try {
+    const parsed = JSON.parse(stored) as Partial<CopilotActivationSettings> | null;
+    if (typeof parsed !== 'object' || parsed === null) return DEFAULT_COPILOT_ACTIVATION;
+
+    return {
+      mode: COPILOT_ACTIVATION_MODES.includes(parsed.mode as CopilotActivationMode)
+        ? parsed.mode as CopilotActivationMode
+        : DEFAULT_COPILOT_ACTIVATION.mode,
+      hotkey: typeof parsed.hotkey === 'string' && parseHotkey(parsed.hotkey)
+        ? formatHotkey(parseHotkey(parsed.hotkey)!)
+        : DEFAULT_COPILOT_ACTIVATION.hotkey,
+      listenTimeoutMs: typeof parsed.listenTimeoutMs === 'number' && COPILOT_LISTEN_TIMEOUTS_MS.includes(parsed.listenTimeoutMs)
+        ? parsed.listenTimeoutMs
+        : DEFAULT_COPILOT_ACTIVATION.listenTimeoutMs,
+    };
+  } catch {
+    return DEFAULT_COPILOT_ACTIVATION;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Copilot context
+ * The listings the copilot was grounded on, in the small card shape the UI
+ * shows, and the `[listing:<id>]` citations its answers use to refer to them.
+ * Only ids that were retrieved for the answer become cards; anything else the
+ * model cites is dropped, so an invented listing never reaches the screen.
+ */
+
+import type { Listing, ListingPropertyType, ListingType } from './types';
+
+export interface CopilotListingCard {
+  id: string;
+  title: string;
+  price: number;
+  listingType: ListingType;
+  propertyType: ListingPropertyType;
+  suburb: string;
+  state?: string;
+  bedrooms: number;
+  bathrooms: number;
+  parking: number;
+  image?: string;
+}
+
+export type CopilotAnswerSegment =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; listing: CopilotListingCard; number: number };
+
+// Name of the UI message stream data part that carries the retrieved cards
+export const COPILOT_LISTINGS_PART = 'data-listings';
+
+const CITATION = /\[listing:\s*([^\]\s]+)\s*\]/g;
+// A citation cut off mid-stream, e.g. "[listing:pro"
+const PARTIAL_CITATION = /\[(?:l(?:i(?:s(?:t(?:i(?:n(?:g(?::[^\]\s]*)?)?)?)?)?)?)?)?$/;
+
+export function citationMarker(listingId: string): string {
+  return `[listing:${listingId}]`;
+}
+
+export function toCopilotListingCard(listing: Listing): CopilotListingCard {
+  return {
+    id: listing.id,
+    title: listing.title,
+    price: listing.price,
+    listingType: listing.listingType,
+    propertyType: listing.propertyType,
+    suburb: listing.address.suburb,
+    state: listing.address.state,
+    bedrooms: listing.bedrooms,
+    bathrooms: listing.bathrooms,
+    parking: listing.parking,
+    image: listing.images[0],
+  };
+}
+
+export function isCopilotListingCard(value: unknown): value is CopilotListingCard {
+  if (typeof value !== 'object' || value === null) return false;
+  const card = value as Partial<CopilotListingCard>;
+  return typeof card.id === 'string' && typeof card.title === 'string' && typeof card.price === 'number';
+}
+
+/**
+ * Every listing id cited in the text, in order of first mention
+ */
+export function citedListingIds(text: string): string[] {
+  return [...new Set(Array.from(text.matchAll(CITATION), match => match[1]))];
+}
+
+/**
+ * The answer without its citation markers, e.g. for reading it aloud
+ */
+export function stripCitations(text: string): string {
+  return text.replace(CITATION, '');
+}
+
+/**
+ * Splits an answer into text and citations of the given cards, numbered by
+ * first mention. Citations of unknown ids are removed.
+ *
+ * @param streaming hides a citation that is still arriving
+ */
+export function splitCopilotAnswer(
+  text: string,
+  cards: CopilotListingCard[],
+  streaming = false
+): CopilotAnswerSegment[] {
+  const source = streaming ? text.replace(PARTIAL_CITATION, '') : text;
+  const byId = new Map(cards.map(card => [card.id, card]));
+  const numbers = new Map<string, number>();
+  const segments: CopilotAnswerSegment[] = [];
+  let last = 0;
+
+  const pushText = (value: string) => {
+    if (value) segments.push({ type: 'text', text: value });
+  };
+
+  for (const match of source.matchAll(CITATION)) {
+    pushText(source.slice(last, match.index));
+    last = match.index! + match[0].length;
+
+    const listing = byId.get(match[1]);
+    if (!listing) continue;
+    if (!numbers.has(listing.id)) numbers.set(listing.id, numbers.size + 1);
+    segments.push({ type: 'citation', listing, number: numbers.get(listing.id)! });
+  }
+  pushText(source.slice(last));
+
+  return segments;
+}
+
+/**
+ * The cited cards in citation order
+ */
+export function citedListings(segments: CopilotAnswerSegment[]): CopilotListingCard[] {
+  const cited = new Map<string, CopilotListingCard>();
+  segments.forEach(segment => {
+    if (segment.type === 'citation') cited.set(segment.listing.id, segment.listing);
+  });
+  return [...cited.values()];
+}
@@ -0,0 +1,133 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  EMPTY_COPILOT_PREFERENCES,
+  compactCopilotConversation,
+  describeCopilotPreferences,
+  emptyCopilotConversation,
+  formatCopilotMemory,
+  isCopilotUserId,
+  learnCopilotPreferences,
+  parseStoredCopilotConversation,
+  recordCopilotTurn,
+  summarizeCopilotTurns,
+  type CopilotConversation,
+  type CopilotMessage,
+} from './copilot-memory';
+
+describe('learnCopilotPreferences', () => {
+  test('learns budget, bedrooms, suburb and property type', () => {
+    const preferences = learnCopilotPreferences(EMPTY_COPILOT_PREFERENCES, '3 bed house under 1.2 mil in Bondi');
+    expect(preferences).toMatchObject({ budgetMax: 1200000, bedroomsMin: 3, suburbs: ['Bondi, NSW'], propertyTypes: ['House'] });
+  });
+
+  test('keeps the latest suburb first without repeats', () => {
+    let preferences = learnCopilotPreferences(EMPTY_COPILOT_PREFERENCES, 'homes in Bondi');
+    preferences = learnCopilotPreferences(preferences, 'what about Manly');
+    preferences = learnCopilotPreferences(preferences, 'back to Bondi');
+    expect(preferences.suburbs).toEqual(['Bondi, NSW', 'Manly, NSW']);
+  });
+
+  test('adds, removes and replaces amenities', () => {
+    let preferences = learnCopilotPreferences(EMPTY_COPILOT_PREFERENCES, 'it needs a pool and a garage');
+    expect(preferences.amenities).toEqual(['Pool', 'Garage']);
+    preferences = learnCopilotPreferences(preferences, 'actually drop the garage');
+    expect(preferences.amenities).toEqual(['Pool']);
+    preferences = learnCopilotPreferences(preferences, "drop the pool, I'd like a garage");
+    expect(preferences.amenities).toEqual(['Garage']);
+  });
+
+  test('"any price" forgets the budget', () => {
+    const preferences = learnCopilotPreferences({ ...EMPTY_COPILOT_PREFERENCES, budgetMax: 900000 }, 'any price is fine');
+    expect(preferences.budgetMax).toBeUndefined();
+  });
+});
+
+describe('describeCopilotPreferences', () => {
+  test('describes each preference as a phrase', () => {
+    expect(describeCopilotPreferences({
+      budgetMin: 800000,
+      budgetMax: 1100000,
+      bedroomsMin: 2,
+      suburbs: ['Bondi, NSW', 'Manly, NSW'],
+      propertyTypes: ['Apartment'],
+      amenities: ['Pool'],
+    })).toEqual([
+      'Budget $800,000 to $1,100,000',
+      '2+ bedrooms',
+      'Prefers apartment',
+      'Interested in Bondi, NSW / Manly, NSW',
+      'Must have pool',
+    ]);
+  });
+});
+
+describe('conversation compaction', () => {
+  const turns = (count: number): CopilotMessage[] => Array.from({ length: count }, (_, i) => i % 2 === 0
+    ? { role: 'user' as const, content: `question ${i / 2}` }
+    : { role: 'assistant' as const, content: `answer citing [listing:prop-${i}]` });
+
+  test('leaves short conversations alone', () => {
+    const conversation = { ...emptyCopilotConversation('user'), messages: turns(4) };
+    expect(compactCopilotConversation(conversation, 6, 4)).toBe(conversation);
+  });
+
+  test('folds old turns into the summary and keeps history starting with a user message', () => {
+    const conversation = { ...emptyCopilotConversation('user'), messages: turns(10) };
+    const compacted = compactCopilotConversation(conversation, 6, 3);
+    expect(compacted.messages[0]).toEqual({ role: 'user', content: 'question 4' });
+    expect(compacted.messages).toHaveLength(2);
+    expect(compacted.summary).toContain('- Asked: question 0');
+    expect(compacted.summary).toContain('Discussed [listing:prop-1]');
+  });
+
+  test('summaries keep only their latest lines', () => {
+    const summary = summarizeCopilotTurns(undefined, turns(40).filter(message => message.role === 'user'));
+    expect(summary.split('\n')).toHaveLength(16);
+    expect(summary.endsWith('question 19')).toBe(true);
+  });
+});
+
+describe('recordCopilotTurn', () => {
+  test('appends the exchange and learns from the question', () => {
+    const conversation = recordCopilotTurn(emptyCopilotConversation('user'), 'houses in Bondi', 'Here are two.', 42);
+    expect(conversation.messages).toEqual([
+      { role: 'user', content: 'houses in Bondi' },
+      { role: 'assistant', content: 'Here are two.' },
+    ]);
+    expect(conversation.preferences.suburbs).toEqual(['Bondi, NSW']);
+    expect(conversation.updatedAt).toBe(42);
+  });
+});
+
+describe('formatCopilotMemory', () => {
+  test('is undefined for a new user', () => {
+    expect(formatCopilotMemory(emptyCopilotConversation('user'))).toBeUndefined();
+  });
+
+  test('includes preferences and the summary', () => {
+    const conversation: CopilotConversation = {
+      ...emptyCopilotConversation('user'),
+      summary: '- Asked: pools',
+      preferences: { ...EMPTY_COPILOT_PREFERENCES, bedroomsMin: 2 },
+    };
+    expect(formatCopilotMemory(conversation)).toBe('What the user has told you before: 2+ bedrooms.\nEarlier in the conversation:\n- Asked: pools');
+  });
+});
+
+describe('stored conversations', () => {
+  test('round-trip', () => {
+    const conversation = recordCopilotTurn(emptyCopilotConversation('user'), 'a pool please', 'Sure.', 1);
+    expect(parseStoredCopilotConversation(JSON.parse(JSON.stringify(conversation)), 'user')).toEqual(conversation);
+  });
+
+  test('fall back to an empty conversation when incompatible', () => {
+    expect(parseStoredCopilotConversation({ messages: [{ role: 'system', content: 'x' }] }, 'user').messages).toEqual([]);
+    expect(parseStoredCopilotConversation('nonsense', 'user').messages).toEqual([]);
+  });
+
+  test('isCopilotUserId accepts plain ids only', () => {
+    expect(isCopilotUserId('user-1')).toBe(true);
+    expect(isCopilotUserId('../etc/passwd')).toBe(false);
+    expect(isCopilotUserId('')).toBe(false);
+  });
+});
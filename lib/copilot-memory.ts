@@ -0,0 +1,231 @@
+/**
+ * Copilot memory
+ * One user's copilot conversation: the recent messages verbatim, a summary of
+ * the older ones, and the preferences learned along the way (budget, suburbs,
+ * property types and must-have amenities). Preferences are read from the
+ * user's own words with the offline query parser, so they follow the same
+ * `set`/`unset`/`add`/`remove` rules as spoken search refinements.
+ */
+
+import { parseSearchQuery } from './query-parser';
+import { citedListingIds, citationMarker } from './copilot-context';
+
+export interface CopilotMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface CopilotPreferences {
+  budgetMin?: number;
+  budgetMax?: number;
+  bedroomsMin?: number;
+  // Most recently mentioned first
+  suburbs: string[];
+  propertyTypes: string[];
+  amenities: string[];
+}
+
+export interface CopilotConversation {
+  userId: string;
+  messages: CopilotMessage[];
+  // The turns that were folded out of `messages`
+  summary?: string;
+  preferences: CopilotPreferences;
+  updatedAt: number;
+}
+
+export const EMPTY_COPILOT_PREFERENCES: CopilotPreferences = { suburbs: [], propertyTypes: [], amenities: [] };
+
+// Past this many messages the oldest are folded into the summary, down to COPILOT_MESSAGES_KEPT
+export const MAX_COPILOT_MESSAGES = 20;
+export const COPILOT_MESSAGES_KEPT = 12;
+const MAX_SUMMARY_LINES = 16;
+const MAX_SUBURBS = 5;
+const MAX_PROPERTY_TYPES = 3;
+
+export function emptyCopilotConversation(userId: string): CopilotConversation {
+  return { userId, messages: [], preferences: EMPTY_COPILOT_PREFERENCES, updatedAt: Date.now() };
+}
+
+/**
+ * User ids come from the client's auth session, so only a plain id is accepted
+ */
+export function isCopilotUserId(value: unknown): value is string {
+  return typeof value === 'string' && /^[\w.@-]{1,128}$/.test(value);
+}
+
+/**
+ * Where a user's conversation is stored. The user id comes from the client and
+ * can't be checked, so it is scoped to the signed browser session it arrived
+ * with: naming someone else's user id from another browser finds nothing.
+ */
+export function copilotConversationKey(sessionId: string, userId: string): string {
+  return `${sessionId}:${userId}`;
+}
+
+export function isCopilotMessage(value: unknown): value is CopilotMessage {
+  if (typeof value !== 'object' || value === null) return false;
+  const message = value as Partial<CopilotMessage>;
+  return (message.role === 'user' || message.role === 'assistant') && typeof message.content === 'string';
+}
+
+// Latest first, without repeats (ignoring case)
+function remember(list: string[], values: string[], limit: number): string[] {
+  const lower = values.map(value => value.toLowerCase());
+  return [...values, ...list.filter(item => !lower.includes(item.toLowerCase()))].slice(0, limit);
+}
+
+/**
+ * The preferences after one user message
+ */
+export function learnCopilotPreferences(preferences: CopilotPreferences, text: string): CopilotPreferences {
+  const parsed = parseSearchQuery(text, { amenities: preferences.amenities });
+  const next: CopilotPreferences = { ...preferences };
+
+  const { priceMin, priceMax, bedroomsMin, location, propertyType, amenities } = parsed;
+  if (priceMin) next.budgetMin = priceMin.op === 'unset' ? undefined : priceMin.value;
+  if (priceMax) next.budgetMax = priceMax.op === 'unset' ? undefined : priceMax.value;
+  if (bedroomsMin) next.bedroomsMin = bedroomsMin.op === 'unset' ? undefined : bedroomsMin.value;
+  if (location?.value) next.suburbs = remember(next.suburbs, [location.value], MAX_SUBURBS);
+  if (propertyType?.value) next.propertyTypes = remember(next.propertyTypes, [propertyType.value], MAX_PROPERTY_TYPES);
+
+  if (amenities?.op === 'unset') {
+    next.amenities = [];
+  } else if (amenities?.value) {
+    const named = amenities.value.map(item => item.toLowerCase());
+    const kept = next.amenities.filter(item => !named.includes(item.toLowerCase()));
+    // `set` comes from utterances that both add and remove, and spells out the whole list
+    next.amenities = amenities.op === 'set' ? amenities.value : amenities.op === 'remove' ? kept : [...kept, ...amenities.value];
+  }
+
+  return next;
+}
+
+const currency = (value: number) => `$${Math.round(value).toLocaleString('en-AU')}`;
+
+/**
+ * Preferences as short phrases, e.g. "Budget up to $900,000"
+ */
+export function describeCopilotPreferences(preferences: CopilotPreferences): string[] {
+  const { budgetMin, budgetMax, bedroomsMin, suburbs, propertyTypes, amenities } = preferences;
+  const phrases: string[] = [];
+
+  if (budgetMin !== undefined && budgetMax !== undefined) {
+    phrases.push(`Budget ${currency(budgetMin)} to ${currency(budgetMax)}`);
+  } else if (budgetMax !== undefined) {
+    phrases.push(`Budget up to ${currency(budgetMax)}`);
+  } else if (budgetMin !== undefined) {
+    phrases.push(`Budget from ${currency(budgetMin)}`);
+  }
+  if (bedroomsMin !== undefined) phrases.push(`${bedroomsMin}+ bedrooms`);
+  if (propertyTypes.length > 0) phrases.push(`Prefers ${propertyTypes.join(', ').toLowerCase()}`);
+  if (suburbs.length > 0) phrases.push(`Interested in ${suburbs.join(' / ')}`);
+  if (amenities.length > 0) phrases.push(`Must have ${amenities.join(', ').toLowerCase()}`);
+
+  return phrases;
+}
+
+const clip = (text: string, length: number) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > length ? `${flat.slice(0, length - 1)}…` : flat;
+};
+
+/**
+ * Adds a line per folded turn to the summary: what the user asked and which
+ * listings the answer cited. Only the latest lines are kept.
+ */
+export function summarizeCopilotTurns(previous: string | undefined, messages: CopilotMessage[]): string {
+  const lines = previous ? previous.split('\n') : [];
+
+  messages.forEach(message => {
+    if (message.role === 'user') {
+      lines.push(`- Asked: ${clip(message.content, 140)}`);
+      return;
+    }
+    const cited = citedListingIds(message.content);
+    if (cited.length > 0) lines.push(`  Discussed ${cited.map(citationMarker).join(', ')}`);
+  });
+
+  return lines.slice(-MAX_SUMMARY_LINES).join('\n');
+}
+
+/**
+ * Folds the oldest messages into the summary once there are too many,
+ * keeping whole turns so the kept history starts with a user message
+ */
+export function compactCopilotConversation(
+  conversation: CopilotConversation,
+  max = MAX_COPILOT_MESSAGES,
+  keep = COPILOT_MESSAGES_KEPT
+): CopilotConversation {
+  if (conversation.messages.length <= max) return conversation;
+
+  let start = conversation.messages.length - keep;
+  while (start < conversation.messages.length && conversation.messages[start].role !== 'user') start++;
+
+  return {
+    ...conversation,
+    messages: conversation.messages.slice(start),
+    summary: summarizeCopilotTurns(conversation.summary, conversation.messages.slice(0, start)),
+  };
+}
+
+/**
+ * The conversation after one exchange
+ */
+export function recordCopilotTurn(
+  conversation: CopilotConversation,
+  question: string,
+  answer: string,
+  now = Date.now()
+): CopilotConversation {
+  return compactCopilotConversation({
+    ...conversation,
+    messages: [...conversation.messages, { role: 'user', content: question }, { role: 'assistant', content: answer }],
+    preferences: learnCopilotPreferences(conversation.preferences, question),
+    updatedAt: now,
+  });
+}
+
+/**
+ * What the model should remember about the user; undefined for a new user
+ */
+export function formatCopilotMemory(conversation: CopilotConversation): string | undefined {
+  const lines: string[] = [];
+  const preferences = describeCopilotPreferences(conversation.preferences);
+
+  if (preferences.length > 0) {
+    lines.push(`What the user has told you before: ${preferences.join('; ')}.`);
+  }
+  if (conversation.summary) {
+    lines.push(`Earlier in the conversation:\n${conversation.summary}`);
+  }
+
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+function isPreferences(value: unknown): value is CopilotPreferences {
+  if (typeof value !== 'object' || value === null) return false;
+  const preferences = value as Partial<CopilotPreferences>;
+  return Array.isArray(preferences.suburbs) && Array.isArray(preferences.propertyTypes) && Array.isArray(preferences.amenities);
+}
+
+/**
+ * Reads a stored conversation, falling back to an empty one when the value is
+ * missing or from an incompatible version
+ */
+export function parseStoredCopilotConversation(value: unknown, userId: string): CopilotConversation {
+  if (typeof value !== 'object' || value === null) return emptyCopilotConversation(userId);
+  const stored = value as Partial<CopilotConversation>;
+  if (!Array.isArray(stored.messages) || !stored.messages.every(isCopilotMessage) || !isPreferences(stored.preferences)) {
+    return emptyCopilotConversation(userId);
+  }
+
+  return {
+    userId,
+    messages: stored.messages,
+    summary: typeof stored.summary === 'string' ? stored.summary : undefined,
+    preferences: stored.preferences,
+    updatedAt: typeof stored.updatedAt === 'number' ? stored.updatedAt : Date.now(),
+  };
+}
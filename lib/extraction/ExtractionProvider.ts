@@ -0,0 +1,44 @@
+/**
+ * Extraction Provider
+ * Backend abstraction /api/voice/process reads search params from. Providers
+ * return the model's raw JSON; extractSearchParams() validates it.
+ */
+
+import type { SearchParams } from '@/lib/types';
+
+export interface ExtractionRequest {
+  query: string;
+  // Criteria already on screen, so the model only returns what the query changes
+  currentParams?: Partial<SearchParams>;
+}
+
+export interface ExtractionProvider {
+  /** Short identifier such as "gemini" or "local", reported in responses and logs */
+  readonly name: string;
+  readonly model: string;
+  extract(request: ExtractionRequest, signal?: AbortSignal): Promise<unknown>;
+}
+
+export class ExtractionError extends Error {
+  readonly provider: string;
+  // Timeouts, rate limits and server errors are worth another attempt; bad keys and bad requests are not
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(provider: string, message: string, options: { retryable?: boolean; status?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ExtractionError';
+    this.provider = provider;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+  }
+}
+
+/**
+ * Rate limits and server-side failures are transient; other HTTP errors are not
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+export default ExtractionProvider;
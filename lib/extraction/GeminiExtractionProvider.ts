@@ -0,0 +1,61 @@
+/**
+ * Gemini Extraction Provider
+ * Calls the Gemini REST API with a response schema, so the model answers in
+ * the extraction shape directly
+ */
+
+import { ExtractionError, isRetryableStatus, type ExtractionProvider, type ExtractionRequest } from './ExtractionProvider';
+import { EXTRACTION_INSTRUCTIONS, buildExtractionPrompt, geminiResponseSchema } from './extraction-schema';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash-exp';
+
+export class GeminiExtractionProvider implements ExtractionProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  private apiKey: string;
+
+  constructor(apiKey: string, model: string = DEFAULT_GEMINI_MODEL) {
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  async extract(request: ExtractionRequest, signal?: AbortSignal): Promise<unknown> {
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent?key=${this.apiKey}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contents: [{ parts: [{ text: EXTRACTION_INSTRUCTIONS + '\n\n' + buildExtractionPrompt(request) }] }],
+          generationConfig: {
+            temperature: 0.1,
+            maxOutputTokens: 500,
+            responseMimeType: 'application/json',
+            responseSchema: geminiResponseSchema(),
+          },
+        }),
+        signal,
+      }
+    );
+
+    if (!response.ok) {
+      throw new ExtractionError(this.name, `Gemini API error ${response.status}: ${await response.text()}`, {
+        status: response.status,
+        retryable: isRetryableStatus(response.status),
+      });
+    }
+
+    const data = await response.json();
+    const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    // No candidate means nothing was extracted, not a failure
+    if (!text) return {};
+
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      throw new ExtractionError(this.name, 'Gemini returned malformed JSON', { retryable: true, cause: error });
+    }
+  }
+}
+
+export default GeminiExtractionProvider;
@@ -0,0 +1,19 @@
+/**
+ * Local Extraction Provider
+ * Deterministic, offline backend built on the rule-based query parser. Used
+ * when no model is configured and for testing the route without network.
+ */
+
+import { parseSearchQuery } from '@/lib/query-parser';
+import type { ExtractionProvider, ExtractionRequest } from './ExtractionProvider';
+
+export class LocalExtractionProvider implements ExtractionProvider {
+  readonly name = 'local';
+  readonly model = 'rules';
+
+  async extract(request: ExtractionRequest): Promise<unknown> {
+    return parseSearchQuery(request.query, request.currentParams);
+  }
+}
+
+export default LocalExtractionProvider;
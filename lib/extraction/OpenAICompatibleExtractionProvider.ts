@@ -0,0 +1,84 @@
+/**
+ * OpenAI-compatible Extraction Provider
+ * Chat completions in JSON mode. OpenAI and Groq share this API, differing
+ * only in base URL and models.
+ */
+
+import { ExtractionError, isRetryableStatus, type ExtractionProvider, type ExtractionRequest } from './ExtractionProvider';
+import { EXTRACTION_INSTRUCTIONS, buildExtractionPrompt, jsonResponseSchema } from './extraction-schema';
+
+export interface OpenAICompatibleOptions {
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+}
+
+export class OpenAICompatibleExtractionProvider implements ExtractionProvider {
+  readonly name: string;
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.name = options.name;
+    this.baseUrl = options.baseUrl.replace(/\/$/, '');
+    this.apiKey = options.apiKey;
+    this.model = options.model;
+  }
+
+  async extract(request: ExtractionRequest, signal?: AbortSignal): Promise<unknown> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0.1,
+        max_tokens: 500,
+        // JSON mode guarantees syntax only, so the schema goes in the prompt and validation does the rest
+        response_format: { type: 'json_object' },
+        messages: [
+          {
+            role: 'system',
+            content: `${EXTRACTION_INSTRUCTIONS}\n- Reply with a JSON object matching this schema, omitting fields that were not mentioned:\n${JSON.stringify(jsonResponseSchema())}`,
+          },
+          { role: 'user', content: buildExtractionPrompt(request) },
+        ],
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new ExtractionError(this.name, `${this.name} API error ${response.status}: ${await response.text()}`, {
+        status: response.status,
+        retryable: isRetryableStatus(response.status),
+      });
+    }
+
+    const data = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+    if (!text) return {};
+
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      throw new ExtractionError(this.name, `${this.name} returned malformed JSON`, { retryable: true, cause: error });
+    }
+  }
+}
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+export const DEFAULT_GROQ_MODEL = 'llama-3.1-8b-instant';
+
+export function createOpenAIExtractionProvider(apiKey: string, model: string = DEFAULT_OPENAI_MODEL): OpenAICompatibleExtractionProvider {
+  return new OpenAICompatibleExtractionProvider({ name: 'openai', baseUrl: 'https://api.openai.com/v1', apiKey, model });
+}
+
+export function createGroqExtractionProvider(apiKey: string, model: string = DEFAULT_GROQ_MODEL): OpenAICompatibleExtractionProvider {
+  return new OpenAICompatibleExtractionProvider({ name: 'groq', baseUrl: 'https://api.groq.com/openai/v1', apiKey, model });
+}
+
+export default OpenAICompatibleExtractionProvider;
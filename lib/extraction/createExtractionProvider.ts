@@ -0,0 +1,43 @@
+/**
+ * Chooses an extraction provider from environment configuration (server-side only).
+ * EXTRACTION_PROVIDER (gemini | openai | groq | local) picks one explicitly and
+ * EXTRACTION_MODEL overrides its default model. Otherwise the first backend with
+ * an API key wins, falling back to the local parser when there is none.
+ */
+
+import type { ExtractionProvider } from './ExtractionProvider';
+import { GeminiExtractionProvider } from './GeminiExtractionProvider';
+import { createGroqExtractionProvider, createOpenAIExtractionProvider } from './OpenAICompatibleExtractionProvider';
+import { LocalExtractionProvider } from './LocalExtractionProvider';
+
+export type ExtractionProviderName = 'gemini' | 'openai' | 'groq' | 'local';
+
+export function createExtractionProvider(env: Record<string, string | undefined> = process.env): ExtractionProvider {
+  const keys: Record<Exclude<ExtractionProviderName, 'local'>, string | undefined> = {
+    gemini: env.GOOGLE_AI_API_KEY || env.GEMINI_API_KEY,
+    openai: env.OPENAI_API_KEY,
+    groq: env.GROQ_API_KEY,
+  };
+  const model = env.EXTRACTION_MODEL || undefined;
+  const requested = env.EXTRACTION_PROVIDER?.toLowerCase() as ExtractionProviderName | undefined;
+  const name = requested || (Object.keys(keys) as (keyof typeof keys)[]).find(provider => keys[provider]);
+
+  if (name && name !== 'local' && !keys[name]) {
+    console.warn(`EXTRACTION_PROVIDER is "${name}" but its API key is not set; using the local parser`);
+    return new LocalExtractionProvider();
+  }
+
+  switch (name) {
+    case 'gemini':
+      return new GeminiExtractionProvider(keys.gemini!, model);
+    case 'openai':
+      return createOpenAIExtractionProvider(keys.openai!, model);
+    case 'groq':
+      return createGroqExtractionProvider(keys.groq!, model);
+    default:
+      if (name && name !== 'local') console.warn(`Unknown EXTRACTION_PROVIDER "${name}"; using the local parser`);
+      return new LocalExtractionProvider();
+  }
+}
+
+export default createExtractionProvider;
@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'bun:test';
+import { ExtractionError, type ExtractionProvider, type ExtractionRequest } from './ExtractionProvider';
+import { extractSearchParams } from './extractSearchParams';
+
+const request: ExtractionRequest = { query: '3 bed house in Bondi' };
+const extracted = { bedroomsMin: { value: 3, sourceText: ['3 bed'] } };
+
+// Answers each call with the next step: a value to return or an error to throw
+function stubProvider(...steps: (unknown | Error)[]) {
+  const calls: number[] = [];
+  const provider: ExtractionProvider = {
+    name: 'stub',
+    model: 'stub-1',
+    async extract() {
+      calls.push(performance.now());
+      const step = steps[Math.min(calls.length, steps.length) - 1];
+      if (step instanceof Error) throw step;
+      return step;
+    },
+  };
+  return { provider, calls };
+}
+
+// Never answers, and rejects the way fetch does once the signal aborts
+const hangingProvider: ExtractionProvider = {
+  name: 'hanging',
+  model: 'hanging-1',
+  extract(_request, signal) {
+    return new Promise((_, reject) => {
+      signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted.', 'AbortError')));
+    });
+  },
+};
+
+const unavailable = () => new ExtractionError('stub', 'stub API error 503', { status: 503, retryable: true });
+
+describe('extractSearchParams', () => {
+  test('validates the first answer and reports the attempt count', async () => {
+    const { provider, calls } = stubProvider(extracted);
+    const result = await extractSearchParams(provider, request);
+    expect(result.params.bedroomsMin?.value).toBe(3);
+    expect(result).toMatchObject({ provider: 'stub', model: 'stub-1', attempts: 1, issues: [] });
+    expect(calls).toHaveLength(1);
+  });
+
+  test('turns a timeout into a retryable ExtractionError', async () => {
+    const failure = await extractSearchParams(hangingProvider, request, { timeoutMs: 10, retries: 0 }).catch(error => error);
+    expect(failure).toBeInstanceOf(ExtractionError);
+    expect(failure).toMatchObject({ provider: 'hanging', retryable: true, message: 'Timed out after 10ms' });
+    expect(failure.cause).toBeInstanceOf(DOMException);
+  });
+
+  test('retries transient failures after a doubling backoff', async () => {
+    const { provider, calls } = stubProvider(unavailable(), new TypeError('fetch failed'), extracted);
+    const result = await extractSearchParams(provider, request, { retries: 2, backoffMs: 20 });
+    expect(result.attempts).toBe(3);
+    // Timers may fire a millisecond early
+    expect(calls[1] - calls[0]).toBeGreaterThanOrEqual(19);
+    expect(calls[2] - calls[1]).toBeGreaterThanOrEqual(39);
+  });
+
+  test('gives up with the last error once the retries are spent', async () => {
+    const { provider, calls } = stubProvider(unavailable());
+    const failure = await extractSearchParams(provider, request, { retries: 2, backoffMs: 1 }).catch(error => error);
+    expect(failure).toBeInstanceOf(ExtractionError);
+    expect(failure.status).toBe(503);
+    expect(calls).toHaveLength(3);
+  });
+
+  test('stops at the first failure that is not worth retrying', async () => {
+    const { provider, calls } = stubProvider(new ExtractionError('stub', 'stub API error 401', { status: 401 }), extracted);
+    const failure = await extractSearchParams(provider, request, { retries: 2, backoffMs: 1 }).catch(error => error);
+    expect(failure).toMatchObject({ status: 401, retryable: false });
+    expect(calls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Runs an extraction provider with a per-attempt timeout and retries on
+ * transient failures, then validates the returned JSON against the schema
+ */
+
+import { ExtractionError, type ExtractionProvider, type ExtractionRequest } from './ExtractionProvider';
+import { validateExtraction, type ExtractionValidation } from './extraction-schema';
+
+export interface ExtractionPolicy {
+  // Per attempt
+  timeoutMs?: number;
+  // Attempts after the first
+  retries?: number;
+  // Delay before the first retry, doubled for each one after
+  backoffMs?: number;
+}
+
+export interface ExtractionResult extends ExtractionValidation {
+  provider: string;
+  model: string;
+  attempts: number;
+}
+
+export const DEFAULT_EXTRACTION_POLICY: Required<ExtractionPolicy> = {
+  timeoutMs: 8000,
+  retries: 2,
+  backoffMs: 250,
+};
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function attempt(provider: ExtractionProvider, request: ExtractionRequest, timeoutMs: number): Promise<unknown> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    return await provider.extract(request, controller.signal);
+  } catch (error) {
+    if (error instanceof ExtractionError) throw error;
+    // Aborts are our timeout; other fetch failures are network trouble. Both may clear up.
+    const message = controller.signal.aborted ? `Timed out after ${timeoutMs}ms` : `Request failed: ${error instanceof Error ? error.message : error}`;
+    throw new ExtractionError(provider.name, message, { retryable: true, cause: error });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * @throws ExtractionError when every attempt fails, or on the first failure that is not worth retrying
+ */
+export async function extractSearchParams(
+  provider: ExtractionProvider,
+  request: ExtractionRequest,
+  policy: ExtractionPolicy = {}
+): Promise<ExtractionResult> {
+  const timeoutMs = policy.timeoutMs ?? DEFAULT_EXTRACTION_POLICY.timeoutMs;
+  const retries = policy.retries ?? DEFAULT_EXTRACTION_POLICY.retries;
+  const backoffMs = policy.backoffMs ?? DEFAULT_EXTRACTION_POLICY.backoffMs;
+
+  for (let attempts = 1; ; attempts++) {
+    try {
+      const raw = await attempt(provider, request, timeoutMs);
+      return { ...validateExtraction(raw), provider: provider.name, model: provider.model, attempts };
+    } catch (error) {
+      const retryable = error instanceof ExtractionError && error.retryable;
+      if (!retryable || attempts > retries) throw error;
+      await delay(backoffMs * 2 ** (attempts - 1));
+    }
+  }
+}
+
+export default extractSearchParams;
@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'bun:test';
+import { validateExtraction } from './extraction-schema';
+
+describe('validateExtraction', () => {
+  test('keeps fields that match the schema', () => {
+    expect(validateExtraction({
+      location: { value: 'Bondi', sourceText: ['Bondi'] },
+      priceMax: { value: 1200000, sourceText: ['under 1.2 mil'], op: 'set' },
+      amenities: { value: ['Pool'], sourceText: ['pool'], op: 'add' },
+    })).toEqual({
+      params: {
+        location: { value: 'Bondi', sourceText: ['Bondi'] },
+        priceMax: { value: 1200000, sourceText: ['under 1.2 mil'], op: 'set' },
+        amenities: { value: ['Pool'], sourceText: ['pool'], op: 'add' },
+      },
+      issues: [],
+    });
+  });
+
+  test('passes number fields given as text on to the normaliser', () => {
+    const { params, issues } = validateExtraction({
+      priceMax: { value: '1.2 mil', sourceText: ['1.2 mil'] },
+      bedroomsMin: { value: 'two', sourceText: ['two bedrooms'] },
+    });
+    expect(params.priceMax?.value as unknown).toBe('1.2 mil');
+    expect(params.bedroomsMin?.value as unknown).toBe('two');
+    expect(issues).toEqual([]);
+  });
+
+  test('reports values of the wrong kind', () => {
+    const { params, issues } = validateExtraction({
+      priceMax: { value: { amount: 1 } },
+      bedroomsMin: { value: '  ' },
+      location: { value: 42 },
+    });
+    expect(params).toEqual({});
+    expect(issues).toEqual(['priceMax: expected number', 'bedroomsMin: expected number', 'location: expected string']);
+  });
+
+  test('reports unknown fields, ops and enumeration values', () => {
+    const { params, issues } = validateExtraction({
+      garden: { value: true },
+      location: { value: 'Bondi', op: 'replace' },
+      listingType: { value: 'Swap' },
+      tags: { value: ['new', 'cheap'] },
+    });
+    expect(params).toEqual({ tags: { value: ['new'], sourceText: [] } });
+    expect(issues).toEqual([
+      'garden: not a search field',
+      'location: "replace" is not one of set, unset, add, remove',
+      'listingType: "Swap" is not one of For Sale, For Rent, For Lease',
+      'tags: dropped cheap',
+    ]);
+  });
+
+  test('keeps unset fields without a value and skips empty ones', () => {
+    expect(validateExtraction({ priceMax: { op: 'unset', sourceText: ['any price'] }, location: null })).toEqual({
+      params: { priceMax: { op: 'unset', sourceText: ['any price'] } } as never,
+      issues: [],
+    });
+  });
+
+  test('rejects anything but an object', () => {
+    expect(validateExtraction([]).issues).toEqual(['Response is not a JSON object']);
+  });
+});
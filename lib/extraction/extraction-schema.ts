@@ -0,0 +1,174 @@
+/**
+ * Extraction schema
+ * The fields a provider may return, the instructions every model is given and
+ * validation of whatever comes back
+ */
+
+import type { ListingTagType, ListingType, SearchParamOp, SearchParams } from '@/lib/types';
+import { SEARCH_AMENITIES, type ExtractedSearchParams } from '@/lib/query-parser';
+import type { ExtractionRequest } from './ExtractionProvider';
+
+type FieldKind = 'string' | 'number' | 'string[]';
+
+interface ExtractionFieldSpec {
+  kind: FieldKind;
+  description: string;
+  // Allowed values, for enumerations
+  values?: readonly string[];
+}
+
+const LISTING_TYPES: readonly ListingType[] = ['For Sale', 'For Rent', 'For Lease'];
+const TAG_TYPES: readonly ListingTagType[] = ['new', 'premium', 'open-house', 'auction'];
+const SEARCH_PARAM_OPS: readonly SearchParamOp[] = ['set', 'unset', 'add', 'remove'];
+
+export const EXTRACTION_FIELDS: Partial<Record<keyof SearchParams, ExtractionFieldSpec>> = {
+  location: { kind: 'string', description: 'City, state, or neighborhood' },
+  locationRadiusKm: { kind: 'number', description: 'Search radius in kilometers' },
+  propertyType: { kind: 'string', description: 'Type of property (House, Apartment, Condo, Townhouse, etc.)' },
+  listingType: { kind: 'string', description: 'For Sale, For Rent, or For Lease', values: LISTING_TYPES },
+  priceMin: { kind: 'number', description: 'Minimum price' },
+  priceMax: { kind: 'number', description: 'Maximum price' },
+  bedroomsMin: { kind: 'number', description: 'Minimum bedrooms' },
+  bathroomsMin: { kind: 'number', description: 'Minimum bathrooms' },
+  sizeMetersMin: { kind: 'number', description: 'Minimum size in square meters' },
+  sizeMetersMax: { kind: 'number', description: 'Maximum size in square meters' },
+  style: { kind: 'string', description: 'Architectural style' },
+  amenities: { kind: 'string[]', description: `Amenities from: ${SEARCH_AMENITIES.join(', ')}` },
+  tags: { kind: 'string[]', description: `Property tags from: ${TAG_TYPES.join(', ')}`, values: TAG_TYPES },
+};
+
+export const EXTRACTION_INSTRUCTIONS = `You are an intelligent assistant for a real estate website called HAUS. Your task is to extract search parameters from the user's spoken query.
+- For 'listingType', accurately infer 'For Sale', 'For Rent', or 'For Lease' from colloquial terms.
+- For 'propertyType', normalize various terms into standard categories.
+- Extract numerical values for prices, bedrooms, bathrooms, and square meters.
+- Identify any amenities or architectural styles mentioned by the user.
+- Identify property tags like 'New', 'Premium', or 'Open House' from descriptive phrases.
+- Only return values for parameters that are explicitly mentioned or can be clearly inferred from the user's latest query.
+- The query may refine the current search criteria. Give each field an 'op':
+  - 'set' replaces the current value, e.g. "make it two bedrooms instead of three".
+  - 'unset' clears the field and needs no value, e.g. "any price" or "forget the location".
+  - 'add' and 'remove' change the listed items of 'amenities' or 'tags', e.g. "actually drop the pool" removes Pool.
+  - When one query both adds and removes items of a list, use 'set' with the complete new list.`;
+
+export function buildExtractionPrompt(request: ExtractionRequest): string {
+  return `Current search criteria: ${JSON.stringify(request.currentParams || {})}. New user query: "${request.query}".`;
+}
+
+function valueSchema(spec: ExtractionFieldSpec, upperCaseTypes: boolean): Record<string, unknown> {
+  const type = (name: string) => upperCaseTypes ? name.toUpperCase() : name;
+  const value = spec.kind === 'string[]'
+    ? { type: type('array'), items: { type: type('string') }, description: spec.description }
+    : { type: type(spec.kind), description: spec.description };
+
+  return {
+    type: type('object'),
+    properties: {
+      value,
+      sourceText: { type: type('array'), items: { type: type('string') }, description: "The exact words from the user's query" },
+      op: {
+        type: type('string'),
+        description: spec.kind === 'string[]' ? 'set, unset, add or remove; defaults to add' : 'set or unset; defaults to set',
+      },
+    },
+  };
+}
+
+function responseSchema(upperCaseTypes: boolean): Record<string, unknown> {
+  const properties = Object.fromEntries(
+    Object.entries(EXTRACTION_FIELDS).map(([field, spec]) => [field, valueSchema(spec!, upperCaseTypes)])
+  );
+  return { type: upperCaseTypes ? 'OBJECT' : 'object', properties };
+}
+
+/**
+ * Response schema in Gemini's dialect, which spells types in upper case
+ */
+export function geminiResponseSchema(): Record<string, unknown> {
+  return responseSchema(true);
+}
+
+/**
+ * Plain JSON Schema, for models that are given the schema in the prompt
+ */
+export function jsonResponseSchema(): Record<string, unknown> {
+  return responseSchema(false);
+}
+
+export interface ExtractionValidation {
+  params: ExtractedSearchParams;
+  // One message per field that was dropped
+  issues: string[];
+}
+
+function isValueOfKind(value: unknown, kind: FieldKind): boolean {
+  switch (kind) {
+    // Models often answer "1.2 mil" or "two"; normalizeExtractedParams() reads or rejects those
+    case 'number':
+      return (typeof value === 'number' && Number.isFinite(value)) || (typeof value === 'string' && value.trim().length > 0);
+    case 'string':
+      return typeof value === 'string' && value.trim().length > 0;
+    case 'string[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'string');
+  }
+}
+
+/**
+ * Keeps the fields that match the schema and reports the rest. Fields the
+ * model left empty (null, missing value) are skipped without an issue,
+ * except `unset` ones, which need no value.
+ */
+export function validateExtraction(raw: unknown): ExtractionValidation {
+  const params: Record<string, unknown> = {};
+  const issues: string[] = [];
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { params: {}, issues: ['Response is not a JSON object'] };
+  }
+
+  Object.entries(raw as Record<string, unknown>).forEach(([field, entry]) => {
+    const spec = EXTRACTION_FIELDS[field as keyof SearchParams];
+    if (!spec) {
+      issues.push(`${field}: not a search field`);
+      return;
+    }
+    if (entry === null || entry === undefined) return;
+    if (typeof entry !== 'object' || Array.isArray(entry)) {
+      issues.push(`${field}: expected { value, sourceText }`);
+      return;
+    }
+
+    const { value, sourceText, op } = entry as { value?: unknown; sourceText?: unknown; op?: unknown };
+    const texts = Array.isArray(sourceText) ? sourceText.filter(text => typeof text === 'string' && text.trim()) : [];
+    if (op !== undefined && !SEARCH_PARAM_OPS.includes(op as SearchParamOp)) {
+      issues.push(`${field}: "${op}" is not one of ${SEARCH_PARAM_OPS.join(', ')}`);
+      return;
+    }
+    if (op === 'unset') {
+      params[field] = { op, sourceText: texts };
+      return;
+    }
+    if (value === null || value === undefined) return;
+    if (!isValueOfKind(value, spec.kind)) {
+      issues.push(`${field}: expected ${spec.kind}`);
+      return;
+    }
+
+    let checked = value;
+    if (spec.values) {
+      const allowed = spec.values;
+      if (Array.isArray(value)) {
+        const known = value.filter(item => allowed.includes(item));
+        if (known.length < value.length) issues.push(`${field}: dropped ${value.filter(item => !allowed.includes(item)).join(', ')}`);
+        if (known.length === 0) return;
+        checked = known;
+      } else if (!allowed.includes(value as string)) {
+        issues.push(`${field}: "${value}" is not one of ${allowed.join(', ')}`);
+        return;
+      }
+    }
+
+    params[field] = op === undefined ? { value: checked, sourceText: texts } : { value: checked, sourceText: texts, op };
+  });
+
+  return { params: params as ExtractedSearchParams, issues };
+}
@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'bun:test';
+import { validateExtraction } from './extraction-schema';
+import { normalizeExtractedParams } from './normalizeExtractedParams';
+
+describe('normalizeExtractedParams', () => {
+  test('reads spoken numbers in validated model output', () => {
+    const { params } = validateExtraction({
+      priceMax: { value: '1.2 mil', sourceText: ['under 1.2 mil'] },
+      bedroomsMin: { value: 'two', sourceText: ['two bedrooms'] },
+    });
+    const { changes, warnings } = normalizeExtractedParams(params);
+
+    expect(changes).toEqual([
+      { field: 'priceMax', op: 'set', value: 1200000 },
+      { field: 'bedroomsMin', op: 'set', value: 2 },
+    ]);
+    expect(warnings).toEqual([
+      { field: 'priceMax', severity: 'adjusted', message: 'Read "1.2 mil" as $1,200,000' },
+      { field: 'bedroomsMin', severity: 'adjusted', message: 'Read "two" as 2' },
+    ]);
+  });
+
+  test('rejects text that is not a number without touching the current search', () => {
+    const { changes, warnings } = normalizeExtractedParams({ priceMax: { value: 'cheap' } }, { priceMax: 900000 });
+    expect(changes).toEqual([]);
+    expect(warnings).toEqual([{ field: 'priceMax', severity: 'rejected', message: 'Couldn\'t read "cheap" as a number' }]);
+  });
+
+  test('clamps implausible values', () => {
+    const { changes, warnings } = normalizeExtractedParams({ bedroomsMin: { value: 40 } });
+    expect(changes).toEqual([{ field: 'bedroomsMin', op: 'set', value: 10 }]);
+    expect(warnings[0].severity).toBe('adjusted');
+  });
+
+  test('clears a stale maximum below a new minimum', () => {
+    const { changes, warnings } = normalizeExtractedParams({ priceMin: { value: 1500000 } }, { priceMax: 1000000 });
+    expect(changes).toEqual([
+      { field: 'priceMin', op: 'set', value: 1500000 },
+      { field: 'priceMax', op: 'unset' },
+    ]);
+    expect(warnings.map(warning => warning.field)).toEqual(['priceMax']);
+  });
+
+  test('maps list items onto the known vocabulary', () => {
+    const { changes, warnings } = normalizeExtractedParams({ amenities: { value: ['pool', 'helipad'], op: 'add' } });
+    expect(changes).toEqual([{ field: 'amenities', op: 'add', value: ['Pool'] }]);
+    expect(warnings).toEqual([{ field: 'amenities', severity: 'rejected', message: 'Unknown amenity: helipad' }]);
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Normalises extracted search params before they are applied to a search:
+ * coerces spoken numbers, maps values onto the known vocabularies, keeps
+ * ranges ordered and explains every change or rejection per field
+ */
+
+import type { ListingTagType, ListingType, SearchParamOp, SearchParams } from '@/lib/types';
+import { formatPropertyType, matchPropertyType } from '@/lib/listing-adapters';
+import { resolveLocation, shortLocationLabel } from '@/lib/location-resolver';
+import { SEARCH_AMENITIES, parsePriceAmount, parseSearchQuery } from '@/lib/query-parser';
+import { isListParam, type SearchParamChange } from '@/lib/search-refinement';
+
+export type ParamWarningSeverity =
+  // The value was changed, e.g. "1.2 mil" read as 1,200,000
+  | 'adjusted'
+  // The value was dropped
+  | 'rejected'
+  // The value was kept but may not be what was meant
+  | 'notice';
+
+export interface ParamWarning {
+  field: keyof SearchParams;
+  severity: ParamWarningSeverity;
+  message: string;
+}
+
+export interface NormalizedExtraction {
+  // Only the fields the extraction mentioned, ready for applySearchChanges()
+  changes: SearchParamChange[];
+  sourceText: Partial<Record<keyof SearchParams, string[]>>;
+  warnings: ParamWarning[];
+}
+
+type NumericParam = 'locationRadiusKm' | 'priceMin' | 'priceMax' | 'bedroomsMin' | 'bathroomsMin' | 'sizeMetersMin' | 'sizeMetersMax';
+
+// Plausible bounds; values outside are clamped
+const NUMERIC_BOUNDS: Record<NumericParam, { min: number; max: number; integer?: boolean }> = {
+  locationRadiusKm: { min: 0.5, max: 100 },
+  priceMin: { min: 0, max: 100000000 },
+  priceMax: { min: 0, max: 100000000 },
+  bedroomsMin: { min: 0, max: 10, integer: true },
+  bathroomsMin: { min: 0, max: 10, integer: true },
+  sizeMetersMin: { min: 10, max: 100000 },
+  sizeMetersMax: { min: 10, max: 100000 },
+};
+
+const NUMERIC_PARAMS = Object.keys(NUMERIC_BOUNDS) as NumericParam[];
+
+const LISTING_TYPE_ALIASES: [RegExp, ListingType][] = [
+  [/lease/i, 'For Lease'],
+  [/rent|rental|let/i, 'For Rent'],
+  [/sale|sell|buy|purchase/i, 'For Sale'],
+];
+
+const TAG_ALIASES: [RegExp, ListingTagType][] = [
+  [/^new$|just listed|new listing/i, 'new'],
+  [/premium|luxury|prestige/i, 'premium'],
+  [/open[\s-]?(house|home|inspection)|inspection/i, 'open-house'],
+  [/auction/i, 'auction'],
+];
+
+// Prices this small are a spoken number of millions ("1.2") rather than dollars
+const MILLIONS_THRESHOLD = 100;
+
+function formatNumber(value: number): string {
+  return value.toLocaleString('en-AU');
+}
+
+function formatParamValue(field: NumericParam, value: number): string {
+  switch (field) {
+    case 'priceMin':
+    case 'priceMax':
+      return `$${formatNumber(value)}`;
+    case 'locationRadiusKm':
+      return `${formatNumber(value)} km`;
+    case 'sizeMetersMin':
+    case 'sizeMetersMax':
+      return `${formatNumber(value)} sqm`;
+    default:
+      return formatNumber(value);
+  }
+}
+
+function describeValue(value: unknown): string {
+  return typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+}
+
+const SEARCH_PARAM_OPS: readonly SearchParamOp[] = ['set', 'unset', 'add', 'remove'];
+
+interface FieldEntry {
+  value: unknown;
+  sourceText: string[];
+  op: SearchParamOp;
+}
+
+/**
+ * Accepts `{ value, sourceText, op }` entries as well as bare values. A
+ * missing op means `add` for lists and `set` otherwise; `add` and `remove`
+ * only make sense for lists, so on other fields they become `set` and `unset`.
+ */
+function readField(field: keyof SearchParams, entry: unknown): FieldEntry | undefined {
+  if (entry === null || entry === undefined) return undefined;
+  const isList = isListParam(field);
+
+  if (typeof entry === 'object' && !Array.isArray(entry) && ('value' in entry || 'op' in entry)) {
+    const { value, sourceText, op: rawOp } = entry as { value?: unknown; sourceText?: unknown; op?: unknown };
+    let op: SearchParamOp = SEARCH_PARAM_OPS.includes(rawOp as SearchParamOp) ? rawOp as SearchParamOp : isList ? 'add' : 'set';
+    if (!isList && op === 'add') op = 'set';
+    if (!isList && op === 'remove') op = 'unset';
+    if (op !== 'unset' && (value === null || value === undefined || value === '')) return undefined;
+    return {
+      value,
+      sourceText: Array.isArray(sourceText) ? sourceText.filter((text): text is string => typeof text === 'string' && text.trim().length > 0) : [],
+      op,
+    };
+  }
+  return { value: entry, sourceText: [], op: isList ? 'add' : 'set' };
+}
+
+function coerceNumber(field: NumericParam, value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+
+  if (field === 'priceMin' || field === 'priceMax') {
+    const amount = parsePriceAmount(value.replace(/\b(dollars?|aud)\b/gi, '').trim());
+    if (amount !== undefined) return amount;
+  }
+  const parsed = parseFloat(value.replace(/[^\d.-]/g, ''));
+  if (Number.isFinite(parsed)) return parsed;
+
+  // Spoken counts such as "three"
+  const counted = parseSearchQuery(`${value} bedrooms`).bedroomsMin?.value;
+  return counted;
+}
+
+function normalizeNumber(field: NumericParam, raw: unknown, warnings: ParamWarning[]): number | undefined {
+  const bounds = NUMERIC_BOUNDS[field];
+  let value = coerceNumber(field, raw);
+
+  if (value === undefined) {
+    warnings.push({ field, severity: 'rejected', message: `Couldn't read ${describeValue(raw)} as a number` });
+    return undefined;
+  }
+  if (value < 0) {
+    warnings.push({ field, severity: 'rejected', message: `${formatNumber(value)} can't be negative` });
+    return undefined;
+  }
+
+  // "$1,200,000" and "80 sqm" say what they mean; "1.2 mil" and "three" were interpreted
+  let adjusted = typeof raw === 'string' && raw.replace(/[^\d.]/g, '') !== String(value);
+  if ((field === 'priceMin' || field === 'priceMax') && value > 0 && value < MILLIONS_THRESHOLD) {
+    value *= 1000000;
+    adjusted = true;
+  }
+  if (bounds.integer && !Number.isInteger(value)) {
+    value = Math.round(value);
+    adjusted = true;
+  }
+  if (value < bounds.min || value > bounds.max) {
+    value = Math.min(bounds.max, Math.max(bounds.min, value));
+    warnings.push({ field, severity: 'adjusted', message: `Limited to ${formatParamValue(field, value)}` });
+  } else if (adjusted) {
+    warnings.push({ field, severity: 'adjusted', message: `Read ${describeValue(raw)} as ${formatParamValue(field, value)}` });
+  }
+
+  return value;
+}
+
+function normalizeListingType(raw: unknown, warnings: ParamWarning[]): ListingType | undefined {
+  const text = String(raw);
+  const exact = (['For Sale', 'For Rent', 'For Lease'] as ListingType[]).find(type => type.toLowerCase() === text.toLowerCase());
+  if (exact) return exact;
+
+  const alias = LISTING_TYPE_ALIASES.find(([pattern]) => pattern.test(text))?.[1];
+  if (alias) {
+    warnings.push({ field: 'listingType', severity: 'adjusted', message: `Read ${describeValue(raw)} as ${alias}` });
+    return alias;
+  }
+  warnings.push({ field: 'listingType', severity: 'rejected', message: `${describeValue(raw)} isn't for sale, rent or lease` });
+  return undefined;
+}
+
+function normalizePropertyTypeParam(raw: unknown, warnings: ParamWarning[]): string | undefined {
+  const type = typeof raw === 'string' ? matchPropertyType(raw.toLowerCase()) : undefined;
+  if (!type) {
+    warnings.push({ field: 'propertyType', severity: 'rejected', message: `${describeValue(raw)} isn't a property type we search` });
+    return undefined;
+  }
+
+  const label = formatPropertyType(type);
+  if (label.toLowerCase() !== String(raw).toLowerCase()) {
+    warnings.push({ field: 'propertyType', severity: 'adjusted', message: `Read ${describeValue(raw)} as ${label}` });
+  }
+  return label;
+}
+
+function matchAmenity(name: string): string | undefined {
+  const exact = SEARCH_AMENITIES.find(amenity => amenity.toLowerCase() === name.trim().toLowerCase());
+  if (exact) return exact;
+  // Everyday phrasings, e.g. "pet friendly" or "ocean views"
+  const [synonym] = parseSearchQuery(name).amenities?.value || [];
+  return synonym;
+}
+
+function normalizeList<T extends string>(
+  field: 'amenities' | 'tags',
+  raw: unknown,
+  match: (value: string) => T | undefined,
+  warnings: ParamWarning[]
+): T[] | undefined {
+  const items = Array.isArray(raw) ? raw : [raw];
+  const matched: T[] = [];
+  const unknown: string[] = [];
+
+  items.forEach(item => {
+    const value = typeof item === 'string' ? match(item) : undefined;
+    if (value) {
+      if (!matched.includes(value)) matched.push(value);
+    } else {
+      unknown.push(String(item));
+    }
+  });
+
+  if (unknown.length > 0) {
+    const noun = field === 'amenities' ? 'amenit' + (unknown.length > 1 ? 'ies' : 'y') : 'tag' + (unknown.length > 1 ? 's' : '');
+    warnings.push({ field, severity: 'rejected', message: `Unknown ${noun}: ${unknown.join(', ')}` });
+  }
+  return matched.length > 0 ? matched : undefined;
+}
+
+function normalizeLocation(raw: unknown, warnings: ParamWarning[]): string | undefined {
+  if (typeof raw !== 'string' || !raw.trim()) {
+    warnings.push({ field: 'location', severity: 'rejected', message: `${describeValue(raw)} isn't a place name` });
+    return undefined;
+  }
+
+  const text = raw.trim();
+  const [best, runnerUp] = resolveLocation(text, { limit: 2 });
+  if (!best) {
+    warnings.push({ field: 'location', severity: 'notice', message: `Couldn't find ${describeValue(text)} on the map; matching it by name` });
+    return text;
+  }
+  if (best.ambiguous && runnerUp) {
+    warnings.push({ field: 'location', severity: 'notice', message: `${best.name} could be in ${best.state} or ${runnerUp.state}` });
+    return text;
+  }
+  if (best.matchedBy !== 'exact' && best.matchedBy !== 'postcode' && best.matchedBy !== 'state') {
+    const label = shortLocationLabel(best);
+    warnings.push({ field: 'location', severity: 'adjusted', message: `Read ${describeValue(text)} as ${label}` });
+    return label;
+  }
+  return text;
+}
+
+type Edits = Partial<Record<keyof SearchParams, { op: SearchParamOp; value?: unknown }>>;
+
+/**
+ * Keeps min ≤ max. When both bounds are new they are swapped; when only one
+ * is, the new bound wins and the stale one is cleared.
+ */
+function orderRange(
+  edits: Edits,
+  current: SearchParams,
+  minField: 'priceMin' | 'sizeMetersMin',
+  maxField: 'priceMax' | 'sizeMetersMax',
+  warnings: ParamWarning[]
+): void {
+  const bound = (field: typeof minField | typeof maxField) => (edits[field] ? edits[field]!.value : current[field]) as number | undefined;
+  const min = bound(minField);
+  const max = bound(maxField);
+  if (min === undefined || max === undefined || min <= max) return;
+
+  if (edits[minField] && edits[maxField]) {
+    edits[minField] = { op: 'set', value: max };
+    edits[maxField] = { op: 'set', value: min };
+    warnings.push({ field: minField, severity: 'adjusted', message: 'Swapped the minimum and maximum' });
+  } else if (edits[minField]) {
+    edits[maxField] = { op: 'unset' };
+    warnings.push({ field: maxField, severity: 'adjusted', message: `Removed the ${formatParamValue(maxField, max)} maximum, which was below the new minimum` });
+  } else {
+    edits[minField] = { op: 'unset' };
+    warnings.push({ field: minField, severity: 'adjusted', message: `Removed the ${formatParamValue(minField, min)} minimum, which was above the new maximum` });
+  }
+}
+
+/**
+ * @param raw Response from /api/voice/process or any extractor with the same shape
+ * @param current The search the changes will be applied to, used to keep ranges ordered
+ */
+export function normalizeExtractedParams(raw: unknown, current: SearchParams = {}): NormalizedExtraction {
+  const edits: Edits = {};
+  const sourceText: NormalizedExtraction['sourceText'] = {};
+  const warnings: ParamWarning[] = [];
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { changes: [], sourceText, warnings };
+  }
+  const fields = raw as Record<string, unknown>;
+
+  // Rejected values are left out rather than cleared, so they never undo part of the current search
+  const normalize = <K extends keyof SearchParams>(field: K, coerce: (value: unknown) => SearchParams[K] | undefined) => {
+    const entry = readField(field, fields[field]);
+    if (!entry) return;
+    if (entry.sourceText.length > 0) sourceText[field] = entry.sourceText;
+    if (entry.op === 'unset') {
+      edits[field] = { op: 'unset' };
+      return;
+    }
+    const value = coerce(entry.value);
+    if (value !== undefined) edits[field] = { op: entry.op, value };
+  };
+
+  NUMERIC_PARAMS.forEach(field => normalize(field, value => normalizeNumber(field, value, warnings)));
+  normalize('location', value => normalizeLocation(value, warnings));
+  normalize('listingType', value => normalizeListingType(value, warnings));
+  normalize('propertyType', value => normalizePropertyTypeParam(value, warnings));
+  normalize('style', value => typeof value === 'string' && value.trim() ? value.trim() : undefined);
+  normalize('amenities', value => normalizeList('amenities', value, matchAmenity, warnings));
+  normalize('tags', value => normalizeList('tags', value, tag => TAG_ALIASES.find(([pattern]) => pattern.test(tag))?.[1], warnings));
+
+  orderRange(edits, current, 'priceMin', 'priceMax', warnings);
+  orderRange(edits, current, 'sizeMetersMin', 'sizeMetersMax', warnings);
+
+  const changes = (Object.keys(edits) as (keyof SearchParams)[]).map((field): SearchParamChange => {
+    const { op, value } = edits[field]!;
+    return op === 'unset' ? { field, op } : { field, op, value: value as SearchParams[typeof field] };
+  });
+  return { changes, sourceText, warnings };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'bun:test';
+import { distanceKm, isGeoPoint, roundDistanceKm } from './geo';
+import { findSuburb, getSuburbCentroid } from './suburb-gazetteer';
+
+const SYDNEY = { lat: -33.8688, lng: 151.2093 };
+const MELBOURNE = { lat: -37.8136, lng: 144.9631 };
+
+describe('distanceKm', () => {
+  test('measures great-circle distance', () => {
+    // About 714 km as the crow flies
+    expect(distanceKm(SYDNEY, MELBOURNE)).toBeCloseTo(713.4, 0);
+  });
+
+  test('is zero between a point and itself and symmetric otherwise', () => {
+    expect(distanceKm(SYDNEY, SYDNEY)).toBe(0);
+    expect(distanceKm(MELBOURNE, SYDNEY)).toBeCloseTo(distanceKm(SYDNEY, MELBOURNE), 9);
+  });
+
+  test('works across the antimeridian', () => {
+    expect(distanceKm({ lat: 0, lng: 179.5 }, { lat: 0, lng: -179.5 })).toBeCloseTo(111.2, 1);
+  });
+});
+
+describe('roundDistanceKm', () => {
+  test('rounds to 100 m', () => {
+    expect(roundDistanceKm(1.26)).toBe(1.3);
+    expect(roundDistanceKm(0.04)).toBe(0);
+  });
+});
+
+describe('isGeoPoint', () => {
+  test('accepts coordinates in range only', () => {
+    expect(isGeoPoint(SYDNEY)).toBe(true);
+    expect(isGeoPoint({ lat: -91, lng: 0 })).toBe(false);
+    expect(isGeoPoint({ lat: '-33', lng: 151 })).toBe(false);
+    expect(isGeoPoint(null)).toBe(false);
+  });
+});
+
+describe('suburb gazetteer', () => {
+  test('finds a suburb by name, state and postcode', () => {
+    expect(findSuburb('bondi beach')?.postcode).toBe('2026');
+    expect(findSuburb('Paddington QLD 4064')?.state).toBe('QLD');
+    expect(findSuburb('Paddington', 'qld')?.postcode).toBe('4064');
+  });
+
+  test('takes the first entry for a name shared across states', () => {
+    expect(findSuburb('Paddington')?.state).toBe('NSW');
+  });
+
+  test('has no centroid for unknown places', () => {
+    expect(getSuburbCentroid('Atlantis')).toBeUndefined();
+    expect(getSuburbCentroid('Bondi')).toEqual({ lat: -33.894, lng: 151.264 });
+  });
+});
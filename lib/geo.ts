@@ -0,0 +1,37 @@
+/**
+ * Geographic helpers for radius search
+ */
+
+import type { GeoPoint } from './types';
+
+const EARTH_RADIUS_KM = 6371;
+
+function toRadians(degrees: number): number {
+  return degrees * Math.PI / 180;
+}
+
+/**
+ * Great-circle distance between two points in kilometres (haversine formula)
+ */
+export function distanceKm(from: GeoPoint, to: GeoPoint): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Rounds a distance for display and transport; 100 m resolution is plenty for suburb-level search
+ */
+export function roundDistanceKm(distance: number): number {
+  return Math.round(distance * 10) / 10;
+}
+
+export function isGeoPoint(value: unknown): value is GeoPoint {
+  if (typeof value !== 'object' || value === null) return false;
+  const { lat, lng } = value as Record<string, unknown>;
+  return typeof lat === 'number' && typeof lng === 'number' &&
+    Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
@@ -0,0 +1,333 @@
+/**
+ * Listing adapters
+ * Converts every legacy property shape in the app into the canonical Listing model
+ */
+
+import type {
+  AustralianState,
+  GeoPoint,
+  Listing,
+  ListingAddress,
+  ListingAgent,
+  ListingPropertyType,
+  ListingTag,
+  ListingType,
+} from './types';
+import type { MockPropertyRecord } from './mock-data';
+import { getSuburbCentroid } from './suburb-gazetteer';
+import { isGeoPoint } from './geo';
+
+/**
+ * Card-oriented shape previously declared as `Property` in lib/types.ts
+ */
+export interface LegacyCardProperty {
+  id: number | string;
+  title: string;
+  location: string;
+  price: number;
+  details?: string;
+  imageUrl: string;
+  description: string;
+  tag?: ListingTag;
+  tourAvailable?: boolean;
+  button?: {
+    text: string;
+    icon: 'eye' | 'route';
+  };
+  bedrooms?: number;
+  bathrooms?: number;
+  parking?: number;
+  size?: string;
+  amenities?: string[];
+  agent?: ListingAgent;
+  listedDate?: string;
+  listingType?: ListingType;
+}
+
+/**
+ * Flat record shape produced by the original AustralianPropertyService generator
+ * and by most portal listing dumps
+ */
+export interface AustralianPropertyRecord {
+  id: string;
+  title: string;
+  address: string;
+  suburb: string;
+  state: string;
+  postcode?: string;
+  price: number;
+  propertyType: string;
+  listingType?: ListingType;
+  bedrooms: number;
+  bathrooms: number;
+  parking?: number;
+  buildingArea?: number;
+  landArea?: number;
+  yearBuilt?: number;
+  features?: string[];
+  description?: string;
+  images?: string[];
+  agent?: ListingAgent;
+  listedDate?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export const AUSTRALIAN_STATES: AustralianState[] = ['NSW', 'VIC', 'QLD', 'WA', 'SA', 'TAS', 'ACT', 'NT'];
+
+export const LISTING_PROPERTY_TYPES: ListingPropertyType[] = [
+  'house', 'apartment', 'unit', 'townhouse', 'villa', 'terrace', 'penthouse', 'studio'
+];
+
+// Checked in order, so more specific terms must come before generic ones
+const PROPERTY_TYPE_ALIASES: [RegExp, ListingPropertyType][] = [
+  [/penthouse/, 'penthouse'],
+  [/studio|bedsit/, 'studio'],
+  [/town\s?house|townhome/, 'townhouse'],
+  [/villa/, 'villa'],
+  [/terrace|semi/, 'terrace'],
+  [/apartment|flat|condo|loft/, 'apartment'],
+  [/unit/, 'unit'],
+  [/house|home|cottage|queenslander|bungalow|duplex|chalet/, 'house'],
+];
+
+const AMENITY_KEYWORDS: [RegExp, string][] = [
+  [/pool/, 'Pool'],
+  [/garage|carport/, 'Garage'],
+  [/garden|backyard/, 'Garden'],
+  [/balcony|verandah|deck/, 'Balcony'],
+  [/courtyard|alfresco|entertaining/, 'Outdoor Entertaining'],
+  [/air con|evaporative|split system/, 'Air Conditioning'],
+  [/ocean view|sea view/, 'Sea View'],
+  [/solar/, 'Solar Panels'],
+  [/fireplace|wood heater|slow combustion/, 'Fireplace'],
+];
+
+/**
+ * Maps free text onto a property type, or undefined when nothing recognisable is found
+ */
+export function matchPropertyType(raw: string | undefined): ListingPropertyType | undefined {
+  const value = (raw || '').toLowerCase();
+  const match = PROPERTY_TYPE_ALIASES.find(([pattern]) => pattern.test(value));
+  return match ? match[1] : undefined;
+}
+
+export function normalizePropertyType(raw: string | undefined): ListingPropertyType {
+  return matchPropertyType(raw) ?? 'house';
+}
+
+export function formatPropertyType(type: ListingPropertyType): string {
+  return type.charAt(0).toUpperCase() + type.slice(1);
+}
+
+export function isAustralianState(value: unknown): value is AustralianState {
+  return typeof value === 'string' && AUSTRALIAN_STATES.includes(value.toUpperCase() as AustralianState);
+}
+
+/**
+ * Parses a single-line address such as "78 Paddington Tce, Brisbane, QLD 4000"
+ * or a bare location such as "Bondi Beach, NSW"
+ */
+export function parseAddress(text: string): ListingAddress {
+  const parts = text.split(',').map(part => part.trim()).filter(Boolean);
+  let state: AustralianState | undefined;
+  let postcode: string | undefined;
+
+  const last = parts[parts.length - 1];
+  const statePostcode = last?.match(/^([A-Za-z]{2,3})\s*(\d{3,4})?$/);
+  if (statePostcode && isAustralianState(statePostcode[1])) {
+    state = statePostcode[1].toUpperCase() as AustralianState;
+    postcode = statePostcode[2];
+    parts.pop();
+  }
+
+  const suburb = parts.pop() || text.trim();
+  const street = parts.length > 0 ? parts.join(', ') : undefined;
+
+  return { street, suburb, state, postcode, formatted: text.trim() };
+}
+
+export function formatAddress(address: Omit<ListingAddress, 'formatted'>): string {
+  const stateAndPostcode = [address.state, address.postcode].filter(Boolean).join(' ');
+  return [address.street, address.suburb, stateAndPostcode].filter(Boolean).join(', ');
+}
+
+/**
+ * Extracts square metres from free text such as "200 sqm"; "N/A" yields undefined
+ */
+export function parseArea(value: string | number | undefined): number | undefined {
+  if (typeof value === 'number') return value > 0 ? value : undefined;
+  const match = value?.replace(/,/g, '').match(/(\d+(?:\.\d+)?)/);
+  return match ? Number(match[1]) : undefined;
+}
+
+const SQUARE_METRES_PER_SQUARE_FOOT = 0.09290304;
+
+export function squareFeetToSquareMetres(squareFeet: number): number {
+  return Math.round(squareFeet * SQUARE_METRES_PER_SQUARE_FOOT);
+}
+
+/**
+ * Floor area in square metres. Records from other sources may still carry a
+ * `squareFeet` field in real square feet, which is converted.
+ */
+function mockRecordFloorArea(record: MockPropertyRecord): number | undefined {
+  if (record.floorAreaSqm !== undefined) return parseArea(record.floorAreaSqm);
+  const { squareFeet } = record as { squareFeet?: unknown };
+  return typeof squareFeet === 'number' && squareFeet > 0 ? squareFeetToSquareMetres(squareFeet) : undefined;
+}
+
+function toTitleCase(value: string): string {
+  return value.replace(/\b\w/g, char => char.toUpperCase());
+}
+
+function deriveAmenities(descriptions: (string | undefined)[]): string[] {
+  const text = descriptions.filter(Boolean).join(' ').toLowerCase();
+  return AMENITY_KEYWORDS.filter(([pattern]) => pattern.test(text)).map(([, amenity]) => amenity);
+}
+
+function parkingSpacesFromDescription(description: string | undefined): number {
+  const value = (description || '').toLowerCase();
+  if (!value || /none|street|n\/a/.test(value)) return 0;
+  if (/double|two|2/.test(value)) return 2;
+  if (/triple|three|3/.test(value)) return 3;
+  return 1;
+}
+
+/**
+ * Explicit coordinates when the source has them, otherwise the suburb centroid
+ */
+function resolveCoordinates(address: ListingAddress, latitude?: number, longitude?: number): GeoPoint | undefined {
+  const explicit = { lat: latitude, lng: longitude };
+  if (isGeoPoint(explicit)) return explicit;
+  return getSuburbCentroid(address.suburb, address.state);
+}
+
+export function fromLegacyCardProperty(property: LegacyCardProperty): Listing {
+  const address = parseAddress(property.location);
+
+  return {
+    id: String(property.id),
+    title: property.title,
+    description: property.description,
+    listingType: property.listingType || 'For Sale',
+    propertyType: normalizePropertyType(property.title),
+    price: property.price,
+    address,
+    bedrooms: property.bedrooms ?? 0,
+    bathrooms: property.bathrooms ?? 0,
+    parking: property.parking ?? 0,
+    buildingSize: parseArea(property.size),
+    images: property.imageUrl ? [property.imageUrl] : [],
+    amenities: property.amenities || [],
+    highlights: [],
+    tag: property.tag,
+    tourAvailable: property.tourAvailable,
+    agent: property.agent,
+    listedDate: property.listedDate,
+    coordinates: resolveCoordinates(address),
+  };
+}
+
+export function fromMockPropertyRecord(record: MockPropertyRecord): Listing {
+  const tags: string[] = ('tags' in record && record.tags) || [];
+  const address = parseAddress(record.address);
+
+  return {
+    id: record.id,
+    title: record.title,
+    description: `${record.title} - ${record.features.kitchen}, ${record.features.flooring.toLowerCase()} and ${record.features.outdoorSpace.toLowerCase()}.`,
+    listingType: 'For Sale',
+    propertyType: normalizePropertyType(record.propertyType),
+    price: record.price,
+    address,
+    bedrooms: record.bedrooms,
+    bathrooms: record.bathrooms,
+    parking: parkingSpacesFromDescription(record.systems.parking),
+    buildingSize: mockRecordFloorArea(record),
+    landSize: parseArea(record.lotSize),
+    yearBuilt: record.yearBuilt,
+    images: record.images,
+    amenities: deriveAmenities([...tags, record.features.outdoorSpace, record.systems.cooling, record.systems.heating, record.systems.parking]),
+    highlights: tags,
+    features: { ...record.features },
+    systems: { ...record.systems },
+    coordinates: resolveCoordinates(address),
+  };
+}
+
+export function fromAustralianPropertyRecord(record: AustralianPropertyRecord): Listing {
+  const state = isAustralianState(record.state) ? record.state.toUpperCase() as AustralianState : undefined;
+  const street = record.address.split(',')[0].trim();
+  const address: ListingAddress = {
+    street,
+    suburb: record.suburb,
+    state,
+    postcode: record.postcode,
+    formatted: formatAddress({ street, suburb: record.suburb, state, postcode: record.postcode }),
+  };
+
+  return {
+    id: record.id,
+    title: record.title,
+    description: record.description || '',
+    listingType: record.listingType || 'For Sale',
+    propertyType: normalizePropertyType(record.propertyType),
+    price: record.price,
+    address,
+    bedrooms: record.bedrooms,
+    bathrooms: record.bathrooms,
+    parking: record.parking ?? 0,
+    buildingSize: record.buildingArea,
+    landSize: record.landArea,
+    yearBuilt: record.yearBuilt,
+    images: record.images || [],
+    amenities: (record.features || []).map(toTitleCase),
+    highlights: [],
+    agent: record.agent,
+    listedDate: record.listedDate,
+    coordinates: resolveCoordinates(address, record.latitude, record.longitude),
+  };
+}
+
+/**
+ * Type guard for values already in the canonical shape
+ */
+export function isListing(value: unknown): value is Listing {
+  if (typeof value !== 'object' || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  const address = candidate.address as Record<string, unknown> | null | undefined;
+
+  return typeof candidate.id === 'string' &&
+    typeof candidate.title === 'string' &&
+    typeof candidate.price === 'number' &&
+    typeof address === 'object' && address !== null &&
+    typeof address.suburb === 'string' &&
+    typeof address.formatted === 'string' &&
+    Array.isArray(candidate.images) &&
+    Array.isArray(candidate.amenities);
+}
+
+/**
+ * Detects which shape a value is in and converts it, or returns null when
+ * the value matches none of the known shapes
+ */
+export function toListing(value: unknown): Listing | null {
+  if (isListing(value)) return value;
+  if (typeof value !== 'object' || value === null) return null;
+
+  const candidate = value as Record<string, unknown>;
+  if (typeof candidate.title !== 'string' || typeof candidate.price !== 'number') return null;
+
+  if (typeof candidate.suburb === 'string' && typeof candidate.address === 'string') {
+    return fromAustralianPropertyRecord(candidate as unknown as AustralianPropertyRecord);
+  }
+  if (typeof candidate.address === 'string' && typeof candidate.features === 'object' && !Array.isArray(candidate.features)) {
+    return fromMockPropertyRecord(candidate as unknown as MockPropertyRecord);
+  }
+  if (typeof candidate.location === 'string') {
+    return fromLegacyCardProperty(candidate as unknown as LegacyCardProperty);
+  }
+
+  return null;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'bun:test';
+import { generateMockListings } from './mock-listing-generator';
+import { InMemoryListingRepository } from './repositories/InMemoryListingRepository';
+import { AustralianPropertyService } from './services/AustralianPropertyService';
+import { buildFacetsFromListings, facetCount, type PropertySearchFacets } from './listing-facets';
+import type { AustralianState, Listing, ListingPropertyType } from './types';
+
+function listing(base: Listing, propertyType: ListingPropertyType, bedrooms: number, price: number, suburb: string, state: AustralianState): Listing {
+  return { ...base, propertyType, bedrooms, price, address: { ...base.address, suburb, state } };
+}
+
+const [a, b, c, d] = generateMockListings({ count: 4, seed: 'facets' });
+const corpus = [
+  listing(a, 'house', 3, 900000, 'Bondi', 'NSW'),
+  listing(b, 'house', 2, 600000, 'Bondi', 'NSW'),
+  listing(c, 'apartment', 3, 700000, 'Bondi', 'NSW'),
+  listing(d, 'apartment', 2, 1200000, 'Fitzroy', 'VIC'),
+];
+const service = new AustralianPropertyService(new InMemoryListingRepository(corpus));
+
+const count = (facets: PropertySearchFacets, facet: keyof PropertySearchFacets, value: string) => facetCount(facets[facet], value);
+
+describe('search facets', () => {
+  test('count each facet without its own filter but with every other one', async () => {
+    const { facets, totalCount } = await service.searchProperties({ propertyType: 'house', bedrooms: 3 });
+    expect(totalCount).toBe(1);
+
+    // Property types under the bedrooms filter only
+    expect(count(facets, 'propertyType', 'house')).toBe(1);
+    expect(count(facets, 'propertyType', 'apartment')).toBe(1);
+    // Bedrooms under the property type filter only
+    expect(count(facets, 'bedrooms', '2')).toBe(2);
+    expect(count(facets, 'bedrooms', '3')).toBe(1);
+    // Facets without a filter of their own see both
+    expect(count(facets, 'state', 'NSW')).toBe(1);
+    expect(count(facets, 'state', 'VIC')).toBe(0);
+  });
+
+  test('count price bands without the price filters', async () => {
+    const { facets } = await service.searchProperties({ propertyType: 'apartment', priceMax: 800000 });
+
+    expect(count(facets, 'priceBands', '500000-750000')).toBe(1);
+    expect(count(facets, 'priceBands', '1000000-1500000')).toBe(1);
+    expect(count(facets, 'propertyType', 'house')).toBe(1);
+    expect(count(facets, 'propertyType', 'apartment')).toBe(1);
+  });
+
+  test('count suburbs without the location filter', async () => {
+    const { facets, totalCount } = await service.searchProperties({ location: 'Fitzroy', bedrooms: 2 });
+    expect(totalCount).toBe(1);
+    expect(count(facets, 'suburb', 'Bondi')).toBe(3);
+    expect(count(facets, 'suburb', 'Fitzroy')).toBe(1);
+    expect(count(facets, 'propertyType', 'house')).toBe(0);
+  });
+});
+
+describe('buildFacetsFromListings', () => {
+  test('counts an amenity once per listing whatever its casing', () => {
+    const facets = buildFacetsFromListings([{ ...corpus[0], amenities: ['Pool', 'pool', 'Garage'] }, { ...corpus[1], amenities: ['POOL'] }]);
+    expect(count(facets, 'amenities', 'pool')).toBe(2);
+    expect(count(facets, 'amenities', 'garage')).toBe(1);
+  });
+
+  test('puts a price on a band boundary in the upper band', () => {
+    const facets = buildFacetsFromListings([{ ...corpus[0], price: 750000 }]);
+    expect(count(facets, 'priceBands', '500000-750000')).toBe(0);
+    expect(count(facets, 'priceBands', '750000-1000000')).toBe(1);
+  });
+
+  test('reports unknown values as dead ends', () => {
+    expect(facetCount(buildFacetsFromListings(corpus).suburb, 'Nowhere')).toBe(0);
+    expect(facetCount(undefined, 'Bondi')).toBeUndefined();
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Listing facets
+ * Bucket counts that let filter UIs show how many listings each choice would
+ * yield and disable choices that lead nowhere
+ */
+
+import type { AustralianState, Listing, ListingPropertyType, ListingTagType } from './types';
+import { AUSTRALIAN_STATES, LISTING_PROPERTY_TYPES, formatPropertyType } from './listing-adapters';
+
+export interface FacetBucket<T extends string = string> {
+  value: T;
+  label: string;
+  count: number;
+}
+
+export interface PriceBandBucket extends FacetBucket {
+  min: number;
+  // Undefined for the open-ended top band
+  max?: number;
+}
+
+export interface PropertySearchFacets {
+  propertyType: FacetBucket<ListingPropertyType>[];
+  // Cumulative "n or more" buckets, matching the minimum semantics of the filters
+  bedrooms: FacetBucket[];
+  bathrooms: FacetBucket[];
+  priceBands: PriceBandBucket[];
+  amenities: FacetBucket[];
+  state: FacetBucket<AustralianState>[];
+  suburb: FacetBucket[];
+  tag: FacetBucket<ListingTagType>[];
+}
+
+/**
+ * Which listings each facet is counted over. A facet is normally counted with
+ * every filter applied except its own, so picking a different option in the
+ * same facet is not reported as a dead end.
+ */
+export type FacetListingSets = Record<keyof PropertySearchFacets, Listing[]>;
+
+export const PRICE_BANDS: { min: number; max?: number }[] = [
+  { min: 0, max: 500000 },
+  { min: 500000, max: 750000 },
+  { min: 750000, max: 1000000 },
+  { min: 1000000, max: 1500000 },
+  { min: 1500000, max: 2000000 },
+  { min: 2000000, max: 3000000 },
+  { min: 3000000 },
+];
+
+const ROOM_COUNT_BUCKETS = [1, 2, 3, 4, 5];
+
+const TAG_LABELS: Record<ListingTagType, string> = {
+  'new': 'New',
+  'premium': 'Premium',
+  'open-house': 'Open House',
+  'auction': 'Auction',
+};
+
+// Suburbs are open-ended, so only the busiest are returned
+const MAX_SUBURB_BUCKETS = 20;
+
+function formatBandPrice(price: number): string {
+  return price >= 1000000 ? `$${price / 1000000}M` : `$${price / 1000}k`;
+}
+
+function priceBandLabel(band: { min: number; max?: number }): string {
+  if (band.max === undefined) return `${formatBandPrice(band.min)}+`;
+  if (band.min === 0) return `Under ${formatBandPrice(band.max)}`;
+  return `${formatBandPrice(band.min)} - ${formatBandPrice(band.max)}`;
+}
+
+function countValues(values: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return counts;
+}
+
+function byCountThenLabel(a: FacetBucket, b: FacetBucket): number {
+  return b.count - a.count || a.label.localeCompare(b.label);
+}
+
+function roomCountFacet(listings: Listing[], rooms: (listing: Listing) => number): FacetBucket[] {
+  return ROOM_COUNT_BUCKETS.map(min => ({
+    value: String(min),
+    label: `${min}+`,
+    count: listings.filter(listing => rooms(listing) >= min).length,
+  }));
+}
+
+/**
+ * @param sets Listings to count each facet over, see FacetListingSets
+ * @param amenityUniverse Amenities to always report, so unavailable ones come back with a zero count
+ */
+export function buildFacets(sets: FacetListingSets, amenityUniverse: string[] = []): PropertySearchFacets {
+  const propertyTypeCounts = countValues(sets.propertyType.map(listing => listing.propertyType));
+  const stateCounts = countValues(sets.state.map(listing => listing.address.state || ''));
+  const suburbCounts = countValues(sets.suburb.map(listing => listing.address.suburb));
+  const tagCounts = countValues(sets.tag.map(listing => listing.tag?.type || ''));
+
+  // Listings may repeat an amenity under different casing, so count each once per listing
+  const amenityCounts = new Map<string, { label: string; count: number }>();
+  amenityUniverse.forEach(amenity => amenityCounts.set(amenity.toLowerCase(), { label: amenity, count: 0 }));
+  sets.amenities.forEach(listing => {
+    new Set(listing.amenities.map(amenity => amenity.toLowerCase())).forEach(key => {
+      const entry = amenityCounts.get(key);
+      if (entry) {
+        entry.count += 1;
+      } else {
+        const label = listing.amenities.find(amenity => amenity.toLowerCase() === key)!;
+        amenityCounts.set(key, { label, count: 1 });
+      }
+    });
+  });
+
+  return {
+    propertyType: LISTING_PROPERTY_TYPES.map(type => ({
+      value: type,
+      label: formatPropertyType(type),
+      count: propertyTypeCounts.get(type) || 0,
+    })),
+    bedrooms: roomCountFacet(sets.bedrooms, listing => listing.bedrooms),
+    bathrooms: roomCountFacet(sets.bathrooms, listing => listing.bathrooms),
+    priceBands: PRICE_BANDS.map(band => ({
+      value: `${band.min}-${band.max ?? ''}`,
+      label: priceBandLabel(band),
+      min: band.min,
+      max: band.max,
+      count: sets.priceBands.filter(listing =>
+        listing.price >= band.min && (band.max === undefined || listing.price < band.max)
+      ).length,
+    })),
+    amenities: [...amenityCounts.values()]
+      .map(({ label, count }) => ({ value: label, label, count }))
+      .sort(byCountThenLabel),
+    state: AUSTRALIAN_STATES.map(state => ({
+      value: state,
+      label: state,
+      count: stateCounts.get(state) || 0,
+    })),
+    suburb: [...suburbCounts.entries()]
+      .map(([suburb, count]) => ({ value: suburb, label: suburb, count }))
+      .sort(byCountThenLabel)
+      .slice(0, MAX_SUBURB_BUCKETS),
+    tag: (Object.keys(TAG_LABELS) as ListingTagType[]).map(tag => ({
+      value: tag,
+      label: TAG_LABELS[tag],
+      count: tagCounts.get(tag) || 0,
+    })),
+  };
+}
+
+/**
+ * Counts every facet over the same listings, for callers that only hold a
+ * result set rather than the full corpus
+ */
+export function buildFacetsFromListings(listings: Listing[]): PropertySearchFacets {
+  return buildFacets({
+    propertyType: listings,
+    bedrooms: listings,
+    bathrooms: listings,
+    priceBands: listings,
+    amenities: listings,
+    state: listings,
+    suburb: listings,
+    tag: listings,
+  });
+}
+
+/**
+ * Looks up the count for a value, treating unknown values as dead ends
+ */
+export function facetCount(buckets: FacetBucket[] | undefined, value: string): number | undefined {
+  if (!buckets) return undefined;
+  return buckets.find(bucket => bucket.value.toLowerCase() === value.toLowerCase())?.count ?? 0;
+}
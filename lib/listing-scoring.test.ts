@@ -0,0 +1,91 @@
+import { describe, expect, test } from 'bun:test';
+import type { Listing } from './types';
+import { extractQueryTerms, isListingSortOrder, scoreListing, scoreListings, sortListings } from './listing-scoring';
+
+function listing(overrides: Partial<Listing>): Listing {
+  return {
+    id: 'listing',
+    title: 'Family home',
+    description: '',
+    listingType: 'For Sale',
+    propertyType: 'house',
+    price: 1000000,
+    address: { suburb: 'Bondi', state: 'NSW', postcode: '2026', formatted: 'Bondi, NSW 2026' },
+    bedrooms: 3,
+    bathrooms: 2,
+    parking: 1,
+    images: [],
+    amenities: [],
+    highlights: [],
+    ...overrides,
+  };
+}
+
+describe('extractQueryTerms', () => {
+  test('drops stopwords and lower-cases', () => {
+    expect(extractQueryTerms('Show me a House with a POOL')).toEqual(['house', 'pool']);
+  });
+});
+
+describe('scoreListing', () => {
+  test('returns undefined with nothing to score against', () => {
+    expect(scoreListing(listing({}), {})).toBeUndefined();
+  });
+
+  test('scores amenity matches higher than misses', () => {
+    const withPool = scoreListing(listing({ amenities: ['Pool'] }), { amenities: ['Pool'] })!;
+    const without = scoreListing(listing({}), { amenities: ['Pool'] })!;
+    expect(withPool.score).toBeGreaterThan(without.score);
+    expect(withPool.breakdown.amenities).toBeDefined();
+  });
+
+  test('scores a price inside the budget above one over it', () => {
+    const inside = scoreListing(listing({ price: 900000 }), { priceMax: 1000000 })!;
+    const over = scoreListing(listing({ price: 1500000 }), { priceMax: 1000000 })!;
+    expect(inside.score).toBeGreaterThan(over.score);
+  });
+
+  test('scores stay between 0 and 100', () => {
+    const { score } = scoreListing(listing({ amenities: ['Pool'] }), { amenities: ['Pool'], priceMax: 2000000, naturalLanguageQuery: 'family home' })!;
+    expect(score).toBeGreaterThanOrEqual(0);
+    expect(score).toBeLessThanOrEqual(100);
+  });
+});
+
+describe('scoreListings', () => {
+  test('fills in or clears matchScore without mutating the input', () => {
+    const input = [listing({ matchScore: 50 })];
+    expect(scoreListings(input, {})[0].matchScore).toBeUndefined();
+    expect(scoreListings(input, { amenities: ['Pool'] })[0].matchScore).toBeNumber();
+    expect(input[0].matchScore).toBe(50);
+  });
+});
+
+describe('sortListings', () => {
+  const a = listing({ id: 'a', price: 900000, buildingSize: 100, listedDate: '2025-01-01', distanceKm: 5, matchScore: 40 });
+  const b = listing({ id: 'b', price: 1200000, buildingSize: 200, listedDate: '2025-03-01', distanceKm: 1, matchScore: 90 });
+  const c = listing({ id: 'c', price: 600000 });
+  const ids = (sorted: Listing[]) => sorted.map(item => item.id);
+
+  test.each([
+    ['price-asc', ['c', 'a', 'b']],
+    ['price-desc', ['b', 'a', 'c']],
+    ['newest', ['b', 'a', 'c']],
+    ['distance', ['b', 'a', 'c']],
+    ['price-per-sqm', ['b', 'a', 'c']],
+    ['relevance', ['b', 'a', 'c']],
+  ] as const)('%s', (order, expected) => {
+    expect(ids(sortListings([a, b, c], order))).toEqual([...expected]);
+  });
+
+  test('keeps ties in their incoming order and leaves the input alone', () => {
+    const input = [c, listing({ id: 'd' }), listing({ id: 'e' })];
+    expect(ids(sortListings(input, 'relevance'))).toEqual(['c', 'd', 'e']);
+    expect(ids(input)).toEqual(['c', 'd', 'e']);
+  });
+
+  test('isListingSortOrder', () => {
+    expect(isListingSortOrder('price-asc')).toBe(true);
+    expect(isListingSortOrder('cheapest')).toBe(false);
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Listing scoring
+ * Computes how well a listing satisfies the soft preferences of a search and
+ * orders result sets by the supported sort modes
+ */
+
+import type { Listing, ListingSortOrder, MatchBreakdown, MatchComponent, MatchComponentKey } from './types';
+
+/**
+ * Preferences a listing is scored against. Both SearchParams and
+ * AustralianPropertySearchParams satisfy this shape.
+ */
+export interface MatchPreferences {
+  location?: string;
+  locationRadiusKm?: number;
+  state?: string;
+  priceMin?: number;
+  priceMax?: number;
+  amenities?: string[];
+  style?: string;
+  naturalLanguageQuery?: string;
+}
+
+export const LISTING_SORT_ORDERS: { value: ListingSortOrder; label: string }[] = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'distance', label: 'Distance' },
+  { value: 'price-asc', label: 'Price (low to high)' },
+  { value: 'price-desc', label: 'Price (high to low)' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'price-per-sqm', label: 'Price per sqm' },
+];
+
+export const MATCH_COMPONENT_LABELS: Record<MatchComponentKey, string> = {
+  amenities: 'Amenities',
+  style: 'Style',
+  proximity: 'Location',
+  priceFit: 'Price fit',
+  keywords: 'Keywords',
+};
+
+// Relative importance; weights of components without a matching preference are dropped
+const MATCH_WEIGHTS: Record<MatchComponentKey, number> = {
+  amenities: 0.35,
+  proximity: 0.25,
+  priceFit: 0.2,
+  style: 0.1,
+  keywords: 0.1,
+};
+
+// Words that carry no search intent on their own
+const QUERY_STOPWORDS = new Set([
+  'a', 'an', 'and', 'any', 'are', 'around', 'at', 'be', 'but', 'by', 'close', 'for', 'from', 'find', 'get',
+  'good', 'have', 'i', 'im', 'in', 'is', 'it', 'like', 'looking', 'me', 'my', 'near', 'need', 'of', 'on',
+  'or', 'please', 'show', 'some', 'something', 'that', 'the', 'to', 'want', 'we', 'with', 'would',
+]);
+
+/**
+ * Splits a free-text query into lower-case terms worth matching against listings
+ */
+export function extractQueryTerms(query: string): string[] {
+  const terms = query.toLowerCase().replace(/[^a-z0-9\s-]/g, ' ').split(/[\s-]+/);
+  return [...new Set(terms.filter(term => term.length > 2 && !QUERY_STOPWORDS.has(term)))];
+}
+
+export function listingSearchText(listing: Listing): string {
+  return [
+    listing.title,
+    listing.description,
+    listing.propertyType,
+    listing.address.formatted,
+    ...listing.amenities,
+    ...listing.highlights,
+  ].join(' ').toLowerCase();
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function formatCompactPrice(price: number): string {
+  return price >= 1000000 ? `$${(price / 1000000).toFixed(2)}M` : `$${Math.round(price / 1000)}k`;
+}
+
+function scoreAmenities(listing: Listing, wanted: string[]): MatchComponent {
+  const have = listing.amenities.map(amenity => amenity.toLowerCase());
+  const matched = wanted.filter(amenity => have.some(feature => feature.includes(amenity.toLowerCase())));
+
+  return {
+    score: matched.length / wanted.length,
+    weight: MATCH_WEIGHTS.amenities,
+    detail: `${matched.length} of ${wanted.length} amenities`,
+  };
+}
+
+function scoreStyle(listing: Listing, style: string): MatchComponent {
+  const terms = extractQueryTerms(style);
+  const headline = [listing.title, ...listing.highlights].join(' ').toLowerCase();
+  const body = listingSearchText(listing);
+
+  // Style named in the headline counts fully, a passing mention in the description half
+  const score = terms.length === 0 ? 0 : terms.reduce((sum, term) =>
+    sum + (headline.includes(term) ? 1 : body.includes(term) ? 0.5 : 0), 0) / terms.length;
+
+  return {
+    score,
+    weight: MATCH_WEIGHTS.style,
+    detail: score >= 1 ? `${style} style` : score > 0 ? `Some ${style} features` : `Not described as ${style}`,
+  };
+}
+
+// Distance at which proximity scores zero when no radius was asked for
+const DEFAULT_PROXIMITY_KM = 10;
+
+function scoreProximity(listing: Listing, location: string | undefined, state: string | undefined, radiusKm: number | undefined): MatchComponent {
+  // Measured distance beats name matching: full marks at the centre, half at the radius edge
+  if (listing.distanceKm !== undefined) {
+    const reach = radiusKm ? radiusKm * 2 : DEFAULT_PROXIMITY_KM;
+    return {
+      score: clamp01(1 - listing.distanceKm / reach),
+      weight: MATCH_WEIGHTS.proximity,
+      detail: `${listing.distanceKm} km from ${location}`,
+    };
+  }
+
+  const wanted = (location || '').toLowerCase().trim();
+  const suburb = listing.address.suburb.toLowerCase();
+  const listingState = (listing.address.state || '').toLowerCase();
+
+  let score = 0;
+  let detail = `Outside ${location || state}`;
+
+  if (wanted && suburb === wanted) {
+    score = 1;
+    detail = `In ${listing.address.suburb}`;
+  } else if (wanted && (wanted.includes(suburb) || suburb.includes(wanted))) {
+    score = 0.8;
+    detail = `In ${listing.address.suburb}`;
+  } else if (listingState && (listingState === (state || '').toLowerCase() || wanted.split(/[\s,]+/).includes(listingState))) {
+    score = 0.4;
+    detail = `Elsewhere in ${listing.address.state}`;
+  }
+
+  return { score, weight: MATCH_WEIGHTS.proximity, detail };
+}
+
+function scorePriceFit(listing: Listing, priceMin: number | undefined, priceMax: number | undefined): MatchComponent {
+  const { price } = listing;
+
+  if (priceMax && price > priceMax) {
+    return {
+      score: clamp01(1 - (price - priceMax) / priceMax * 2),
+      weight: MATCH_WEIGHTS.priceFit,
+      detail: `${formatCompactPrice(price - priceMax)} over budget`,
+    };
+  }
+  if (priceMin && price < priceMin) {
+    return {
+      score: clamp01(1 - (priceMin - price) / priceMin * 2),
+      weight: MATCH_WEIGHTS.priceFit,
+      detail: `${formatCompactPrice(priceMin - price)} under minimum`,
+    };
+  }
+
+  // Inside the range the best fit is the middle of it, or just under a lone ceiling
+  const target = priceMin && priceMax ? (priceMin + priceMax) / 2 : priceMax ? priceMax * 0.9 : priceMin!;
+  return {
+    score: clamp01(1 - Math.abs(price - target) / target / 2),
+    weight: MATCH_WEIGHTS.priceFit,
+    detail: 'Within budget',
+  };
+}
+
+function scoreKeywords(listing: Listing, terms: string[]): MatchComponent {
+  const text = listingSearchText(listing);
+  const matched = terms.filter(term => text.includes(term));
+
+  return {
+    score: matched.length / terms.length,
+    weight: MATCH_WEIGHTS.keywords,
+    detail: matched.length > 0 ? `Mentions ${matched.slice(0, 3).join(', ')}` : 'No query keywords',
+  };
+}
+
+/**
+ * Scores one listing against the preferences. Returns undefined when the
+ * preferences contain nothing to score against.
+ */
+export function scoreListing(listing: Listing, preferences: MatchPreferences): { score: number; breakdown: MatchBreakdown } | undefined {
+  const breakdown: MatchBreakdown = {};
+
+  if (preferences.amenities && preferences.amenities.length > 0) {
+    breakdown.amenities = scoreAmenities(listing, preferences.amenities);
+  }
+  if (preferences.style) {
+    breakdown.style = scoreStyle(listing, preferences.style);
+  }
+  if (preferences.location || preferences.state) {
+    breakdown.proximity = scoreProximity(listing, preferences.location, preferences.state, preferences.locationRadiusKm);
+  }
+  if (preferences.priceMin || preferences.priceMax) {
+    breakdown.priceFit = scorePriceFit(listing, preferences.priceMin, preferences.priceMax);
+  }
+  if (preferences.naturalLanguageQuery) {
+    const terms = extractQueryTerms(preferences.naturalLanguageQuery);
+    if (terms.length > 0) breakdown.keywords = scoreKeywords(listing, terms);
+  }
+
+  const components = Object.values(breakdown);
+  if (components.length === 0) return undefined;
+
+  const totalWeight = components.reduce((sum, component) => sum + component.weight, 0);
+  const weighted = components.reduce((sum, component) => sum + component.score * component.weight, 0);
+
+  return { score: Math.round(weighted / totalWeight * 100), breakdown };
+}
+
+/**
+ * Returns copies of the listings with matchScore and matchBreakdown filled in
+ */
+export function scoreListings(listings: Listing[], preferences: MatchPreferences): Listing[] {
+  return listings.map(listing => {
+    const match = scoreListing(listing, preferences);
+    return match
+      ? { ...listing, matchScore: match.score, matchBreakdown: match.breakdown }
+      : { ...listing, matchScore: undefined, matchBreakdown: undefined };
+  });
+}
+
+function pricePerSqm(listing: Listing): number | undefined {
+  return listing.buildingSize ? listing.price / listing.buildingSize : undefined;
+}
+
+// Listings missing the sort key go last rather than first
+function compareOptional(a: number | undefined, b: number | undefined, direction: 1 | -1): number {
+  if (a === undefined && b === undefined) return 0;
+  if (a === undefined) return 1;
+  if (b === undefined) return -1;
+  return (a - b) * direction;
+}
+
+/**
+ * Returns a new array in the requested order. Sorting is stable, so ties keep
+ * their incoming order.
+ */
+export function sortListings(listings: Listing[], order: ListingSortOrder = 'relevance'): Listing[] {
+  const sorted = [...listings];
+
+  switch (order) {
+    case 'price-asc':
+      return sorted.sort((a, b) => a.price - b.price);
+    case 'price-desc':
+      return sorted.sort((a, b) => b.price - a.price);
+    case 'newest':
+      return sorted.sort((a, b) => compareOptional(
+        a.listedDate ? Date.parse(a.listedDate) : undefined,
+        b.listedDate ? Date.parse(b.listedDate) : undefined,
+        -1
+      ));
+    case 'distance':
+      return sorted.sort((a, b) => compareOptional(a.distanceKm, b.distanceKm, 1));
+    case 'price-per-sqm':
+      return sorted.sort((a, b) => compareOptional(pricePerSqm(a), pricePerSqm(b), 1));
+    case 'relevance':
+    default:
+      return sorted.sort((a, b) => compareOptional(a.matchScore, b.matchScore, -1));
+  }
+}
+
+export function isListingSortOrder(value: unknown): value is ListingSortOrder {
+  return LISTING_SORT_ORDERS.some(order => order.value === value);
+}
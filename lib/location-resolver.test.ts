@@ -0,0 +1,125 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  editDistance,
+  extractLocationMentions,
+  resolveBestLocation,
+  resolveLocation,
+  shortLocationLabel,
+  soundex,
+} from './location-resolver';
+
+describe('editDistance', () => {
+  test('counts insertions, deletions and substitutions', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('surry', 'surrey')).toBe(1);
+    expect(editDistance('', 'bondi')).toBe(5);
+    expect(editDistance('manly', 'manly')).toBe(0);
+  });
+});
+
+describe('soundex', () => {
+  test('codes words that sound alike the same', () => {
+    expect(soundex('Robert')).toBe('R163');
+    expect(soundex('Rupert')).toBe('R163');
+    expect(soundex('Ashcraft')).toBe('A261');
+    expect(soundex('Surry')).toBe(soundex('Surrey'));
+  });
+
+  test('pads short words and ignores anything but letters', () => {
+    expect(soundex('Lee')).toBe('L000');
+    expect(soundex("O'Connor")).toBe(soundex('OConnor'));
+    expect(soundex('42')).toBe('');
+  });
+});
+
+describe('resolveLocation', () => {
+  test('matches a suburb exactly', () => {
+    const [best] = resolveLocation('Bondi Beach');
+    expect(best).toMatchObject({ name: 'Bondi Beach', type: 'suburb', state: 'NSW', postcode: '2026', matchedBy: 'exact', ambiguous: false });
+  });
+
+  test('catches a mis-transcribed name by sound', () => {
+    const [best] = resolveLocation('Surrey Hills');
+    expect(best).toMatchObject({ name: 'Surry Hills', matchedBy: 'phonetic' });
+    expect(best.label).toBe('Surry Hills, NSW 2010');
+  });
+
+  test('catches a typo by edit distance', () => {
+    const [best] = resolveLocation('Parramanta');
+    expect(best).toMatchObject({ name: 'Parramatta', matchedBy: 'fuzzy' });
+    expect(best.confidence).toBeGreaterThanOrEqual(0.6);
+  });
+
+  test('reads a postcode as the area it covers', () => {
+    const [best] = resolveLocation('2026');
+    expect(best).toMatchObject({ type: 'postcode', name: '2026', state: 'NSW', matchedBy: 'postcode' });
+    expect(best.suburbs).toEqual(expect.arrayContaining(['Bondi', 'Bondi Beach', 'North Bondi']));
+    expect(best.centroid).toBeDefined();
+  });
+
+  test('still filters by an unknown postcode, without a centre', () => {
+    const [best] = resolveLocation('postcode 0999');
+    expect(best).toMatchObject({ type: 'postcode', name: '0999', suburbs: [] });
+    expect(best.centroid).toBeUndefined();
+  });
+
+  test('reads a council name as its suburbs', () => {
+    const [best] = resolveLocation('Waverley Council');
+    expect(best).toMatchObject({ type: 'lga', name: 'Waverley', state: 'NSW' });
+    expect(best.suburbs).toEqual(expect.arrayContaining(['Bondi', 'Bondi Junction']));
+  });
+
+  test('shares confidence between places with the same name', () => {
+    const [first, second] = resolveLocation('Paddington');
+    expect([first.state, second.state].sort()).toEqual(['NSW', 'QLD']);
+    expect(first.ambiguous && second.ambiguous).toBe(true);
+    expect(first.confidence).toBe(0.5);
+  });
+
+  test('settles a shared name with a state hint or postcode', () => {
+    expect(resolveLocation('Paddington QLD')[0]).toMatchObject({ state: 'QLD', ambiguous: false });
+    expect(resolveLocation('Paddington', { state: 'qld' })[0]).toMatchObject({ state: 'QLD', ambiguous: false });
+    expect(resolveLocation('paddington 2021')[0]).toMatchObject({ state: 'NSW', postcode: '2021' });
+  });
+
+  test('reads a state on its own', () => {
+    expect(resolveLocation('Queensland')[0]).toMatchObject({ type: 'state', name: 'QLD', label: 'Queensland' });
+    expect(resolveLocation('tassie')[0]).toMatchObject({ type: 'state', name: 'TAS' });
+  });
+
+  test('finds nothing for text that names no place', () => {
+    expect(resolveLocation('xyzzyplugh')).toEqual([]);
+    expect(resolveLocation('')).toEqual([]);
+  });
+});
+
+describe('resolveBestLocation', () => {
+  test('refuses a reading below the minimum confidence', () => {
+    expect(resolveBestLocation('Paddington')).toBeUndefined();
+    expect(resolveBestLocation('Paddington', { minConfidence: 0.5 })?.name).toBe('Paddington');
+  });
+});
+
+describe('extractLocationMentions', () => {
+  test('finds places in running speech, longest phrase first', () => {
+    const mentions = extractLocationMentions('a unit in south yarra or near bondi beach under 900k');
+    expect(mentions.map(mention => mention.location.name)).toEqual(['South Yarra', 'Bondi Beach']);
+  });
+
+  test('reads a spoken postcode', () => {
+    const [mention] = extractLocationMentions('anything in postcode 2010');
+    expect(mention).toMatchObject({ text: 'postcode 2010', location: { type: 'postcode', name: '2010' } });
+  });
+
+  test('does not read everyday words as states', () => {
+    expect(extractLocationMentions('what can I do to act fast')).toEqual([]);
+  });
+});
+
+describe('shortLocationLabel', () => {
+  test('adds the state unless the place is in doubt', () => {
+    expect(shortLocationLabel(resolveLocation('Bondi')[0])).toBe('Bondi, NSW');
+    expect(shortLocationLabel(resolveLocation('Paddington')[0])).toBe('Paddington');
+    expect(shortLocationLabel(resolveLocation('Victoria')[0])).toBe('Victoria');
+  });
+});
@@ -0,0 +1,403 @@
+/**
+ * Location resolver
+ * Turns typed or spoken location text into gazetteer places. Handles typos,
+ * speech mis-transcriptions ("Surrey Hills"), postcodes, council areas and
+ * names shared across states ("Paddington" in NSW and QLD).
+ */
+
+import type { AustralianState, GeoPoint } from './types';
+import { SUBURB_GAZETTEER, normalizeName, type GazetteerEntry } from './suburb-gazetteer';
+
+export type ResolvedLocationType = 'suburb' | 'city' | 'lga' | 'postcode' | 'state';
+
+export type LocationMatchMethod = 'exact' | 'phonetic' | 'fuzzy' | 'prefix' | 'postcode' | 'state';
+
+export interface ResolvedLocation {
+  // Canonical name: suburb, council, postcode or state code
+  name: string;
+  // Display form, e.g. "Surry Hills, NSW 2010"
+  label: string;
+  type: ResolvedLocationType;
+  state?: AustralianState;
+  postcode?: string;
+  lga?: string;
+  // Gazetteer suburbs the place covers; empty for states and unknown postcodes
+  suburbs: string[];
+  centroid?: GeoPoint;
+  // How well the text matched the name, before ambiguity is accounted for
+  matchQuality: number;
+  // Likelihood this is the place meant: match quality shared among equally good readings
+  confidence: number;
+  matchedBy: LocationMatchMethod;
+  // Another place matches the same text equally well, e.g. Paddington NSW and QLD
+  ambiguous: boolean;
+}
+
+export interface LocationMention {
+  // The words in the input that named the place
+  text: string;
+  location: ResolvedLocation;
+}
+
+const STATE_NAMES: Record<AustralianState, string> = {
+  NSW: 'New South Wales',
+  VIC: 'Victoria',
+  QLD: 'Queensland',
+  WA: 'Western Australia',
+  SA: 'South Australia',
+  TAS: 'Tasmania',
+  ACT: 'Australian Capital Territory',
+  NT: 'Northern Territory',
+};
+
+// Lower-case names and codes that identify a state
+const STATE_ALIASES: [string, AustralianState][] = [
+  ...(Object.entries(STATE_NAMES) as [AustralianState, string][]).flatMap(([code, name]): [string, AustralianState][] => [
+    [code.toLowerCase(), code],
+    [name.toLowerCase(), code],
+  ]),
+  ['tassie', 'TAS'],
+];
+
+// Codes that are also everyday words, so never read as states in running speech
+const AMBIGUOUS_STATE_WORDS = new Set(['act', 'wa', 'sa', 'nt']);
+
+// Words that never start or end a place name in running speech
+const MENTION_STOPWORDS = new Set([
+  'a', 'an', 'and', 'around', 'at', 'by', 'for', 'from', 'in', 'is', 'it', 'near', 'of', 'on', 'or',
+  'over', 'the', 'to', 'under', 'with', 'within', 'close', 'somewhere', 'looking', 'want', 'find',
+]);
+
+const MIN_MATCH_QUALITY = 0.6;
+// Fuzzy and phonetic matching on short strings turns ordinary words into suburbs
+const MIN_FUZZY_LENGTH = 7;
+
+const LGA_AFFIXES = /^(city|town|shire|municipality) of\s+|\s+(shire|council|city council)$/g;
+
+/**
+ * Levenshtein edit distance
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3',
+  l: '4',
+  m: '5', n: '5',
+  r: '6',
+};
+
+/**
+ * American Soundex of a single word; catches spellings that sound alike
+ */
+export function soundex(word: string): string {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return '';
+
+  let code = letters[0].toUpperCase();
+  let last = SOUNDEX_CODES[letters[0]] || '';
+  for (const letter of letters.slice(1)) {
+    const digit = SOUNDEX_CODES[letter] || '';
+    if (digit && digit !== last) code += digit;
+    // h and w don't separate letters with the same code; vowels do
+    if (letter !== 'h' && letter !== 'w') last = digit;
+  }
+  return (code + '000').slice(0, 4);
+}
+
+function phoneticKey(text: string): string {
+  return text.split(' ').map(soundex).join(' ');
+}
+
+/**
+ * Scores how well normalised query text names a normalised candidate
+ */
+function scoreName(query: string, candidate: string): { quality: number; method: LocationMatchMethod } | null {
+  if (query === candidate) return { quality: 1, method: 'exact' };
+
+  const compactQuery = query.replace(/ /g, '');
+  const compactCandidate = candidate.replace(/ /g, '');
+  if (compactQuery === compactCandidate) return { quality: 0.95, method: 'exact' };
+
+  if (compactQuery.length >= MIN_FUZZY_LENGTH) {
+    const similarity = 1 - editDistance(compactQuery, compactCandidate) / Math.max(compactQuery.length, compactCandidate.length);
+
+    if (similarity >= 0.6 && query.split(' ').length === candidate.split(' ').length && phoneticKey(query) === phoneticKey(candidate)) {
+      return { quality: 0.88, method: 'phonetic' };
+    }
+    if (similarity >= 0.75) {
+      return { quality: Math.round(similarity * 0.9 * 100) / 100, method: 'fuzzy' };
+    }
+  }
+
+  if (query.length >= 4 && candidate.startsWith(query)) {
+    return { quality: 0.7, method: 'prefix' };
+  }
+
+  return null;
+}
+
+function averagePoint(points: GeoPoint[]): GeoPoint | undefined {
+  if (points.length === 0) return undefined;
+  return {
+    lat: points.reduce((sum, point) => sum + point.lat, 0) / points.length,
+    lng: points.reduce((sum, point) => sum + point.lng, 0) / points.length,
+  };
+}
+
+function fromEntry(entry: GazetteerEntry, quality: number, method: LocationMatchMethod): ResolvedLocation {
+  return {
+    name: entry.name,
+    label: `${entry.name}, ${entry.state} ${entry.postcode}`,
+    type: entry.type,
+    state: entry.state,
+    postcode: entry.postcode,
+    lga: entry.lga,
+    suburbs: [entry.name],
+    centroid: entry.centroid,
+    matchQuality: quality,
+    confidence: quality,
+    matchedBy: method,
+    ambiguous: false,
+  };
+}
+
+function fromArea(
+  type: 'lga' | 'postcode',
+  name: string,
+  entries: GazetteerEntry[],
+  quality: number,
+  method: LocationMatchMethod
+): ResolvedLocation {
+  const suburbs = entries.map(entry => entry.name);
+  const state = entries[0]?.state;
+
+  return {
+    name,
+    label: type === 'postcode'
+      ? `${name}${suburbs.length > 0 ? ` (${suburbs.join(', ')})` : ''}`
+      : `${name}${state ? `, ${state}` : ''}`,
+    type,
+    state,
+    postcode: type === 'postcode' ? name : undefined,
+    lga: type === 'lga' ? name : undefined,
+    suburbs,
+    centroid: averagePoint(entries.map(entry => entry.centroid)),
+    matchQuality: quality,
+    confidence: quality,
+    matchedBy: method,
+    ambiguous: false,
+  };
+}
+
+function stateLocation(state: AustralianState): ResolvedLocation {
+  return {
+    name: state,
+    label: STATE_NAMES[state],
+    type: 'state',
+    state,
+    suburbs: [],
+    matchQuality: 1,
+    confidence: 1,
+    matchedBy: 'state',
+    ambiguous: false,
+  };
+}
+
+function findStateAlias(text: string): AustralianState | undefined {
+  return STATE_ALIASES.find(([alias]) => alias === text)?.[1];
+}
+
+/**
+ * Splits trailing or embedded state and postcode hints off the place name,
+ * e.g. "Paddington QLD", "bondi 2026", "Surry Hills, New South Wales"
+ */
+function parseLocationText(text: string): { name: string; state?: AustralianState; postcode?: string } {
+  let name = normalizeName(text.replace(/[,.]/g, ' '));
+  let state: AustralianState | undefined;
+
+  const postcodeMatch = name.match(/\b(\d{3,4})\b/);
+  const postcode = postcodeMatch ? postcodeMatch[1].padStart(4, '0') : undefined;
+  name = name.replace(/\b(postcode\s+)?\d{3,4}\b/, ' ');
+
+  // Longest aliases first so "south australia" isn't read as "sa"
+  const aliases = [...STATE_ALIASES].sort((a, b) => b[0].length - a[0].length);
+  for (const [alias, code] of aliases) {
+    const pattern = new RegExp(`(^|\\s)${alias}$`);
+    if (pattern.test(name.trim()) && name.trim() !== alias) {
+      state = code;
+      name = name.trim().replace(pattern, ' ');
+      break;
+    }
+  }
+
+  return { name: normalizeName(name), state, postcode };
+}
+
+export interface ResolveLocationOptions {
+  // State known from elsewhere, e.g. a separate state filter
+  state?: string;
+  limit?: number;
+}
+
+/**
+ * Resolves location text to candidate places, best first. An empty array means
+ * nothing in the gazetteer plausibly matches.
+ */
+export function resolveLocation(text: string, options: ResolveLocationOptions = {}): ResolvedLocation[] {
+  const limit = options.limit ?? 5;
+  const parsed = parseLocationText(text || '');
+  const hintedState = parsed.state || findStateAlias((options.state || '').toLowerCase());
+
+  if (!parsed.name && !parsed.postcode) {
+    return hintedState ? [stateLocation(hintedState)] : [];
+  }
+
+  // The whole text names a state
+  const wholeState = parsed.name ? findStateAlias(parsed.name) : undefined;
+  if (wholeState && !parsed.postcode) {
+    return [stateLocation(wholeState)];
+  }
+
+  const candidates: ResolvedLocation[] = [];
+
+  if (parsed.postcode) {
+    const inPostcode = SUBURB_GAZETTEER.filter(entry => entry.postcode === parsed.postcode);
+    if (!parsed.name) {
+      // Unknown postcodes still filter by address, they just have no centre point
+      candidates.push(fromArea('postcode', parsed.postcode, inPostcode, inPostcode.length > 0 ? 0.95 : 0.6, 'postcode'));
+      inPostcode.forEach(entry => candidates.push(fromEntry(entry, 0.7, 'postcode')));
+    }
+  }
+
+  if (parsed.name) {
+    SUBURB_GAZETTEER.forEach(entry => {
+      const match = scoreName(parsed.name, normalizeName(entry.name));
+      if (!match) return;
+
+      let quality = match.quality;
+      if (hintedState && entry.state !== hintedState) quality *= 0.3;
+      if (parsed.postcode) quality = entry.postcode === parsed.postcode ? Math.min(1, quality + 0.1) : quality * 0.7;
+
+      candidates.push(fromEntry(entry, Math.round(quality * 100) / 100, match.method));
+    });
+
+    const councils = new Map<string, GazetteerEntry[]>();
+    SUBURB_GAZETTEER.forEach(entry => councils.set(entry.lga, [...(councils.get(entry.lga) || []), entry]));
+    // "Waverley Council" names the same area as "Waverley"
+    const bareQuery = parsed.name.replace(LGA_AFFIXES, '').trim();
+    councils.forEach((entries, lga) => {
+      const bareName = normalizeName(lga).replace(LGA_AFFIXES, '').trim();
+      const match = scoreName(parsed.name, normalizeName(lga)) || scoreName(parsed.name, bareName) ||
+        (bareQuery && bareQuery !== parsed.name ? scoreName(bareQuery, bareName) : null);
+      if (!match) return;
+
+      // A suburb of the same name is the likelier reading ("Randwick" the suburb, not the council)
+      let quality = match.quality * 0.9;
+      if (hintedState && entries[0].state !== hintedState) quality *= 0.3;
+      candidates.push(fromArea('lga', lga, entries, Math.round(quality * 100) / 100, match.method));
+    });
+  }
+
+  const plausible = candidates.filter(candidate => candidate.matchQuality >= MIN_MATCH_QUALITY);
+
+  // Equally good readings of the same name in different states share the confidence
+  const groups = new Map<string, ResolvedLocation[]>();
+  plausible.forEach(candidate => {
+    const key = `${candidate.type}:${candidate.name.toLowerCase()}:${candidate.matchQuality}`;
+    groups.set(key, [...(groups.get(key) || []), candidate]);
+  });
+  groups.forEach(group => {
+    if (group.length < 2) return;
+    group.forEach(candidate => {
+      candidate.confidence = Math.round(candidate.matchQuality / group.length * 100) / 100;
+      candidate.ambiguous = true;
+    });
+  });
+
+  const typeOrder: ResolvedLocationType[] = ['postcode', 'city', 'suburb', 'lga', 'state'];
+  return plausible
+    .sort((a, b) => b.confidence - a.confidence || typeOrder.indexOf(a.type) - typeOrder.indexOf(b.type))
+    .slice(0, limit);
+}
+
+/**
+ * Best single reading of the text, or undefined when nothing reaches minConfidence
+ */
+export function resolveBestLocation(text: string, options: ResolveLocationOptions & { minConfidence?: number } = {}): ResolvedLocation | undefined {
+  const [best] = resolveLocation(text, { ...options, limit: 1 });
+  return best && best.confidence >= (options.minConfidence ?? MIN_MATCH_QUALITY) ? best : undefined;
+}
+
+/**
+ * Finds places named in running text such as a voice transcript. Longer
+ * phrases win over the words inside them, so "south yarra" is one mention.
+ */
+export function extractLocationMentions(text: string, minQuality = 0.85): LocationMention[] {
+  const words = normalizeName((text || '').replace(/[^A-Za-z0-9\s']/g, ' ')).split(' ').filter(Boolean);
+  const used = new Array(words.length).fill(false);
+  const mentions: LocationMention[] = [];
+
+  for (let i = 0; i < words.length - 1; i++) {
+    if (words[i] === 'postcode' && /^\d{3,4}$/.test(words[i + 1])) {
+      const [location] = resolveLocation(words[i + 1], { limit: 1 });
+      if (location) {
+        mentions.push({ text: `${words[i]} ${words[i + 1]}`, location });
+        used[i] = used[i + 1] = true;
+      }
+    }
+  }
+
+  for (let size = 3; size >= 1; size--) {
+    for (let start = 0; start + size <= words.length; start++) {
+      const phraseWords = words.slice(start, start + size);
+      if (used.slice(start, start + size).some(Boolean)) continue;
+      if (MENTION_STOPWORDS.has(phraseWords[0]) || MENTION_STOPWORDS.has(phraseWords[size - 1])) continue;
+      if (phraseWords.some(word => /^\d+$/.test(word))) continue;
+
+      const phrase = phraseWords.join(' ');
+      if (size === 1 && AMBIGUOUS_STATE_WORDS.has(phrase)) continue;
+
+      const [location] = resolveLocation(phrase, { limit: 1 });
+      if (!location || location.matchQuality < minQuality || location.matchedBy === 'prefix') continue;
+
+      mentions.push({ text: phrase, location });
+      for (let k = start; k < start + size; k++) used[k] = true;
+    }
+  }
+
+  // Report mentions in the order they were spoken
+  return mentions.sort((a, b) => words.join(' ').indexOf(a.text) - words.join(' ').indexOf(b.text));
+}
+
+/**
+ * Compact label for chips: "Bondi, NSW", "Queensland", or just the name when
+ * the state is unknown or still in doubt
+ */
+export function shortLocationLabel(location: ResolvedLocation): string {
+  if (location.type === 'state') return location.label;
+  return location.ambiguous || !location.state ? location.name : `${location.name}, ${location.state}`;
+}
+
+export function formatStateName(state: AustralianState): string {
+  return STATE_NAMES[state];
+}
@@ -1,4 +1,9 @@
-export const mockProperties = [
+import type { Listing } from "./types"
+import { fromMockPropertyRecord } from "./listing-adapters"
+
+// Seed records in the original mock shape; consumers use the canonical `mockProperties` below.
+// `floorAreaSqm` and `lotSize` are in square metres.
+export const mockPropertyRecords = [
   {
     id: "prop-aus-1",
     title: "Chic Inner-City Terrace",
@@ -6,9 +11,8 @@ export const mockProperties = [
     price: 1850000, // AUD
     bedrooms: 3,
     bathrooms: 2,
-    squareFeet: 180, // sqm
+    floorAreaSqm: 180,
     images: ["/placeholder.svg?height=400&width=600"],
-    matchScore: 95,
     tags: ["Heritage", "Renovated", "Courtyard"],
     location: {
       address: "123 Surry Hills Rd, Sydney, NSW",
@@ -34,9 +38,8 @@ export const mockProperties = [
     price: 2200000, // AUD
     bedrooms: 2,
     bathrooms: 2,
-    squareFeet: 120, // sqm
+    floorAreaSqm: 120,
     images: ["/placeholder.svg?height=400&width=600"],
-    matchScore: 92,
     tags: ["Ocean Views", "Luxury", "Balcony"],
     location: {
       address: "45 Esplanade, Bondi Beach, NSW",
@@ -62,9 +65,8 @@ export const mockProperties = [
     price: 1550000, // AUD
     bedrooms: 4,
     bathrooms: 3,
-    squareFeet: 280, // sqm
+    floorAreaSqm: 280,
     images: ["/placeholder.svg?height=400&width=600"],
-    matchScore: 88,
     tags: ["Queenslander", "Family-Friendly", "Large Deck"],
     location: {
       address: "78 Paddington Tce, Brisbane, QLD",
@@ -90,7 +92,7 @@ export const mockProperties = [
     price: 980000, // AUD
     bedrooms: 1,
     bathrooms: 1,
-    squareFeet: 65, // sqm
+    floorAreaSqm: 65,
     images: ["/placeholder.svg?height=400&width=600"],
     location: {
       address: "10 Degraves St, Melbourne, VIC",
@@ -108,7 +110,6 @@ export const mockProperties = [
     yearBuilt: 2018,
     propertyType: "Apartment / Unit",
     lotSize: "N/A",
-    matchScore: 85,
   },
   {
     id: "prop-aus-5",
@@ -117,7 +118,7 @@ export const mockProperties = [
     price: 1100000, // AUD
     bedrooms: 4,
     bathrooms: 2,
-    squareFeet: 250, // sqm
+    floorAreaSqm: 250,
     images: ["/placeholder.svg?height=400&width=600"],
     location: {
       address: "22 Castle Hill Dr, Perth, WA",
@@ -135,7 +136,6 @@ export const mockProperties = [
     yearBuilt: 2005,
     propertyType: "House",
     lotSize: "700 sqm",
-    matchScore: 82,
   },
   {
     id: "prop-aus-6",
@@ -144,7 +144,7 @@ export const mockProperties = [
     price: 950000, // AUD
     bedrooms: 3,
     bathrooms: 2,
-    squareFeet: 200, // sqm
+    floorAreaSqm: 200,
     images: ["/placeholder.svg?height=400&width=600"],
     location: {
       address: "33 Summit Rd, Stirling, SA",
@@ -162,7 +162,6 @@ export const mockProperties = [
     yearBuilt: 1980,
     propertyType: "House",
     lotSize: "1200 sqm", // Larger lot
-    matchScore: 79,
   },
   {
     id: "prop-aus-7",
@@ -171,7 +170,7 @@ export const mockProperties = [
     price: 780000, // AUD
     bedrooms: 2,
     bathrooms: 2,
-    squareFeet: 110, // sqm
+    floorAreaSqm: 110,
     images: ["/placeholder.svg?height=400&width=600"],
     location: {
       address: "15 Braddon St, Canberra, ACT",
@@ -189,7 +188,6 @@ export const mockProperties = [
     yearBuilt: 2010,
     propertyType: "Townhouse",
     lotSize: "150 sqm",
-    matchScore: 75,
   },
   {
     id: "prop-aus-8",
@@ -198,7 +196,7 @@ export const mockProperties = [
     price: 880000, // AUD
     bedrooms: 3,
     bathrooms: 2,
-    squareFeet: 190, // sqm
+    floorAreaSqm: 190,
     images: ["/placeholder.svg?height=400&width=600"],
     location: {
       address: "8 Marina Bvd, Darwin, NT",
@@ -216,7 +214,6 @@ export const mockProperties = [
     yearBuilt: 2008,
     propertyType: "Elevated House",
     lotSize: "800 sqm",
-    matchScore: 70,
   },
   {
     id: "prop-aus-9",
@@ -225,7 +222,7 @@ export const mockProperties = [
     price: 720000, // AUD
     bedrooms: 2,
     bathrooms: 1,
-    squareFeet: 90, // sqm
+    floorAreaSqm: 90,
     images: ["/placeholder.svg?height=400&width=600"],
     location: {
       address: "2 Battery Point Rd, Hobart, TAS",
@@ -243,10 +240,11 @@ export const mockProperties = [
     yearBuilt: 1890,
     propertyType: "Cottage",
     lotSize: "120 sqm",
-    matchScore: 68,
   },
 ]
 
-export type Property = (typeof mockProperties)[number]
+export type MockPropertyRecord = (typeof mockPropertyRecords)[number]
+
+export const mockProperties: Listing[] = mockPropertyRecords.map(fromMockPropertyRecord)
 
 export const getProperties = () => mockProperties
@@ -0,0 +1,51 @@
+import { describe, expect, test } from 'bun:test';
+import { DEFAULT_MOCK_CORPUS_SIZE, generateMockListings, generateMockResults } from './mock-listing-generator';
+
+describe('generateMockListings', () => {
+  test('gives the same corpus for the same seed every time', () => {
+    expect(generateMockListings({ seed: 'snapshot' })).toEqual(generateMockListings({ seed: 'snapshot' }));
+    expect(generateMockListings()).toEqual(generateMockListings());
+  });
+
+  test('gives a different corpus for another seed, with the same ids', () => {
+    const a = generateMockListings({ seed: 'a', count: 10 });
+    const b = generateMockListings({ seed: 'b', count: 10 });
+    expect(a).not.toEqual(b);
+    expect(a.map(listing => listing.id)).toEqual(b.map(listing => listing.id));
+  });
+
+  test('keeps earlier listings when the corpus grows', () => {
+    expect(generateMockListings({ count: 50 })).toEqual(generateMockListings().slice(0, 50));
+  });
+
+  test('dates count back from the reference date, not the clock', () => {
+    const [listing] = generateMockListings({ count: 1, referenceDate: '2020-01-31T00:00:00.000Z' });
+    expect(Date.parse(listing.listedDate!)).toBeLessThanOrEqual(Date.parse('2020-01-31T00:00:00.000Z'));
+  });
+
+  test('lists a share of the corpus for rent at weekly prices', () => {
+    const corpus = generateMockListings();
+    const rentals = corpus.filter(listing => listing.listingType === 'For Rent');
+    expect(corpus).toHaveLength(DEFAULT_MOCK_CORPUS_SIZE);
+    expect(rentals.length).toBeGreaterThan(15);
+    expect(rentals.length).toBeLessThan(50);
+
+    rentals.forEach(listing => {
+      expect(listing.price).toBeGreaterThan(100);
+      expect(listing.price).toBeLessThan(10000);
+      expect(listing.price % 10).toBe(0);
+      expect(listing.priceHistory?.every(event => event.event !== 'sold')).toBe(true);
+      expect(listing.priceHistory?.at(-1)?.price).toBe(listing.price);
+    });
+    corpus.filter(listing => listing.listingType === 'For Sale').forEach(listing => {
+      expect(listing.price).toBeGreaterThan(100000);
+    });
+  });
+});
+
+describe('generateMockResults', () => {
+  test('shows the same results for the same search', () => {
+    const params = { location: 'Bondi, NSW', listingType: 'For Rent' as const, bedroomsMin: 2 };
+    expect(generateMockResults(params)).toEqual(generateMockResults({ ...params }));
+  });
+});
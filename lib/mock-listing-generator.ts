@@ -0,0 +1,358 @@
+/**
+ * Mock listing generator
+ * Seeded demo corpus: the same seed always yields the same listings, ids,
+ * photos and dates, so demos and snapshots are reproducible
+ */
+
+import type {
+  AustralianState,
+  Listing,
+  ListingAgent,
+  ListingPriceEvent,
+  ListingPropertyType,
+  ListingTag,
+  SearchParams,
+} from './types';
+import { findSuburb } from './suburb-gazetteer';
+import { formatAddress, formatPropertyType, normalizePropertyType, parseAddress } from './listing-adapters';
+
+export const DEFAULT_MOCK_SEED = 'haus-demo';
+
+// Generated dates count back from here rather than from the clock, so they never drift
+export const MOCK_REFERENCE_DATE = '2025-06-01T00:00:00.000Z';
+
+export const DEFAULT_MOCK_CORPUS_SIZE = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Share of the corpus listed for rent, and the gross yield their weekly rent is set from
+const MOCK_RENTAL_SHARE = 0.3;
+const MOCK_RENTAL_YIELD = 0.04;
+
+export interface SeededRandom {
+  // Uniform in [0, 1)
+  next(): number;
+  // Integer in [min, max], both inclusive
+  int(min: number, max: number): number;
+  pick<T>(items: readonly T[]): T;
+  // Shuffled copy; the input is left untouched
+  shuffle<T>(items: readonly T[]): T[];
+  chance(probability: number): boolean;
+}
+
+/**
+ * FNV-1a hash, used to turn string seeds into generator state
+ */
+export function hashSeed(seed: string | number): number {
+  const text = String(seed);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Small, fast PRNG (mulberry32). Not suitable for anything security related.
+ */
+export function createSeededRandom(seed: string | number = DEFAULT_MOCK_SEED): SeededRandom {
+  let state = hashSeed(seed);
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    pick: items => items[Math.floor(next() * items.length)],
+    shuffle: items => {
+      const copy = [...items];
+      for (let i = copy.length - 1; i > 0; i--) {
+        const j = Math.floor(next() * (i + 1));
+        [copy[i], copy[j]] = [copy[j], copy[i]];
+      }
+      return copy;
+    },
+    chance: probability => next() < probability,
+  };
+}
+
+// Median house prices are indicative only; every suburb is in the gazetteer
+const MOCK_MARKETS: { suburb: string; state: AustralianState; medianPrice: number }[] = [
+  { suburb: 'Sydney', state: 'NSW', medianPrice: 1200000 },
+  { suburb: 'Bondi', state: 'NSW', medianPrice: 2500000 },
+  { suburb: 'Paddington', state: 'NSW', medianPrice: 3200000 },
+  { suburb: 'Surry Hills', state: 'NSW', medianPrice: 1600000 },
+  { suburb: 'Newtown', state: 'NSW', medianPrice: 1500000 },
+  { suburb: 'Manly', state: 'NSW', medianPrice: 3000000 },
+  { suburb: 'Melbourne', state: 'VIC', medianPrice: 900000 },
+  { suburb: 'South Yarra', state: 'VIC', medianPrice: 1800000 },
+  { suburb: 'Fitzroy', state: 'VIC', medianPrice: 1100000 },
+  { suburb: 'St Kilda', state: 'VIC', medianPrice: 1100000 },
+  { suburb: 'Brisbane', state: 'QLD', medianPrice: 650000 },
+  { suburb: 'New Farm', state: 'QLD', medianPrice: 1400000 },
+  { suburb: 'Surfers Paradise', state: 'QLD', medianPrice: 800000 },
+  { suburb: 'Perth', state: 'WA', medianPrice: 550000 },
+  { suburb: 'Cottesloe', state: 'WA', medianPrice: 2500000 },
+  { suburb: 'Adelaide', state: 'SA', medianPrice: 480000 },
+  { suburb: 'Glenelg', state: 'SA', medianPrice: 950000 },
+  { suburb: 'Hobart', state: 'TAS', medianPrice: 700000 },
+  { suburb: 'Canberra', state: 'ACT', medianPrice: 900000 },
+  { suburb: 'Darwin', state: 'NT', medianPrice: 550000 },
+];
+
+// Price relative to the suburb median, and the bedroom range each type is generated with
+const PROPERTY_TYPE_PROFILES: Record<ListingPropertyType, { priceFactor: number; bedrooms: [number, number]; hasLand: boolean }> = {
+  house: { priceFactor: 1.1, bedrooms: [2, 5], hasLand: true },
+  apartment: { priceFactor: 0.7, bedrooms: [1, 3], hasLand: false },
+  unit: { priceFactor: 0.6, bedrooms: [1, 3], hasLand: false },
+  townhouse: { priceFactor: 0.85, bedrooms: [2, 4], hasLand: true },
+  villa: { priceFactor: 0.8, bedrooms: [2, 3], hasLand: true },
+  terrace: { priceFactor: 1, bedrooms: [2, 4], hasLand: true },
+  penthouse: { priceFactor: 1.8, bedrooms: [2, 4], hasLand: false },
+  studio: { priceFactor: 0.4, bedrooms: [1, 1], hasLand: false },
+};
+
+const MOCK_AMENITIES = ['Pool', 'Garage', 'Garden', 'Balcony', 'Air Conditioning', 'Solar Panels', 'Ensuite', 'Dishwasher', 'Sea View', 'Fireplace'];
+
+const MOCK_HIGHLIGHTS = ['Renovated', 'Heritage', 'Modern', 'Contemporary', 'North-facing', 'Period Features', 'Open Plan', 'Ocean Views'];
+
+const STREET_NAMES = ['Ocean Street', 'Victoria Road', 'George Street', 'Beach Road', 'Park Avenue', 'Church Street', 'High Street', 'Station Street', 'Albert Road', 'King Street'];
+
+const MOCK_TAGS: ListingTag[] = [
+  { text: 'New', type: 'new' },
+  { text: 'Premium', type: 'premium' },
+  { text: 'Open House', type: 'open-house' },
+  { text: 'Auction', type: 'auction' },
+];
+
+export const MOCK_AGENTS: ListingAgent[] = [
+  ['Sarah Mitchell', 'Harbour Realty'],
+  ['James Nguyen', 'Harbour Realty'],
+  ['Olivia Brown', 'Coastal Property Group'],
+  ['Liam Wilson', 'Coastal Property Group'],
+  ['Chloe Taylor', 'Southern Cross Estates'],
+  ['Noah Patel', 'Southern Cross Estates'],
+  ['Emily Chen', 'Metro Living'],
+  ['Jack Robinson', 'Metro Living'],
+].map(([name, agency], i) => ({
+  name,
+  agency,
+  phone: `0412 345 ${String(600 + i * 11).padStart(3, '0')}`,
+  email: `${name.toLowerCase().replace(' ', '.')}@${agency.toLowerCase().replace(/\s+/g, '')}.com.au`,
+  photo: `https://i.pravatar.cc/150?u=${encodeURIComponent(name)}`,
+}));
+
+function photoUrls(id: string, count: number): string[] {
+  return Array.from({ length: count }, (_, n) => `https://picsum.photos/seed/${id}-${n + 1}/800/600`);
+}
+
+function daysBefore(referenceDate: string, days: number): string {
+  return new Date(Date.parse(referenceDate) - days * DAY_MS).toISOString();
+}
+
+function roundTo(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+/**
+ * Listing history ending at the current price: an optional earlier sale, the
+ * listing event and up to two price reductions since. Rentals have no earlier
+ * sale and their weekly rents move in $10 steps.
+ */
+function generatePriceHistory(
+  rng: SeededRandom,
+  price: number,
+  listedDaysAgo: number,
+  referenceDate: string,
+  rental = false
+): ListingPriceEvent[] {
+  const history: ListingPriceEvent[] = [];
+  const step = rental ? 10 : 5000;
+
+  if (rng.chance(0.5)) {
+    const yearsAgo = rng.int(3, 15);
+    if (!rental) {
+      history.push({
+        date: daysBefore(referenceDate, listedDaysAgo + yearsAgo * 365),
+        price: roundTo(price * (1 - yearsAgo * 0.04), step),
+        event: 'sold',
+      });
+    }
+  }
+
+  const reductions = listedDaysAgo > 14 ? rng.int(0, 2) : 0;
+  let asking = roundTo(price * (1 + reductions * 0.04), step);
+  history.push({ date: daysBefore(referenceDate, listedDaysAgo), price: asking, event: 'listed' });
+
+  // Reductions are spread evenly over the campaign, the last one landing on the current price
+  for (let k = 1; k <= reductions; k++) {
+    asking = k === reductions ? price : roundTo(asking * 0.97, step);
+    history.push({
+      date: daysBefore(referenceDate, Math.floor(listedDaysAgo * (reductions + 1 - k) / (reductions + 1))),
+      price: asking,
+      event: 'price-change',
+    });
+  }
+
+  return history;
+}
+
+export interface MockListingOptions {
+  seed?: string | number;
+  count?: number;
+  // ISO date that generated dates count back from
+  referenceDate?: string;
+}
+
+/**
+ * Generates the demo corpus. Ids are stable per position ("prop-1", "prop-2", ...)
+ * so bookmarks into the demo survive restarts. About a third of the listings
+ * are rentals priced per week.
+ */
+export function generateMockListings(options: MockListingOptions = {}): Listing[] {
+  const { seed = DEFAULT_MOCK_SEED, count = DEFAULT_MOCK_CORPUS_SIZE, referenceDate = MOCK_REFERENCE_DATE } = options;
+  const rng = createSeededRandom(seed);
+  // A stream of its own, so choosing rentals leaves every other field of a seed's listings as it was
+  const tenure = createSeededRandom(`${seed}:tenure`);
+  const propertyTypes = Object.keys(PROPERTY_TYPE_PROFILES) as ListingPropertyType[];
+
+  return Array.from({ length: count }, (_, i) => {
+    const id = `prop-${i + 1}`;
+    const market = rng.pick(MOCK_MARKETS);
+    const place = findSuburb(market.suburb, market.state);
+    const propertyType = rng.pick(propertyTypes);
+    const profile = PROPERTY_TYPE_PROFILES[propertyType];
+
+    const bedrooms = rng.int(...profile.bedrooms);
+    const bathrooms = Math.max(1, Math.min(bedrooms, rng.int(1, 3)));
+    const parking = profile.hasLand ? rng.int(1, 2) : rng.int(0, 1);
+    const buildingSize = (propertyType === 'studio' ? 35 : 50) + bedrooms * rng.int(25, 45);
+    const landSize = profile.hasLand ? buildingSize + rng.int(80, 600) : undefined;
+
+    const variation = 0.8 + rng.next() * 0.4;
+    const salePrice = roundTo(market.medianPrice * profile.priceFactor * (0.7 + bedrooms * 0.12) * variation, 5000);
+    const rental = tenure.chance(MOCK_RENTAL_SHARE);
+    const price = rental ? roundTo(salePrice * MOCK_RENTAL_YIELD / 52, 10) : salePrice;
+
+    const amenities = rng.shuffle(MOCK_AMENITIES).slice(0, rng.int(2, 6));
+    const highlights = rng.shuffle(MOCK_HIGHLIGHTS).slice(0, rng.int(0, 2));
+    const listedDaysAgo = rng.int(0, 60);
+    const street = `${rng.int(1, 200)} ${rng.pick(STREET_NAMES)}`;
+    const address = {
+      street,
+      suburb: market.suburb,
+      state: market.state,
+      postcode: place?.postcode,
+    };
+    const typeLabel = formatPropertyType(propertyType);
+
+    return {
+      id,
+      title: `${bedrooms} Bed ${typeLabel} in ${market.suburb}`,
+      description: `${highlights[0] ? `${highlights[0]} ` : 'Beautiful '}${typeLabel.toLowerCase()} featuring ${amenities.slice(0, 3).join(', ').toLowerCase()}. Located in the heart of ${market.suburb}.`,
+      listingType: rental ? 'For Rent' : 'For Sale',
+      propertyType,
+      price,
+      address: { ...address, formatted: formatAddress(address) },
+      bedrooms,
+      bathrooms,
+      parking,
+      buildingSize,
+      landSize,
+      yearBuilt: rng.int(1890, 2024),
+      images: photoUrls(id, rng.int(3, 6)),
+      amenities,
+      highlights,
+      tag: listedDaysAgo <= 7 ? MOCK_TAGS[0] : rng.chance(0.3) ? rng.pick(MOCK_TAGS.slice(1)) : undefined,
+      tourAvailable: rng.chance(0.5),
+      agent: rng.pick(MOCK_AGENTS),
+      listedDate: daysBefore(referenceDate, listedDaysAgo),
+      priceHistory: generatePriceHistory(rng, price, listedDaysAgo, referenceDate, rental),
+      // Scatter within roughly 2 km of the suburb centre
+      coordinates: place && {
+        lat: place.centroid.lat + (rng.next() - 0.5) * 0.036,
+        lng: place.centroid.lng + (rng.next() - 0.5) * 0.044,
+      },
+    };
+  });
+}
+
+const DEFAULT_RESULT_LOCATIONS = ['Sydney, NSW', 'Melbourne, VIC', 'Brisbane, QLD', 'Perth, WA', 'Bondi Beach, NSW', 'South Yarra, VIC', 'Surfers Paradise, QLD'];
+const DEFAULT_RESULT_TYPES = ['Apartment', 'House', 'Townhouse', 'Unit', 'Villa'];
+
+/**
+ * A handful of listings tailored to the search, for offline demos. The params
+ * seed the generator, so the same search always shows the same results.
+ */
+export function generateMockResults(params: SearchParams, seed: string | number = JSON.stringify(params)): Listing[] {
+  const rng = createSeededRandom(seed);
+  const idPrefix = `mock-${hashSeed(seed).toString(36)}`;
+  const count = rng.int(3, 4);
+
+  return Array.from({ length: count }, (_, i) => {
+    const id = `${idPrefix}-${i + 1}`;
+    const location = params.location || DEFAULT_RESULT_LOCATIONS[i % DEFAULT_RESULT_LOCATIONS.length];
+    const propertyType = params.propertyType || DEFAULT_RESULT_TYPES[i % DEFAULT_RESULT_TYPES.length];
+    const bedrooms = params.bedroomsMin || (2 + i);
+    const bathrooms = params.bathroomsMin || (bedrooms > 1 ? bedrooms - 1 : 1);
+
+    let sqm: number;
+    if (params.sizeMetersMin !== undefined || params.sizeMetersMax !== undefined) {
+      const minSqm = params.sizeMetersMin ?? 0;
+      const maxSqm = params.sizeMetersMax ?? (minSqm + 150);
+      sqm = rng.int(Math.round(minSqm), Math.round(maxSqm));
+    } else {
+      sqm = 110 + bedrooms * 35 + rng.int(-20, 20);
+    }
+
+    const amenities = params.amenities && params.amenities.length > 0
+      ? params.amenities
+      : rng.shuffle(MOCK_AMENITIES).slice(0, rng.int(3, 5));
+    const title = `${params.style || 'Modern'} ${propertyType} with ${amenities[0]}`;
+
+    const listingType = params.listingType || 'For Sale';
+    const isRental = listingType === 'For Rent' || listingType === 'For Lease';
+    const [defaultMin, defaultMax, step] = isRental ? [2000, 15000, 100] : [800000, 5000000, 100000];
+    const priceMin = params.priceMin || defaultMin;
+    const priceMax = params.priceMax || Math.max(defaultMax, priceMin);
+    const price = Math.min(Math.max(roundTo(priceMin + rng.next() * (priceMax - priceMin), step), priceMin), priceMax);
+
+    const tag = params.tags && params.tags.length > 0
+      ? MOCK_TAGS.find(t => t.type === params.tags![i % params.tags!.length])
+      : rng.chance(0.4) ? rng.pick(MOCK_TAGS) : undefined;
+
+    const address = parseAddress(location);
+    const place = findSuburb(address.suburb, address.state);
+    const listedDaysAgo = rng.int(0, 30);
+
+    return {
+      id,
+      title,
+      description: `Discover this stunning ${propertyType.toLowerCase()} in the heart of ${location}. Featuring ${bedrooms} bedrooms and ${bathrooms} bathrooms, this property offers an expansive ${sqm} sqm of modern living space.`,
+      listingType,
+      propertyType: normalizePropertyType(propertyType),
+      price,
+      address,
+      bedrooms,
+      bathrooms,
+      parking: rng.int(0, 2),
+      buildingSize: sqm,
+      images: photoUrls(id, 3),
+      amenities,
+      highlights: [],
+      tag,
+      tourAvailable: rng.chance(0.5),
+      agent: rng.pick(MOCK_AGENTS),
+      listedDate: daysBefore(MOCK_REFERENCE_DATE, listedDaysAgo),
+      priceHistory: generatePriceHistory(rng, price, listedDaysAgo, MOCK_REFERENCE_DATE, isRental),
+      coordinates: place?.centroid,
+    };
+  });
+}
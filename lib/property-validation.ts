@@ -1,4 +1,5 @@
-import type { Property } from "./mock-data"
+import type { Listing } from "./types"
+import { isListing, toListing } from "./listing-adapters"
 
 /**
  * Type guard to check if a value is a non-null object
@@ -8,44 +9,33 @@ export function isObject(value: unknown): value is Record<string, unknown> {
 }
 
 /**
- * Type guard to check if a property has the minimum required fields
+ * Type guard to check if a property is already in the canonical listing shape
  */
-export function isValidProperty(property: unknown): property is Property {
-  if (!isObject(property)) return false
-
-  // Check for required primitive fields
-  const hasRequiredFields =
-    typeof property.id === "string" &&
-    typeof property.title === "string" &&
-    typeof property.address === "string" &&
-    typeof property.price === "number"
-
-  if (!hasRequiredFields) return false
-
-  // Check for nested objects
-  if (!isObject(property.location)) return false
-  if (property.features && !isObject(property.features)) return false
-  if (property.systems && !isObject(property.systems)) return false
-
-  return true
+export function isValidProperty(property: unknown): property is Listing {
+  return isListing(property)
 }
 
 /**
  * Creates a default property object with safe values
  */
-export function createDefaultProperty(): Property {
+export function createDefaultProperty(): Listing {
   return {
     id: "unknown",
     title: "Unknown Property",
-    address: "Address not available",
+    description: "",
+    listingType: "For Sale",
+    propertyType: "house",
     price: 0,
+    address: {
+      suburb: "Unknown",
+      formatted: "Address not available",
+    },
     bedrooms: 0,
     bathrooms: 0,
-    squareFeet: 0,
+    parking: 0,
     images: [],
-    location: {
-      address: "Address not available",
-    },
+    amenities: [],
+    highlights: [],
     features: {
       kitchen: "Standard",
       flooring: "Standard",
@@ -60,42 +50,36 @@ export function createDefaultProperty(): Property {
 }
 
 /**
- * Sanitizes a property object by ensuring all expected fields exist
- * and have appropriate types
+ * Sanitizes a property object by converting any known legacy shape into a
+ * listing and ensuring all expected fields exist with appropriate types
  */
-export function sanitizeProperty(property: unknown): Property {
-  if (!isValidProperty(property)) {
+export function sanitizeProperty(property: unknown): Listing {
+  const listing = toListing(property)
+  if (!listing) {
     console.warn("Invalid property data detected, using default values", property)
     return createDefaultProperty()
   }
 
-  // Create a sanitized copy with all expected fields
-  const sanitized: Property = {
-    ...createDefaultProperty(),
-    ...property,
+  const defaults = createDefaultProperty()
+  const sanitized: Listing = {
+    ...defaults,
+    ...listing,
     // Ensure nested objects exist
-    location: {
-      ...createDefaultProperty().location,
-      ...(isObject(property.location) ? property.location : {}),
-    },
-    features: {
-      ...createDefaultProperty().features,
-      ...(isObject(property.features) ? property.features : {}),
-    },
-    systems: {
-      ...createDefaultProperty().systems,
-      ...(isObject(property.systems) ? property.systems : {}),
-    },
+    address: { ...defaults.address, ...listing.address },
+    features: { ...defaults.features, ...(isObject(listing.features) ? listing.features : {}) },
+    systems: { ...defaults.systems, ...(isObject(listing.systems) ? listing.systems : {}) },
   }
 
   // Ensure numeric values are actually numbers
-  sanitized.price = typeof property.price === "number" ? property.price : 0
-  sanitized.bedrooms = typeof property.bedrooms === "number" ? property.bedrooms : 0
-  sanitized.bathrooms = typeof property.bathrooms === "number" ? property.bathrooms : 0
-  sanitized.squareFeet = typeof property.squareFeet === "number" ? property.squareFeet : 0
+  sanitized.price = typeof listing.price === "number" ? listing.price : 0
+  sanitized.bedrooms = typeof listing.bedrooms === "number" ? listing.bedrooms : 0
+  sanitized.bathrooms = typeof listing.bathrooms === "number" ? listing.bathrooms : 0
+  sanitized.parking = typeof listing.parking === "number" ? listing.parking : 0
 
   // Ensure arrays are actually arrays
-  sanitized.images = Array.isArray(property.images) ? property.images : []
+  sanitized.images = Array.isArray(listing.images) ? listing.images : []
+  sanitized.amenities = Array.isArray(listing.amenities) ? listing.amenities : []
+  sanitized.highlights = Array.isArray(listing.highlights) ? listing.highlights : []
 
   return sanitized
 }
@@ -103,7 +87,7 @@ export function sanitizeProperty(property: unknown): Property {
 /**
  * Validates an array of properties and returns only the valid ones
  */
-export function validateProperties(properties: unknown[]): Property[] {
+export function validateProperties(properties: unknown[]): Listing[] {
   if (!Array.isArray(properties)) {
     console.error("Expected an array of properties but received:", properties)
     return []
@@ -115,7 +99,7 @@ export function validateProperties(properties: unknown[]): Property[] {
 /**
  * Gets a safe property value with a fallback
  */
-export function getPropertyValue<T>(property: Property, path: string, fallback: T): T {
+export function getPropertyValue<T>(property: Listing, path: string, fallback: T): T {
   try {
     const keys = path.split(".")
     let value: any = property
@@ -143,11 +127,11 @@ export function formatPropertyValue(value: unknown, type: "price" | "area" | "co
   switch (type) {
     case "price":
       return typeof value === "number"
-        ? new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(value)
+        ? new Intl.NumberFormat("en-AU", { style: "currency", currency: "AUD", maximumFractionDigits: 0 }).format(value)
         : "N/A"
 
     case "area":
-      return typeof value === "number" ? `${value.toLocaleString()} sq ft` : "N/A"
+      return typeof value === "number" ? `${value.toLocaleString()} sqm` : "N/A"
 
     case "count":
       return typeof value === "number" ? value.toString() : "N/A"
@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'bun:test';
+import { describePriceRange, findUnsupportedPhrases, parsePriceAmount, parseSearchQuery } from './query-parser';
+import { parseVoiceQueryLocally } from './services/voiceQueryClient';
+
+describe('parsePriceAmount', () => {
+  test.each([
+    ['1.2 mil', 1200000],
+    ['$950k', 950000],
+    ['800 thousand', 800000],
+    ['a million', 1000000],
+    ['$1,250,000', 1250000],
+  ])('reads %p', (text, amount) => {
+    expect(parsePriceAmount(text)).toBe(amount);
+  });
+
+  test('rejects text that is not money', () => {
+    expect(parsePriceAmount('three bedrooms')).toBeUndefined();
+  });
+});
+
+describe('describePriceRange', () => {
+  test('describes open and closed ranges', () => {
+    expect(describePriceRange(undefined, 1200000)).toBe('Under $1.2M');
+    expect(describePriceRange(800000, 1100000)).toBe('$800k - $1.1M');
+    expect(describePriceRange(900000)).toBe('Over $900k');
+    expect(describePriceRange()).toBeUndefined();
+  });
+});
+
+describe('parseSearchQuery', () => {
+  test('extracts the structured filters of a spoken query', () => {
+    const parsed = parseSearchQuery('3 bed house under 1.2 mil near the beach in Sydney');
+    expect(parsed.propertyType?.value).toBe('House');
+    expect(parsed.bedroomsMin?.value).toBe(3);
+    expect(parsed.priceMax?.value).toBe(1200000);
+    expect(parsed.location?.value).toBe('Sydney, NSW');
+  });
+
+  test('reads the full example query and reports the part no field can hold', () => {
+    const query = '3 bed house under 1.2 mil near the beach in Sydney for rent';
+    const parsed = parseSearchQuery(query);
+    expect(parsed.listingType?.value).toBe('For Rent');
+    expect(parsed.propertyType?.value).toBe('House');
+    expect(parsed.bedroomsMin?.value).toBe(3);
+    expect(parsed.priceMax?.value).toBe(1200000);
+    expect(parsed.location?.value).toBe('Sydney, NSW');
+    expect(parsed.amenities).toBeUndefined();
+    expect(findUnsupportedPhrases(query)).toEqual(['near the beach']);
+    expect(parseVoiceQueryLocally(query).issues).toEqual(['"near the beach": not a search field']);
+  });
+
+  test('keeps the words each field came from', () => {
+    expect(parseSearchQuery('3 bed house under 1.2 mil').priceMax?.sourceText).toEqual(['under 1.2 mil']);
+  });
+
+  test('reads a price range and a bathroom minimum', () => {
+    const parsed = parseSearchQuery('between 800k and 1.1m with at least 2 bathrooms in Bondi');
+    expect(parsed.priceMin?.value).toBe(800000);
+    expect(parsed.priceMax?.value).toBe(1100000);
+    expect(parsed.bathroomsMin?.value).toBe(2);
+    expect(parsed.location?.value).toBe('Bondi, NSW');
+  });
+
+  describe('refinement ops', () => {
+    test('plain mentions add amenities', () => {
+      const parsed = parseSearchQuery('add a pool and a garage');
+      expect(parsed.amenities?.value).toEqual(['Pool', 'Garage']);
+      expect(parsed.amenities?.op).toBeUndefined();
+    });
+
+    test('"drop the pool" removes it', () => {
+      const parsed = parseSearchQuery('actually drop the pool', { amenities: ['Pool'] });
+      expect(parsed.amenities).toMatchObject({ value: ['Pool'], op: 'remove' });
+    });
+
+    test('removing one amenity while adding another sets the whole list', () => {
+      const parsed = parseSearchQuery("drop the pool, I'd like a garage", { amenities: ['Pool'] });
+      expect(parsed.amenities).toMatchObject({ value: ['Garage'], op: 'set' });
+    });
+
+    test('"any price" unsets both ends of the budget', () => {
+      const parsed = parseSearchQuery('any price');
+      expect(parsed.priceMin?.op).toBe('unset');
+      expect(parsed.priceMax?.op).toBe('unset');
+    });
+  });
+
+  test('returns nothing for a query without filters', () => {
+    expect(parseSearchQuery('hello there')).toEqual({});
+  });
+});
+
+describe('findUnsupportedPhrases', () => {
+  test('finds each request to be close to something', () => {
+    expect(findUnsupportedPhrases('Walking distance to the station and close to schools')).toEqual([
+      'Walking distance to the station',
+      'close to schools',
+    ]);
+  });
+
+  test('leaves amenities and locations alone', () => {
+    expect(findUnsupportedPhrases('beachfront apartment with ocean views near Bondi')).toEqual([]);
+  });
+});
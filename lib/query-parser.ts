@@ -0,0 +1,407 @@
+/**
+ * Query parser
+ * Rule-based, offline extraction of search params from a spoken or typed
+ * query. Returns the same `{ value, sourceText }` shape as /api/voice/process,
+ * so it can stand in when no language model is available and is cheap enough
+ * to run on every interim transcript.
+ */
+
+import type { ListingTagType, ListingType, SearchParamOp, SearchParams } from './types';
+import { formatPropertyType, matchPropertyType } from './listing-adapters';
+import { extractLocationMentions, shortLocationLabel } from './location-resolver';
+
+export interface ExtractedField<T> {
+  value: T;
+  // The words in the query the value was read from, as typed or spoken
+  sourceText: string[];
+  // Defaults to `add` for amenities and tags and `set` for everything else
+  op?: Exclude<SearchParamOp, 'unset'>;
+}
+
+// A field the user asked to drop from the search, e.g. "any price"
+export interface ClearedField {
+  value?: undefined;
+  sourceText: string[];
+  op: 'unset';
+}
+
+export type ExtractedSearchParams = {
+  [K in keyof SearchParams]?: ExtractedField<NonNullable<SearchParams[K]>> | ClearedField;
+};
+
+/**
+ * Amenities the extractors may return; anything else is dropped
+ */
+export const SEARCH_AMENITIES = [
+  'Pool', 'Pets Allowed', 'Garage', 'Garden', 'Gym', 'Balcony', 'Waterfront',
+  'Sea View', 'Mountain View', 'City View', 'Hot Tub', 'Fireplace', 'Laundry',
+  'Furnished', 'Dishwasher', 'Hardwood Floors', 'Wheelchair Accessible',
+  'EV Charging', 'Gated Community', 'Security System', 'Solar Panels',
+  'Wine Cellar', 'Home Office', 'High Ceilings', 'Central Heating', 'Elevator',
+  'Fenced Yard', 'Good School District', 'Outdoor Entertaining', 'New Build',
+  'Earthquake Strengthened',
+];
+
+// Everyday phrasings of the amenities above; the amenity names themselves always match
+const AMENITY_SYNONYMS: [RegExp, string][] = [
+  [/\bswimming pool\b|\bplunge pool\b/, 'Pool'],
+  [/\bpet[- ]friendly\b|\bpets? (?:ok|welcome)\b|\bdogs? allowed\b/, 'Pets Allowed'],
+  [/\bcarport\b|\block[- ]up garage\b|\bcar space\b/, 'Garage'],
+  [/\bbackyard\b/, 'Garden'],
+  [/\bverandah\b|\bdeck\b/, 'Balcony'],
+  [/\bbeachfront\b|\bwater ?front\b|\bon the water\b/, 'Waterfront'],
+  [/\b(?:ocean|sea|water|beach) views?\b/, 'Sea View'],
+  [/\bcity views?\b|\bskyline views?\b/, 'City View'],
+  [/\bspa\b|\bjacuzzi\b/, 'Hot Tub'],
+  [/\bsolar\b/, 'Solar Panels'],
+  [/\bstudy\b|\bwork from home\b|\boffice\b/, 'Home Office'],
+  [/\blift\b/, 'Elevator'],
+  [/\bev charger\b|\belectric car charging\b/, 'EV Charging'],
+  [/\bgood schools?\b|\bschool zone\b|\bcatchment\b/, 'Good School District'],
+  [/\balfresco\b|\bentertaining area\b|\bbbq area\b/, 'Outdoor Entertaining'],
+  [/\bnew build\b|\bbrand new build\b|\boff the plan\b/, 'New Build'],
+];
+
+const STYLE_WORDS = [
+  'modern', 'contemporary', 'minimalist', 'industrial', 'scandinavian', 'coastal', 'hamptons',
+  'federation', 'victorian', 'edwardian', 'art deco', 'mid-century', 'mid century', 'heritage',
+  'colonial', 'rustic', 'farmhouse', 'californian bungalow', 'brutalist', 'japandi',
+];
+
+const TAG_PHRASES: [RegExp, ListingTagType][] = [
+  [/\bjust listed\b|\bnew(?:ly)? listed\b|\bnew listings?\b|\bbrand new\b/, 'new'],
+  [/\bpremium\b|\bluxury\b|\bprestige\b/, 'premium'],
+  [/\bopen (?:house|home|for inspection)\b|\binspections?\b/, 'open-house'],
+  [/\bauctions?\b|\bgoing to auction\b/, 'auction'],
+];
+
+const LISTING_TYPE_PHRASES: [RegExp, ListingType][] = [
+  [/\b(?:for|to) lease\b|\bleasing\b|\blease\b/, 'For Lease'],
+  [/\b(?:for|to) rent\b|\brentals?\b|\brenting\b|\brent\b/, 'For Rent'],
+  [/\bfor sale\b|\bto buy\b|\bbuy(?:ing)?\b|\bpurchas(?:e|ing)\b/, 'For Sale'],
+];
+
+// "Near the beach", "walking distance to the station": wanted, but listings don't record what they are close to
+const PROXIMITY_PATTERN = /\b(?:near|close to|walk(?:ing distance)? to|(?:a )?short walk to|next to)\s+(?:(?:the|a|an)\s+)?(?:beach(?:es)?|water|ocean|station|train|transport|shops|schools?|park|city|cbd|uni(?:versity)?|hospital)\b/gi;
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+const COUNT = `(\\d+|${Object.keys(NUMBER_WORDS).filter(word => word.length > 2).join('|')})`;
+const BEDROOMS_PATTERN = new RegExp(`\\b${COUNT}\\s*(\\+|plus|or more)?[\\s-]*(?:bed(?:room)?s?|bdrm?s?|br)\\b`, 'i');
+const BATHROOMS_PATTERN = new RegExp(`\\b${COUNT}\\s*(\\+|plus|or more)?[\\s-]*(?:bath(?:room)?s?|ba)\\b`, 'i');
+const RADIUS_PATTERN = /\b(?:within|inside)\s+(?:a\s+)?(\d+(?:\.\d+)?)\s*(?:km|kms|kilomet(?:er|re)s?)\b(?:\s+(?:radius\s+)?of)?|\b(\d+(?:\.\d+)?)\s*(?:km|kms|kilomet(?:er|re)s?)\s+radius\b/i;
+const SIZE_PATTERN = /\b(?:(under|below|less than|up to|at most|max(?:imum)?|over|above|more than|at least|min(?:imum)?)\s+)?(\d+(?:\.\d+)?)\s*(?:sqm|sq\s?m|square\s+met(?:er|re)s?|m2|m²)/i;
+
+// Money: "$950k", "1.2 mil", "800 thousand", "2,500,000", "1 to 1.5 million"
+const AMOUNT_PATTERN = /(\$\s?)?(\d+(?:,\d{3})*(?:\.\d+)?)\s*(k|grand|thousand|m|mil|mill|million)?(?![\w²])/gi;
+const MAX_QUALIFIER = /(under|below|less than|up to|no more than|not more than|max(?:imum)?(?: of)?|at most|cheaper than|budget(?: of| is)?|spend)\s*$/i;
+const MIN_QUALIFIER = /(over|above|more than|at least|min(?:imum)?(?: of)?|from|starting at|upwards of)\s*$/i;
+const AROUND_QUALIFIER = /(around|about|approximately|roughly|circa)\s*$/i;
+const RANGE_CONNECTOR = /^\s*(?:-|–|to|and)\s*$/i;
+const RANGE_OPENER = /(between|from)\s*$/i;
+
+// Refinements: "two bedrooms instead of three", "drop the pool", "no garage or gym"
+const REPLACED_CUE = /\b(?:instead of|rather than|not)\s+(?:(?:the|a|an)\s+)?$/;
+const REMOVAL_CUE = /\b(?:no|not|without|drop|remove|lose|skip|ditch|exclude|forget(?: about)?|get rid of|instead of|rather than|(?:do not|don't|doesn't|does not) (?:need|want|care about))\s+(?:(?:the|a|an|any)\s+)?$/;
+// Carries a removal on to the next item of the list
+const LIST_JOINER = /^\s*(?:,\s*(?:or\s+)?|or\s+|nor\s+)(?:(?:the|a|an|any)\s+)?$/;
+
+// "Drop the price" more often means lowering it, so price only clears on the other verbs
+const CLEAR_VERB = 'remove|forget(?: about)?|ignore|clear|scrap';
+const UNSET_PHRASES: [RegExp, (keyof SearchParams)[]][] = [
+  [new RegExp(`\\bany (?:price|budget)\\b|\\bno (?:price|budget) (?:limit|cap)\\b|\\b(?:${CLEAR_VERB}) (?:the |my )?(?:price|budget)(?: limit| cap| range)?\\b`), ['priceMin', 'priceMax']],
+  [new RegExp(`\\banywhere\\b|\\bany (?:location|suburb|area)\\b|\\b(?:drop|${CLEAR_VERB}) (?:the )?(?:location|suburb|area)\\b`), ['location', 'locationRadiusKm']],
+  [new RegExp(`\\bany (?:number of )?bed(?:room)?s\\b|\\b(?:drop|${CLEAR_VERB}) (?:the )?bed(?:room)?s?(?: requirement| count| minimum)?\\b`), ['bedroomsMin']],
+  [new RegExp(`\\bany (?:number of )?bath(?:room)?s\\b|\\b(?:drop|${CLEAR_VERB}) (?:the )?bath(?:room)?s?(?: requirement| count| minimum)?\\b`), ['bathroomsMin']],
+  [new RegExp(`\\bany (?:property )?type\\b|\\bany kind of (?:place|property|home)\\b|\\b(?:drop|${CLEAR_VERB}) (?:the )?property type\\b`), ['propertyType']],
+  [new RegExp(`\\bany size\\b|\\b(?:drop|${CLEAR_VERB}) (?:the )?size(?: limit| requirement)?\\b`), ['sizeMetersMin', 'sizeMetersMax']],
+  [new RegExp(`\\bany style\\b|\\b(?:drop|${CLEAR_VERB}) (?:the )?style\\b`), ['style']],
+  [new RegExp(`\\bany amenities\\b|\\b(?:drop|${CLEAR_VERB}) (?:all )?(?:the )?amenities\\b`), ['amenities']],
+];
+
+interface AmountMatch {
+  value: number;
+  start: number;
+  end: number;
+  hasCurrency: boolean;
+  unit?: string;
+}
+
+function unitMultiplier(unit: string | undefined): number {
+  if (!unit) return 1;
+  const normalized = unit.toLowerCase();
+  if (normalized === 'k' || normalized === 'grand' || normalized === 'thousand') return 1000;
+  return 1000000;
+}
+
+function parseCount(word: string): number {
+  return NUMBER_WORDS[word.toLowerCase()] ?? parseInt(word, 10);
+}
+
+/**
+ * Reads a single amount such as "1.2 mil", "$950k" or "800 thousand"; returns
+ * undefined when the text is not recognisably money
+ */
+export function parsePriceAmount(text: string): number | undefined {
+  const match = new RegExp(`^\\s*${AMOUNT_PATTERN.source}\\s*$`, 'i').exec(text.replace(/^(?:a|one)\s+(?=mil)/i, '1 '));
+  if (!match) return undefined;
+  const value = parseFloat(match[2].replace(/,/g, '')) * unitMultiplier(match[3]);
+  return Number.isFinite(value) ? Math.round(value) : undefined;
+}
+
+function findAmounts(text: string): AmountMatch[] {
+  const candidates: AmountMatch[] = [];
+  // "a million" and "half a million" read as numbers; rewrites keep their length so offsets still line up
+  const rewrites: [number, number][] = [];
+  const spoken = text.replace(/\b(half a|a|one) (mil(?:l(?:ion)?)?)\b/gi, (phrase: string, amount: string, unit: string, offset: number) => {
+    rewrites.push([offset, offset + phrase.length]);
+    return `${/half/i.test(amount) ? '0.5' : '1'} ${unit}`.padStart(phrase.length);
+  });
+
+  for (const match of spoken.matchAll(AMOUNT_PATTERN)) {
+    const unit = match[3];
+    // "500m" is a distance, not half a billion dollars
+    const number = parseFloat(match[2].replace(/,/g, ''));
+    const isMillions = unit?.toLowerCase() === 'm';
+    const rewrite = rewrites.find(([from, to]) => match.index! >= from && match.index! < to);
+    candidates.push({
+      value: isMillions && number >= 100 ? NaN : number,
+      start: rewrite ? rewrite[0] : match.index!,
+      end: match.index! + match[0].trimEnd().length,
+      hasCurrency: Boolean(match[1]),
+      unit: isMillions && number >= 100 ? undefined : unit,
+    });
+  }
+
+  // "1 to 1.5 mil": the bare first number borrows the unit of the second
+  candidates.forEach((candidate, i) => {
+    const next = candidates[i + 1];
+    if (!candidate.unit && next?.unit && RANGE_CONNECTOR.test(text.slice(candidate.end, next.start))) {
+      candidate.unit = next.unit;
+    }
+  });
+
+  return candidates
+    .map(candidate => ({ ...candidate, value: Math.round(candidate.value * unitMultiplier(candidate.unit)) }))
+    // Bare small numbers are room counts or sizes rather than prices
+    .filter(candidate => Number.isFinite(candidate.value) && (candidate.hasCurrency || candidate.unit || candidate.value >= 10000));
+}
+
+function extractPrice(text: string, params: ExtractedSearchParams): void {
+  const amounts = findAmounts(text);
+
+  for (let i = 0; i < amounts.length; i++) {
+    const amount = amounts[i];
+    const before = text.slice(i > 0 ? amounts[i - 1].end : 0, amount.start);
+    const next = amounts[i + 1];
+
+    if (next && RANGE_CONNECTOR.test(text.slice(amount.end, next.start))) {
+      const opener = RANGE_OPENER.exec(before);
+      const start = opener ? amount.start - before.length + opener.index : amount.start;
+      const span = text.slice(start, next.end);
+      params.priceMin = { value: Math.min(amount.value, next.value), sourceText: [span] };
+      params.priceMax = { value: Math.max(amount.value, next.value), sourceText: [span] };
+      return;
+    }
+
+    // Maximum first, so "no more than" is not read as "more than"
+    const maximum = MAX_QUALIFIER.exec(before);
+    const minimum = maximum ? null : MIN_QUALIFIER.exec(before);
+    const around = maximum || minimum ? null : AROUND_QUALIFIER.exec(before);
+    const qualifier = maximum || minimum || around;
+    const span = text.slice(qualifier ? amount.start - before.length + qualifier.index : amount.start, amount.end);
+
+    if (minimum) {
+      params.priceMin = { value: amount.value, sourceText: [span] };
+    } else if (around) {
+      params.priceMin = { value: Math.round(amount.value * 0.9), sourceText: [span] };
+      params.priceMax = { value: Math.round(amount.value * 1.1), sourceText: [span] };
+    } else {
+      // A lone figure in a search is a budget
+      params.priceMax = { value: amount.value, sourceText: [span] };
+    }
+  }
+}
+
+function formatCompactPrice(price: number): string {
+  return price >= 1000000 ? `$${+(price / 1000000).toFixed(2)}M` : `$${Math.round(price / 1000)}k`;
+}
+
+/**
+ * Short description of a price range for chips, e.g. "Under $1.2M" or "$800k - $1.1M"
+ */
+export function describePriceRange(min?: number, max?: number): string | undefined {
+  if (min && max) return `${formatCompactPrice(min)} - ${formatCompactPrice(max)}`;
+  if (max) return `Under ${formatCompactPrice(max)}`;
+  if (min) return `Over ${formatCompactPrice(min)}`;
+  return undefined;
+}
+
+/**
+ * The span of the original text matching a phrase found in normalised text,
+ * so highlights line up with what the user actually said
+ */
+function sourceSpan(text: string, phrase: string): string {
+  const pattern = phrase.split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('[\\s,.-]+');
+  return new RegExp(pattern, 'i').exec(text)?.[0] ?? phrase;
+}
+
+// Matches run on lower-cased text, which lines up character for character with the original
+function spanAt(text: string, match: RegExpExecArray): string {
+  return text.slice(match.index, match.index + match[0].length);
+}
+
+function toTitleCase(value: string): string {
+  return value.replace(/\b[a-z]/g, letter => letter.toUpperCase());
+}
+
+// The first match that is not the value being replaced, as in "a house rather than an apartment"
+function firstKept(pattern: RegExp, text: string): RegExpExecArray | null {
+  const matches = [...text.matchAll(new RegExp(pattern.source, pattern.flags.replace('g', '') + 'g'))];
+  return matches.find(found => !REPLACED_CUE.test(text.slice(0, found.index).toLowerCase())) ?? matches[0] ?? null;
+}
+
+interface ListMention<T> {
+  item: T;
+  start: number;
+  end: number;
+}
+
+function findListMentions<T>(lower: string, patterns: [RegExp, T][]): ListMention<T>[] {
+  const mentions = patterns.flatMap(([pattern, item]) =>
+    [...lower.matchAll(new RegExp(pattern.source, 'g'))].map(found => ({ item, start: found.index, end: found.index + found[0].length }))
+  );
+  mentions.sort((a, b) => a.start - b.start || b.end - a.end);
+  // "pool" inside "swimming pool" is the same mention
+  return mentions.filter((mention, i) => !mentions.slice(0, i).some(other => other.item === mention.item && other.end > mention.start));
+}
+
+/**
+ * Splits list mentions into additions and removals, keyed by item with the
+ * words they were read from. The last mention of an item wins, so "a pool,
+ * actually no pool" removes it.
+ */
+function resolveListMentions<T>(text: string, mentions: ListMention<T>[]): { added: Map<T, string>; removed: Map<T, string> } {
+  const lower = text.toLowerCase();
+  const added = new Map<T, string>();
+  const removed = new Map<T, string>();
+  let previousRemoved = false;
+
+  mentions.forEach((mention, i) => {
+    const previous = mentions[i - 1];
+    const cue = REMOVAL_CUE.exec(lower.slice(0, mention.start));
+    const joined = previousRemoved && previous.end <= mention.start && LIST_JOINER.test(lower.slice(previous.end, mention.start));
+
+    if (cue || joined) {
+      removed.set(mention.item, text.slice(cue ? cue.index : mention.start, mention.end));
+      added.delete(mention.item);
+    } else {
+      added.set(mention.item, text.slice(mention.start, mention.end));
+      removed.delete(mention.item);
+    }
+    previousRemoved = Boolean(cue || joined);
+  });
+
+  return { added, removed };
+}
+
+function listField<T>(text: string, mentions: ListMention<T>[], current: T[] = []): ExtractedField<T[]> | undefined {
+  const { added, removed } = resolveListMentions(text, mentions);
+  if (removed.size === 0) {
+    return added.size > 0 ? { value: [...added.keys()], sourceText: [...added.values()] } : undefined;
+  }
+  if (added.size === 0) {
+    return { value: [...removed.keys()], sourceText: [...removed.values()], op: 'remove' };
+  }
+  // A field carries one op, so swapping items sends the whole new list
+  const value = [...current.filter(item => !removed.has(item)), ...[...added.keys()].filter(item => !current.includes(item))];
+  return { value, sourceText: [...removed.values(), ...added.values()], op: 'set' };
+}
+
+/**
+ * Phrases in the query that ask for something no search field can express,
+ * such as "near the beach", so callers can say they were left out rather
+ * than drop them silently
+ */
+export function findUnsupportedPhrases(query: string): string[] {
+  return [...(query || '').matchAll(PROXIMITY_PATTERN)].map(match => match[0]);
+}
+
+/**
+ * Extracts every recognisable search param from the query. Fields that are
+ * not mentioned are left out, as with the language model extractor.
+ *
+ * @param current The search being refined; only needed to spell out a list
+ * field when one utterance both adds and removes items ("a garden instead of a pool")
+ */
+export function parseSearchQuery(query: string, current: SearchParams = {}): ExtractedSearchParams {
+  const text = query || '';
+  const lower = text.toLowerCase();
+  const params: ExtractedSearchParams = {};
+  let match: RegExpExecArray | null;
+
+  const listingTypes = LISTING_TYPE_PHRASES.map(([pattern, listingType]) => ({ listingType, found: pattern.exec(lower) }));
+  const listingType = listingTypes.find(({ found }) => found && !REPLACED_CUE.test(lower.slice(0, found.index)))
+    ?? listingTypes.find(({ found }) => found);
+  if (listingType) {
+    params.listingType = { value: listingType.listingType, sourceText: [spanAt(text, listingType.found!)] };
+  }
+
+  match = firstKept(/\b(penthouse|studio|town ?house|townhome|villa|terrace|semi|apartment|flat|condo|loft|unit|house|home(?! office)|cottage|queenslander|bungalow|duplex)s?\b/i, text);
+  const propertyType = match ? matchPropertyType(match[1].toLowerCase()) : undefined;
+  if (match && propertyType) {
+    params.propertyType = { value: formatPropertyType(propertyType), sourceText: [match[0]] };
+  }
+
+  if ((match = firstKept(BEDROOMS_PATTERN, text))) {
+    params.bedroomsMin = { value: parseCount(match[1]), sourceText: [match[0]] };
+  }
+  if ((match = firstKept(BATHROOMS_PATTERN, text))) {
+    params.bathroomsMin = { value: parseCount(match[1]), sourceText: [match[0]] };
+  }
+
+  if ((match = SIZE_PATTERN.exec(text))) {
+    const isMaximum = match[1] && /under|below|less|up to|most|max/i.test(match[1]);
+    params[isMaximum ? 'sizeMetersMax' : 'sizeMetersMin'] = { value: parseFloat(match[2]), sourceText: [match[0]] };
+  }
+
+  if ((match = RADIUS_PATTERN.exec(text))) {
+    params.locationRadiusKm = { value: parseFloat(match[1] || match[2]), sourceText: [match[0]] };
+  }
+
+  extractPrice(text, params);
+
+  const mentions = extractLocationMentions(text).map(mention => ({ ...mention, span: sourceSpan(text, mention.text) }));
+  const mention = mentions.find(({ span }) => !REPLACED_CUE.test(lower.slice(0, lower.indexOf(span.toLowerCase())))) ?? mentions[0];
+  if (mention) {
+    params.location = { value: shortLocationLabel(mention.location), sourceText: [mention.span] };
+  }
+
+  const amenityPatterns: [RegExp, string][] = [
+    ...SEARCH_AMENITIES.map((amenity): [RegExp, string] => [new RegExp(`\\b${amenity.toLowerCase()}s?\\b`), amenity]),
+    ...AMENITY_SYNONYMS,
+  ];
+  const amenities = listField(text, findListMentions(lower, amenityPatterns), current.amenities);
+  if (amenities) params.amenities = amenities;
+
+  const style = STYLE_WORDS.find(word => new RegExp(`\\b${word}\\b`).test(lower));
+  if (style) {
+    params.style = { value: toTitleCase(style), sourceText: [sourceSpan(text, style)] };
+  }
+
+  const tags = listField(text, findListMentions(lower, TAG_PHRASES), current.tags);
+  if (tags) params.tags = tags;
+
+  // "Any price", "forget the location": only when the same query didn't give a new value
+  UNSET_PHRASES.forEach(([pattern, fields]) => {
+    const found = pattern.exec(lower);
+    if (!found || fields.some(field => params[field])) return;
+    fields.forEach(field => {
+      params[field] = { op: 'unset', sourceText: [spanAt(text, found)] };
+    });
+  });
+
+  return params;
+}
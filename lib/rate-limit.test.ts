@@ -0,0 +1,37 @@
+import { describe, expect, test } from 'bun:test';
+import { RateLimiter, clientAddress } from './rate-limit';
+
+describe('RateLimiter', () => {
+  test('allows up to the limit within a window', () => {
+    const limiter = new RateLimiter({ limit: 2, windowMs: 1000 });
+    expect(limiter.take('a', 0)).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 });
+    expect(limiter.take('a', 100).allowed).toBe(true);
+    expect(limiter.take('a', 400)).toEqual({ allowed: false, remaining: 0, retryAfterMs: 600 });
+  });
+
+  test('counts each key separately', () => {
+    const limiter = new RateLimiter({ limit: 1, windowMs: 1000 });
+    expect(limiter.take('a', 0).allowed).toBe(true);
+    expect(limiter.take('b', 0).allowed).toBe(true);
+    expect(limiter.take('a', 0).allowed).toBe(false);
+  });
+
+  test('starts a new window once the old one ends', () => {
+    const limiter = new RateLimiter({ limit: 1, windowMs: 1000 });
+    limiter.take('a', 0);
+    expect(limiter.take('a', 999).allowed).toBe(false);
+    expect(limiter.take('a', 1000).allowed).toBe(true);
+  });
+});
+
+describe('clientAddress', () => {
+  test('takes the address the proxy appended, not one the client sent', () => {
+    expect(clientAddress(new Headers({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7' }))).toBe('203.0.113.7');
+    expect(clientAddress(new Headers({ 'x-forwarded-for': '203.0.113.7 ,' }))).toBe('203.0.113.7');
+  });
+
+  test('falls back to x-real-ip, then to a shared key', () => {
+    expect(clientAddress(new Headers({ 'x-real-ip': '198.51.100.2' }))).toBe('198.51.100.2');
+    expect(clientAddress(new Headers())).toBe('unknown');
+  });
+});
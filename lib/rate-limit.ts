@@ -0,0 +1,69 @@
+/**
+ * Rate limiting
+ * Fixed-window request counting per key (a session id, an IP address). This
+ * is best-effort: counts live in memory, so each server instance (or edge
+ * isolate) limits on its own and a restart forgets them. A shared store is
+ * needed for an exact limit across instances.
+ */
+
+export interface RateLimitOptions {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Until the window resets; 0 when allowed
+  retryAfterMs: number;
+}
+
+interface RateLimitWindow {
+  startedAt: number;
+  count: number;
+}
+
+export class RateLimiter {
+  private readonly windows = new Map<string, RateLimitWindow>();
+
+  constructor(private readonly options: RateLimitOptions) {}
+
+  /**
+   * Counts one request against the key, unless its window is already full
+   */
+  take(key: string, now = Date.now()): RateLimitResult {
+    this.prune(now);
+
+    let window = this.windows.get(key);
+    if (!window) {
+      window = { startedAt: now, count: 0 };
+      this.windows.set(key, window);
+    }
+
+    if (window.count >= this.options.limit) {
+      return { allowed: false, remaining: 0, retryAfterMs: window.startedAt + this.options.windowMs - now };
+    }
+
+    window.count++;
+    return { allowed: true, remaining: this.options.limit - window.count, retryAfterMs: 0 };
+  }
+
+  // Drops finished windows so keys seen once don't accumulate
+  private prune(now: number): void {
+    for (const [key, window] of this.windows) {
+      if (now - window.startedAt >= this.options.windowMs) this.windows.delete(key);
+    }
+  }
+}
+
+/**
+ * The address of the client as seen by the proxy in front of the app. Each
+ * proxy appends the address it received the request from to x-forwarded-for,
+ * so the rightmost entry is the one a client can't choose; anything to its
+ * left may be whatever the client sent. Falls back to x-real-ip, which
+ * hosting platforms set themselves.
+ */
+export function clientAddress(headers: Headers): string {
+  const forwarded = headers.get('x-forwarded-for')?.split(',').map(entry => entry.trim()).filter(Boolean);
+  return forwarded?.at(-1) || headers.get('x-real-ip')?.trim() || 'unknown';
+}
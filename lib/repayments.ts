@@ -0,0 +1,83 @@
+/**
+ * Repayments
+ * Principal-and-interest estimates for a home loan, in AUD. Rates are annual
+ * percentages; stamp duty, fees and LMI premiums are left out.
+ */
+
+export type RepaymentFrequency = 'weekly' | 'fortnightly' | 'monthly';
+
+export interface RepaymentInput {
+  price: number;
+  // Dollars; takes precedence over depositPercent
+  deposit?: number;
+  depositPercent?: number;
+  interestRate?: number;
+  termYears?: number;
+  frequency?: RepaymentFrequency;
+}
+
+export interface RepaymentEstimate {
+  price: number;
+  deposit: number;
+  loanAmount: number;
+  interestRate: number;
+  termYears: number;
+  frequency: RepaymentFrequency;
+  // Per period at the chosen frequency
+  repayment: number;
+  totalRepaid: number;
+  totalInterest: number;
+  // Loan to value ratio, as a percentage
+  lvr: number;
+  // Lenders usually charge mortgage insurance above 80% LVR
+  lmiLikely: boolean;
+}
+
+export const DEFAULT_REPAYMENT_ASSUMPTIONS = {
+  depositPercent: 20,
+  interestRate: 6.2,
+  termYears: 30,
+  frequency: 'monthly' as RepaymentFrequency,
+};
+
+const PERIODS_PER_YEAR: Record<RepaymentFrequency, number> = {
+  weekly: 52,
+  fortnightly: 26,
+  monthly: 12,
+};
+
+/**
+ * @throws Error when the price, deposit, rate or term can't describe a loan
+ */
+export function estimateRepayments(input: RepaymentInput): RepaymentEstimate {
+  const { price } = input;
+  const interestRate = input.interestRate ?? DEFAULT_REPAYMENT_ASSUMPTIONS.interestRate;
+  const termYears = input.termYears ?? DEFAULT_REPAYMENT_ASSUMPTIONS.termYears;
+  const frequency = input.frequency ?? DEFAULT_REPAYMENT_ASSUMPTIONS.frequency;
+  const deposit = input.deposit ?? price * (input.depositPercent ?? DEFAULT_REPAYMENT_ASSUMPTIONS.depositPercent) / 100;
+
+  if (!(price > 0)) throw new Error('Price must be greater than zero');
+  if (!(deposit >= 0) || deposit >= price) throw new Error('Deposit must be less than the price');
+  if (!(interestRate >= 0) || interestRate > 30) throw new Error('Interest rate must be between 0% and 30%');
+  if (!(termYears >= 1) || termYears > 40) throw new Error('Loan term must be between 1 and 40 years');
+
+  const loanAmount = price - deposit;
+  const periods = Math.round(termYears * PERIODS_PER_YEAR[frequency]);
+  const rate = interestRate / 100 / PERIODS_PER_YEAR[frequency];
+  const repayment = rate === 0 ? loanAmount / periods : loanAmount * rate / (1 - (1 + rate) ** -periods);
+  const lvr = loanAmount / price * 100;
+
+  return {
+    price,
+    deposit: Math.round(deposit),
+    loanAmount: Math.round(loanAmount),
+    interestRate,
+    termYears,
+    frequency,
+    repayment: Math.round(repayment),
+    totalRepaid: Math.round(repayment * periods),
+    totalInterest: Math.round(repayment * periods - loanAmount),
+    lvr: Math.round(lvr * 10) / 10,
+    lmiLikely: lvr > 80,
+  };
+}
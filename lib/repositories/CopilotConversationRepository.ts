@@ -0,0 +1,16 @@
+/**
+ * Copilot Conversation Repository
+ * Storage abstraction for each user's copilot conversation and learned
+ * preferences, keyed by copilotConversationKey()
+ */
+
+import type { CopilotConversation } from '@/lib/copilot-memory';
+
+export interface CopilotConversationRepository {
+  /** Null when the user has not talked to the copilot yet */
+  get(key: string): Promise<CopilotConversation | null>;
+  save(key: string, conversation: CopilotConversation): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export default CopilotConversationRepository;
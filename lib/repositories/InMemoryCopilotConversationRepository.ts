@@ -0,0 +1,34 @@
+/**
+ * In-Memory Copilot Conversation Repository
+ * Keeps conversations for the life of the server process; the default when no
+ * file is configured
+ */
+
+import type { CopilotConversation } from '@/lib/copilot-memory';
+import type { CopilotConversationRepository } from './CopilotConversationRepository';
+
+export class InMemoryCopilotConversationRepository implements CopilotConversationRepository {
+  private conversations: Map<string, CopilotConversation>;
+
+  constructor(entries: [string, CopilotConversation][] = []) {
+    this.conversations = new Map(entries);
+  }
+
+  async get(key: string): Promise<CopilotConversation | null> {
+    return this.conversations.get(key) ?? null;
+  }
+
+  async save(key: string, conversation: CopilotConversation): Promise<void> {
+    this.conversations.set(key, conversation);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.conversations.delete(key);
+  }
+
+  entries(): [string, CopilotConversation][] {
+    return [...this.conversations.entries()];
+  }
+}
+
+export default InMemoryCopilotConversationRepository;
@@ -0,0 +1,31 @@
+/**
+ * In-Memory Listing Repository
+ * Holds listings in an array; used for the generated demo corpus and in tests
+ */
+
+import type { Listing } from '@/lib/types';
+import type { ListingRepository } from './ListingRepository';
+
+export class InMemoryListingRepository implements ListingRepository {
+  private listings: Listing[];
+  private listingsById: Map<string, Listing>;
+
+  constructor(listings: Listing[] = []) {
+    this.listings = [...listings];
+    this.listingsById = new Map(this.listings.map(listing => [listing.id, listing]));
+  }
+
+  async getAll(): Promise<Listing[]> {
+    return this.listings;
+  }
+
+  async getById(id: string): Promise<Listing | null> {
+    return this.listingsById.get(id) ?? null;
+  }
+
+  async count(): Promise<number> {
+    return this.listings.length;
+  }
+}
+
+export default InMemoryListingRepository;
@@ -0,0 +1,80 @@
+/**
+ * JSON File Copilot Conversation Repository
+ * Persists conversations to a local JSON file by their store key (server-side
+ * only). The file is read once and rewritten after every change; writes are
+ * queued so concurrent saves cannot interleave.
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { isCopilotUserId, parseStoredCopilotConversation, type CopilotConversation } from '@/lib/copilot-memory';
+import type { CopilotConversationRepository } from './CopilotConversationRepository';
+import { InMemoryCopilotConversationRepository } from './InMemoryCopilotConversationRepository';
+
+export class JsonFileCopilotConversationRepository implements CopilotConversationRepository {
+  private filePath: string;
+  private loading: Promise<InMemoryCopilotConversationRepository> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async get(key: string): Promise<CopilotConversation | null> {
+    return (await this.load()).get(key);
+  }
+
+  async save(key: string, conversation: CopilotConversation): Promise<void> {
+    const store = await this.load();
+    await store.save(key, conversation);
+    await this.write(store);
+  }
+
+  async delete(key: string): Promise<void> {
+    const store = await this.load();
+    await store.delete(key);
+    await this.write(store);
+  }
+
+  private load(): Promise<InMemoryCopilotConversationRepository> {
+    if (!this.loading) {
+      this.loading = this.readConversations().catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readConversations(): Promise<InMemoryCopilotConversationRepository> {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      // A missing file is an empty store; it is created on the first save
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return new InMemoryCopilotConversationRepository();
+      throw error;
+    }
+
+    const records = typeof raw === 'object' && raw !== null ? Object.entries(raw as Record<string, unknown>) : [];
+    return new InMemoryCopilotConversationRepository(
+      records.flatMap(([key, record]): [string, CopilotConversation][] => {
+        const userId = (record as Partial<CopilotConversation> | null)?.userId;
+        return isCopilotUserId(userId) ? [[key, parseStoredCopilotConversation(record, userId)]] : [];
+      })
+    );
+  }
+
+  private write(store: InMemoryCopilotConversationRepository): Promise<void> {
+    const contents = JSON.stringify(Object.fromEntries(store.entries()), null, 2);
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        await mkdir(dirname(this.filePath), { recursive: true });
+        await writeFile(this.filePath, contents, 'utf8');
+      });
+    return this.writing;
+  }
+}
+
+export default JsonFileCopilotConversationRepository;
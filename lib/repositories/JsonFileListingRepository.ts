@@ -0,0 +1,73 @@
+/**
+ * JSON File Listing Repository
+ * Loads a local listing dump (server-side only). The file may hold an array of
+ * records or an object with a `listings` array, in any shape toListing() accepts.
+ */
+
+import { readFile } from 'fs/promises';
+import type { Listing } from '@/lib/types';
+import { toListing } from '@/lib/listing-adapters';
+import type { ListingRepository } from './ListingRepository';
+import { InMemoryListingRepository } from './InMemoryListingRepository';
+
+export class JsonFileListingRepository implements ListingRepository {
+  private filePath: string;
+  private loading: Promise<InMemoryListingRepository> | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async getAll(): Promise<Listing[]> {
+    return (await this.load()).getAll();
+  }
+
+  async getById(id: string): Promise<Listing | null> {
+    return (await this.load()).getById(id);
+  }
+
+  async count(): Promise<number> {
+    return (await this.load()).count();
+  }
+
+  /**
+   * Drops the cached contents so the next read picks up changes to the file
+   */
+  reload(): void {
+    this.loading = null;
+  }
+
+  private load(): Promise<InMemoryListingRepository> {
+    if (!this.loading) {
+      this.loading = this.readListings().catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readListings(): Promise<InMemoryListingRepository> {
+    const raw = JSON.parse(await readFile(this.filePath, 'utf8'));
+    const records: unknown[] = Array.isArray(raw) ? raw : Array.isArray(raw?.listings) ? raw.listings : [];
+
+    const listings: Listing[] = [];
+    let skipped = 0;
+    for (const record of records) {
+      const listing = toListing(record);
+      if (listing) {
+        listings.push(listing);
+      } else {
+        skipped++;
+      }
+    }
+
+    if (skipped > 0) {
+      console.warn(`Skipped ${skipped} unrecognised records in ${this.filePath}`);
+    }
+
+    return new InMemoryListingRepository(listings);
+  }
+}
+
+export default JsonFileListingRepository;
@@ -0,0 +1,157 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DatabaseSync } from 'node:sqlite';
+import { generateMockListings } from '@/lib/mock-listing-generator';
+import { mockPropertyRecords } from '@/lib/mock-data';
+import type { Listing } from '@/lib/types';
+import { ListingRepositoryError, type ListingRepository } from './ListingRepository';
+import { InMemoryListingRepository } from './InMemoryListingRepository';
+import { JsonFileListingRepository } from './JsonFileListingRepository';
+import { SqliteListingRepository, assertNodeSqliteAvailable, supportsNodeSqlite } from './SqliteListingRepository';
+import { createListingRepository } from './createListingRepository';
+
+const listings = generateMockListings({ count: 12, seed: 'repository-contract' });
+
+let directory: string;
+
+beforeAll(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'listing-repository-'));
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+/**
+ * What every ListingRepository must do, given one created over `listings`
+ */
+function describeListingRepository(name: string, create: (listings: Listing[]) => Promise<ListingRepository>) {
+  describe(`${name} contract`, () => {
+    test('returns every listing in insertion order', async () => {
+      const repository = await create(listings);
+      const all = await repository.getAll();
+      expect(all.map(listing => listing.id)).toEqual(listings.map(listing => listing.id));
+    });
+
+    test('round-trips listings unchanged', async () => {
+      const repository = await create(listings);
+      expect(await repository.getById(listings[3].id)).toEqual(listings[3]);
+    });
+
+    test('returns null for an unknown id', async () => {
+      const repository = await create(listings);
+      expect(await repository.getById('no-such-listing')).toBeNull();
+    });
+
+    test('counts the listings', async () => {
+      const repository = await create(listings);
+      expect(await repository.count()).toBe(listings.length);
+    });
+
+    test('handles an empty store', async () => {
+      const repository = await create([]);
+      expect(await repository.getAll()).toEqual([]);
+      expect(await repository.count()).toBe(0);
+      expect(await repository.getById(listings[0].id)).toBeNull();
+    });
+  });
+}
+
+let files = 0;
+async function writeJson(contents: unknown): Promise<string> {
+  const path = join(directory, `listings-${files++}.json`);
+  await writeFile(path, JSON.stringify(contents));
+  return path;
+}
+
+describeListingRepository('InMemoryListingRepository', async items => new InMemoryListingRepository(items));
+
+describeListingRepository('JsonFileListingRepository', async items => new JsonFileListingRepository(await writeJson(items)));
+
+describeListingRepository('SqliteListingRepository (database handle)', async items => {
+  const repository = new SqliteListingRepository(new DatabaseSync(':memory:'));
+  await repository.upsert(items);
+  return repository;
+});
+
+describeListingRepository('SqliteListingRepository (file path)', async items => {
+  const repository = new SqliteListingRepository(join(directory, `listings-${files++}.sqlite`));
+  await repository.upsert(items);
+  return repository;
+});
+
+describe('JsonFileListingRepository', () => {
+  test('reads a { listings } wrapper and legacy record shapes', async () => {
+    const repository = new JsonFileListingRepository(await writeJson({ listings: mockPropertyRecords.slice(0, 2) }));
+    const all = await repository.getAll();
+    expect(all.map(listing => listing.id)).toEqual(['prop-aus-1', 'prop-aus-2']);
+    expect(all[0].buildingSize).toBe(180);
+  });
+
+  test('skips records it does not recognise', async () => {
+    const repository = new JsonFileListingRepository(await writeJson([listings[0], { nonsense: true }]));
+    expect(await repository.count()).toBe(1);
+  });
+
+  test('rejects a missing file and retries on the next read', async () => {
+    const path = join(directory, 'missing.json');
+    const repository = new JsonFileListingRepository(path);
+    await expect(repository.getAll()).rejects.toThrow();
+
+    await writeFile(path, JSON.stringify([listings[0]]));
+    expect(await repository.count()).toBe(1);
+  });
+
+  test('reload() picks up changes to the file', async () => {
+    const path = await writeJson([listings[0]]);
+    const repository = new JsonFileListingRepository(path);
+    expect(await repository.count()).toBe(1);
+
+    await writeFile(path, JSON.stringify(listings.slice(0, 3)));
+    expect(await repository.count()).toBe(1);
+    repository.reload();
+    expect(await repository.count()).toBe(3);
+  });
+});
+
+describe('SqliteListingRepository', () => {
+  test('upsert replaces listings with the same id', async () => {
+    const repository = new SqliteListingRepository(new DatabaseSync(':memory:'));
+    await repository.upsert(listings.slice(0, 2));
+    await repository.upsert([{ ...listings[0], price: 1 }]);
+
+    expect(await repository.count()).toBe(2);
+    expect((await repository.getById(listings[0].id))?.price).toBe(1);
+  });
+});
+
+describe('createListingRepository', () => {
+  test('returns undefined without configuration', () => {
+    expect(createListingRepository({})).toBeUndefined();
+  });
+
+  test('prefers SQLite over a JSON file', () => {
+    const env = { LISTINGS_SQLITE_PATH: join(directory, 'env.sqlite'), LISTINGS_JSON_PATH: join(directory, 'env.json') };
+    expect(createListingRepository(env)).toBeInstanceOf(SqliteListingRepository);
+    expect(createListingRepository({ LISTINGS_JSON_PATH: env.LISTINGS_JSON_PATH })).toBeInstanceOf(JsonFileListingRepository);
+  });
+
+  test('fails with a configuration error when node:sqlite is unavailable', () => {
+    const getBuiltinModule = spyOn(process, 'getBuiltinModule').mockImplementation((() => undefined) as never);
+    try {
+      expect(() => createListingRepository({ LISTINGS_SQLITE_PATH: 'listings.sqlite' })).toThrow(ListingRepositoryError);
+      expect(() => createListingRepository({ LISTINGS_SQLITE_PATH: 'listings.sqlite' })).toThrow(/--experimental-sqlite/);
+    } finally {
+      getBuiltinModule.mockRestore();
+    }
+  });
+
+  test('names the Node version SQLite needs when the runtime is older', () => {
+    expect(() => assertNodeSqliteAvailable('20.19.5')).toThrow(/Node 22\.5\.0 or later; this server runs Node 20\.19\.5/);
+    expect(supportsNodeSqlite('22.4.9')).toBe(false);
+    expect(supportsNodeSqlite('22.5.0')).toBe(true);
+    expect(supportsNodeSqlite('23.0.0')).toBe(true);
+  });
+});
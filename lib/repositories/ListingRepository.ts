@@ -0,0 +1,25 @@
+/**
+ * Listing Repository
+ * Storage abstraction the property search service reads listings from
+ */
+
+import type { Listing } from '@/lib/types';
+
+export interface ListingRepository {
+  /** Every listing in the store, in a stable order */
+  getAll(): Promise<Listing[]>;
+  getById(id: string): Promise<Listing | null>;
+  count(): Promise<number>;
+}
+
+/**
+ * A repository that can't work with the current configuration or runtime
+ */
+export class ListingRepositoryError extends Error {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ListingRepositoryError';
+  }
+}
+
+export default ListingRepository;
@@ -0,0 +1,177 @@
+/**
+ * SQLite Listing Repository
+ * Reads listings from a local SQLite database (server-side only). Accepts any
+ * synchronous driver with a prepare/exec API (node:sqlite, better-sqlite3) or
+ * a file path, which is opened with the built-in node:sqlite module.
+ * The database is for persistence only: the property service filters in
+ * memory after getAll(), so the suburb, price and other columns are copies
+ * for inspecting the table by hand and carry no indexes.
+ */
+
+import type { Listing } from '@/lib/types';
+import { toListing } from '@/lib/listing-adapters';
+import { ListingRepositoryError, type ListingRepository } from './ListingRepository';
+
+export interface SqliteStatement {
+  all(...params: unknown[]): unknown[];
+  get(...params: unknown[]): unknown;
+  run(...params: unknown[]): unknown;
+}
+
+export interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+}
+
+export const NODE_SQLITE_MIN_VERSION = '22.5.0';
+
+type NodeSqlite = typeof import('node:sqlite');
+
+// Looked up at runtime rather than imported, so bundlers don't try to resolve it
+function nodeSqlite(): NodeSqlite | undefined {
+  return typeof process.getBuiltinModule === 'function'
+    ? process.getBuiltinModule('node:sqlite') as NodeSqlite | undefined
+    : undefined;
+}
+
+/**
+ * Whether a Node version is new enough to ship node:sqlite, e.g. "22.5.0"
+ */
+export function supportsNodeSqlite(version: string): boolean {
+  const [major, minor, patch] = version.split('.').map(part => parseInt(part, 10) || 0);
+  const [minMajor, minMinor, minPatch] = NODE_SQLITE_MIN_VERSION.split('.').map(Number);
+  if (major !== minMajor) return major > minMajor;
+  if (minor !== minMinor) return minor > minMinor;
+  return patch >= minPatch;
+}
+
+/**
+ * Whether this runtime has the built-in node:sqlite module that file paths are opened with
+ */
+export function isNodeSqliteAvailable(): boolean {
+  return nodeSqlite() !== undefined;
+}
+
+/**
+ * Only SQLite needs Node 22.5; the rest of the app runs on older versions
+ *
+ * @throws ListingRepositoryError on runtimes without node:sqlite
+ */
+export function assertNodeSqliteAvailable(version = process.versions.node): void {
+  if (!supportsNodeSqlite(version)) {
+    throw new ListingRepositoryError(
+      `LISTINGS_SQLITE_PATH needs the built-in node:sqlite module from Node ${NODE_SQLITE_MIN_VERSION} or later; ` +
+      `this server runs Node ${version}. Upgrade Node or use LISTINGS_JSON_PATH instead.`
+    );
+  }
+  if (!isNodeSqliteAvailable()) {
+    // Node 22.5 to 22.12 only load it with --experimental-sqlite
+    throw new ListingRepositoryError(
+      `LISTINGS_SQLITE_PATH needs the built-in node:sqlite module, which Node ${version} doesn't load. ` +
+      'Start Node with --experimental-sqlite, upgrade it, or use LISTINGS_JSON_PATH instead.'
+    );
+  }
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS listings (
+    id TEXT PRIMARY KEY,
+    suburb TEXT NOT NULL,
+    state TEXT,
+    postcode TEXT,
+    property_type TEXT NOT NULL,
+    price INTEGER NOT NULL,
+    bedrooms INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+`;
+
+export class SqliteListingRepository implements ListingRepository {
+  private source: SqliteDatabase | string;
+  private database: Promise<SqliteDatabase> | null = null;
+
+  constructor(source: SqliteDatabase | string) {
+    this.source = source;
+  }
+
+  async getAll(): Promise<Listing[]> {
+    const db = await this.open();
+    const rows = db.prepare('SELECT data FROM listings ORDER BY rowid').all() as { data: string }[];
+    return rows.map(row => this.parseRow(row)).filter((listing): listing is Listing => listing !== null);
+  }
+
+  async getById(id: string): Promise<Listing | null> {
+    const db = await this.open();
+    const row = db.prepare('SELECT data FROM listings WHERE id = ?').get(id) as { data: string } | undefined;
+    return row ? this.parseRow(row) : null;
+  }
+
+  async count(): Promise<number> {
+    const db = await this.open();
+    const row = db.prepare('SELECT COUNT(*) AS total FROM listings').get() as { total: number };
+    return Number(row.total);
+  }
+
+  /**
+   * Inserts or replaces listings, e.g. when importing a portal dump
+   */
+  async upsert(listings: Listing[]): Promise<void> {
+    const db = await this.open();
+    const statement = db.prepare(`
+      INSERT OR REPLACE INTO listings (id, suburb, state, postcode, property_type, price, bedrooms, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    db.exec('BEGIN');
+    try {
+      for (const listing of listings) {
+        statement.run(
+          listing.id,
+          listing.address.suburb,
+          listing.address.state ?? null,
+          listing.address.postcode ?? null,
+          listing.propertyType,
+          listing.price,
+          listing.bedrooms,
+          JSON.stringify(listing)
+        );
+      }
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private open(): Promise<SqliteDatabase> {
+    if (!this.database) {
+      this.database = this.connect();
+    }
+    return this.database;
+  }
+
+  private async connect(): Promise<SqliteDatabase> {
+    let db: SqliteDatabase;
+    if (typeof this.source === 'string') {
+      assertNodeSqliteAvailable();
+      const { DatabaseSync } = nodeSqlite()!;
+      db = new DatabaseSync(this.source);
+    } else {
+      db = this.source;
+    }
+
+    db.exec(SCHEMA);
+    return db;
+  }
+
+  private parseRow(row: { data: string }): Listing | null {
+    try {
+      return toListing(JSON.parse(row.data));
+    } catch (error) {
+      console.warn('Skipping unreadable listing row:', error);
+      return null;
+    }
+  }
+}
+
+export default SqliteListingRepository;
@@ -0,0 +1,21 @@
+/**
+ * Chooses where copilot conversations are kept (server-side only).
+ * COPILOT_CONVERSATIONS_PATH persists them to a JSON file; without it they
+ * live in memory until the server restarts.
+ */
+
+import type { CopilotConversationRepository } from './CopilotConversationRepository';
+import { InMemoryCopilotConversationRepository } from './InMemoryCopilotConversationRepository';
+import { JsonFileCopilotConversationRepository } from './JsonFileCopilotConversationRepository';
+
+export function createCopilotConversationRepository(
+  env: Record<string, string | undefined> = process.env
+): CopilotConversationRepository {
+  if (env.COPILOT_CONVERSATIONS_PATH) {
+    return new JsonFileCopilotConversationRepository(env.COPILOT_CONVERSATIONS_PATH);
+  }
+
+  return new InMemoryCopilotConversationRepository();
+}
+
+export default createCopilotConversationRepository;
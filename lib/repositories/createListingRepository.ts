@@ -0,0 +1,26 @@
+/**
+ * Chooses a listing repository from environment configuration (server-side only).
+ * LISTINGS_SQLITE_PATH takes precedence over LISTINGS_JSON_PATH; when neither is
+ * set, undefined is returned and the service falls back to its generated corpus.
+ * Selecting SQLite on a Node without node:sqlite throws a ListingRepositoryError
+ * here rather than when the database is first read.
+ */
+
+import type { ListingRepository } from './ListingRepository';
+import { JsonFileListingRepository } from './JsonFileListingRepository';
+import { SqliteListingRepository, assertNodeSqliteAvailable } from './SqliteListingRepository';
+
+export function createListingRepository(env: Record<string, string | undefined> = process.env): ListingRepository | undefined {
+  if (env.LISTINGS_SQLITE_PATH) {
+    assertNodeSqliteAvailable();
+    return new SqliteListingRepository(env.LISTINGS_SQLITE_PATH);
+  }
+
+  if (env.LISTINGS_JSON_PATH) {
+    return new JsonFileListingRepository(env.LISTINGS_JSON_PATH);
+  }
+
+  return undefined;
+}
+
+export default createListingRepository;
@@ -0,0 +1,34 @@
+/**
+ * Saved listings
+ * Ids of the listings the user has saved, kept in localStorage alongside the
+ * comparison list until accounts have a backend
+ */
+
+export const SAVED_LISTINGS_STORAGE_KEY = 'savedListingIds';
+
+export function getSavedListingIds(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SAVED_LISTINGS_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function isListingSaved(id: string): boolean {
+  return getSavedListingIds().includes(id);
+}
+
+/**
+ * @returns false when the listing was already saved
+ */
+export function saveListing(id: string): boolean {
+  const ids = getSavedListingIds();
+  if (ids.includes(id)) return false;
+  localStorage.setItem(SAVED_LISTINGS_STORAGE_KEY, JSON.stringify([...ids, id]));
+  return true;
+}
+
+export function unsaveListing(id: string): void {
+  localStorage.setItem(SAVED_LISTINGS_STORAGE_KEY, JSON.stringify(getSavedListingIds().filter(saved => saved !== id)));
+}
@@ -0,0 +1,71 @@
+/**
+ * Search refinement
+ * Applies the set/unset/add/remove changes read from a follow-up query to the
+ * current search
+ */
+
+import type { SearchParamOp, SearchParams } from './types';
+
+export interface SearchParamChange<K extends keyof SearchParams = keyof SearchParams> {
+  field: K;
+  op: SearchParamOp;
+  // Absent for `unset`
+  value?: SearchParams[K];
+}
+
+const LIST_PARAMS: (keyof SearchParams)[] = ['amenities', 'tags'];
+
+export function isListParam(field: keyof SearchParams): field is 'amenities' | 'tags' {
+  return LIST_PARAMS.includes(field);
+}
+
+/**
+ * The search with the changes applied in order. Cleared lists become empty
+ * and cleared values undefined, so the result can be spread over the old search.
+ */
+export function applySearchChanges(params: SearchParams, changes: SearchParamChange[]): SearchParams {
+  const next: Record<string, unknown> = { ...params };
+
+  changes.forEach(({ field, op, value }) => {
+    if (!isListParam(field)) {
+      next[field] = op === 'unset' || op === 'remove' ? undefined : value;
+      return;
+    }
+
+    const current = (next[field] as string[] | undefined) || [];
+    const items = (value as string[] | undefined) || [];
+    switch (op) {
+      case 'set':
+        next[field] = [...items];
+        break;
+      case 'unset':
+        next[field] = [];
+        break;
+      case 'add':
+        next[field] = [...current, ...items.filter(item => !current.includes(item))];
+        break;
+      case 'remove':
+        next[field] = current.filter(item => !items.includes(item));
+        break;
+    }
+  });
+
+  return next as SearchParams;
+}
+
+/**
+ * Fields whose value differs between two searches; lists compare by their items
+ */
+export function changedSearchParams(before: SearchParams, after: SearchParams): (keyof SearchParams)[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof SearchParams)[]);
+  return [...fields].filter(field => {
+    const a = before[field];
+    const b = after[field];
+    if (Array.isArray(a) || Array.isArray(b)) {
+      const left = (a as string[] | undefined) || [];
+      const right = (b as string[] | undefined) || [];
+      return left.length !== right.length || left.some(item => !right.includes(item));
+    }
+    return a !== b;
+  });
+}
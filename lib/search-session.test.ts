@@ -0,0 +1,106 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  EMPTY_SEARCH_SESSION,
+  applySessionCommand,
+  canRedoSession,
+  canUndoSession,
+  currentSessionParams,
+  parseSessionCommand,
+  parseStoredSearchSession,
+  recordSearchRevision,
+  type SearchSession,
+} from './search-session';
+
+const record = (session: SearchSession, params: Parameters<typeof recordSearchRevision>[1]) =>
+  recordSearchRevision(session, params, { source: 'manual' });
+
+function history(): SearchSession {
+  let session = record(EMPTY_SEARCH_SESSION, { location: 'Bondi, NSW' });
+  session = record(session, { location: 'Bondi, NSW', priceMax: 1200000 });
+  return record(session, { location: 'Bondi, NSW', priceMax: 1200000, amenities: ['Pool'] });
+}
+
+describe('recordSearchRevision', () => {
+  test('records what changed', () => {
+    const session = history();
+    expect(session.entries).toHaveLength(3);
+    expect(session.entries[1].changed).toEqual(['priceMax']);
+    expect(currentSessionParams(session).amenities).toEqual(['Pool']);
+  });
+
+  test('ignores params that match the current search', () => {
+    const session = history();
+    expect(record(session, currentSessionParams(session))).toBe(session);
+  });
+
+  test('drops the revisions ahead of the cursor', () => {
+    const undone = applySessionCommand(history(), { type: 'undo' });
+    const branched = record(undone, { location: 'Manly, NSW' });
+    expect(branched.entries).toHaveLength(3);
+    expect(canRedoSession(branched)).toBe(false);
+  });
+
+  test('keeps only the latest revisions', () => {
+    let session = EMPTY_SEARCH_SESSION;
+    for (let bedrooms = 1; bedrooms <= 5; bedrooms++) {
+      session = recordSearchRevision(session, { bedroomsMin: bedrooms }, { source: 'manual' }, 3);
+    }
+    expect(session.entries.map(entry => entry.params.bedroomsMin)).toEqual([3, 4, 5]);
+    expect(session.cursor).toBe(2);
+  });
+});
+
+describe('undo and redo', () => {
+  test('step through the revisions and back to the empty search', () => {
+    let session = history();
+    session = applySessionCommand(session, { type: 'undo' });
+    expect(currentSessionParams(session).amenities).toBeUndefined();
+    session = applySessionCommand(applySessionCommand(session, { type: 'undo' }), { type: 'undo' });
+    expect(currentSessionParams(session)).toEqual({});
+    expect(canUndoSession(session)).toBe(false);
+    expect(applySessionCommand(session, { type: 'undo' })).toBe(session);
+
+    session = applySessionCommand(session, { type: 'redo' });
+    expect(currentSessionParams(session)).toEqual({ location: 'Bondi, NSW' });
+  });
+
+  test('"before I added the budget" goes to the revision before the price changed', () => {
+    const session = applySessionCommand(history(), parseSessionCommand('go back to before I added the budget')!);
+    expect(currentSessionParams(session)).toEqual({ location: 'Bondi, NSW' });
+  });
+
+  test('"before I added the pool" targets that amenity', () => {
+    const session = applySessionCommand(history(), parseSessionCommand('before I added the pool')!);
+    expect(currentSessionParams(session).priceMax).toBe(1200000);
+    expect(currentSessionParams(session).amenities).toBeUndefined();
+  });
+});
+
+describe('parseSessionCommand', () => {
+  test.each([
+    ['Undo.', { type: 'undo' }],
+    ['scratch that', { type: 'undo' }],
+    ['redo', { type: 'redo' }],
+    ['before I added the pool', { type: 'before', fields: ['amenities'], item: 'Pool' }],
+    ['before I set the budget', { type: 'before', fields: ['priceMin', 'priceMax'] }],
+  ])('%p', (text, command) => {
+    expect(parseSessionCommand(text)).toEqual(command as never);
+  });
+
+  test('ignores ordinary queries', () => {
+    expect(parseSessionCommand('3 bedroom house in Bondi')).toBeUndefined();
+  });
+});
+
+describe('parseStoredSearchSession', () => {
+  test('round-trips a saved session', () => {
+    const session = history();
+    expect(parseStoredSearchSession(JSON.stringify(session))).toEqual(session);
+  });
+
+  test('falls back to an empty session for missing or incompatible values', () => {
+    expect(parseStoredSearchSession(null)).toBe(EMPTY_SEARCH_SESSION);
+    expect(parseStoredSearchSession('{not json')).toBe(EMPTY_SEARCH_SESSION);
+    expect(parseStoredSearchSession('{"entries":[{"id":1}],"cursor":0}')).toBe(EMPTY_SEARCH_SESSION);
+  });
+});
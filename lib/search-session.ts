@@ -0,0 +1,195 @@
+/**
+ * Search session
+ * History of one search across the voice modes: every revision of the params
+ * with the words and mode that produced it. Undo and redo move a cursor through
+ * the history, and recording after an undo drops the revisions ahead of it.
+ */
+
+import type { SearchParams } from './types';
+import { parseSearchQuery } from './query-parser';
+import { changedSearchParams, isListParam } from './search-refinement';
+
+export type SearchSessionSource = 'classic' | 'instant' | 'enhanced' | 'realtime' | 'copilot' | 'manual';
+
+export interface SearchSessionEntry {
+  id: string;
+  params: SearchParams;
+  // The words that produced this revision, when it came from speech
+  transcript?: string;
+  source: SearchSessionSource;
+  // Fields that differ from the revision before
+  changed: (keyof SearchParams)[];
+  createdAt: number;
+}
+
+export interface SearchSession {
+  entries: SearchSessionEntry[];
+  // Index of the current revision; -1 is the empty search before the first
+  cursor: number;
+}
+
+export type SearchSessionCommand =
+  | { type: 'undo' }
+  | { type: 'redo' }
+  // "Go back to the search before I added the budget"
+  | { type: 'before'; fields: (keyof SearchParams)[]; item?: string };
+
+export const EMPTY_SEARCH_SESSION: SearchSession = { entries: [], cursor: -1 };
+export const MAX_SEARCH_SESSION_ENTRIES = 50;
+export const SEARCH_SESSION_STORAGE_KEY = 'searchSession';
+
+const SOURCES: SearchSessionSource[] = ['classic', 'instant', 'enhanced', 'realtime', 'copilot', 'manual'];
+
+const UNDO_COMMAND = /^(?:undo(?: that| the last (?:change|one))?|go back|scratch that|never ?mind|take that back)$/;
+const REDO_COMMAND = /^(?:redo(?: that)?|put (?:it|that) back|go forward)$/;
+const BEFORE_COMMAND = /\bbefore (?:i|we) (?:added|set|changed|mentioned|said|asked for|put in|included|removed|dropped|took out)\s+(?:the |a |an |my |that )?(.+)$/;
+
+// Words for fields the parser can't pick out of a bare phrase
+const FIELD_WORDS: [RegExp, (keyof SearchParams)[]][] = [
+  [/\b(?:budget|price|prices|price range|cost)\b/, ['priceMin', 'priceMax']],
+  [/\b(?:location|suburb|area|postcode|radius|distance)\b/, ['location', 'locationRadiusKm']],
+  [/\bbed(?:room)?s?\b/, ['bedroomsMin']],
+  [/\bbath(?:room)?s?\b/, ['bathroomsMin']],
+  [/\bsize\b|\bsquare met(?:er|re)s\b/, ['sizeMetersMin', 'sizeMetersMax']],
+  [/\b(?:property type|type of (?:place|property|home))\b/, ['propertyType']],
+  [/\b(?:sale|rent|rental|lease)\b/, ['listingType']],
+  [/\bstyle\b/, ['style']],
+  [/\bamenities\b/, ['amenities']],
+  [/\btags?\b/, ['tags']],
+];
+
+export function currentSessionParams(session: SearchSession): SearchParams {
+  return session.entries[session.cursor]?.params ?? {};
+}
+
+export function canUndoSession(session: SearchSession): boolean {
+  return session.cursor >= 0;
+}
+
+export function canRedoSession(session: SearchSession): boolean {
+  return session.cursor < session.entries.length - 1;
+}
+
+/**
+ * Adds a revision after the current one. Params that match the current
+ * search add nothing.
+ */
+export function recordSearchRevision(
+  session: SearchSession,
+  params: SearchParams,
+  details: { source: SearchSessionSource; transcript?: string },
+  limit = MAX_SEARCH_SESSION_ENTRIES
+): SearchSession {
+  const changed = changedSearchParams(currentSessionParams(session), params);
+  if (changed.length === 0) return session;
+
+  const createdAt = Date.now();
+  const entry: SearchSessionEntry = {
+    id: `${createdAt.toString(36)}-${session.cursor + 1}`,
+    params,
+    transcript: details.transcript?.trim() || undefined,
+    source: details.source,
+    changed,
+    createdAt,
+  };
+  const entries = [...session.entries.slice(0, session.cursor + 1), entry].slice(-limit);
+  return { entries, cursor: entries.length - 1 };
+}
+
+export function moveSessionCursor(session: SearchSession, cursor: number): SearchSession {
+  return { ...session, cursor: Math.max(-1, Math.min(session.entries.length - 1, cursor)) };
+}
+
+/**
+ * Index of the revision just before the target was last changed, searching
+ * back from the cursor; undefined when it never was
+ */
+export function findRevisionBefore(
+  session: SearchSession,
+  target: { fields: (keyof SearchParams)[]; item?: string }
+): number | undefined {
+  for (let i = session.cursor; i >= 0; i--) {
+    const entry = session.entries[i];
+    const before = session.entries[i - 1]?.params ?? {};
+    const touched = target.fields.some(field => {
+      if (!entry.changed.includes(field)) return false;
+      if (!target.item || !isListParam(field)) return true;
+      const had = ((before[field] || []) as string[]).includes(target.item);
+      return had !== ((entry.params[field] || []) as string[]).includes(target.item);
+    });
+    if (touched) return i - 1;
+  }
+  return undefined;
+}
+
+/**
+ * Reads history commands such as "undo", "redo" or "go back to the search
+ * before I added the pool"; undefined for anything else
+ */
+export function parseSessionCommand(text: string): SearchSessionCommand | undefined {
+  const spoken = text.trim().toLowerCase().replace(/[.!?]+$/, '');
+  if (UNDO_COMMAND.test(spoken)) return { type: 'undo' };
+  if (REDO_COMMAND.test(spoken)) return { type: 'redo' };
+
+  const before = BEFORE_COMMAND.exec(spoken);
+  if (!before) return undefined;
+  const phrase = before[1];
+
+  // A named amenity or tag is more specific than the field words around it
+  const parsed = parseSearchQuery(phrase);
+  for (const field of ['amenities', 'tags'] as const) {
+    const item = parsed[field]?.value?.[0];
+    if (item) return { type: 'before', fields: [field], item };
+  }
+  const named = FIELD_WORDS.find(([pattern]) => pattern.test(phrase));
+  if (named) return { type: 'before', fields: named[1] };
+
+  const fields = (Object.keys(parsed) as (keyof SearchParams)[]).filter(field => parsed[field]?.op !== 'unset');
+  return fields.length > 0 ? { type: 'before', fields } : undefined;
+}
+
+/**
+ * The session after a command; the same session when there is nothing to undo,
+ * redo or go back to
+ */
+export function applySessionCommand(session: SearchSession, command: SearchSessionCommand): SearchSession {
+  switch (command.type) {
+    case 'undo':
+      return canUndoSession(session) ? moveSessionCursor(session, session.cursor - 1) : session;
+    case 'redo':
+      return canRedoSession(session) ? moveSessionCursor(session, session.cursor + 1) : session;
+    case 'before': {
+      const index = findRevisionBefore(session, command);
+      return index === undefined ? session : moveSessionCursor(session, index);
+    }
+  }
+}
+
+function isSessionEntry(value: unknown): value is SearchSessionEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Partial<SearchSessionEntry>;
+  return typeof entry.id === 'string'
+    && typeof entry.params === 'object' && entry.params !== null
+    && SOURCES.includes(entry.source as SearchSessionSource)
+    && Array.isArray(entry.changed)
+    && typeof entry.createdAt === 'number';
+}
+
+/**
+ * Reads a session saved with JSON.stringify, falling back to an empty one
+ * when the stored value is missing or from an incompatible version
+ */
+export function parseStoredSearchSession(stored: string | null): SearchSession {
+  if (!stored) return EMPTY_SEARCH_SESSION;
+  try {
+    const parsed = JSON.parse(stored) as Partial<SearchSession>;
+    if (!Array.isArray(parsed.entries) || !parsed.entries.every(isSessionEntry) || typeof parsed.cursor !== 'number') {
+      return EMPTY_SEARCH_SESSION;
+    }
+    const dropped = Math.max(0, parsed.entries.length - MAX_SEARCH_SESSION_ENTRIES);
+    const session = { entries: parsed.entries.slice(dropped), cursor: parsed.cursor - dropped };
+    return moveSessionCursor(session, session.cursor);
+  } catch {
+    return EMPTY_SEARCH_SESSION;
+  }
+}
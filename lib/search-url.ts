@@ -0,0 +1,73 @@
+/**
+ * Search URL
+ * Search params as a /search query string, so anything that can navigate
+ * (links, the copilot) can open the search page with a search already applied
+ */
+
+import type { ListingTagType, ListingType, SearchParams } from './types';
+
+export const SEARCH_PATH = '/search';
+
+const LISTING_TYPES: ListingType[] = ['For Sale', 'For Rent', 'For Lease'];
+const LISTING_TAGS: ListingTagType[] = ['new', 'premium', 'open-house', 'auction'];
+
+const NUMBER_FIELDS = [
+  'locationRadiusKm',
+  'priceMin',
+  'priceMax',
+  'bedroomsMin',
+  'bathroomsMin',
+  'sizeMetersMin',
+  'sizeMetersMax',
+] as const;
+const TEXT_FIELDS = ['location', 'propertyType', 'style'] as const;
+
+/**
+ * The /search URL for these params. The style image is left out; it is
+ * usually a data URL and too long for a query string.
+ */
+export function searchUrl(params: SearchParams): string {
+  const query = new URLSearchParams();
+
+  TEXT_FIELDS.forEach(field => {
+    const value = params[field]?.trim();
+    if (value) query.set(field, value);
+  });
+  NUMBER_FIELDS.forEach(field => {
+    const value = params[field];
+    if (typeof value === 'number' && Number.isFinite(value)) query.set(field, String(value));
+  });
+  if (params.listingType) query.set('listingType', params.listingType);
+  if (params.amenities?.length) query.set('amenities', params.amenities.join(','));
+  if (params.tags?.length) query.set('tags', params.tags.join(','));
+
+  const search = query.toString();
+  return search ? `${SEARCH_PATH}?${search}` : SEARCH_PATH;
+}
+
+/**
+ * Reads params written by searchUrl, skipping values that don't parse
+ */
+export function parseSearchUrl(query: URLSearchParams): SearchParams {
+  const params: SearchParams = {};
+
+  TEXT_FIELDS.forEach(field => {
+    const value = query.get(field)?.trim();
+    if (value) params[field] = value;
+  });
+  NUMBER_FIELDS.forEach(field => {
+    const value = Number(query.get(field) ?? NaN);
+    if (Number.isFinite(value) && value >= 0) params[field] = value;
+  });
+
+  const listingType = query.get('listingType') as ListingType | null;
+  if (listingType && LISTING_TYPES.includes(listingType)) params.listingType = listingType;
+
+  const list = (field: string) => (query.get(field) || '').split(',').map(item => item.trim()).filter(Boolean);
+  const amenities = list('amenities');
+  if (amenities.length > 0) params.amenities = amenities;
+  const tags = list('tags').filter((tag): tag is ListingTagType => LISTING_TAGS.includes(tag as ListingTagType));
+  if (tags.length > 0) params.tags = tags;
+
+  return params;
+}
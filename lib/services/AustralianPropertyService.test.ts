@@ -0,0 +1,142 @@
+import { describe, expect, test } from 'bun:test';
+import { generateMockListings } from '@/lib/mock-listing-generator';
+import { InMemoryListingRepository } from '@/lib/repositories/InMemoryListingRepository';
+import {
+  AustralianPropertyService,
+  decodeSearchCursor,
+  encodeSearchCursor,
+  toAustralianSearchParams,
+} from './AustralianPropertyService';
+
+const listings = generateMockListings({ count: 60, seed: 'property-service' });
+const service = new AustralianPropertyService(new InMemoryListingRepository(listings));
+
+describe('cursors', () => {
+  test('round-trip an offset', () => {
+    expect(decodeSearchCursor(encodeSearchCursor(40))).toBe(40);
+  });
+
+  test('restart from the first page when malformed', () => {
+    expect(decodeSearchCursor(undefined)).toBe(0);
+    expect(decodeSearchCursor('not base64!')).toBe(0);
+    expect(decodeSearchCursor(btoa('page:2'))).toBe(0);
+  });
+});
+
+describe('searchProperties', () => {
+  test('pages through every result exactly once', async () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await service.searchProperties({ sortBy: 'price-asc' }, { limit: 25, cursor });
+      seen.push(...page.properties.map(listing => listing.id));
+      cursor = page.pagination.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toHaveLength(listings.length);
+    expect(new Set(seen).size).toBe(listings.length);
+  });
+
+  test('links back to the previous page', async () => {
+    const second = await service.searchProperties({}, { limit: 25, cursor: encodeSearchCursor(25) });
+    expect(second.pagination.previousCursor).toBe(encodeSearchCursor(0));
+    expect(second.pagination.nextCursor).toBe(encodeSearchCursor(50));
+  });
+
+  test('ranks by a free-text query without filtering or reporting it as a filter', async () => {
+    const result = await service.searchProperties({ naturalLanguageQuery: 'house with a pool near the beach' });
+    expect(result.totalCount).toBe(listings.length);
+    expect(result.searchParams.naturalLanguageQuery).toBeUndefined();
+    expect(result.rankedBy.naturalLanguageQuery).toBe('house with a pool near the beach');
+
+    const scores = result.properties.map(listing => listing.matchScore ?? 0);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+
+  test('ignores a query with nothing to rank by', async () => {
+    const result = await service.searchProperties({ naturalLanguageQuery: 'show me the' });
+    expect(result.ignoredParams).toContain('naturalLanguageQuery');
+    expect(result.rankedBy).toEqual({});
+  });
+});
+
+describe('listing type', () => {
+  const mixed = new AustralianPropertyService(new InMemoryListingRepository(
+    listings.map((listing, index) => index % 3 === 0 ? { ...listing, listingType: 'For Rent' as const } : listing)
+  ));
+
+  test('filters on the listing type and reports it as applied', async () => {
+    const result = await mixed.searchProperties(toAustralianSearchParams({ listingType: 'For Rent', bedroomsMin: 2 }));
+    expect(result.totalCount).toBeGreaterThan(0);
+    expect(result.properties.every(listing => listing.listingType === 'For Rent' && listing.bedrooms >= 2)).toBe(true);
+    expect(result.searchParams).toMatchObject({ listingType: 'For Rent', bedrooms: { min: 2 } });
+    expect(result.ignoredParams).toEqual([]);
+  });
+
+  test('reports an unknown listing type instead of dropping it silently', async () => {
+    const result = await mixed.searchProperties({ listingType: 'For Swap' as never });
+    expect(result.totalCount).toBe(listings.length);
+    expect(result.ignoredParams).toEqual(['listingType']);
+  });
+
+  test('reports a style image as ignored, since images are not matched', async () => {
+    const result = await mixed.searchProperties(toAustralianSearchParams({ styleImage: 'data:image/png;base64,AAAA' }));
+    expect(result.ignoredParams).toEqual(['styleImage']);
+  });
+});
+
+describe('ambiguous locations', () => {
+  const [nsw, qld, elsewhere] = generateMockListings({ count: 3, seed: 'paddington' });
+  const paddingtons = new AustralianPropertyService(new InMemoryListingRepository([
+    { ...nsw, address: { ...nsw.address, suburb: 'Paddington', state: 'NSW', postcode: '2021' } },
+    { ...qld, address: { ...qld.address, suburb: 'Paddington', state: 'QLD', postcode: '4064' } },
+    { ...elsewhere, address: { ...elsewhere.address, suburb: 'Fitzroy', state: 'VIC', postcode: '3065' } },
+  ]));
+
+  test('search every place sharing the name', async () => {
+    const result = await paddingtons.searchProperties({ location: 'Paddington' });
+    expect(result.properties.map(listing => listing.address.state).sort()).toEqual(['NSW', 'QLD']);
+    expect(result.searchParams.location).toBe('Paddington');
+    expect(result.locationMatches.map(match => [match.state, match.ambiguous])).toEqual([['NSW', true], ['QLD', true]]);
+  });
+
+  test('narrow to one place when the state is given', async () => {
+    const result = await paddingtons.searchProperties({ location: 'Paddington', state: 'QLD' });
+    expect(result.properties.map(listing => listing.address.state)).toEqual(['QLD']);
+    expect(result.searchParams.location).toBe('Paddington, QLD 4064');
+  });
+});
+
+describe('radius search', () => {
+  const places = [
+    ['Bondi', -33.8940, 151.2640],
+    ['Bondi Junction', -33.8930, 151.2500],
+    ['Surry Hills', -33.8861, 151.2111],
+    ['Manly', -33.7969, 151.2840],
+    ['Parramatta', -33.8150, 151.0010],
+  ] as const;
+  const stored = generateMockListings({ count: places.length, seed: 'radius' }).map((listing, index) => ({
+    ...listing,
+    address: { ...listing.address, suburb: places[index][0], state: 'NSW' as const },
+    coordinates: { lat: places[index][1], lng: places[index][2] },
+  }));
+  const nearby = new AustralianPropertyService(new InMemoryListingRepository(stored));
+
+  test('keeps listings within the radius, nearest first', async () => {
+    const result = await nearby.searchProperties({ location: 'Bondi', locationRadiusKm: 6 });
+    expect(result.properties.map(listing => listing.address.suburb)).toEqual(['Bondi', 'Bondi Junction', 'Surry Hills']);
+    expect(result.searchParams).toMatchObject({ locationRadiusKm: 6, sortBy: 'distance' });
+  });
+
+  test('puts distances on copies, leaving the stored listings alone', async () => {
+    const result = await nearby.searchProperties({ location: 'Bondi', locationRadiusKm: 30 });
+    expect(result.properties.map(listing => listing.distanceKm)).toEqual([0, 1.3, 5, 11, 25.8]);
+    expect(stored.every(listing => listing.distanceKm === undefined)).toBe(true);
+  });
+
+  test('ignores a radius around a place it cannot locate', async () => {
+    const result = await nearby.searchProperties({ location: 'Atlantis', locationRadiusKm: 10 });
+    expect(result.ignoredParams).toContain('locationRadiusKm');
+    expect(result.searchParams.locationRadiusKm).toBeUndefined();
+  });
+});
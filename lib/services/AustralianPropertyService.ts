@@ -3,38 +3,116 @@
  * Provides property search functionality with Australian-specific features
  */
 
+import type {
+  AustralianState,
+  Listing,
+  ListingPropertyType,
+  ListingSortOrder,
+  ListingTagType,
+  ListingType,
+  SearchParams,
+} from '@/lib/types';
+import { isAustralianState, matchPropertyType } from '@/lib/listing-adapters';
+import {
+  extractQueryTerms,
+  isListingSortOrder,
+  scoreListings,
+  sortListings,
+} from '@/lib/listing-scoring';
+import { distanceKm, roundDistanceKm } from '@/lib/geo';
+import { normalizeName } from '@/lib/suburb-gazetteer';
+import { generateMockListings } from '@/lib/mock-listing-generator';
+import {
+  resolveLocation,
+  type ResolvedLocation,
+  type ResolvedLocationType,
+} from '@/lib/location-resolver';
+import { buildFacets, type FacetListingSets, type PropertySearchFacets } from '@/lib/listing-facets';
+import type { ListingRepository } from '@/lib/repositories/ListingRepository';
+import { InMemoryListingRepository } from '@/lib/repositories/InMemoryListingRepository';
+
+/**
+ * Inclusive numeric bounds; either side may be omitted
+ */
+export interface NumericRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Numeric filters accept a bare number as a minimum ("3 bathrooms" means 3 or
+ * more, "built 2010" means 2010 or newer) or a range for explicit bounds
+ */
+export type NumericFilter = number | NumericRange;
+
 export interface AustralianPropertySearchParams {
   location?: string;
-  propertyType?: 'house' | 'apartment' | 'unit' | 'townhouse' | 'villa' | 'terrace' | 'penthouse' | 'studio';
+  // Radius around the resolved centre of `location`; requires a gazetteer match
+  locationRadiusKm?: number;
+  propertyType?: ListingPropertyType;
+  listingType?: ListingType;
   priceMin?: number;
   priceMax?: number;
-  bedrooms?: number;
-  bathrooms?: number;
-  parkingSpaces?: number;
+  bedrooms?: NumericFilter;
+  bathrooms?: NumericFilter;
+  parkingSpaces?: NumericFilter;
   amenities?: string[];
-  landSize?: number;
-  buildingSize?: number;
-  yearBuilt?: number;
-  state?: 'NSW' | 'VIC' | 'QLD' | 'WA' | 'SA' | 'TAS' | 'ACT' | 'NT';
+  // Square metres
+  landSize?: NumericFilter;
+  buildingSize?: NumericFilter;
+  yearBuilt?: NumericFilter;
+  state?: AustralianState;
   postcode?: string;
+  // Soft preferences: affect the match score but never exclude a listing.
+  // Listings mentioning more of the query's words rank higher.
   naturalLanguageQuery?: string;
+  style?: string;
+  // Matching a style from an example image isn't supported, so it is always reported as ignored
+  styleImage?: string;
+  tags?: ListingTagType[];
+  sortBy?: ListingSortOrder;
+}
+
+export interface PropertySearchPage {
+  // Opaque cursor from a previous result's pagination; omit for the first page
+  cursor?: string;
+  limit?: number;
+}
+
+export interface PropertySearchPagination {
+  limit: number;
+  cursor: string | null;
+  nextCursor: string | null;
+  previousCursor: string | null;
 }
 
 export interface PropertySearchResult {
-  properties: Property[];
+  properties: Listing[];
   totalCount: number;
+  // Only the filters that were actually applied, in normalised form
   searchParams: AustralianPropertySearchParams;
+  // Soft preferences that scored and ordered the results without excluding any
+  rankedBy: Pick<AustralianPropertySearchParams, 'naturalLanguageQuery' | 'style'>;
+  // Requested filters that were dropped because their values were unusable or they aren't supported
+  ignoredParams: (keyof AustralianPropertySearchParams)[];
+  facets: PropertySearchFacets;
   searchTime: number;
   suggestions: string[];
   locationMatches: LocationMatch[];
   priceAnalysis: PriceAnalysis;
+  pagination: PropertySearchPagination;
 }
 
 export interface LocationMatch {
   name: string;
-  type: 'suburb' | 'city' | 'state';
+  label: string;
+  type: ResolvedLocationType;
   state: string;
+  postcode?: string;
+  lga?: string;
   confidence: number;
+  // Another match is equally plausible, so the caller may want to ask which was meant
+  ambiguous: boolean;
   averagePrice?: number;
 }
 
@@ -59,78 +137,390 @@ const AUSTRALIAN_LOCATIONS: Record<string, { state: string; avgPrice: number }>
   'Adelaide': { state: 'SA', avgPrice: 480000 },
 };
 
+// Below this a single reading is too doubtful to search by; the text is matched as typed instead
+const MIN_PLACE_CONFIDENCE = 0.6;
+
+const LISTING_TYPES: ListingType[] = ['For Sale', 'For Rent', 'For Lease'];
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 50;
+
+export function encodeSearchCursor(offset: number): string {
+  return btoa(`offset:${offset}`);
+}
+
+/**
+ * Returns the offset a cursor points at; malformed cursors restart from the first page
+ */
+export function decodeSearchCursor(cursor: string | undefined): number {
+  if (!cursor) return 0;
+  try {
+    const match = atob(cursor).match(/^offset:(\d+)$/);
+    return match ? Number(match[1]) : 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Converts the UI's SearchParams (min/max naming, free-text property type) into
+ * service search params. Params already in the service shape pass through.
+ */
+export function toAustralianSearchParams(params: SearchParams | AustralianPropertySearchParams): AustralianPropertySearchParams {
+  const {
+    location, propertyType, bedroomsMin, bathroomsMin,
+    sizeMetersMin, sizeMetersMax, state, ...rest
+  } = params as SearchParams & AustralianPropertySearchParams;
+
+  const result: AustralianPropertySearchParams = { ...rest };
+
+  if (location) result.location = location;
+  if (propertyType) result.propertyType = matchPropertyType(propertyType);
+  if (bedroomsMin !== undefined && result.bedrooms === undefined) result.bedrooms = bedroomsMin;
+  if (bathroomsMin !== undefined && result.bathrooms === undefined) result.bathrooms = bathroomsMin;
+  if ((sizeMetersMin !== undefined || sizeMetersMax !== undefined) && result.buildingSize === undefined) {
+    result.buildingSize = { min: sizeMetersMin, max: sizeMetersMax };
+  }
+  if (state && isAustralianState(state)) result.state = state.toUpperCase() as AustralianState;
+
+  return result;
+}
+
+const NUMERIC_FILTER_FIELDS = ['bedrooms', 'bathrooms', 'parkingSpaces', 'landSize', 'buildingSize', 'yearBuilt'] as const;
+
+type NumericFilterField = typeof NUMERIC_FILTER_FIELDS[number];
+
+const LISTING_NUMERIC_VALUES: Record<NumericFilterField, (listing: Listing) => number | undefined> = {
+  bedrooms: listing => listing.bedrooms,
+  bathrooms: listing => listing.bathrooms,
+  parkingSpaces: listing => listing.parking,
+  landSize: listing => listing.landSize,
+  buildingSize: listing => listing.buildingSize,
+  yearBuilt: listing => listing.yearBuilt,
+};
+
+interface ListingFilter {
+  param: keyof AustralianPropertySearchParams;
+  test: (listing: Listing) => boolean;
+}
+
+// Filters each facet ignores when counting, so sibling options aren't reported as dead ends
+const FACET_FILTER_PARAMS: Record<keyof PropertySearchFacets, (keyof AustralianPropertySearchParams)[]> = {
+  propertyType: ['propertyType'],
+  bedrooms: ['bedrooms'],
+  bathrooms: ['bathrooms'],
+  priceBands: ['priceMin', 'priceMax'],
+  amenities: ['amenities'],
+  state: ['state'],
+  suburb: ['location'],
+  tag: ['tags'],
+};
+
+function applyFilters(listings: Listing[], filters: ListingFilter[]): Listing[] {
+  return listings.filter(listing => filters.every(filter => filter.test(listing)));
+}
+
+function isUsableNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Normalises a numeric filter to a range, or null when it constrains nothing
+ * or is malformed (e.g. min above max)
+ */
+export function toNumericRange(filter: NumericFilter | undefined): NumericRange | null {
+  if (filter === undefined || filter === null) return null;
+  if (typeof filter === 'number') return isUsableNumber(filter) && filter > 0 ? { min: filter } : null;
+  if (typeof filter !== 'object') return null;
+
+  const range: NumericRange = {};
+  if (isUsableNumber(filter.min) && filter.min > 0) range.min = filter.min;
+  if (isUsableNumber(filter.max)) range.max = filter.max;
+
+  if (range.min === undefined && range.max === undefined) return null;
+  if (range.min !== undefined && range.max !== undefined && range.min > range.max) return null;
+  return range;
+}
+
+export function isInRange(value: number | undefined, range: NumericRange): boolean {
+  // A listing that doesn't state the value can't be shown to satisfy the filter
+  if (value === undefined) return false;
+  if (range.min !== undefined && value < range.min) return false;
+  if (range.max !== undefined && value > range.max) return false;
+  return true;
+}
+
 export class AustralianPropertyService {
-  private mockProperties: Property[] = [];
+  private repository: ListingRepository;
 
-  constructor() {
-    this.generateMockProperties();
+  /**
+   * @param repository Listing source to search; defaults to a generated demo corpus
+   */
+  constructor(repository?: ListingRepository) {
+    this.repository = repository ?? new InMemoryListingRepository(generateMockListings());
   }
 
-  async searchProperties(params: AustralianPropertySearchParams): Promise<PropertySearchResult> {
+  async searchProperties(params: AustralianPropertySearchParams, page: PropertySearchPage = {}): Promise<PropertySearchResult> {
     const startTime = Date.now();
-
-    let filteredProperties = this.mockProperties;
+    const limit = Math.min(Math.max(Math.floor(page.limit || DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+    const offset = decodeSearchCursor(page.cursor);
+
+    const applied: AustralianPropertySearchParams = {};
+    const rankedBy: PropertySearchResult['rankedBy'] = {};
+    const ignored: (keyof AustralianPropertySearchParams)[] = [];
+    const filters: ListingFilter[] = [];
+
+    const places = params.location ? this.resolveSearchPlaces(params.location, params.state) : [];
+    // Set only when the text named one place; a shared name like "Paddington" searches all of its readings
+    const place = places.length === 1 ? places[0] : undefined;
+    const origins = places.flatMap(candidate => candidate.centroid ? [candidate.centroid] : []);
+    const radius = params.locationRadiusKm;
+    const storedProperties = await this.repository.getAll();
+
+    // Distances are per search, so they go on copies rather than the stored listings
+    const allProperties = origins.length > 0
+      ? storedProperties.map(property => property.coordinates
+        ? { ...property, distanceKm: roundDistanceKm(Math.min(...origins.map(origin => distanceKm(origin, property.coordinates!)))) }
+        : property)
+      : storedProperties;
+
+    if (radius !== undefined && !(origins.length > 0 && isUsableNumber(radius) && radius > 0)) {
+      ignored.push('locationRadiusKm');
+    }
 
     if (params.location) {
-      filteredProperties = filteredProperties.filter(property =>
-        this.matchesLocation(property, params.location!)
-      );
+      // Report the place we understood rather than the raw text, e.g. "Surry Hills, NSW 2010" for "surrey hills"
+      applied.location = place
+        ? (place.type === 'postcode' ? place.name : place.label)
+        : places[0]?.name ?? params.location;
+    }
+
+    if (params.location && origins.length > 0 && isUsableNumber(radius) && radius > 0) {
+      applied.locationRadiusKm = radius;
+      filters.push({
+        param: 'location',
+        test: property => property.distanceKm !== undefined && property.distanceKm <= radius
+      });
+    } else if (params.location) {
+      filters.push({
+        param: 'location',
+        test: property => this.matchesLocation(property, params.location!, places)
+      });
     }
 
     if (params.propertyType) {
-      filteredProperties = filteredProperties.filter(property =>
-        property.propertyType.toLowerCase().includes(params.propertyType!.toLowerCase())
-      );
+      applied.propertyType = params.propertyType;
+      filters.push({
+        param: 'propertyType',
+        test: property => property.propertyType === params.propertyType
+      });
     }
 
-    if (params.priceMin) {
-      filteredProperties = filteredProperties.filter(property =>
-        property.price >= params.priceMin!
-      );
+    if (params.listingType) {
+      if (LISTING_TYPES.includes(params.listingType)) {
+        applied.listingType = params.listingType;
+        filters.push({
+          param: 'listingType',
+          test: property => property.listingType === params.listingType
+        });
+      } else {
+        ignored.push('listingType');
+      }
     }
 
-    if (params.priceMax) {
-      filteredProperties = filteredProperties.filter(property =>
-        property.price <= params.priceMax!
-      );
+    if (params.priceMin && params.priceMax && params.priceMin > params.priceMax) {
+      ignored.push('priceMin', 'priceMax');
+    } else {
+      if (params.priceMin) {
+        applied.priceMin = params.priceMin;
+        filters.push({
+          param: 'priceMin',
+          test: property => property.price >= params.priceMin!
+        });
+      }
+
+      if (params.priceMax) {
+        applied.priceMax = params.priceMax;
+        filters.push({
+          param: 'priceMax',
+          test: property => property.price <= params.priceMax!
+        });
+      }
+    }
+
+    NUMERIC_FILTER_FIELDS.forEach(field => {
+      if (params[field] === undefined) return;
+
+      const range = toNumericRange(params[field]);
+      if (!range) {
+        ignored.push(field);
+        return;
+      }
+
+      applied[field] = range;
+      filters.push({
+        param: field,
+        test: property => isInRange(LISTING_NUMERIC_VALUES[field](property), range)
+      });
+    });
+
+    if (params.state) {
+      if (isAustralianState(params.state)) {
+        const state = params.state.toUpperCase() as AustralianState;
+        applied.state = state;
+        filters.push({
+          param: 'state',
+          test: property => property.address.state === state
+        });
+      } else {
+        ignored.push('state');
+      }
     }
 
-    if (params.bedrooms) {
-      filteredProperties = filteredProperties.filter(property =>
-        property.bedrooms >= params.bedrooms!
-      );
+    if (params.postcode) {
+      const postcode = String(params.postcode).trim();
+      if (/^\d{3,4}$/.test(postcode)) {
+        applied.postcode = postcode.padStart(4, '0');
+        filters.push({
+          param: 'postcode',
+          test: property => property.address.postcode?.padStart(4, '0') === applied.postcode
+        });
+      } else {
+        ignored.push('postcode');
+      }
     }
 
     if (params.amenities && params.amenities.length > 0) {
-      filteredProperties = filteredProperties.filter(property =>
-        params.amenities!.some(amenity =>
-          property.features?.some(feature =>
+      applied.amenities = params.amenities;
+      filters.push({
+        param: 'amenities',
+        test: property => params.amenities!.some(amenity =>
+          property.amenities.some(feature =>
             feature.toLowerCase().includes(amenity.toLowerCase())
           )
         )
-      );
+      });
+    }
+
+    if (params.tags && params.tags.length > 0) {
+      applied.tags = params.tags;
+      filters.push({
+        param: 'tags',
+        test: property => property.tag !== undefined && params.tags!.includes(property.tag.type)
+      });
+    }
+
+    // Free text only ranks: structured filters come from parsing it before the search
+    if (params.naturalLanguageQuery) {
+      if (extractQueryTerms(params.naturalLanguageQuery).length > 0) {
+        rankedBy.naturalLanguageQuery = params.naturalLanguageQuery;
+      } else {
+        ignored.push('naturalLanguageQuery');
+      }
     }
 
+    if (params.style) {
+      rankedBy.style = params.style;
+    }
+
+    if (params.styleImage) {
+      ignored.push('styleImage');
+    }
+
+    if (params.sortBy && !isListingSortOrder(params.sortBy)) {
+      ignored.push('sortBy');
+    }
+    // Radius searches read best nearest-first unless the caller asked otherwise
+    applied.sortBy = isListingSortOrder(params.sortBy)
+      ? params.sortBy
+      : applied.locationRadiusKm ? 'distance' : 'relevance';
+
+    const filteredProperties = sortListings(
+      // A resolved place supplies the state even when only a suburb or region was named
+      scoreListings(applyFilters(allProperties, filters), { ...applied, ...rankedBy, state: applied.state || place?.state }),
+      applied.sortBy
+    );
+
     const searchTime = Date.now() - startTime;
+    const nextOffset = offset + limit;
 
     return {
-      properties: filteredProperties.slice(0, 20),
+      properties: filteredProperties.slice(offset, nextOffset),
       totalCount: filteredProperties.length,
-      searchParams: params,
+      searchParams: applied,
+      rankedBy,
+      ignoredParams: ignored,
+      facets: this.buildSearchFacets(allProperties, filters),
       searchTime,
-      suggestions: this.generateSuggestions(params, filteredProperties.length),
-      locationMatches: this.findLocationMatches(params.location || ''),
-      priceAnalysis: this.analyzePrices(filteredProperties, params)
+      suggestions: this.generateSuggestions(applied, filteredProperties.length),
+      locationMatches: this.findLocationMatches(params.location || '', params.state, storedProperties),
+      priceAnalysis: this.analyzePrices(filteredProperties, applied),
+      pagination: {
+        limit,
+        cursor: page.cursor || null,
+        nextCursor: nextOffset < filteredProperties.length ? encodeSearchCursor(nextOffset) : null,
+        previousCursor: offset > 0 ? encodeSearchCursor(Math.max(0, offset - limit)) : null
+      }
     };
   }
 
-  private matchesLocation(property: Property, location: string): boolean {
+  /**
+   * Counts each facet with every filter applied except the ones that facet controls
+   */
+  private buildSearchFacets(properties: Listing[], filters: ListingFilter[]): PropertySearchFacets {
+    const sets = {} as FacetListingSets;
+    (Object.keys(FACET_FILTER_PARAMS) as (keyof PropertySearchFacets)[]).forEach(facet => {
+      const excluded = FACET_FILTER_PARAMS[facet];
+      sets[facet] = applyFilters(properties, filters.filter(filter => !excluded.includes(filter.param)));
+    });
+
+    const amenityUniverse = [...new Set(properties.flatMap(property => property.amenities))];
+    return buildFacets(sets, amenityUniverse);
+  }
+
+  /**
+   * The best reading of the location text, or every equally good reading when
+   * the name is shared across states. Empty when nothing resolves.
+   */
+  private resolveSearchPlaces(location: string, state?: string): ResolvedLocation[] {
+    const [best, ...rest] = resolveLocation(location, { state });
+    if (!best) return [];
+    if (!best.ambiguous) return best.confidence >= MIN_PLACE_CONFIDENCE ? [best] : [];
+
+    return [best, ...rest.filter(candidate => candidate.ambiguous &&
+      candidate.type === best.type &&
+      candidate.name === best.name &&
+      candidate.matchQuality === best.matchQuality)];
+  }
+
+  private matchesPlace(property: Listing, place: ResolvedLocation): boolean {
+    const { suburb, state, postcode } = property.address;
+    const inSuburbs = place.suburbs.some(name => normalizeName(name) === normalizeName(suburb)) &&
+      (!state || !place.state || state === place.state);
+
+    switch (place.type) {
+      case 'state':
+        return state === place.state;
+      case 'postcode':
+        return postcode === place.postcode || inSuburbs;
+      default:
+        return inSuburbs;
+    }
+  }
+
+  private matchesLocation(property: Listing, location: string, places: ResolvedLocation[]): boolean {
+    if (places.length > 0) {
+      return places.some(place => this.matchesPlace(property, place));
+    }
+
+    // Unresolved text falls back to plain substring matching
     const searchLocation = location.toLowerCase();
-    const propertyLocation = `${property.suburb} ${property.state}`.toLowerCase();
+    const { suburb, state = '' } = property.address;
+    const propertyLocation = `${suburb} ${state}`.toLowerCase();
 
     return propertyLocation.includes(searchLocation) ||
-           searchLocation.includes(property.suburb.toLowerCase()) ||
-           searchLocation.includes(property.state.toLowerCase());
+           searchLocation.includes(suburb.toLowerCase()) ||
+           (state !== '' && searchLocation.includes(state.toLowerCase()));
   }
 
   private generateSuggestions(params: AustralianPropertySearchParams, resultCount: number): string[] {
@@ -148,28 +538,38 @@ export class AustralianPropertyService {
     return suggestions.slice(0, 3);
   }
 
-  private findLocationMatches(location: string): LocationMatch[] {
+  private findLocationMatches(location: string, state: string | undefined, properties: Listing[]): LocationMatch[] {
     if (!location) return [];
 
-    const matches: LocationMatch[] = [];
-    const searchTerm = location.toLowerCase();
-
-    Object.entries(AUSTRALIAN_LOCATIONS).forEach(([name, info]) => {
-      if (name.toLowerCase().includes(searchTerm) || searchTerm.includes(name.toLowerCase())) {
-        matches.push({
-          name,
-          type: name.length > 10 ? 'suburb' : 'city',
-          state: info.state,
-          confidence: 0.9,
-          averagePrice: info.avgPrice
-        });
-      }
-    });
+    return resolveLocation(location, { state }).map(place => ({
+      name: place.name,
+      label: place.label,
+      type: place.type,
+      state: place.state || '',
+      postcode: place.postcode,
+      lga: place.lga,
+      confidence: place.confidence,
+      ambiguous: place.ambiguous,
+      averagePrice: this.averagePriceIn(place, properties)
+    }));
+  }
 
-    return matches.sort((a, b) => b.confidence - a.confidence).slice(0, 5);
+  /**
+   * Average asking price of corpus listings in the place, falling back to the
+   * reference figures for the major markets
+   */
+  private averagePriceIn(place: ResolvedLocation, properties: Listing[]): number | undefined {
+    const prices = properties
+      .filter(property => this.matchesPlace(property, place))
+      .map(property => property.price);
+
+    if (prices.length > 0) {
+      return Math.round(prices.reduce((sum, price) => sum + price, 0) / prices.length);
+    }
+    return AUSTRALIAN_LOCATIONS[place.name]?.avgPrice;
   }
 
-  private analyzePrices(properties: Property[], params: AustralianPropertySearchParams): PriceAnalysis {
+  private analyzePrices(properties: Listing[], params: AustralianPropertySearchParams): PriceAnalysis {
     if (properties.length === 0) {
       return {
         marketAverage: 750000,
@@ -191,67 +591,8 @@ export class AustralianPropertyService {
     };
   }
 
-  private generateMockProperties(): void {
-    const propertyTypes = ['house', 'apartment', 'townhouse', 'unit', 'villa'];
-    const features = ['pool', 'garage', 'garden', 'balcony', 'air conditioning', 'solar panels', 'ensuite', 'dishwasher'];
-
-    for (let i = 0; i < 100; i++) {
-      const locationKeys = Object.keys(AUSTRALIAN_LOCATIONS);
-      const location = locationKeys[Math.floor(Math.random() * locationKeys.length)];
-      const locationInfo = AUSTRALIAN_LOCATIONS[location];
-      const propertyType = propertyTypes[Math.floor(Math.random() * propertyTypes.length)];
-
-      const bedrooms = Math.floor(Math.random() * 5) + 1;
-      const bathrooms = Math.floor(Math.random() * 3) + 1;
-      const parking = Math.floor(Math.random() * 3);
-
-      const basePrice = locationInfo.avgPrice;
-      const priceVariation = (Math.random() - 0.5) * 0.6;
-      const price = Math.round(basePrice * (1 + priceVariation));
-
-      const selectedFeatures = features
-        .sort(() => 0.5 - Math.random())
-        .slice(0, Math.floor(Math.random() * 6) + 2);
-
-      this.mockProperties.push({
-        id: `prop-${i + 1}`,
-        title: `${bedrooms} Bed ${propertyType.charAt(0).toUpperCase() + propertyType.slice(1)} in ${location}`,
-        address: `${Math.floor(Math.random() * 200) + 1} ${location} Street, ${location}`,
-        suburb: location,
-        state: locationInfo.state,
-        postcode: this.generatePostcode(locationInfo.state),
-        price,
-        propertyType,
-        bedrooms,
-        bathrooms,
-        parking,
-        buildingArea: Math.floor(Math.random() * 120) + 60,
-        features: selectedFeatures,
-        description: `Beautiful ${propertyType} featuring ${selectedFeatures.slice(0, 3).join(', ')}. Located in the heart of ${location}.`,
-        images: [`https://picsum.photos/800/600?random=${i}`],
-        agent: {
-          name: `Agent ${i % 10 + 1}`,
-          phone: '0412 345 678',
-          email: `agent${i % 10 + 1}@realestate.com.au`
-        }
-      });
-    }
-  }
-
-  private generatePostcode(state: string): string {
-    const postcodeRanges: Record<string, [number, number]> = {
-      'NSW': [2000, 2999],
-      'VIC': [3000, 3999],
-      'QLD': [4000, 4999],
-      'WA': [6000, 6999],
-      'SA': [5000, 5999],
-      'TAS': [7000, 7999],
-      'ACT': [2600, 2618],
-      'NT': [800, 999]
-    };
-
-    const [min, max] = postcodeRanges[state] || [2000, 2999];
-    return (Math.floor(Math.random() * (max - min + 1)) + min).toString();
+  async getListing(id: string): Promise<Listing | null> {
+    return this.repository.getById(id);
   }
 }
 
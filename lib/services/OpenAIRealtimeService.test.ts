@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { OpenAIRealtimeService } from './OpenAIRealtimeService';
+
+// Stands in for the browser WebSocket; tests open it and feed it server events
+class FakeWebSocket {
+  static readonly OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = 0;
+  sent: any[] = [];
+  closed = false;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+
+  constructor(readonly url: string, readonly protocols: string[]) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(message: Record<string, unknown>) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.closed = true;
+    this.readyState = 3;
+  }
+}
+
+const OriginalWebSocket = globalThis.WebSocket;
+const originalLog = console.log;
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+let tokens = 0;
+let states: Record<string, unknown>[] = [];
+
+async function connectedService() {
+  const service = new OpenAIRealtimeService({
+    getSessionToken: async () => ({ token: `token-${++tokens}`, model: 'gpt-realtime', expiresAt: Date.now() + 60000 }),
+  });
+  service.on('connection_state', event => states.push(event));
+  const connecting = service.reconnect();
+  await flush();
+  FakeWebSocket.instances.at(-1)!.open();
+  await connecting;
+  return service;
+}
+
+beforeEach(() => {
+  FakeWebSocket.instances = [];
+  tokens = 0;
+  states = [];
+  globalThis.WebSocket = FakeWebSocket as never;
+  // The service logs every server event
+  console.log = () => {};
+});
+
+afterEach(() => {
+  globalThis.WebSocket = OriginalWebSocket;
+  console.log = originalLog;
+});
+
+describe('restarting for new settings', () => {
+  test('opens a new session straight away without counting a reconnect attempt', async () => {
+    const service = await connectedService();
+    const first = FakeWebSocket.instances[0];
+    states = [];
+
+    service.changeVoice('verse');
+    expect(first.closed).toBe(true);
+    expect(states).toEqual([{ type: 'connection_state', state: 'reconnecting', reason: 'Voice changed', restart: true }]);
+
+    await flush();
+    expect(tokens).toBe(2);
+    FakeWebSocket.instances[1].open();
+    expect(states.at(-1)).toEqual({ type: 'connection_state', state: 'connected', resumed: true });
+    expect(service.connected).toBe(true);
+    service.disconnect();
+  });
+
+  test('keeps messages sent meanwhile for the new session', async () => {
+    const service = await connectedService();
+    service.changeLanguage('fr');
+    service.sendTextMessage('Bonjour');
+    await flush();
+
+    const second = FakeWebSocket.instances[1];
+    second.open();
+    expect(second.sent.map(message => message.type)).toContain('conversation.item.create');
+    service.disconnect();
+  });
+});
+
+describe('interrupting', () => {
+  test('drops audio of the interrupted response until it is done', async () => {
+    const service = await connectedService();
+    const enqueued: string[] = [];
+    (service as any).player = { playing: false, enqueue: (delta: string) => enqueued.push(delta), stop: () => {} };
+    const ws = FakeWebSocket.instances[0];
+
+    ws.receive({ type: 'response.created', response: { id: 'resp-1' } });
+    ws.receive({ type: 'response.audio.delta', response_id: 'resp-1', item_id: 'item-1', delta: 'heard' });
+    service.interrupt();
+    expect(ws.sent.at(-1)).toEqual({ type: 'response.cancel' });
+
+    ws.receive({ type: 'response.audio.delta', response_id: 'resp-1', item_id: 'item-1', delta: 'in flight' });
+    ws.receive({ type: 'response.done', response: { id: 'resp-1', status: 'cancelled' } });
+    ws.receive({ type: 'response.created', response: { id: 'resp-2' } });
+    ws.receive({ type: 'response.audio.delta', response_id: 'resp-2', item_id: 'item-2', delta: 'next answer' });
+
+    expect(enqueued).toEqual(['heard', 'next answer']);
+    service.disconnect();
+  });
+});
@@ -1,24 +1,109 @@
 /**
  * OpenAI Realtime API Service
- * Handles WebSocket communication with OpenAI's Realtime API for voice interactions
+ * Handles WebSocket communication with OpenAI's Realtime API for voice interactions.
+ * Each connection uses a short-lived token from /api/realtime/session, which also
+ * configures the session, so the browser never sees the API key.
  */
 
+import { searchPropertiesTool, type RealtimeTool } from './realtimeTools';
+import { createRealtimeSession, type RealtimeSessionToken } from './realtimeSessionClient';
+import {
+  toTurnDetectionConfig,
+  type RealtimeSessionOptions,
+  type RealtimeTurnDetection,
+  type RealtimeVoice,
+} from './realtimeSessionConfig';
+import { Pcm16Capture } from '@/lib/audio/Pcm16Capture';
+import { Pcm16Player } from '@/lib/audio/Pcm16Player';
+
 export interface RealtimeConfig {
-  apiKey: string;
-  model?: 'gpt-realtime' | 'gpt-4o-realtime-preview';
-  voice?: 'alloy' | 'ash' | 'ballad' | 'coral' | 'echo' | 'sage' | 'shimmer' | 'verse' | 'cedar' | 'marin';
+  voice?: RealtimeVoice;
   language?: string;
-  temperature?: number;
-  instructions?: string;
+  // Defaults to server VAD with a 0.5 threshold and 800ms of silence ending the turn
+  turnDetection?: RealtimeTurnDetection;
+  // Stop the agent when the user starts talking over it; on by default
+  bargeIn?: boolean;
+  // Handlers for the tools the server offers; defaults to search_properties answered by a listener
+  tools?: RealtimeTool[];
+  // Fetches a token for each new connection; defaults to /api/realtime/session
+  getSessionToken?: (options: RealtimeSessionOptions) => Promise<RealtimeSessionToken>;
+  connection?: RealtimeConnectionPolicy;
+}
+
+export interface RealtimeConnectionPolicy {
+  // Reconnect attempts after a drop before giving up
+  maxAttempts?: number;
+  // Delay before the first attempt, doubled for each one after
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  // Quiet time before the heartbeat pings the server
+  heartbeatIntervalMs?: number;
+  // How long a ping may go unanswered before the socket counts as dead
+  heartbeatTimeoutMs?: number;
+  // Outbound events kept while disconnected; the oldest are dropped first
+  maxQueuedMessages?: number;
+  // Conversation items replayed into a new session
+  maxContextItems?: number;
+}
+
+export type RealtimeConnectionState = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'failed' | 'disconnected';
+
+export const DEFAULT_REALTIME_CONNECTION_POLICY: Required<RealtimeConnectionPolicy> = {
+  maxAttempts: 6,
+  initialDelayMs: 500,
+  maxDelayMs: 15000,
+  heartbeatIntervalMs: 15000,
+  heartbeatTimeoutMs: 10000,
+  maxQueuedMessages: 100,
+  maxContextItems: 40,
+};
+
+// Stale by the time a new socket opens, or superseded by the replayed session config
+const UNQUEUED_MESSAGES = new Set([
+  'input_audio_buffer.append',
+  'input_audio_buffer.commit',
+  'input_audio_buffer.clear',
+  'session.update',
+  'response.cancel'
+]);
+
+type ContextItem =
+  | { type: 'message'; role: 'user' | 'assistant'; text: string }
+  | { type: 'function_call'; name: string; callId: string; arguments: string }
+  | { type: 'function_call_output'; callId: string; output: string };
+
+function contextItemFrom(item: any): ContextItem | undefined {
+  switch (item?.type) {
+    case 'message': {
+      if (item.role !== 'user' && item.role !== 'assistant') return undefined;
+      const text = (item.content || [])
+        .map((part: any) => part.text ?? part.transcript)
+        .filter((part: unknown) => typeof part === 'string' && part)
+        .join(' ');
+      return { type: 'message', role: item.role, text };
+    }
+    case 'function_call':
+      return { type: 'function_call', name: item.name, callId: item.call_id, arguments: item.arguments || '{}' };
+    case 'function_call_output':
+      return { type: 'function_call_output', callId: item.call_id, output: item.output };
+    default:
+      return undefined;
+  }
 }
 
-export interface PropertySearchParams {
-  location?: string;
-  propertyType?: string;
-  priceMin?: number;
-  priceMax?: number;
-  bedrooms?: number;
-  amenities?: string[];
+function conversationItem(item: ContextItem): Record<string, unknown> {
+  switch (item.type) {
+    case 'message':
+      return {
+        type: 'message',
+        role: item.role,
+        content: [{ type: item.role === 'user' ? 'input_text' : 'text', text: item.text }]
+      };
+    case 'function_call':
+      return { type: 'function_call', name: item.name, call_id: item.callId, arguments: item.arguments };
+    case 'function_call_output':
+      return { type: 'function_call_output', call_id: item.callId, output: item.output };
+  }
 }
 
 export interface RealtimeMessage {
@@ -35,51 +120,55 @@ export class OpenAIRealtimeService {
   private eventHandlers: Map<string, Set<RealtimeEventHandler>> = new Map();
   private audioContext: AudioContext | null = null;
   private mediaStream: MediaStream | null = null;
+  private capture: Pcm16Capture | null = null;
+  private player: Pcm16Player | null = null;
   private isRecording = false;
-  private isConnected = false;
+  private connectionState: RealtimeConnectionState = 'idle';
+  private policy: Required<RealtimeConnectionPolicy>;
+  // Only sessions that opened once reconnect; a first connection that fails is reported instead
+  private hasConnected = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private lastMessageAt = 0;
+  private pingSentAt: number | null = null;
+  private outbox: any[] = [];
+  // The conversation so far by server item id, replayed into the next session after a drop
+  private context: Map<string, ContextItem> = new Map();
   private currentSessionId: string | null = null;
-  private audioChunks: string[] = [];
   private eventIdCounter = 0;
+  private responseActive = false;
+  private currentResponseId: string | null = null;
+  // Responses cut off by interrupt() whose audio may still be arriving; dropped until their response.done
+  private interruptedResponses: Set<string> = new Set();
+  // A function result arrived while the model was still responding
+  private responsePending = false;
+  private tools: Map<string, RealtimeTool> = new Map();
+
+  constructor(config: RealtimeConfig = {}) {
+    this.config = { ...config };
+
+    (config.tools ?? [searchPropertiesTool()]).forEach(tool => this.tools.set(tool.name, tool));
+    this.policy = { ...DEFAULT_REALTIME_CONNECTION_POLICY, ...config.connection };
+  }
 
-  constructor(config: RealtimeConfig) {
-    this.config = {
-      model: 'gpt-4o-realtime-preview',
-      voice: 'cedar',
-      temperature: 0.8,
-      instructions: `You are HAUS, an enthusiastic Australian real estate voice assistant. Help users find their perfect property in Australia using natural conversation.
-
-CRITICAL: You MUST respond in the language the user speaks.
-
-Australian Context:
-- Focus on Australian locations: Sydney, Melbourne, Brisbane, Perth, Adelaide, Canberra, Darwin, Hobart
-- Popular suburbs: Bondi, South Yarra, Surfers Paradise, Paddington, Fitzroy, Newtown, St Kilda, Manly
-- Use Australian property terminology: apartment/unit (not condo), house, townhouse, villa, terrace
-- Prices in Australian Dollars (AUD): $500K = $500,000, $1.5M = $1,500,000
-- Australian features: pool, garage, garden, balcony, air conditioning, solar panels
-
-When users describe what they want, extract these parameters:
-- Location (suburb, city, state, postcode)
-- Property type (house, apartment, unit, townhouse, villa, terrace, penthouse)
-- Price range (minimum and maximum in AUD)
-- Bedrooms and bathrooms
-- Amenities (pool, garage, garden, balcony, parking, etc.)
-
-Always:
-1. Be conversational and helpful
-2. Ask clarifying questions if needed
-3. Call search_properties with extracted parameters
-4. Explain the search results enthusiastically
-5. Suggest alternatives if no results found
-
-Remember: Respond naturally in the user's language and focus on Australian real estate!`,
-      ...config
-    };
+  /**
+   * Adds or replaces a tool's handler. The model is only offered the tools the
+   * server configured, so a name it doesn't know is never called.
+   */
+  registerTool(tool: RealtimeTool): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  unregisterTool(name: string): void {
+    this.tools.delete(name);
   }
 
   async initialize(): Promise<boolean> {
     try {
       this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
       await this.audioContext.resume();
+      this.player = new Pcm16Player(this.audioContext, () => this.emit('audio_playback_ended'));
       await this.connect();
       return true;
     } catch (error) {
@@ -89,31 +178,56 @@ Remember: Respond naturally in the user's language and focus on Australian real
   }
 
   private async connect(): Promise<void> {
+    this.setConnectionState('connecting');
+    return this.openSocket();
+  }
+
+  private async openSocket(): Promise<void> {
+    this.ws = null;
+
+    let session: RealtimeSessionToken;
+    try {
+      const getSessionToken = this.config.getSessionToken ?? createRealtimeSession;
+      session = await getSessionToken({
+        voice: this.config.voice,
+        language: this.config.language,
+        turnDetection: this.config.turnDetection
+      });
+    } catch (error) {
+      this.handleDrop(error instanceof Error ? error.message : 'Could not start a session');
+      throw error;
+    }
+    // Disconnected while the token was on its way
+    if (this.connectionState === 'disconnected') return;
+
     return new Promise((resolve, reject) => {
       try {
-        const wsUrl = `wss://api.openai.com/v1/realtime?model=${this.config.model}`;
-        this.ws = new WebSocket(wsUrl, ['realtime']);
-
-        const originalSend = this.ws.send.bind(this.ws);
-        this.ws.send = (data: string | ArrayBufferLike | Blob | ArrayBufferView) => {
-          if (typeof data === 'string') {
-            const event = JSON.parse(data);
-            if (event.type === 'session.update') {
-              event.authorization = `Bearer ${this.config.apiKey}`;
-              data = JSON.stringify(event);
-            }
-          }
-          originalSend(data);
-        };
-
-        this.ws.onopen = () => {
+        const wsUrl = `wss://api.openai.com/v1/realtime?model=${encodeURIComponent(session.model)}`;
+        // Browsers can't set headers on a WebSocket, so the token travels as a subprotocol
+        const ws = new WebSocket(wsUrl, [
+          'realtime',
+          `openai-insecure-api-key.${session.token}`,
+          'openai-beta.realtime-v1'
+        ]);
+        this.ws = ws;
+
+        ws.onopen = () => {
           console.log('Connected to OpenAI Realtime API');
-          this.isConnected = true;
-          this.sendSessionUpdate();
+          const resumed = this.hasConnected;
+          this.hasConnected = true;
+          this.reconnectAttempts = 0;
+          this.lastMessageAt = Date.now();
+          this.pingSentAt = null;
+          this.setConnectionState('connected', { resumed });
+          this.replayContext();
+          this.flushOutbox();
+          this.startHeartbeat();
           resolve();
         };
 
-        this.ws.onmessage = (event) => {
+        ws.onmessage = (event) => {
+          this.lastMessageAt = Date.now();
+          this.pingSentAt = null;
           try {
             const message: RealtimeMessage = JSON.parse(event.data);
             this.handleRealtimeMessage(message);
@@ -122,89 +236,174 @@ Remember: Respond naturally in the user's language and focus on Australian real
           }
         };
 
-        this.ws.onerror = (error) => {
+        ws.onerror = (error) => {
           console.error('WebSocket error:', error);
-          this.isConnected = false;
           reject(error);
         };
 
-        this.ws.onclose = () => {
+        ws.onclose = (event) => {
           console.log('Disconnected from OpenAI Realtime API');
-          this.isConnected = false;
+          reject(new Error(`Connection closed (${event.code})`));
+          this.handleDrop(event.reason || `Connection closed (${event.code})`);
         };
 
       } catch (error) {
+        // A socket that was never created has no close event to report the failure
         reject(error);
+        this.handleDrop(error instanceof Error ? error.message : 'Connection failed');
       }
     });
   }
 
-  private sendSessionUpdate(): void {
-    const sessionConfig = {
-      type: 'session.update',
-      session: {
-        modalities: ['text', 'audio'],
-        instructions: this.config.instructions,
-        voice: this.config.voice,
-        input_audio_format: 'pcm16',
-        output_audio_format: 'pcm16',
-        input_audio_transcription: {
-          model: 'whisper-1'
-        },
-        turn_detection: {
-          type: 'server_vad',
-          threshold: 0.5,
-          prefix_padding_ms: 300,
-          silence_duration_ms: 800
-        },
-        tools: [
-          {
-            type: 'function',
-            name: 'search_properties',
-            description: 'Search for properties based on user criteria',
-            parameters: {
-              type: 'object',
-              properties: {
-                location: {
-                  type: 'string',
-                  description: 'City, state, neighborhood, or area to search in'
-                },
-                propertyType: {
-                  type: 'string',
-                  description: 'Type of property: house, apartment, condo, loft, penthouse, townhouse, studio, etc.'
-                },
-                priceMin: {
-                  type: 'number',
-                  description: 'Minimum price in USD'
-                },
-                priceMax: {
-                  type: 'number',
-                  description: 'Maximum price in USD'
-                },
-                bedrooms: {
-                  type: 'number',
-                  description: 'Minimum number of bedrooms'
-                },
-                amenities: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'List of desired amenities like pool, garage, garden, gym, balcony, etc.'
-                }
-              }
-            }
-          }
-        ],
-        tool_choice: 'auto',
-        temperature: this.config.temperature
+  /**
+   * Stops listening to the current socket, which is gone or about to be
+   */
+  private detachSocket(): void {
+    const ws = this.ws;
+    if (ws) {
+      ws.onopen = ws.onmessage = ws.onerror = ws.onclose = null;
+    }
+    this.ws = null;
+    this.stopHeartbeat();
+
+    // The response in flight died with the socket; one that was waiting can go to the next
+    this.responseActive = false;
+    this.currentResponseId = null;
+    this.interruptedResponses.clear();
+    if (this.responsePending) {
+      this.responsePending = false;
+      this.requestResponse();
+    }
+  }
+
+  /**
+   * Called once per lost socket, whether it closed itself or the heartbeat gave up on it
+   */
+  private handleDrop(reason: string): void {
+    this.detachSocket();
+
+    if (this.connectionState === 'disconnected') return;
+    if (!this.hasConnected) {
+      this.setConnectionState('failed', { reason });
+      return;
+    }
+    this.scheduleReconnect(reason);
+  }
+
+  private scheduleReconnect(reason: string): void {
+    if (this.reconnectAttempts >= this.policy.maxAttempts) {
+      this.setConnectionState('failed', { reason });
+      return;
+    }
+
+    const attempt = ++this.reconnectAttempts;
+    // Jittered so many clients dropped together don't come back in lockstep
+    const backoff = Math.min(this.policy.maxDelayMs, this.policy.initialDelayMs * 2 ** (attempt - 1));
+    const delayMs = Math.round(backoff * (0.8 + Math.random() * 0.4));
+    this.setConnectionState('reconnecting', { attempt, maxAttempts: this.policy.maxAttempts, delayMs, reason });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      // Failures come back through handleDrop, which schedules the next attempt
+      this.openSocket().catch(() => {});
+    }, delayMs);
+  }
+
+  /**
+   * Tries again straight away, e.g. from a retry button once reconnecting has failed
+   */
+  async reconnect(): Promise<boolean> {
+    if (this.connected) return true;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempts = 0;
+    this.setConnectionState(this.hasConnected ? 'reconnecting' : 'connecting', { attempt: 1, maxAttempts: this.policy.maxAttempts, delayMs: 0 });
+
+    try {
+      await this.openSocket();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private setConnectionState(state: RealtimeConnectionState, details: Record<string, unknown> = {}): void {
+    this.connectionState = state;
+    this.emit('connection_state', { state, ...details });
+  }
+
+  /**
+   * The API has no ping event, so a quiet socket is sent an empty session.update,
+   * which the server always answers with session.updated
+   */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    const checkEvery = Math.min(this.policy.heartbeatIntervalMs, this.policy.heartbeatTimeoutMs) / 2;
+
+    this.heartbeatTimer = setInterval(() => {
+      const now = Date.now();
+      if (this.pingSentAt !== null) {
+        if (now - this.pingSentAt > this.policy.heartbeatTimeoutMs) {
+          const ws = this.ws;
+          this.handleDrop('Heartbeat timed out');
+          ws?.close(4000, 'Heartbeat timed out');
+        }
+      } else if (now - this.lastMessageAt > this.policy.heartbeatIntervalMs) {
+        this.pingSentAt = now;
+        this.sendMessage({ type: 'session.update', session: {} });
       }
-    };
+    }, checkEvery);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.pingSentAt = null;
+  }
+
+  private replayContext(): void {
+    let items = [...this.context.values()].slice(-this.policy.maxContextItems);
+    // An output can't be replayed without the call it answers
+    const calls = new Set(items.filter(item => item.type === 'function_call').map(item => item.callId));
+    items = items.filter(item => item.type !== 'function_call_output' || calls.has(item.callId));
+
+    // The new session echoes each item back with a fresh id, which rebuilds the context
+    this.context = new Map();
+    items
+      .filter(item => item.type !== 'message' || item.text)
+      .forEach(item => {
+        this.sendMessage({
+          event_id: this.generateEventId(),
+          type: 'conversation.item.create',
+          item: conversationItem(item)
+        });
+      });
+  }
+
+  private flushOutbox(): void {
+    const queued = this.outbox;
+    this.outbox = [];
+    queued.forEach(message => this.sendMessage(message));
+  }
 
-    this.sendMessage(sessionConfig);
+  private rememberItem(item: any): void {
+    const contextItem = contextItemFrom(item);
+    if (item?.id && contextItem) {
+      this.context.set(item.id, contextItem);
+    }
   }
 
   private handleRealtimeMessage(message: RealtimeMessage): void {
     console.log('Received realtime message:', message.type, message);
 
+    // A barge-in can race the server cancelling the response itself, which is harmless
+    if (message.type === 'error' && message.error?.code === 'response_cancel_not_active') return;
+
     const handlers = this.eventHandlers.get(message.type);
     if (handlers) {
       handlers.forEach(handler => handler(message));
@@ -221,7 +420,23 @@ Remember: Respond naturally in the user's language and focus on Australian real
         this.emit('session_ready', message);
         break;
 
+      case 'conversation.item.created':
+      case 'response.output_item.done':
+        this.rememberItem(message.item);
+        break;
+
+      case 'conversation.item.input_audio_transcription.completed': {
+        const item = this.context.get(message.item_id);
+        if (item?.type === 'message') {
+          item.text = message.transcript || '';
+        }
+        break;
+      }
+
       case 'input_audio_buffer.speech_started':
+        if (this.config.bargeIn !== false) {
+          this.interrupt();
+        }
         this.emit('speech_started', message);
         break;
 
@@ -230,9 +445,25 @@ Remember: Respond naturally in the user's language and focus on Australian real
         break;
 
       case 'response.created':
+        this.responseActive = true;
+        this.currentResponseId = message.response?.id ?? null;
         this.emit('response_started', message);
         break;
 
+      case 'response.audio.delta':
+        if (this.interruptedResponses.has(message.response_id)) break;
+        this.player?.enqueue(message.delta, message.item_id);
+        break;
+
+      // The server drops the transcript of audio the user never heard
+      case 'conversation.item.truncated': {
+        const item = this.context.get(message.item_id);
+        if (item?.type === 'message') {
+          item.text = '';
+        }
+        break;
+      }
+
       case 'response.audio_transcript.delta':
         this.emit('transcript_delta', message);
         break;
@@ -242,6 +473,13 @@ Remember: Respond naturally in the user's language and focus on Australian real
         break;
 
       case 'response.done':
+        this.responseActive = false;
+        this.currentResponseId = null;
+        this.interruptedResponses.delete(message.response?.id);
+        if (this.responsePending) {
+          this.responsePending = false;
+          this.requestResponse();
+        }
         this.emit('response_complete', message);
         break;
 
@@ -252,21 +490,44 @@ Remember: Respond naturally in the user's language and focus on Australian real
     }
   }
 
-  private handleFunctionCall(message: any): void {
-    if (message.name === 'search_properties') {
-      try {
-        const args: PropertySearchParams = JSON.parse(message.arguments);
-        this.emit('property_search_requested', {
-          searchParams: args,
-          callId: message.call_id
-        });
-      } catch (error) {
-        console.error('Error parsing function call arguments:', error);
-        this.sendFunctionResult(message.call_id, {
-          error: 'Invalid search parameters',
-          message: 'Could not parse search criteria'
-        });
-      }
+  private async handleFunctionCall(message: any): Promise<void> {
+    const { name, call_id: callId } = message;
+    const tool = this.tools.get(name);
+    if (!tool) {
+      this.sendFunctionResult(callId, {
+        error: 'Unknown tool',
+        message: `There is no tool named ${name}`
+      });
+      return;
+    }
+
+    let args: any;
+    try {
+      args = JSON.parse(message.arguments || '{}');
+    } catch (error) {
+      console.error('Error parsing function call arguments:', error);
+      this.sendFunctionResult(callId, {
+        error: 'Invalid arguments',
+        message: `Could not parse the ${name} arguments`
+      });
+      return;
+    }
+
+    this.emit('function_call_requested', { name, args, callId });
+
+    // Without a handler the listener is expected to call sendFunctionResult itself
+    if (!tool.handler) return;
+
+    try {
+      const result = await tool.handler(args);
+      this.sendFunctionResult(callId, tool.summarize ? tool.summarize(result) : result);
+      this.emit('function_call_completed', { name, args, callId, result });
+    } catch (error) {
+      console.error(`Realtime tool ${name} failed:`, error);
+      this.sendFunctionResult(callId, {
+        error: `${name} failed`,
+        message: error instanceof Error ? error.message : 'The request could not be completed'
+      });
     }
   }
 
@@ -276,36 +537,29 @@ Remember: Respond naturally in the user's language and focus on Australian real
     try {
       this.mediaStream = await navigator.mediaDevices.getUserMedia({
         audio: {
-          sampleRate: 24000,
           channelCount: 1,
           echoCancellation: true,
           noiseSuppression: true
         }
       });
 
-      const mediaRecorder = new MediaRecorder(this.mediaStream, {
-        mimeType: 'audio/webm;codecs=pcm'
-      });
-
-      mediaRecorder.ondataavailable = async (event) => {
-        if (event.data.size > 0) {
-          await this.sendAudioChunk(event.data);
-        }
-      };
-
-      mediaRecorder.onstop = () => {
+      // Server VAD commits the buffer at the end of each turn, so frames are only appended
+      this.capture = new Pcm16Capture(this.audioContext, audio => {
         this.sendMessage({
-          type: 'input_audio_buffer.commit'
+          type: 'input_audio_buffer.append',
+          audio
         });
-      };
-
-      mediaRecorder.start(100);
+      });
+      await this.capture.start(this.mediaStream);
       this.isRecording = true;
 
       this.emit('recording_started');
       return true;
     } catch (error) {
       console.error('Error starting recording:', error);
+      this.capture = null;
+      this.mediaStream?.getTracks().forEach(track => track.stop());
+      this.mediaStream = null;
       this.emit('recording_error', { error });
       return false;
     }
@@ -314,6 +568,8 @@ Remember: Respond naturally in the user's language and focus on Australian real
   stopRecording(): void {
     if (!this.isRecording || !this.mediaStream) return;
 
+    this.capture?.stop();
+    this.capture = null;
     this.mediaStream.getTracks().forEach(track => track.stop());
     this.mediaStream = null;
     this.isRecording = false;
@@ -321,20 +577,6 @@ Remember: Respond naturally in the user's language and focus on Australian real
     this.emit('recording_stopped');
   }
 
-  private async sendAudioChunk(audioBlob: Blob): Promise<void> {
-    try {
-      const arrayBuffer = await audioBlob.arrayBuffer();
-      const base64Audio = this.arrayBufferToBase64(arrayBuffer);
-
-      this.sendMessage({
-        type: 'input_audio_buffer.append',
-        audio: base64Audio
-      });
-    } catch (error) {
-      console.error('Error sending audio chunk:', error);
-    }
-  }
-
   sendTextMessage(text: string, language?: string): void {
     const eventId = this.generateEventId();
     const message = {
@@ -351,11 +593,7 @@ Remember: Respond naturally in the user's language and focus on Australian real
     };
 
     this.sendMessage(message);
-
-    this.sendMessage({
-      event_id: this.generateEventId(),
-      type: 'response.create'
-    });
+    this.requestResponse();
   }
 
   sendFunctionResult(callId: string, result: any): void {
@@ -371,6 +609,15 @@ Remember: Respond naturally in the user's language and focus on Australian real
     };
 
     this.sendMessage(message);
+    this.requestResponse();
+  }
+
+  // The API rejects response.create while a response is in progress, so it waits for response.done
+  private requestResponse(): void {
+    if (this.responseActive) {
+      this.responsePending = true;
+      return;
+    }
 
     this.sendMessage({
       event_id: this.generateEventId(),
@@ -378,31 +625,79 @@ Remember: Respond naturally in the user's language and focus on Australian real
     });
   }
 
-  changeVoice(voice: RealtimeConfig['voice']): void {
+  changeVoice(voice: RealtimeVoice): void {
     this.config.voice = voice;
-    if (this.isConnected) {
-      this.sendSessionUpdate();
-    }
+    this.restartSession('Voice changed');
   }
 
   changeLanguage(language: string): void {
     this.config.language = language;
-    const updatedInstructions = `${this.config.instructions}\n\nIMPORTANT: Always respond in ${language} language.`;
+    this.restartSession('Language changed');
+  }
+
+  /**
+   * The server configures each session, so settings take effect in a new one;
+   * the conversation carries over the same way it does after a drop. Nothing
+   * failed, so the new session opens straight away without counting a
+   * reconnect attempt; only if it can't open does the usual backoff take over.
+   */
+  private restartSession(reason: string): void {
+    if (!this.connected) return;
 
-    if (this.isConnected) {
+    // Reconnecting without an attempt number, so messages queue for the new session as they do after a drop
+    this.setConnectionState('reconnecting', { reason, restart: true });
+
+    const ws = this.ws;
+    this.detachSocket();
+    ws?.close(1000, reason);
+
+    // Failures come back through handleDrop, which schedules reconnects as usual
+    this.openSocket().catch(() => {});
+  }
+
+  /**
+   * Stops the agent mid-answer: cancels the response being generated, drops the
+   * queued audio and any still arriving for it, and trims the item to what was
+   * actually heard, so the model doesn't assume the user heard the rest
+   */
+  interrupt(): void {
+    const played = this.player?.playing ? this.player.playedMs() : undefined;
+    if (!this.responseActive && !played) return;
+
+    if (this.responseActive) {
       this.sendMessage({
-        type: 'session.update',
-        session: {
-          instructions: updatedInstructions
-        }
+        type: 'response.cancel'
+      });
+      // Audio already on its way still arrives after the cancel
+      if (this.currentResponseId) this.interruptedResponses.add(this.currentResponseId);
+    }
+    // The user's next turn gets its own response
+    this.responsePending = false;
+    this.player?.stop();
+
+    if (played) {
+      this.sendMessage({
+        type: 'conversation.item.truncate',
+        item_id: played.itemId,
+        content_index: 0,
+        audio_end_ms: played.ms
       });
     }
+
+    this.emit('interrupted', { itemId: played?.itemId, audioEndMs: played?.ms });
   }
 
-  interrupt(): void {
-    if (this.isConnected) {
+  /**
+   * Applies to the current session straight away and to any reconnected one
+   */
+  setTurnDetection(turnDetection: RealtimeTurnDetection): void {
+    this.config.turnDetection = turnDetection;
+    if (this.connected) {
       this.sendMessage({
-        type: 'response.cancel'
+        type: 'session.update',
+        session: {
+          turn_detection: toTurnDetectionConfig(turnDetection)
+        }
       });
     }
   }
@@ -410,7 +705,10 @@ Remember: Respond naturally in the user's language and focus on Australian real
   private sendMessage(message: any): void {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(message));
-    } else {
+    } else if (this.connectionState === 'reconnecting' && !UNQUEUED_MESSAGES.has(message.type)) {
+      this.outbox.push(message);
+      this.outbox.splice(0, this.outbox.length - this.policy.maxQueuedMessages);
+    } else if (!UNQUEUED_MESSAGES.has(message.type)) {
       console.warn('WebSocket not connected, cannot send message:', message.type);
     }
   }
@@ -450,11 +748,24 @@ Remember: Respond naturally in the user's language and focus on Australian real
       this.stopRecording();
     }
 
+    // Set first so the close below isn't treated as a drop
+    this.setConnectionState('disconnected');
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.stopHeartbeat();
+
     if (this.ws) {
-      this.ws.close(1000, 'Client disconnect');
+      const ws = this.ws;
+      ws.onopen = ws.onmessage = ws.onerror = ws.onclose = null;
+      ws.close(1000, 'Client disconnect');
       this.ws = null;
     }
 
+    this.player?.stop();
+    this.player = null;
+
     if (this.audioContext) {
       this.audioContext.close();
       this.audioContext = null;
@@ -465,13 +776,23 @@ Remember: Respond naturally in the user's language and focus on Australian real
       this.mediaStream = null;
     }
 
-    this.isConnected = false;
     this.currentSessionId = null;
-    this.audioChunks = [];
+    this.responseActive = false;
+    this.currentResponseId = null;
+    this.interruptedResponses.clear();
+    this.responsePending = false;
+    this.hasConnected = false;
+    this.reconnectAttempts = 0;
+    this.outbox = [];
+    this.context = new Map();
   }
 
   get connected(): boolean {
-    return this.isConnected && this.ws?.readyState === WebSocket.OPEN;
+    return this.connectionState === 'connected' && this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  get state(): RealtimeConnectionState {
+    return this.connectionState;
   }
 
   get sessionId(): string | null {
@@ -481,17 +802,6 @@ Remember: Respond naturally in the user's language and focus on Australian real
   get recording(): boolean {
     return this.isRecording;
   }
-
-  private arrayBufferToBase64(buffer: ArrayBuffer): string {
-    const bytes = new Uint8Array(buffer);
-    let binary = '';
-    const chunkSize = 0x8000;
-    for (let i = 0; i < bytes.length; i += chunkSize) {
-      const chunk = bytes.subarray(i, i + chunkSize);
-      binary += String.fromCharCode.apply(null, Array.from(chunk));
-    }
-    return btoa(binary);
-  }
 }
 
 export default OpenAIRealtimeService;
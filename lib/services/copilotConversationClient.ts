@@ -0,0 +1,33 @@
+/**
+ * Copilot Conversation Client
+ * Browser-side entry point for /api/copilot/conversation, which holds each
+ * signed-in user's copilot history and learned preferences
+ */
+
+import { parseStoredCopilotConversation, type CopilotConversation } from '@/lib/copilot-memory';
+
+export const COPILOT_CONVERSATION_ENDPOINT = '/api/copilot/conversation';
+
+function conversationUrl(userId: string): string {
+  return `${COPILOT_CONVERSATION_ENDPOINT}?userId=${encodeURIComponent(userId)}`;
+}
+
+export async function getCopilotConversation(userId: string, signal?: AbortSignal): Promise<CopilotConversation> {
+  const response = await fetch(conversationUrl(userId), { signal });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Copilot conversation request failed with status ${response.status}`);
+  }
+
+  return parseStoredCopilotConversation(await response.json(), userId);
+}
+
+export async function clearCopilotConversation(userId: string): Promise<void> {
+  const response = await fetch(conversationUrl(userId), { method: 'DELETE' });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Clearing the copilot conversation failed with status ${response.status}`);
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'bun:test';
+import { generateMockListings } from '@/lib/mock-listing-generator';
+import { InMemoryListingRepository } from '@/lib/repositories/InMemoryListingRepository';
+import { citedListingIds } from '@/lib/copilot-context';
+import { AustralianPropertyService } from './AustralianPropertyService';
+import { copilotContextListings, formatCopilotContext, retrieveCopilotContext } from './copilotRetrieval';
+
+// Five listings in Surry Hills, then three in Manly
+const stored = generateMockListings({ count: 8, seed: 'copilot-retrieval' }).map((listing, index) => ({
+  ...listing,
+  listingType: 'For Sale' as const,
+  address: {
+    ...listing.address,
+    suburb: index < 5 ? 'Surry Hills' : 'Manly',
+    state: 'NSW' as const,
+    postcode: index < 5 ? '2010' : '2095',
+  },
+}));
+const [onScreen, cited] = stored;
+const manly = stored.slice(5).map(listing => listing.id);
+const service = new AustralianPropertyService(new InMemoryListingRepository(stored));
+
+describe('retrieveCopilotContext', () => {
+  test('pins the listing on screen and those cited last, and finds the matches', async () => {
+    const context = await retrieveCopilotContext(service, {
+      query: 'What is there in Manly?',
+      path: `/property/${onScreen.id}`,
+      history: [
+        { role: 'user', content: 'Show me Surry Hills' },
+        { role: 'assistant', content: `Try [listing:${cited.id}] or [listing:not-a-listing].` },
+      ],
+    });
+
+    expect(context.pinned.map(listing => listing.id)).toEqual([onScreen.id, cited.id]);
+    expect(context.matches.map(listing => listing.id).sort()).toEqual([...manly].sort());
+    expect(context.matchCount).toBe(3);
+    expect(context.facts).toMatchObject({ state: 'NSW', listingCount: 3 });
+    expect(context.facts?.label).toContain('Manly');
+  });
+
+  test("doesn't repeat a pinned listing among the matches", async () => {
+    const context = await retrieveCopilotContext(service, { query: 'What is there in Manly?', path: `/property/${manly[0]}` });
+    expect(context.pinned.map(listing => listing.id)).toEqual([manly[0]]);
+    expect(context.matches.map(listing => listing.id)).not.toContain(manly[0]);
+    expect(context.matches).toHaveLength(2);
+    expect(context.matchCount).toBe(3);
+  });
+
+  test('only cites from the last answer, not earlier ones', async () => {
+    const context = await retrieveCopilotContext(service, {
+      query: 'and the cheapest?',
+      history: [
+        { role: 'assistant', content: `[listing:${onScreen.id}]` },
+        { role: 'user', content: 'Any others?' },
+        { role: 'assistant', content: `[listing:${cited.id}]` },
+      ],
+    });
+    expect(context.pinned.map(listing => listing.id)).toEqual([cited.id]);
+  });
+});
+
+describe('formatCopilotContext', () => {
+  test('marks every listing it describes with its citation', async () => {
+    const context = await retrieveCopilotContext(service, { query: 'What is there in Manly?', path: `/property/${onScreen.id}` });
+    const prompt = formatCopilotContext(context);
+
+    expect(citedListingIds(prompt)).toEqual(copilotContextListings(context).map(listing => listing.id));
+    expect(prompt).toContain(`- [listing:${onScreen.id}] ${onScreen.title}`);
+    expect(prompt).toMatch(/^Suburb facts: .*Manly.*; 3 listings;/);
+    expect(prompt).toContain('Listings matching the question (3 in all');
+  });
+
+  test('says so when nothing matched', () => {
+    expect(formatCopilotContext({ pinned: [], matches: [], matchCount: 0 })).toBe('No listings matched this question.');
+  });
+});
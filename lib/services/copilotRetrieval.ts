@@ -0,0 +1,188 @@
+/**
+ * Copilot Retrieval
+ * Finds the listings and suburb facts a copilot answer should be grounded on
+ * (server-side only). The question is parsed with the offline query parser and
+ * run through the property service, so the copilot sees the same listings a
+ * search would. The listing on screen and the ones cited in the last answer
+ * are kept in context, so follow-ups like "how big is the second one?" still
+ * have something to refer to.
+ */
+
+import type { Listing } from '@/lib/types';
+import { parseSearchQuery } from '@/lib/query-parser';
+import { citationMarker, citedListingIds } from '@/lib/copilot-context';
+import { formatPropertyType } from '@/lib/listing-adapters';
+import { searchParamsFromExtraction } from './propertySearchClient';
+import {
+  toAustralianSearchParams,
+  type AustralianPropertySearchParams,
+  type AustralianPropertyService,
+  type PriceAnalysis,
+} from './AustralianPropertyService';
+
+export interface CopilotRetrievalRequest {
+  // The question being answered
+  query: string;
+  // Earlier turns, oldest first
+  history?: { role: 'user' | 'assistant'; content: string }[];
+  // The page the user is on, e.g. /property/prop-12
+  path?: string;
+}
+
+export interface CopilotSuburbFacts {
+  // e.g. "Bondi Beach, NSW 2026"
+  label: string;
+  state: string;
+  postcode?: string;
+  lga?: string;
+  listingCount: number;
+  averagePrice?: number;
+  priceRange?: [number, number];
+  marketTrend: PriceAnalysis['marketTrend'];
+  pricePerSqm?: number;
+  // Most common first
+  propertyTypes: { type: string; count: number }[];
+}
+
+export interface CopilotContext {
+  // The listing on screen and those cited in the last answer
+  pinned: Listing[];
+  // Listings matching the question, most relevant first; none repeat a pinned one
+  matches: Listing[];
+  // How many listings matched the question, of which `matches` is the top
+  matchCount: number;
+  facts?: CopilotSuburbFacts;
+}
+
+export const COPILOT_CONTEXT_LISTINGS = 6;
+// Listings carried over from the page and the last answer
+const MAX_PINNED_LISTINGS = 4;
+
+const LISTING_PATH = /^\/property\/([^/?#]+)/;
+
+async function pinnedListings(service: AustralianPropertyService, request: CopilotRetrievalRequest): Promise<Listing[]> {
+  const ids: string[] = [];
+  const onPage = request.path ? LISTING_PATH.exec(request.path) : null;
+  if (onPage) ids.push(decodeURIComponent(onPage[1]));
+
+  const lastAnswer = [...(request.history || [])].reverse().find(message => message.role === 'assistant');
+  if (lastAnswer) ids.push(...citedListingIds(lastAnswer.content));
+
+  const listings = await Promise.all([...new Set(ids)].slice(0, MAX_PINNED_LISTINGS).map(id => service.getListing(id)));
+  return listings.filter((listing): listing is Listing => listing !== null);
+}
+
+async function suburbFacts(
+  service: AustralianPropertyService,
+  params: AustralianPropertySearchParams
+): Promise<CopilotSuburbFacts | undefined> {
+  if (!params.location) return undefined;
+
+  // The whole area, not just the listings that fit the rest of the question
+  const area = await service.searchProperties({ location: params.location, state: params.state }, { limit: 1 });
+  const place = area.locationMatches[0];
+  if (!place) return undefined;
+
+  return {
+    label: place.label,
+    state: place.state,
+    postcode: place.postcode,
+    lga: place.lga,
+    listingCount: area.totalCount,
+    averagePrice: area.totalCount > 0 ? area.priceAnalysis.marketAverage : place.averagePrice,
+    priceRange: area.totalCount > 0 ? area.priceAnalysis.priceRange : undefined,
+    marketTrend: area.priceAnalysis.marketTrend,
+    pricePerSqm: area.priceAnalysis.pricePerSqm,
+    propertyTypes: area.facets.propertyType
+      .filter(bucket => bucket.count > 0)
+      .sort((a, b) => b.count - a.count)
+      .map(bucket => ({ type: bucket.label, count: bucket.count })),
+  };
+}
+
+export async function retrieveCopilotContext(
+  service: AustralianPropertyService,
+  request: CopilotRetrievalRequest,
+  limit = COPILOT_CONTEXT_LISTINGS
+): Promise<CopilotContext> {
+  const params = toAustralianSearchParams(
+    searchParamsFromExtraction(parseSearchQuery(request.query) as Record<string, unknown>)
+  );
+
+  // The parsed filters narrow the search; the question's own words rank what's left
+  const search = await service.searchProperties({ ...params, naturalLanguageQuery: request.query }, { limit });
+
+  const [pinned, facts] = await Promise.all([pinnedListings(service, request), suburbFacts(service, params)]);
+  const seen = new Set(pinned.map(listing => listing.id));
+
+  return {
+    pinned,
+    matches: search.properties.filter(listing => !seen.has(listing.id)),
+    matchCount: search.totalCount,
+    facts,
+  };
+}
+
+/**
+ * Every listing the answer may cite
+ */
+export function copilotContextListings(context: CopilotContext): Listing[] {
+  return [...context.pinned, ...context.matches];
+}
+
+const currency = (value: number) => `$${Math.round(value).toLocaleString('en-AU')}`;
+
+function describeListing(listing: Listing): string {
+  const { address } = listing;
+  const size = [
+    listing.buildingSize && `${listing.buildingSize} m² internal`,
+    listing.landSize && `${listing.landSize} m² land`,
+  ].filter(Boolean).join(', ');
+
+  return [
+    `${citationMarker(listing.id)} ${listing.title}`,
+    `${formatPropertyType(listing.propertyType)} ${listing.listingType.toLowerCase()} in ${address.formatted}`,
+    currency(listing.price),
+    `${listing.bedrooms} bed, ${listing.bathrooms} bath, ${listing.parking} car`,
+    size,
+    listing.yearBuilt && `built ${listing.yearBuilt}`,
+    listing.amenities.length > 0 && `amenities: ${listing.amenities.slice(0, 8).join(', ')}`,
+    listing.highlights.length > 0 && `highlights: ${listing.highlights.slice(0, 4).join(', ')}`,
+    listing.tourAvailable && 'virtual tour available',
+  ].filter(Boolean).join('; ');
+}
+
+function describeFacts(facts: CopilotSuburbFacts): string {
+  return [
+    `${facts.label}${facts.lga ? ` (${facts.lga})` : ''}`,
+    `${facts.listingCount} listings`,
+    facts.averagePrice !== undefined && `average price ${currency(facts.averagePrice)}`,
+    facts.priceRange && `prices from ${currency(facts.priceRange[0])} to ${currency(facts.priceRange[1])}`,
+    facts.pricePerSqm !== undefined && `${currency(facts.pricePerSqm)} per m²`,
+    `market ${facts.marketTrend}`,
+    facts.propertyTypes.length > 0 && `mostly ${facts.propertyTypes.slice(0, 3).map(type => `${type.type} (${type.count})`).join(', ')}`,
+  ].filter(Boolean).join('; ');
+}
+
+/**
+ * The context as it goes into the system prompt
+ */
+export function formatCopilotContext(context: CopilotContext): string {
+  const lines: string[] = [];
+
+  if (context.facts) {
+    lines.push(`Suburb facts: ${describeFacts(context.facts)}`);
+  }
+  if (context.pinned.length > 0) {
+    lines.push('Listings on screen or already discussed:');
+    context.pinned.forEach(listing => lines.push(`- ${describeListing(listing)}`));
+  }
+  if (context.matchCount === 0) {
+    lines.push('No listings matched this question.');
+  } else if (context.matches.length > 0) {
+    lines.push(`Listings matching the question (${context.matchCount} in all; the most relevant are below):`);
+    context.matches.forEach(listing => lines.push(`- ${describeListing(listing)}`));
+  }
+
+  return lines.join('\n');
+}
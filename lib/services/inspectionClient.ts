@@ -0,0 +1,50 @@
+/**
+ * Inspection Client
+ * Browser-side entry point for /api/inspections, which will ask a listing's
+ * agent for a viewing. No delivery channel exists yet, so every request comes
+ * back `not_sent` with the agent's contact details instead.
+ */
+
+export const INSPECTIONS_ENDPOINT = '/api/inspections';
+
+export interface InspectionRequestInput {
+  listingId: string;
+  // ISO date-time, or free text such as "Saturday morning"
+  preferredTime?: string;
+  name?: string;
+  email?: string;
+  phone?: string;
+  notes?: string;
+}
+
+// `not_sent`: nothing reached the agent; the user has to contact them directly
+export type InspectionRequestStatus = 'not_sent';
+
+export interface InspectionRequest extends InspectionRequestInput {
+  id: string;
+  status: InspectionRequestStatus;
+  // What to tell the user about the request, in plain words
+  message: string;
+  listingTitle: string;
+  agentName?: string;
+  agency?: string;
+  agentPhone?: string;
+  agentEmail?: string;
+  createdAt: string;
+}
+
+export async function requestInspection(input: InspectionRequestInput, signal?: AbortSignal): Promise<InspectionRequest> {
+  const response = await fetch(INSPECTIONS_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+    signal,
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Inspection request failed with status ${response.status}`);
+  }
+
+  return response.json();
+}
@@ -0,0 +1,70 @@
+/**
+ * Property Search Client
+ * Browser-side entry point for the /api/properties routes; all voice modes and
+ * the search page go through here rather than searching locally
+ */
+
+import type { Listing, SearchParams } from '@/lib/types';
+import type {
+  AustralianPropertySearchParams,
+  PropertySearchPage,
+  PropertySearchResult,
+} from './AustralianPropertyService';
+
+export const PROPERTY_SEARCH_ENDPOINT = '/api/properties/search';
+
+export async function searchProperties(
+  params: SearchParams | AustralianPropertySearchParams,
+  page: PropertySearchPage = {},
+  signal?: AbortSignal
+): Promise<PropertySearchResult> {
+  const response = await fetch(PROPERTY_SEARCH_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ params, cursor: page.cursor, limit: page.limit }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Property search failed with status ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * A single listing by id; null when there is no such listing
+ */
+export async function getListing(id: string, signal?: AbortSignal): Promise<Listing | null> {
+  const response = await fetch(`/api/properties/${encodeURIComponent(id)}`, { signal });
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Listing lookup failed with status ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Flattens the `{ value, sourceText }` pairs returned by /api/voice/process into
+ * plain search params for a fresh search, skipping fields the extractor left
+ * empty and the `unset`/`remove` refinements, which only apply to an existing search
+ */
+export function searchParamsFromExtraction(extracted: Record<string, unknown>): SearchParams {
+  const params: Record<string, unknown> = {};
+
+  Object.entries(extracted || {}).forEach(([key, field]) => {
+    if (field && typeof field === 'object' && 'value' in field) {
+      const { value, op } = field as { value: unknown; op?: unknown };
+      if (op === 'unset' || op === 'remove') return;
+      if (value !== undefined && value !== null && value !== '') {
+        params[key] = value;
+      }
+    }
+  });
+
+  return params as SearchParams;
+}
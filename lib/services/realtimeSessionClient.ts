@@ -0,0 +1,36 @@
+/**
+ * Realtime Session Client
+ * Browser-side entry point for /api/realtime/session, which trades the
+ * server's API key for a short-lived token good for one realtime session
+ */
+
+import type { RealtimeSessionOptions } from './realtimeSessionConfig';
+
+export const REALTIME_SESSION_ENDPOINT = '/api/realtime/session';
+
+export interface RealtimeSessionToken {
+  token: string;
+  // Milliseconds since the epoch; the token only has to last until the socket opens
+  expiresAt: number;
+  model: string;
+  sessionId?: string;
+}
+
+export async function createRealtimeSession(
+  options: RealtimeSessionOptions = {},
+  signal?: AbortSignal
+): Promise<RealtimeSessionToken> {
+  const response = await fetch(REALTIME_SESSION_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(options),
+    signal,
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Realtime session request failed with status ${response.status}`);
+  }
+
+  return response.json();
+}
@@ -0,0 +1,162 @@
+/**
+ * Realtime Session Config
+ * Everything the realtime voice agent is configured with: model, voice,
+ * instructions, audio formats and tools. The server sends this when it mints a
+ * session token, so the browser never holds the API key or the prompt.
+ */
+
+import { REALTIME_TOOL_DEFINITIONS } from './realtimeTools';
+
+export const REALTIME_VOICES = ['alloy', 'ash', 'ballad', 'coral', 'echo', 'sage', 'shimmer', 'verse', 'cedar', 'marin'] as const;
+
+export type RealtimeVoice = typeof REALTIME_VOICES[number];
+
+export const DEFAULT_REALTIME_MODEL = 'gpt-4o-realtime-preview';
+export const DEFAULT_REALTIME_VOICE: RealtimeVoice = 'cedar';
+// A token only has to last until the browser opens its socket, so a leaked one is soon useless
+export const REALTIME_TOKEN_TTL_S = 60;
+
+export const REALTIME_INSTRUCTIONS = `You are HAUS, an enthusiastic Australian real estate voice assistant. Help users find their perfect property in Australia using natural conversation.
+
+CRITICAL: You MUST respond in the language the user speaks.
+
+Australian Context:
+- Focus on Australian locations: Sydney, Melbourne, Brisbane, Perth, Adelaide, Canberra, Darwin, Hobart
+- Popular suburbs: Bondi, South Yarra, Surfers Paradise, Paddington, Fitzroy, Newtown, St Kilda, Manly
+- Use Australian property terminology: apartment/unit (not condo), house, townhouse, villa, terrace
+- Prices in Australian Dollars (AUD): $500K = $500,000, $1.5M = $1,500,000
+- Australian features: pool, garage, garden, balcony, air conditioning, solar panels
+
+When users describe what they want, extract these parameters:
+- Location (suburb, city, state, postcode)
+- Property type (house, apartment, unit, townhouse, villa, terrace, penthouse)
+- Price range (minimum and maximum in AUD)
+- Bedrooms and bathrooms
+- Amenities (pool, garage, garden, balcony, parking, etc.)
+
+Always:
+1. Be conversational and helpful
+2. Ask clarifying questions if needed
+3. Call search_properties with extracted parameters
+4. Explain the search results enthusiastically
+5. Suggest alternatives if no results found
+
+With listing ids from search results you can also:
+- get_listing_details to answer questions about one listing
+- compare_listings when the user is weighing up two or more
+- calculate_repayments for what a listing or price would cost each month, fortnight or week
+- save_listing when the user wants to keep a listing
+- book_inspection once the user has confirmed the listing and a preferred time. It can't reach agents yet, so pass on its message and the agent's contact details and never say the inspection is booked
+
+Remember: Respond naturally in the user's language and focus on Australian real estate!`;
+
+/**
+ * How the server decides the user has finished speaking. server_vad listens for
+ * silence; semantic_vad also weighs whether the words sound finished.
+ */
+export interface RealtimeTurnDetection {
+  type?: 'server_vad' | 'semantic_vad';
+  // server_vad only, 0-1; higher needs louder speech, which helps in noisy rooms
+  threshold?: number;
+  // server_vad only; audio kept from before speech was detected
+  prefixPaddingMs?: number;
+  // server_vad only; silence that ends the turn
+  silenceDurationMs?: number;
+  // semantic_vad only; how readily it ends the turn
+  eagerness?: 'low' | 'medium' | 'high' | 'auto';
+}
+
+export const DEFAULT_TURN_DETECTION: Required<Omit<RealtimeTurnDetection, 'eagerness'>> = {
+  type: 'server_vad',
+  threshold: 0.5,
+  prefixPaddingMs: 300,
+  silenceDurationMs: 800,
+};
+
+export interface RealtimeSessionOptions {
+  voice?: RealtimeVoice;
+  // BCP 47 code such as "es"; the agent answers in it rather than matching the user
+  language?: string;
+  turnDetection?: RealtimeTurnDetection;
+}
+
+export function isRealtimeVoice(value: unknown): value is RealtimeVoice {
+  return REALTIME_VOICES.includes(value as RealtimeVoice);
+}
+
+const EAGERNESS = ['low', 'medium', 'high', 'auto'];
+
+function inRange(value: unknown, min: number, max: number): boolean {
+  return value === undefined || (typeof value === 'number' && value >= min && value <= max);
+}
+
+/**
+ * Turn detection settings from an untrusted request; undefined when any value is out of range
+ */
+export function parseTurnDetection(value: unknown): RealtimeTurnDetection | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return undefined;
+  const { type, threshold, prefixPaddingMs, silenceDurationMs, eagerness } = value as Record<string, unknown>;
+
+  if (type !== undefined && type !== 'server_vad' && type !== 'semantic_vad') return undefined;
+  if (!inRange(threshold, 0, 1) || !inRange(prefixPaddingMs, 0, 2000) || !inRange(silenceDurationMs, 100, 5000)) return undefined;
+  if (eagerness !== undefined && !EAGERNESS.includes(eagerness as string)) return undefined;
+
+  return { type, threshold, prefixPaddingMs, silenceDurationMs, eagerness } as RealtimeTurnDetection;
+}
+
+/**
+ * The API's turn_detection object, with defaults for anything not given
+ */
+export function toTurnDetectionConfig(turnDetection: RealtimeTurnDetection = {}) {
+  if (turnDetection.type === 'semantic_vad') {
+    return { type: 'semantic_vad', eagerness: turnDetection.eagerness ?? 'auto' };
+  }
+
+  return {
+    type: 'server_vad',
+    threshold: turnDetection.threshold ?? DEFAULT_TURN_DETECTION.threshold,
+    prefix_padding_ms: turnDetection.prefixPaddingMs ?? DEFAULT_TURN_DETECTION.prefixPaddingMs,
+    silence_duration_ms: turnDetection.silenceDurationMs ?? DEFAULT_TURN_DETECTION.silenceDurationMs
+  };
+}
+
+function languageName(code: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * The body for POST /v1/realtime/sessions
+ */
+export function buildRealtimeSession(options: RealtimeSessionOptions = {}, model = DEFAULT_REALTIME_MODEL) {
+  const instructions = options.language
+    ? `${REALTIME_INSTRUCTIONS}\n\nIMPORTANT: Always respond in ${languageName(options.language)}.`
+    : REALTIME_INSTRUCTIONS;
+
+  return {
+    model,
+    client_secret: {
+      expires_after: { anchor: 'created_at', seconds: REALTIME_TOKEN_TTL_S }
+    },
+    modalities: ['text', 'audio'],
+    instructions,
+    voice: options.voice ?? DEFAULT_REALTIME_VOICE,
+    input_audio_format: 'pcm16',
+    output_audio_format: 'pcm16',
+    input_audio_transcription: {
+      model: 'whisper-1'
+    },
+    turn_detection: toTurnDetectionConfig(options.turnDetection),
+    tools: REALTIME_TOOL_DEFINITIONS.map(({ name, description, parameters }) => ({
+      type: 'function',
+      name,
+      description,
+      parameters
+    })),
+    tool_choice: 'auto',
+    temperature: 0.8
+  };
+}
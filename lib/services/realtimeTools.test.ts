@@ -0,0 +1,25 @@
+import { describe, expect, test } from 'bun:test';
+import { generateMockListings } from '@/lib/mock-listing-generator';
+import { InMemoryListingRepository } from '@/lib/repositories/InMemoryListingRepository';
+import { AustralianPropertyService } from './AustralianPropertyService';
+import { summarizePropertySearch } from './realtimeTools';
+
+const service = new AustralianPropertyService(new InMemoryListingRepository(generateMockListings({ count: 40, seed: 'realtime-tools' })));
+
+describe('summarizePropertySearch', () => {
+  test('reports the price range of every match and the cheapest of the page', async () => {
+    const result = await service.searchProperties({ sortBy: 'price-desc' }, { limit: 10 });
+    const summary = summarizePropertySearch(result, 3);
+
+    expect(summary.status).toBe('success');
+    expect(summary.totalCount).toBe(40);
+    expect(summary.listings).toHaveLength(3);
+    expect(summary.cheapestShown?.id).toBe(result.properties[9].id);
+    expect(summary.priceRange?.[0]).toBeLessThan(summary.cheapestShown!.price);
+  });
+
+  test('reports no results with suggestions', async () => {
+    const summary = summarizePropertySearch(await service.searchProperties({ priceMax: 1 }));
+    expect(summary).toEqual({ status: 'no_results', totalCount: 0, listings: [], suggestions: expect.any(Array) });
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Realtime Tools
+ * Function tools the realtime voice agent can call, each wired to an app
+ * service. The definitions are offered to the model when the server creates
+ * the session; the handlers run in the browser. Results are summarised before
+ * they go back to the model so it can talk about them without spending its
+ * context on full listings.
+ */
+
+import type { Listing } from '@/lib/types';
+import type { PropertySearchResult } from './AustralianPropertyService';
+import type { InspectionRequest, InspectionRequestInput } from './inspectionClient';
+import { estimateRepayments, type RepaymentEstimate, type RepaymentFrequency } from '@/lib/repayments';
+
+export interface RealtimeToolDefinition {
+  name: string;
+  description: string;
+  // JSON Schema for the arguments
+  parameters: Record<string, unknown>;
+}
+
+export interface RealtimeTool<Args = any, Result = any> extends RealtimeToolDefinition {
+  // Omitted when a listener answers the call itself with sendFunctionResult
+  handler?: (args: Args) => Promise<Result>;
+  // Shapes the result for the model; listeners still receive the full result
+  summarize?: (result: Result) => unknown;
+}
+
+export interface PropertySearchParams {
+  location?: string;
+  propertyType?: string;
+  priceMin?: number;
+  priceMax?: number;
+  bedrooms?: number;
+  amenities?: string[];
+}
+
+export interface RealtimeToolServices {
+  searchProperties: (params: PropertySearchParams) => Promise<PropertySearchResult>;
+  getListing: (id: string) => Promise<Listing | null>;
+  // False when the listing was already saved
+  saveListing: (id: string) => boolean;
+  requestInspection: (input: InspectionRequestInput) => Promise<InspectionRequest>;
+}
+
+export interface PropertySearchSummaryListing {
+  id: string;
+  title: string;
+  price: number;
+  propertyType: string;
+  suburb: string;
+  bedrooms: number;
+  bathrooms: number;
+  parking: number;
+}
+
+export interface PropertySearchSummary {
+  status: 'success' | 'no_results';
+  totalCount: number;
+  // Across every match, not just the listings below
+  priceRange?: [number, number];
+  // Cheapest of the page of results the search returned; a cheaper match may be on a later page
+  cheapestShown?: PropertySearchSummaryListing;
+  listings: PropertySearchSummaryListing[];
+  suggestions: string[];
+}
+
+export const PROPERTY_SEARCH_SUMMARY_LIMIT = 5;
+export const MAX_COMPARED_LISTINGS = 4;
+
+const LISTING_ID = {
+  type: 'string',
+  description: 'Listing id, as returned by search_properties',
+};
+
+const SEARCH_PROPERTIES: RealtimeToolDefinition = {
+  name: 'search_properties',
+  description: 'Search Australian property listings. Send the whole search each time, not just what changed.',
+  parameters: {
+    type: 'object',
+    properties: {
+      location: {
+        type: 'string',
+        description: 'Suburb, city, state or postcode, e.g. "Bondi, NSW" or "3141"'
+      },
+      propertyType: {
+        type: 'string',
+        description: 'house, apartment, unit, townhouse, villa, terrace, penthouse or studio'
+      },
+      priceMin: {
+        type: 'number',
+        description: 'Minimum price in AUD'
+      },
+      priceMax: {
+        type: 'number',
+        description: 'Maximum price in AUD'
+      },
+      bedrooms: {
+        type: 'number',
+        description: 'Minimum number of bedrooms'
+      },
+      amenities: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Desired amenities like pool, garage, garden, balcony or air conditioning'
+      }
+    }
+  },
+};
+
+const LISTING_DETAILS: RealtimeToolDefinition = {
+  name: 'get_listing_details',
+  description: 'Full details of one listing: description, sizes, features, agent and price history.',
+  parameters: {
+    type: 'object',
+    properties: { listingId: LISTING_ID },
+    required: ['listingId']
+  },
+};
+
+const COMPARE_LISTINGS: RealtimeToolDefinition = {
+  name: 'compare_listings',
+  description: `Compare two to ${MAX_COMPARED_LISTINGS} listings side by side on price, size, rooms and amenities.`,
+  parameters: {
+    type: 'object',
+    properties: {
+      listingIds: {
+        type: 'array',
+        items: LISTING_ID,
+        description: `Between 2 and ${MAX_COMPARED_LISTINGS} listing ids`
+      }
+    },
+    required: ['listingIds']
+  },
+};
+
+const CALCULATE_REPAYMENTS: RealtimeToolDefinition = {
+  name: 'calculate_repayments',
+  description: 'Estimate principal-and-interest home loan repayments in AUD for a listing or a price. Unstated values default to a 20% deposit, 6.2% interest over 30 years, paid monthly.',
+  parameters: {
+    type: 'object',
+    properties: {
+      listingId: { ...LISTING_ID, description: 'Listing whose price to use; omit when giving a price' },
+      price: { type: 'number', description: 'Purchase price in AUD' },
+      deposit: { type: 'number', description: 'Deposit in AUD' },
+      depositPercent: { type: 'number', description: 'Deposit as a percentage of the price' },
+      interestRate: { type: 'number', description: 'Annual interest rate as a percentage, e.g. 6.2' },
+      termYears: { type: 'number', description: 'Loan term in years' },
+      frequency: { type: 'string', enum: ['weekly', 'fortnightly', 'monthly'] }
+    }
+  },
+};
+
+const SAVE_LISTING: RealtimeToolDefinition = {
+  name: 'save_listing',
+  description: "Add a listing to the user's saved properties.",
+  parameters: {
+    type: 'object',
+    properties: { listingId: LISTING_ID },
+    required: ['listingId']
+  },
+};
+
+const BOOK_INSPECTION: RealtimeToolDefinition = {
+  name: 'book_inspection',
+  description: "Ask the listing's agent for an inspection. Confirm the listing and preferred time with the user first. Tell the user the returned message as it is: a not_sent request has not reached the agent and nothing is booked.",
+  parameters: {
+    type: 'object',
+    properties: {
+      listingId: LISTING_ID,
+      preferredTime: { type: 'string', description: 'When the user would like to inspect, e.g. "Saturday morning"' },
+      name: { type: 'string', description: "The user's name, if they gave it" },
+      email: { type: 'string' },
+      phone: { type: 'string' },
+      notes: { type: 'string', description: 'Anything else the agent should know' }
+    },
+    required: ['listingId']
+  },
+};
+
+function summarizeListing(listing: Listing): PropertySearchSummaryListing {
+  return {
+    id: listing.id,
+    title: listing.title,
+    price: listing.price,
+    propertyType: listing.propertyType,
+    suburb: listing.address.suburb,
+    bedrooms: listing.bedrooms,
+    bathrooms: listing.bathrooms,
+    parking: listing.parking,
+  };
+}
+
+export function summarizePropertySearch(
+  result: PropertySearchResult,
+  limit = PROPERTY_SEARCH_SUMMARY_LIMIT
+): PropertySearchSummary {
+  if (result.totalCount === 0 || result.properties.length === 0) {
+    return { status: 'no_results', totalCount: 0, listings: [], suggestions: result.suggestions.slice(0, 3) };
+  }
+
+  const cheapestShown = result.properties.reduce((best, listing) => listing.price < best.price ? listing : best);
+  return {
+    status: 'success',
+    totalCount: result.totalCount,
+    priceRange: result.priceAnalysis.priceRange,
+    cheapestShown: summarizeListing(cheapestShown),
+    listings: result.properties.slice(0, limit).map(summarizeListing),
+    suggestions: result.suggestions.slice(0, 3),
+  };
+}
+
+function listingId(value: unknown): string {
+  if (typeof value !== 'string' || !value.trim()) throw new Error('A listingId is required');
+  return value.trim();
+}
+
+async function requireListing(services: RealtimeToolServices, id: unknown): Promise<Listing> {
+  const listing = await services.getListing(listingId(id));
+  if (!listing) throw new Error(`No listing has the id ${id}`);
+  return listing;
+}
+
+function pricePerSqm(listing: Listing): number | undefined {
+  const size = listing.buildingSize || listing.landSize;
+  return size ? Math.round(listing.price / size) : undefined;
+}
+
+export function searchPropertiesTool(
+  resolve?: (params: PropertySearchParams) => Promise<PropertySearchResult>
+): RealtimeTool<PropertySearchParams, PropertySearchResult> {
+  return {
+    ...SEARCH_PROPERTIES,
+    handler: resolve,
+    summarize: result => summarizePropertySearch(result),
+  };
+}
+
+export function listingDetailsTool(services: RealtimeToolServices): RealtimeTool<{ listingId: string }, Listing> {
+  return {
+    ...LISTING_DETAILS,
+    handler: ({ listingId: id }) => requireListing(services, id),
+    summarize: listing => ({
+      ...summarizeListing(listing),
+      address: listing.address.formatted,
+      listingType: listing.listingType,
+      description: listing.description.slice(0, 400),
+      buildingSize: listing.buildingSize,
+      landSize: listing.landSize,
+      yearBuilt: listing.yearBuilt,
+      amenities: listing.amenities,
+      highlights: listing.highlights,
+      features: listing.features,
+      tourAvailable: listing.tourAvailable,
+      agent: listing.agent && { name: listing.agent.name, agency: listing.agent.agency },
+      listedDate: listing.listedDate,
+      priceHistory: listing.priceHistory?.slice(-3),
+    }),
+  };
+}
+
+export function compareListingsTool(services: RealtimeToolServices): RealtimeTool<{ listingIds: string[] }, Listing[]> {
+  return {
+    ...COMPARE_LISTINGS,
+    handler: async ({ listingIds }) => {
+      if (!Array.isArray(listingIds)) throw new Error('listingIds must be a list');
+      const ids = [...new Set(listingIds.map(listingId))];
+      if (ids.length < 2 || ids.length > MAX_COMPARED_LISTINGS) {
+        throw new Error(`Compare between 2 and ${MAX_COMPARED_LISTINGS} different listings`);
+      }
+      return Promise.all(ids.map(id => requireListing(services, id)));
+    },
+    summarize: listings => {
+      const best = (score: (listing: Listing) => number) =>
+        listings.reduce((top, listing) => score(listing) > score(top) ? listing : top).id;
+      return {
+        listings: listings.map(listing => ({
+          ...summarizeListing(listing),
+          buildingSize: listing.buildingSize,
+          landSize: listing.landSize,
+          pricePerSqm: pricePerSqm(listing),
+          amenities: listing.amenities,
+        })),
+        cheapest: best(listing => -listing.price),
+        mostBedrooms: best(listing => listing.bedrooms),
+        largest: best(listing => listing.buildingSize || listing.landSize || 0),
+      };
+    },
+  };
+}
+
+interface RepaymentArgs {
+  listingId?: string;
+  price?: number;
+  deposit?: number;
+  depositPercent?: number;
+  interestRate?: number;
+  termYears?: number;
+  frequency?: RepaymentFrequency;
+}
+
+export function calculateRepaymentsTool(
+  services: RealtimeToolServices
+): RealtimeTool<RepaymentArgs, RepaymentEstimate & { listingId?: string }> {
+  return {
+    ...CALCULATE_REPAYMENTS,
+    handler: async ({ listingId: id, price, ...loan }) => {
+      const listing = id ? await requireListing(services, id) : undefined;
+      const purchasePrice = listing?.price ?? price;
+      if (typeof purchasePrice !== 'number') throw new Error('Give either a listingId or a price');
+      return { ...estimateRepayments({ ...loan, price: purchasePrice }), listingId: listing?.id };
+    },
+  };
+}
+
+export function saveListingTool(
+  services: RealtimeToolServices
+): RealtimeTool<{ listingId: string }, { listingId: string; title: string; alreadySaved: boolean }> {
+  return {
+    ...SAVE_LISTING,
+    handler: async ({ listingId: id }) => {
+      const listing = await requireListing(services, id);
+      return { listingId: listing.id, title: listing.title, alreadySaved: !services.saveListing(listing.id) };
+    },
+  };
+}
+
+export function bookInspectionTool(
+  services: RealtimeToolServices
+): RealtimeTool<InspectionRequestInput, InspectionRequest> {
+  return {
+    ...BOOK_INSPECTION,
+    handler: args => services.requestInspection({ ...args, listingId: listingId(args.listingId) }),
+    summarize: request => ({
+      status: request.status,
+      message: request.message,
+      listingTitle: request.listingTitle,
+      agentName: request.agentName,
+      agency: request.agency,
+      agentPhone: request.agentPhone,
+      agentEmail: request.agentEmail,
+      preferredTime: request.preferredTime,
+    }),
+  };
+}
+
+/**
+ * What the model is offered, in order; the server sends these when it creates a session
+ */
+export const REALTIME_TOOL_DEFINITIONS: RealtimeToolDefinition[] = [
+  SEARCH_PROPERTIES,
+  LISTING_DETAILS,
+  COMPARE_LISTINGS,
+  CALCULATE_REPAYMENTS,
+  SAVE_LISTING,
+  BOOK_INSPECTION,
+];
+
+/**
+ * Handlers for every tool in REALTIME_TOOL_DEFINITIONS
+ */
+export function createRealtimeTools(services: RealtimeToolServices): RealtimeTool[] {
+  return [
+    searchPropertiesTool(services.searchProperties),
+    listingDetailsTool(services),
+    compareListingsTool(services),
+    calculateRepaymentsTool(services),
+    saveListingTool(services),
+    bookInspectionTool(services),
+  ];
+}
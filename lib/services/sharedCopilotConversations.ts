@@ -0,0 +1,34 @@
+/**
+ * The copilot conversation store behind the /api/copilot routes (server-side only).
+ * Shared across requests so every route sees the same conversations.
+ */
+
+import { verifyBrowserSession } from '@/lib/browser-session';
+import { copilotConversationKey } from '@/lib/copilot-memory';
+import type { CopilotConversationRepository } from '@/lib/repositories/CopilotConversationRepository';
+import { createCopilotConversationRepository } from '@/lib/repositories/createCopilotConversationRepository';
+
+let conversations: CopilotConversationRepository | null = null;
+
+export function getCopilotConversations(): CopilotConversationRepository {
+  if (!conversations) {
+    conversations = createCopilotConversationRepository();
+  }
+  return conversations;
+}
+
+/**
+ * The store key for a user's conversation in the browser session the cookie
+ * vouches for; undefined when the cookie is missing or invalid, or when
+ * SESSION_SECRET isn't set and no session can be checked
+ */
+export async function verifiedCopilotConversationKey(
+  sessionCookie: string | undefined,
+  userId: string
+): Promise<string | undefined> {
+  const secret = process.env.SESSION_SECRET;
+  const sessionId = secret ? await verifyBrowserSession(sessionCookie, secret) : undefined;
+  return sessionId && copilotConversationKey(sessionId, userId);
+}
+
+export default getCopilotConversations;
@@ -0,0 +1,18 @@
+/**
+ * The property service behind the /api/properties routes (server-side only).
+ * Shared across requests so cursors keep pointing into the same corpus.
+ */
+
+import { AustralianPropertyService } from './AustralianPropertyService';
+import { createListingRepository } from '@/lib/repositories/createListingRepository';
+
+let service: AustralianPropertyService | null = null;
+
+export function getPropertyService(): AustralianPropertyService {
+  if (!service) {
+    service = new AustralianPropertyService(createListingRepository());
+  }
+  return service;
+}
+
+export default getPropertyService;
@@ -0,0 +1,46 @@
+/**
+ * Voice Query Client
+ * Browser-side entry point for /api/voice/process, which reads a spoken or
+ * typed query as changes to the current search
+ */
+
+import type { SearchParams } from '@/lib/types';
+import { findUnsupportedPhrases, parseSearchQuery } from '@/lib/query-parser';
+import { normalizeExtractedParams, type NormalizedExtraction } from '@/lib/extraction/normalizeExtractedParams';
+
+export const VOICE_PROCESS_ENDPOINT = '/api/voice/process';
+
+export interface VoiceQueryResult extends NormalizedExtraction {
+  // Fields the extractor returned that didn't fit the schema, dropped before
+  // normalising, or parts of the query no field could hold
+  issues: string[];
+}
+
+/**
+ * Reads the query with the rule-based parser, for when the endpoint can't be
+ * reached or a model isn't worth the wait
+ */
+export function parseVoiceQueryLocally(query: string, currentParams: SearchParams = {}): VoiceQueryResult {
+  const issues = findUnsupportedPhrases(query).map(phrase => `"${phrase}": not a search field`);
+  return { ...normalizeExtractedParams(parseSearchQuery(query, currentParams), currentParams), issues };
+}
+
+export async function processVoiceQuery(
+  query: string,
+  currentParams: SearchParams = {},
+  signal?: AbortSignal
+): Promise<VoiceQueryResult> {
+  const response = await fetch(VOICE_PROCESS_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, currentParams }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Voice query failed with status ${response.status}`);
+  }
+
+  return response.json();
+}
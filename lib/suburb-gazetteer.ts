@@ -0,0 +1,140 @@
+/**
+ * Suburb gazetteer
+ * Bundled centroids for the Australian suburbs and cities the app searches.
+ * Coordinates are approximate suburb centres, good to a few hundred metres.
+ */
+
+import type { AustralianState, GeoPoint } from './types';
+
+export type GazetteerPlaceType = 'suburb' | 'city';
+
+export interface GazetteerEntry {
+  name: string;
+  type: GazetteerPlaceType;
+  state: AustralianState;
+  postcode: string;
+  // Local government area
+  lga: string;
+  centroid: GeoPoint;
+}
+
+// [name, state, postcode, lat, lng, lga, type]; cities are the CBD suburb of the same name
+const GAZETTEER_ROWS: [string, AustralianState, string, number, number, string, GazetteerPlaceType][] = [
+  // Sydney
+  ['Sydney', 'NSW', '2000', -33.8688, 151.2093, 'City of Sydney', 'city'],
+  ['Surry Hills', 'NSW', '2010', -33.8861, 151.2111, 'City of Sydney', 'suburb'],
+  ['Darlinghurst', 'NSW', '2010', -33.8790, 151.2190, 'City of Sydney', 'suburb'],
+  ['Paddington', 'NSW', '2021', -33.8847, 151.2265, 'City of Sydney', 'suburb'],
+  ['Woollahra', 'NSW', '2025', -33.8860, 151.2440, 'Woollahra', 'suburb'],
+  ['Double Bay', 'NSW', '2028', -33.8776, 151.2420, 'Woollahra', 'suburb'],
+  ['Rose Bay', 'NSW', '2029', -33.8700, 151.2700, 'Woollahra', 'suburb'],
+  ['Bondi Junction', 'NSW', '2022', -33.8930, 151.2500, 'Waverley', 'suburb'],
+  ['Bondi', 'NSW', '2026', -33.8940, 151.2640, 'Waverley', 'suburb'],
+  ['Bondi Beach', 'NSW', '2026', -33.8908, 151.2743, 'Waverley', 'suburb'],
+  ['North Bondi', 'NSW', '2026', -33.8850, 151.2800, 'Waverley', 'suburb'],
+  ['Tamarama', 'NSW', '2026', -33.8989, 151.2707, 'Waverley', 'suburb'],
+  ['Bronte', 'NSW', '2024', -33.9036, 151.2640, 'Waverley', 'suburb'],
+  ['Randwick', 'NSW', '2031', -33.9146, 151.2437, 'Randwick', 'suburb'],
+  ['Coogee', 'NSW', '2034', -33.9200, 151.2553, 'Randwick', 'suburb'],
+  ['Newtown', 'NSW', '2042', -33.8980, 151.1790, 'Inner West', 'suburb'],
+  ['Glebe', 'NSW', '2037', -33.8800, 151.1850, 'City of Sydney', 'suburb'],
+  ['Balmain', 'NSW', '2041', -33.8580, 151.1790, 'Inner West', 'suburb'],
+  ['Mosman', 'NSW', '2088', -33.8290, 151.2440, 'Mosman', 'suburb'],
+  ['Manly', 'NSW', '2095', -33.7969, 151.2840, 'Northern Beaches', 'suburb'],
+  ['Chatswood', 'NSW', '2067', -33.7960, 151.1830, 'Willoughby', 'suburb'],
+  ['Parramatta', 'NSW', '2150', -33.8150, 151.0010, 'City of Parramatta', 'suburb'],
+  ['Cronulla', 'NSW', '2230', -34.0580, 151.1520, 'Sutherland Shire', 'suburb'],
+  ['Newcastle', 'NSW', '2300', -32.9283, 151.7817, 'City of Newcastle', 'city'],
+  ['Byron Bay', 'NSW', '2481', -28.6474, 153.6020, 'Byron Shire', 'suburb'],
+  // Melbourne
+  ['Melbourne', 'VIC', '3000', -37.8136, 144.9631, 'City of Melbourne', 'city'],
+  ['Carlton', 'VIC', '3053', -37.8000, 144.9670, 'City of Melbourne', 'suburb'],
+  ['Fitzroy', 'VIC', '3065', -37.7980, 144.9780, 'City of Yarra', 'suburb'],
+  ['Collingwood', 'VIC', '3066', -37.8020, 144.9880, 'City of Yarra', 'suburb'],
+  ['Brunswick', 'VIC', '3056', -37.7670, 144.9610, 'Merri-bek', 'suburb'],
+  ['Richmond', 'VIC', '3121', -37.8230, 144.9980, 'City of Yarra', 'suburb'],
+  ['Hawthorn', 'VIC', '3122', -37.8220, 145.0350, 'City of Boroondara', 'suburb'],
+  ['South Yarra', 'VIC', '3141', -37.8390, 144.9920, 'City of Stonnington', 'suburb'],
+  ['Toorak', 'VIC', '3142', -37.8420, 145.0180, 'City of Stonnington', 'suburb'],
+  ['Prahran', 'VIC', '3181', -37.8500, 144.9930, 'City of Stonnington', 'suburb'],
+  ['St Kilda', 'VIC', '3182', -37.8680, 144.9810, 'City of Port Phillip', 'suburb'],
+  ['Brighton', 'VIC', '3186', -37.9060, 145.0000, 'City of Bayside', 'suburb'],
+  ['Williamstown', 'VIC', '3016', -37.8620, 144.8970, 'City of Hobsons Bay', 'suburb'],
+  // Brisbane and south-east Queensland
+  ['Brisbane', 'QLD', '4000', -27.4698, 153.0251, 'City of Brisbane', 'city'],
+  ['New Farm', 'QLD', '4005', -27.4670, 153.0470, 'City of Brisbane', 'suburb'],
+  ['Fortitude Valley', 'QLD', '4006', -27.4570, 153.0340, 'City of Brisbane', 'suburb'],
+  ['Ascot', 'QLD', '4007', -27.4310, 153.0580, 'City of Brisbane', 'suburb'],
+  ['Paddington', 'QLD', '4064', -27.4600, 152.9990, 'City of Brisbane', 'suburb'],
+  ['South Brisbane', 'QLD', '4101', -27.4800, 153.0200, 'City of Brisbane', 'suburb'],
+  ['West End', 'QLD', '4101', -27.4820, 153.0090, 'City of Brisbane', 'suburb'],
+  ['Main Beach', 'QLD', '4217', -27.9800, 153.4270, 'City of Gold Coast', 'suburb'],
+  ['Surfers Paradise', 'QLD', '4217', -28.0023, 153.4145, 'City of Gold Coast', 'suburb'],
+  ['Broadbeach', 'QLD', '4218', -28.0270, 153.4310, 'City of Gold Coast', 'suburb'],
+  ['Burleigh Heads', 'QLD', '4220', -28.0880, 153.4500, 'City of Gold Coast', 'suburb'],
+  ['Noosa Heads', 'QLD', '4567', -26.3940, 153.0900, 'Noosa Shire', 'suburb'],
+  // Perth
+  ['Perth', 'WA', '6000', -31.9505, 115.8605, 'City of Perth', 'city'],
+  ['Subiaco', 'WA', '6008', -31.9490, 115.8270, 'City of Subiaco', 'suburb'],
+  ['Cottesloe', 'WA', '6011', -31.9960, 115.7590, 'Town of Cottesloe', 'suburb'],
+  ['Scarborough', 'WA', '6019', -31.8940, 115.7570, 'City of Stirling', 'suburb'],
+  ['Fremantle', 'WA', '6160', -32.0560, 115.7470, 'City of Fremantle', 'suburb'],
+  // Adelaide
+  ['Adelaide', 'SA', '5000', -34.9285, 138.6007, 'City of Adelaide', 'city'],
+  ['North Adelaide', 'SA', '5006', -34.9070, 138.5930, 'City of Adelaide', 'suburb'],
+  ['Glenelg', 'SA', '5045', -34.9800, 138.5150, 'City of Holdfast Bay', 'suburb'],
+  ['Norwood', 'SA', '5067', -34.9210, 138.6330, 'City of Norwood Payneham & St Peters', 'suburb'],
+  ['Stirling', 'SA', '5152', -35.0050, 138.7170, 'Adelaide Hills Council', 'suburb'],
+  // Hobart
+  ['Hobart', 'TAS', '7000', -42.8821, 147.3272, 'City of Hobart', 'city'],
+  ['Battery Point', 'TAS', '7004', -42.8900, 147.3320, 'City of Hobart', 'suburb'],
+  ['Sandy Bay', 'TAS', '7005', -42.9000, 147.3250, 'City of Hobart', 'suburb'],
+  // Canberra
+  ['Canberra', 'ACT', '2601', -35.2809, 149.1300, 'Canberra', 'city'],
+  ['Kingston', 'ACT', '2604', -35.3150, 149.1450, 'Canberra', 'suburb'],
+  ['Braddon', 'ACT', '2612', -35.2710, 149.1350, 'Canberra', 'suburb'],
+  // Darwin
+  ['Darwin', 'NT', '0800', -12.4634, 130.8456, 'City of Darwin', 'city'],
+  ['Larrakeyah', 'NT', '0820', -12.4580, 130.8320, 'City of Darwin', 'suburb'],
+];
+
+export const SUBURB_GAZETTEER: GazetteerEntry[] = GAZETTEER_ROWS.map(([name, state, postcode, lat, lng, lga, type]) => ({
+  name,
+  type,
+  state,
+  postcode,
+  lga,
+  centroid: { lat, lng },
+}));
+
+// Kept local rather than imported so the listing adapters can depend on this module
+const STATE_CODE = /^(NSW|VIC|QLD|WA|SA|TAS|ACT|NT)$/i;
+
+export function normalizeName(value: string): string {
+  return value.toLowerCase().replace(/\bst\.?\s/g, 'st ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Exact (case-insensitive) lookup of text such as "Bondi", "Bondi Beach, NSW"
+ * or "Paddington QLD 4064". When a name exists in several states and none is
+ * given, the first entry wins.
+ */
+export function findSuburb(text: string, state?: string): GazetteerEntry | undefined {
+  let name = text.trim();
+  let wantedState = state && STATE_CODE.test(state) ? state.toUpperCase() : undefined;
+
+  const suffix = name.match(/[\s,]+([A-Za-z]{2,3})(?:\s+\d{3,4})?$/);
+  if (suffix && STATE_CODE.test(suffix[1])) {
+    wantedState = wantedState || suffix[1].toUpperCase();
+    name = name.slice(0, suffix.index);
+  }
+  name = normalizeName(name.replace(/[\s,]+\d{3,4}$/, ''));
+
+  return SUBURB_GAZETTEER.find(entry =>
+    normalizeName(entry.name) === name && (!wantedState || entry.state === wantedState)
+  );
+}
+
+export function getSuburbCentroid(suburb: string, state?: string): GeoPoint | undefined {
+  return findSuburb(suburb, state)?.centroid;
+}
@@ -0,0 +1,121 @@
+/**
+ * Server Speech Engine
+ * Speaks with audio synthesised by /api/tts. Upcoming sentences are fetched
+ * while the current one plays, so there is no gap between them.
+ */
+
+import type { SpeakOptions, SpeechEngine, SpeechVoice } from './SpeechEngine';
+
+export const TTS_ENDPOINT = '/api/tts';
+// Longer text has to be split before it is sent
+export const MAX_TTS_TEXT_LENGTH = 1000;
+export const SERVER_TTS_VOICES = ['alloy', 'ash', 'coral', 'echo', 'fable', 'nova', 'onyx', 'sage', 'shimmer'] as const;
+export type ServerTtsVoice = (typeof SERVER_TTS_VOICES)[number];
+export const DEFAULT_SERVER_TTS_VOICE: ServerTtsVoice = 'sage';
+
+export function isServerTtsVoice(value: unknown): value is ServerTtsVoice {
+  return typeof value === 'string' && (SERVER_TTS_VOICES as readonly string[]).includes(value);
+}
+
+export class ServerSpeechEngine implements SpeechEngine {
+  readonly name = 'server' as const;
+  private pending = new Map<string, Promise<Blob>>();
+  private controller = new AbortController();
+  private audio: HTMLAudioElement | null = null;
+  private finishCurrent: (() => void) | null = null;
+
+  constructor(private endpoint = TTS_ENDPOINT) {}
+
+  get supported(): boolean {
+    return typeof window !== 'undefined' && typeof Audio !== 'undefined';
+  }
+
+  prepare(text: string, options: SpeakOptions = {}): void {
+    const key = this.key(text, options);
+    if (!this.pending.has(key)) {
+      const audio = this.fetchAudio(text, options, this.controller.signal);
+      // Failures surface when the text is spoken
+      audio.catch(() => {});
+      this.pending.set(key, audio);
+    }
+  }
+
+  async speak(text: string, options: SpeakOptions = {}): Promise<void> {
+    const signal = this.controller.signal;
+    const key = this.key(text, options);
+    this.prepare(text, options);
+    const audio = this.pending.get(key)!;
+    this.pending.delete(key);
+
+    let blob: Blob;
+    try {
+      blob = await audio;
+    } catch (error) {
+      if (signal.aborted) return;
+      throw error;
+    }
+    if (signal.aborted) return;
+
+    const url = URL.createObjectURL(blob);
+    try {
+      await this.play(url, options.rate ?? 1);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  cancel(): void {
+    this.controller.abort();
+    this.controller = new AbortController();
+    this.pending.clear();
+    this.audio?.pause();
+    this.finishCurrent?.();
+  }
+
+  async voices(): Promise<SpeechVoice[]> {
+    return SERVER_TTS_VOICES.map(voice => ({ id: voice, name: voice[0].toUpperCase() + voice.slice(1) }));
+  }
+
+  private key(text: string, options: SpeakOptions): string {
+    return `${options.voice ?? ''}|${text}`;
+  }
+
+  private async fetchAudio(text: string, options: SpeakOptions, signal: AbortSignal): Promise<Blob> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text, voice: isServerTtsVoice(options.voice) ? options.voice : undefined }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `Speech request failed with status ${response.status}`);
+    }
+
+    return response.blob();
+  }
+
+  private play(url: string, rate: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const audio = new Audio(url);
+      audio.playbackRate = rate;
+      this.audio = audio;
+
+      const finish = (error?: Error) => {
+        audio.onended = null;
+        audio.onerror = null;
+        if (this.audio === audio) this.audio = null;
+        this.finishCurrent = null;
+        if (error) reject(error);
+        else resolve();
+      };
+      this.finishCurrent = () => finish();
+      audio.onended = () => finish();
+      audio.onerror = () => finish(new Error('The synthesised speech could not be played'));
+      audio.play().catch(error => finish(error instanceof Error ? error : new Error(String(error))));
+    });
+  }
+}
+
+export default ServerSpeechEngine;
@@ -0,0 +1,44 @@
+/**
+ * Silent Speech Engine
+ * Records what it is asked to say instead of playing it; for tests and for
+ * environments without audio
+ */
+
+import type { SpeakOptions, SpeechEngine, SpeechVoice } from './SpeechEngine';
+
+export class SilentSpeechEngine implements SpeechEngine {
+  readonly name = 'silent' as const;
+  readonly supported = true;
+  readonly spoken: string[] = [];
+  private finishCurrent: (() => void) | null = null;
+
+  /**
+   * @param msPerCharacter how long each text pretends to take, so timing-dependent callers can be exercised
+   */
+  constructor(private msPerCharacter = 0) {}
+
+  speak(text: string, _options?: SpeakOptions): Promise<void> {
+    this.spoken.push(text);
+    if (this.msPerCharacter <= 0) return Promise.resolve();
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => finish(), text.length * this.msPerCharacter);
+      const finish = () => {
+        clearTimeout(timer);
+        this.finishCurrent = null;
+        resolve();
+      };
+      this.finishCurrent = finish;
+    });
+  }
+
+  cancel(): void {
+    this.finishCurrent?.();
+  }
+
+  async voices(): Promise<SpeechVoice[]> {
+    return [{ id: 'silent', name: 'Silent', local: true }];
+  }
+}
+
+export default SilentSpeechEngine;
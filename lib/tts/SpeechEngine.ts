@@ -0,0 +1,40 @@
+/**
+ * Speech Engine
+ * Text-to-speech abstraction the copilot reads its answers aloud through.
+ * Engines speak one chunk of text at a time; SpeechQueue strings them together.
+ */
+
+export type SpeechEngineName = 'browser' | 'server' | 'silent';
+
+export interface SpeechVoice {
+  id: string;
+  name: string;
+  lang?: string;
+  // Runs on the device, so it keeps working offline
+  local?: boolean;
+}
+
+export interface SpeakOptions {
+  // A SpeechVoice id; engines pick their own default when unset or unknown
+  voice?: string;
+  // 1 is normal speed
+  rate?: number;
+}
+
+export interface SpeechEngine {
+  readonly name: SpeechEngineName;
+  /** False when this environment can't run the engine, e.g. no speechSynthesis */
+  readonly supported: boolean;
+  /**
+   * Resolves when the text has been spoken, or straight away once cancel() is called
+   * @throws when the engine fails to produce audio for the text
+   */
+  speak(text: string, options?: SpeakOptions): Promise<void>;
+  /** Starts producing audio for text that will be spoken soon */
+  prepare?(text: string, options?: SpeakOptions): void;
+  /** Stops the current text and drops anything prepared */
+  cancel(): void;
+  voices(): Promise<SpeechVoice[]>;
+}
+
+export default SpeechEngine;
@@ -0,0 +1,72 @@
+/**
+ * Speech Queue
+ * Speaks chunks of text one after another as they arrive, giving the engine a
+ * head start on the ones still waiting
+ */
+
+import type { SpeakOptions, SpeechEngine } from './SpeechEngine';
+
+export interface SpeechQueueOptions extends SpeakOptions {
+  /** Called when the queue starts speaking after being idle */
+  onStart?: () => void;
+  /** Called once everything queued has been spoken; not after stop() */
+  onIdle?: () => void;
+  onError?: (error: Error) => void;
+}
+
+export class SpeechQueue {
+  private queue: string[] = [];
+  private running = false;
+  // Bumped by stop() so a playback loop that is still awaiting knows to quit
+  private generation = 0;
+
+  constructor(private engine: SpeechEngine, private options: SpeechQueueOptions = {}) {}
+
+  get speaking(): boolean {
+    return this.running;
+  }
+
+  get engineName(): SpeechEngine['name'] {
+    return this.engine.name;
+  }
+
+  enqueue(text: string): void {
+    const chunk = text.trim();
+    if (!chunk) return;
+
+    this.queue.push(chunk);
+    this.engine.prepare?.(chunk, this.options);
+    if (!this.running) void this.run();
+  }
+
+  stop(): void {
+    this.generation++;
+    this.queue = [];
+    this.running = false;
+    this.engine.cancel();
+  }
+
+  private async run(): Promise<void> {
+    const generation = this.generation;
+    const { voice, rate } = this.options;
+    this.running = true;
+    this.options.onStart?.();
+
+    while (this.queue.length > 0 && generation === this.generation) {
+      const chunk = this.queue.shift()!;
+      try {
+        await this.engine.speak(chunk, { voice, rate });
+      } catch (error) {
+        // One bad chunk shouldn't silence the rest of the answer
+        this.options.onError?.(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+
+    if (generation === this.generation) {
+      this.running = false;
+      this.options.onIdle?.();
+    }
+  }
+}
+
+export default SpeechQueue;
@@ -0,0 +1,98 @@
+/**
+ * Web Speech Engine
+ * Speaks through the browser's speechSynthesis. Without a chosen voice it
+ * prefers an English voice installed on the device, which needs no network.
+ */
+
+import type { SpeakOptions, SpeechEngine, SpeechVoice } from './SpeechEngine';
+
+// Voices load asynchronously in some browsers; past this we use whatever there is
+const VOICES_TIMEOUT_MS = 1000;
+
+function toSpeechVoice(voice: SpeechSynthesisVoice): SpeechVoice {
+  return { id: voice.voiceURI, name: voice.name, lang: voice.lang, local: voice.localService };
+}
+
+export class WebSpeechEngine implements SpeechEngine {
+  readonly name = 'browser' as const;
+  private finishCurrent: (() => void) | null = null;
+
+  constructor(private lang = 'en-AU') {}
+
+  get supported(): boolean {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window;
+  }
+
+  speak(text: string, options: SpeakOptions = {}): Promise<void> {
+    if (!this.supported) return Promise.reject(new Error('Speech synthesis is not supported in this browser'));
+
+    return this.pickVoice(options.voice).then(voice => new Promise<void>((resolve, reject) => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = voice?.lang || this.lang;
+      if (voice) utterance.voice = voice;
+      utterance.rate = options.rate ?? 1;
+
+      const finish = () => {
+        this.finishCurrent = null;
+        resolve();
+      };
+      this.finishCurrent = finish;
+      utterance.onend = finish;
+      utterance.onerror = event => {
+        // Cancelling reports an error too; that is not a failure
+        if (event.error === 'canceled' || event.error === 'interrupted') {
+          finish();
+        } else {
+          this.finishCurrent = null;
+          reject(new Error(`Speech synthesis failed: ${event.error}`));
+        }
+      };
+      window.speechSynthesis.speak(utterance);
+    }));
+  }
+
+  cancel(): void {
+    if (!this.supported) return;
+    window.speechSynthesis.cancel();
+    this.finishCurrent?.();
+  }
+
+  async voices(): Promise<SpeechVoice[]> {
+    const voices = await this.loadVoices();
+    // Offline voices in the page's language first
+    const language = this.lang.split('-')[0];
+    const rank = (voice: SpeechSynthesisVoice) =>
+      (voice.localService ? 0 : 2) + (voice.lang.toLowerCase().startsWith(language) ? 0 : 1);
+    return [...voices].sort((a, b) => rank(a) - rank(b)).map(toSpeechVoice);
+  }
+
+  private loadVoices(): Promise<SpeechSynthesisVoice[]> {
+    if (!this.supported) return Promise.resolve([]);
+    const synth = window.speechSynthesis;
+    const ready = synth.getVoices();
+    if (ready.length > 0) return Promise.resolve(ready);
+
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        synth.removeEventListener('voiceschanged', done);
+        resolve(synth.getVoices());
+      };
+      const timer = setTimeout(done, VOICES_TIMEOUT_MS);
+      synth.addEventListener('voiceschanged', done);
+    });
+  }
+
+  private async pickVoice(id?: string): Promise<SpeechSynthesisVoice | undefined> {
+    const voices = await this.loadVoices();
+    const chosen = id ? voices.find(voice => voice.voiceURI === id) : undefined;
+    if (chosen) return chosen;
+
+    const language = this.lang.toLowerCase();
+    return voices.find(voice => voice.localService && voice.lang.toLowerCase() === language)
+      ?? voices.find(voice => voice.localService && voice.lang.toLowerCase().startsWith(language.split('-')[0]))
+      ?? voices.find(voice => voice.lang.toLowerCase().startsWith(language.split('-')[0]));
+  }
+}
+
+export default WebSpeechEngine;
@@ -0,0 +1,85 @@
+/**
+ * Creates the speech engine the copilot talks through (browser-side).
+ * NEXT_PUBLIC_COPILOT_TTS_ENGINE overrides the user's choice, e.g. "silent"
+ * in automated tests. The server engine falls back to the device's own voices
+ * when /api/tts is unreachable or unconfigured, so answers are still read
+ * aloud offline.
+ */
+
+import type { SpeakOptions, SpeechEngine, SpeechEngineName, SpeechVoice } from './SpeechEngine';
+import { WebSpeechEngine } from './WebSpeechEngine';
+import { ServerSpeechEngine } from './ServerSpeechEngine';
+import { SilentSpeechEngine } from './SilentSpeechEngine';
+
+/**
+ * Speaks with the primary engine, switching to the fallback for good after the primary fails
+ */
+class FallbackSpeechEngine implements SpeechEngine {
+  private failed = false;
+
+  constructor(private primary: SpeechEngine, private fallback: SpeechEngine) {}
+
+  get name(): SpeechEngineName {
+    return this.failed ? this.fallback.name : this.primary.name;
+  }
+
+  get supported(): boolean {
+    return this.primary.supported || this.fallback.supported;
+  }
+
+  prepare(text: string, options?: SpeakOptions): void {
+    if (!this.failed) this.primary.prepare?.(text, options);
+  }
+
+  async speak(text: string, options: SpeakOptions = {}): Promise<void> {
+    if (!this.failed) {
+      try {
+        return await this.primary.speak(text, options);
+      } catch (error) {
+        console.warn(`${this.primary.name} speech failed; using ${this.fallback.name} speech instead:`, error);
+        this.failed = true;
+        this.primary.cancel();
+      }
+    }
+    // The primary's voice ids mean nothing to the fallback
+    return this.fallback.speak(text, { rate: options.rate });
+  }
+
+  cancel(): void {
+    this.primary.cancel();
+    this.fallback.cancel();
+  }
+
+  voices(): Promise<SpeechVoice[]> {
+    return this.primary.voices();
+  }
+}
+
+function isEngineName(value: unknown): value is SpeechEngineName {
+  return value === 'browser' || value === 'server' || value === 'silent';
+}
+
+export function createSpeechEngine(
+  requested: SpeechEngineName = 'browser',
+  env: Record<string, string | undefined> = { NEXT_PUBLIC_COPILOT_TTS_ENGINE: process.env.NEXT_PUBLIC_COPILOT_TTS_ENGINE }
+): SpeechEngine {
+  const override = env.NEXT_PUBLIC_COPILOT_TTS_ENGINE?.toLowerCase();
+  if (override && !isEngineName(override)) {
+    console.warn(`Unknown NEXT_PUBLIC_COPILOT_TTS_ENGINE "${override}"; using the chosen engine`);
+  }
+  const name = isEngineName(override) ? override : requested;
+
+  const browser = new WebSpeechEngine();
+  switch (name) {
+    case 'silent':
+      return new SilentSpeechEngine();
+    case 'server':
+      return new FallbackSpeechEngine(new ServerSpeechEngine(), browser.supported ? browser : new SilentSpeechEngine());
+    default:
+      if (browser.supported) return browser;
+      console.warn('Speech synthesis is not supported in this browser; copilot answers will not be read aloud');
+      return new SilentSpeechEngine();
+  }
+}
+
+export default createSpeechEngine;
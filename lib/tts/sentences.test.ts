@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'bun:test';
+import { MAX_SPOKEN_CHUNK_LENGTH, createSentenceChunker, speakableText } from './sentences';
+
+// Feeds the text in small deltas, as a model stream would
+function chunk(text: string, deltaLength = 3): string[] {
+  const chunker = createSentenceChunker();
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += deltaLength) chunks.push(...chunker.push(text.slice(i, i + deltaLength)));
+  return [...chunks, ...chunker.flush()];
+}
+
+describe('speakableText', () => {
+  test('drops citations, markdown, URLs and bullets', () => {
+    expect(speakableText('- **Pool** [listing:a] , see https://example.com/x .')).toBe('Pool, see.');
+  });
+});
+
+describe('createSentenceChunker', () => {
+  test('splits at sentence ends once enough text has arrived', () => {
+    expect(chunk('This is the first full sentence. And here is the second one!')).toEqual([
+      'This is the first full sentence.',
+      'And here is the second one!',
+    ]);
+  });
+
+  test('holds short sentences back to speak with the next', () => {
+    expect(chunk('Sure. The home in Bondi is lovely.')).toEqual(['Sure. The home in Bondi is lovely.']);
+  });
+
+  test('does not split decimals or abbreviations', () => {
+    expect(chunk('It is on Campbell Pde. in Bondi for $1.45m, e.g. near St. Kilda Rd. trams. Want a tour of it today?')).toEqual([
+      'It is on Campbell Pde. in Bondi for $1.45m, e.g. near St. Kilda Rd. trams.',
+      'Want a tour of it today?',
+    ]);
+  });
+
+  test('waits for whitespace before ending a sentence', () => {
+    const chunker = createSentenceChunker();
+    expect(chunker.push('The price has dropped to $1.')).toEqual([]);
+    expect(chunker.push('2m since last month. ')).toEqual(['The price has dropped to $1.2m since last month.']);
+  });
+
+  test('treats line breaks as boundaries and strips citations', () => {
+    expect(chunk('Two homes match your search\nThe first is [listing:prop-1] in Bondi')).toEqual([
+      'Two homes match your search',
+      'The first is in Bondi',
+    ]);
+  });
+
+  test('splits run-on text at a comma before it gets too long', () => {
+    const chunks = chunk(`${'word '.repeat(40)}, ${'more '.repeat(40)}`, 20);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(text => expect(text.length).toBeLessThanOrEqual(MAX_SPOKEN_CHUNK_LENGTH + 1));
+  });
+
+  test('flush returns nothing for an empty stream', () => {
+    expect(createSentenceChunker().flush()).toEqual([]);
+  });
+});
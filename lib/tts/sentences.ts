@@ -0,0 +1,98 @@
+/**
+ * Sentence chunking for speech
+ * Model output arrives a few tokens at a time; speaking it sentence by
+ * sentence starts playback early without cutting words or numbers in half.
+ */
+
+import { stripCitations } from '@/lib/copilot-context';
+
+// Words that end in a full stop without ending the sentence, e.g. "St. Kilda"
+const ABBREVIATIONS = new Set([
+  'st', 'rd', 'ave', 'dr', 'mt', 'pde', 'hwy', 'cres', 'ct', 'pl',
+  'mr', 'mrs', 'ms', 'prof', 'approx', 'vs', 'etc', 'e.g', 'i.e',
+]);
+
+// A run of sentence punctuation (with any closing quote or bracket) followed by whitespace, or a line break
+const BOUNDARY = /([.!?…]+["'’”)\]]*)\s+|\n+/g;
+
+// Sentences shorter than this are held back and spoken with the next one
+export const MIN_SPOKEN_CHUNK_LENGTH = 24;
+// Past this a chunk is split at the last comma or space so long run-ons still start promptly
+export const MAX_SPOKEN_CHUNK_LENGTH = 280;
+
+/**
+ * Text as it should be read aloud: no citation markers, markdown or URLs
+ */
+export function speakableText(text: string): string {
+  return stripCitations(text)
+    .replace(/https?:\/\/\S+/g, '')
+    .replace(/[*_`#>]+/g, '')
+    .replace(/^\s*[-•]\s+/gm, '')
+    .replace(/\s+([,.!?;:])/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function endsWithAbbreviation(text: string): boolean {
+  const word = /([A-Za-z]+(?:\.[A-Za-z]+)*)\.$/.exec(text);
+  return word !== null && ABBREVIATIONS.has(word[1].toLowerCase());
+}
+
+// Where to split an over-long chunk: the last comma, else the last space
+function softBreak(text: string): number {
+  const comma = text.lastIndexOf(', ', MAX_SPOKEN_CHUNK_LENGTH);
+  if (comma > MIN_SPOKEN_CHUNK_LENGTH) return comma + 1;
+  const space = text.lastIndexOf(' ', MAX_SPOKEN_CHUNK_LENGTH);
+  return space > 0 ? space : MAX_SPOKEN_CHUNK_LENGTH;
+}
+
+export interface SentenceChunker {
+  /** Adds streamed text; returns the sentences it completed, ready to speak */
+  push(delta: string): string[];
+  /** Returns whatever is left once the stream ends */
+  flush(): string[];
+}
+
+export function createSentenceChunker(minLength = MIN_SPOKEN_CHUNK_LENGTH): SentenceChunker {
+  let buffer = '';
+
+  const take = (end: number): string => {
+    const chunk = buffer.slice(0, end);
+    buffer = buffer.slice(end);
+    return speakableText(chunk);
+  };
+
+  return {
+    push(delta) {
+      buffer += delta;
+      const chunks: string[] = [];
+      let cut = 0;
+
+      BOUNDARY.lastIndex = 0;
+      for (let match = BOUNDARY.exec(buffer); match; match = BOUNDARY.exec(buffer)) {
+        const end = match.index + match[0].length;
+        // "St. Kilda" and "e.g. a pool" aren't sentence ends
+        if (match[1] === '.' && endsWithAbbreviation(buffer.slice(cut, match.index + 1))) continue;
+        // Short sentences wait to be spoken with the next one
+        const chunk = speakableText(buffer.slice(cut, end));
+        if (chunk.length < minLength) continue;
+
+        chunks.push(chunk);
+        cut = end;
+      }
+      buffer = buffer.slice(cut);
+
+      while (buffer.length > MAX_SPOKEN_CHUNK_LENGTH) {
+        const chunk = take(softBreak(buffer));
+        if (chunk) chunks.push(chunk);
+      }
+
+      return chunks;
+    },
+
+    flush() {
+      const chunk = take(buffer.length);
+      return chunk ? [chunk] : [];
+    },
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Speech settings
+ * How the copilot reads its answers aloud, as chosen on the settings page and
+ * kept in localStorage
+ */
+
+import type { SpeechEngineName } from './SpeechEngine';
+
+// The silent engine is for tests, so it isn't offered as a setting
+export type SpeechSettingsEngine = Exclude<SpeechEngineName, 'silent'>;
+
+export interface SpeechSettings {
+  muted: boolean;
+  engine: SpeechSettingsEngine;
+  // A voice id for the chosen engine; the engine's default when unset
+  voice?: string;
+  rate: number;
+}
+
+export const SPEECH_SETTINGS_STORAGE_KEY = 'copilotSpeech';
+export const MIN_SPEECH_RATE = 0.5;
+export const MAX_SPEECH_RATE = 2;
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = { muted: false, engine: 'browser', rate: 1 };
+
+/**
+ * Reads stored settings, keeping only the fields that are still valid
+ */
+export function parseStoredSpeechSettings(stored: string | null): SpeechSettings {
+  if (!stored) return DEFAULT_SPEECH_SETTINGS;
+  try {
+    const parsed = JSON.parse(stored) as Partial<SpeechSettings> | null;
+    if (typeof parsed !== 'object' || parsed === null) return DEFAULT_SPEECH_SETTINGS;
+
+    return {
+      muted: typeof parsed.muted === 'boolean' ? parsed.muted : DEFAULT_SPEECH_SETTINGS.muted,
+      engine: parsed.engine === 'browser' || parsed.engine === 'server' ? parsed.engine : DEFAULT_SPEECH_SETTINGS.engine,
+      voice: typeof parsed.voice === 'string' && parsed.voice ? parsed.voice : undefined,
+      rate: typeof parsed.rate === 'number' && parsed.rate >= MIN_SPEECH_RATE && parsed.rate <= MAX_SPEECH_RATE
+        ? parsed.rate
+        : DEFAULT_SPEECH_SETTINGS.rate,
+    };
+  } catch {
+    return DEFAULT_SPEECH_SETTINGS;
+  }
+}
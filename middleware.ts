@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import {
+  BROWSER_SESSION_COOKIE,
+  BROWSER_SESSION_MAX_AGE_S,
+  createBrowserSession,
+  verifyBrowserSession,
+} from "@/lib/browser-session"
+import { RateLimiter, clientAddress } from "@/lib/rate-limit"
+
+// A browser keeps its cookie for a month, so an address asking for many more
+// is discarding them to reset the per-session limits. Best-effort, like every
+// limiter here: the counts are per server instance.
+const sessionIssueLimiter = new RateLimiter({ limit: 10, windowMs: 60 * 60_000 })
+
+/**
+ * Gives each browser loading a page a signed session cookie, which API routes
+ * that spend money on the visitor's behalf require
+ */
+export async function middleware(req: NextRequest) {
+  const secret = process.env.SESSION_SECRET
+  const response = NextResponse.next()
+  if (!secret || await verifyBrowserSession(req.cookies.get(BROWSER_SESSION_COOKIE)?.value, secret)) {
+    return response
+  }
+  // The page still loads; only the features that need a session are unavailable
+  if (!sessionIssueLimiter.take(clientAddress(req.headers)).allowed) {
+    return response
+  }
+
+  response.cookies.set(BROWSER_SESSION_COOKIE, await createBrowserSession(secret), {
+    httpOnly: true,
+    sameSite: "strict",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: BROWSER_SESSION_MAX_AGE_S,
+  })
+  return response
+}
+
+export const config = {
+  // Pages only: API calls and static assets never start a session
+  matcher: ["/((?!api/|_next/|favicon.ico|.*\\.[\\w]+$).*)"],
+}